@@ -12,9 +12,12 @@ import { MarketplaceDealsPanel } from '@/app/components/admin/MarketplaceDealsPa
 import { AffiliateManager } from '@/app/components/admin/AffiliateManager'
 import { PlacementSettings } from '@/app/components/admin/PlacementSettings'
 import { ClickStats } from '@/app/components/admin/ClickStats'
+import { ExtensionInstallsManager } from '@/app/components/admin/ExtensionInstallsManager'
+import { BrandManager } from '@/app/components/admin/BrandManager'
+import { IngestionJobsManager } from '@/app/components/admin/IngestionJobsManager'
 import { SkeletonLoader } from '@/app/components/SkeletonLoader'
 
-type Tab = 'overview' | 'deals' | 'listings' | 'affiliates' | 'prices' | 'clicks' | 'dispensaries' | 'logs' | 'chat'
+type Tab = 'overview' | 'deals' | 'listings' | 'affiliates' | 'prices' | 'clicks' | 'dispensaries' | 'brands' | 'jobs' | 'extension' | 'logs' | 'chat'
 
 export default function AdminDashboard() {
   const [authenticated, setAuthenticated] = useState<boolean | null>(null)
@@ -217,6 +220,9 @@ export default function AdminDashboard() {
               { id: 'prices' as Tab, label: 'Prices' },
               { id: 'clicks' as Tab, label: 'Clicks' },
               { id: 'dispensaries' as Tab, label: 'Dispensaries' },
+              { id: 'brands' as Tab, label: 'Brands' },
+              { id: 'jobs' as Tab, label: 'Job Queue' },
+              { id: 'extension' as Tab, label: 'Extension' },
               { id: 'logs' as Tab, label: 'Logs' },
               { id: 'chat' as Tab, label: 'AI Assistant' },
             ].map((tab) => (
@@ -246,6 +252,9 @@ export default function AdminDashboard() {
           {activeTab === 'prices' && <PlacementSettings />}
           {activeTab === 'clicks' && <ClickStats />}
           {activeTab === 'dispensaries' && <DispensaryManager />}
+          {activeTab === 'brands' && <BrandManager />}
+          {activeTab === 'jobs' && <IngestionJobsManager />}
+          {activeTab === 'extension' && <ExtensionInstallsManager />}
           {activeTab === 'logs' && <LogsViewer />}
           {activeTab === 'chat' && <GeminiChat />}
         </ErrorBoundary>
@@ -0,0 +1,135 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { supabaseAdmin } from '@/lib/supabase/server'
+import { getAdminSession } from '@/lib/admin-auth'
+import { getAiBudgetStatus, getDailyAiSpend, saveAiBudget } from '@/lib/ai-spend'
+import { addDays, localDate, startOfDay, todayIn } from '@/lib/dates'
+import { success, unauthorized, validationError, serverError } from '@/lib/api-response'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const budgetSchema = z.object({
+  daily_usd: z.number().min(0).nullable(),
+  monthly_usd: z.number().min(0).nullable(),
+  low_yield_ratio: z.number().gt(0).max(1),
+})
+
+/** Dispensaries listed in the spend breakdown */
+const TOP_DISPENSARIES = 10
+
+function round(usd: number): number {
+  return Math.round(usd * 10000) / 10000
+}
+
+/**
+ * GET /api/admin/ai-spend?days=30
+ * AI spend against deals yielded per day, the budget and its state, and spend by dispensary, zone and task.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  const days = Math.min(90, Math.max(1, parseInt(request.nextUrl.searchParams.get('days') || '30', 10) || 30))
+  const since = addDays(todayIn(), 1 - days)
+  const sinceInstant = startOfDay(since).toISOString()
+
+  try {
+    const [status, spend, runsResult, usageResult] = await Promise.all([
+      getAiBudgetStatus(),
+      getDailyAiSpend(since),
+      supabaseAdmin
+        .from('ingestion_runs')
+        .select('dispensary_name, started_at, deals_inserted, ai_cost_usd')
+        .gte('started_at', sinceInstant)
+        .limit(10000), // Prevent unbounded queries - reasonable limit for stats
+      supabaseAdmin
+        .from('ai_usage')
+        .select('task, zone_id, cost_usd')
+        .gte('created_at', sinceInstant)
+        .limit(10000),
+    ])
+    if (runsResult.error) return serverError('Failed to load ingestion runs', runsResult.error)
+    if (usageResult.error) return serverError('Failed to load AI usage', usageResult.error)
+
+    const daily = new Map<string, { day: string; cost_usd: number; calls: number; deals_inserted: number }>()
+    for (let i = 0; i < days; i++) {
+      const day = addDays(since, i)
+      daily.set(day, { day, cost_usd: 0, calls: 0, deals_inserted: 0 })
+    }
+    for (const row of spend) {
+      const entry = daily.get(row.day)
+      if (entry) {
+        entry.cost_usd = round(row.cost_usd)
+        entry.calls = row.calls
+      }
+    }
+
+    const byDispensary = new Map<string, { dispensary_name: string; cost_usd: number; deals_inserted: number; runs: number }>()
+    for (const run of runsResult.data || []) {
+      const entry = daily.get(localDate(run.started_at))
+      if (entry) entry.deals_inserted += run.deals_inserted || 0
+
+      const dispensary = byDispensary.get(run.dispensary_name) || {
+        dispensary_name: run.dispensary_name,
+        cost_usd: 0,
+        deals_inserted: 0,
+        runs: 0,
+      }
+      dispensary.cost_usd += Number(run.ai_cost_usd) || 0
+      dispensary.deals_inserted += run.deals_inserted || 0
+      dispensary.runs++
+      byDispensary.set(run.dispensary_name, dispensary)
+    }
+
+    const byTask: Record<string, number> = {}
+    const zoneSpend = new Map<string, number>()
+    for (const row of usageResult.data || []) {
+      byTask[row.task] = round((byTask[row.task] || 0) + Number(row.cost_usd))
+      if (row.zone_id) zoneSpend.set(row.zone_id, (zoneSpend.get(row.zone_id) || 0) + Number(row.cost_usd))
+    }
+
+    const { data: zones } = zoneSpend.size
+      ? await supabaseAdmin.from('zones').select('id, zip').in('id', [...zoneSpend.keys()])
+      : { data: [] }
+    const zipById = new Map((zones || []).map((zone) => [zone.id, zone.zip]))
+
+    return success({
+      budget: status.budget,
+      state: status.state,
+      spent_today_usd: round(status.spentTodayUsd),
+      spent_month_usd: round(status.spentMonthUsd),
+      daily: [...daily.values()],
+      by_dispensary: [...byDispensary.values()]
+        .filter((row) => row.cost_usd > 0)
+        .sort((a, b) => b.cost_usd - a.cost_usd)
+        .slice(0, TOP_DISPENSARIES)
+        .map((row) => ({ ...row, cost_usd: round(row.cost_usd) })),
+      by_zone: [...zoneSpend.entries()]
+        .map(([zone_id, cost]) => ({ zone_id, zip: zipById.get(zone_id) || null, cost_usd: round(cost) }))
+        .sort((a, b) => b.cost_usd - a.cost_usd),
+      by_task: byTask,
+    })
+  } catch (error) {
+    console.error('AI spend error:', error)
+    return serverError('Failed to load AI spend')
+  }
+}
+
+/**
+ * PUT /api/admin/ai-spend
+ * Set the daily and monthly AI budgets (null for no limit) and the share at which low-yield shops are skipped.
+ */
+export async function PUT(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  try {
+    const budget = budgetSchema.parse(await request.json())
+    return success({ budget: await saveAiBudget(budget) })
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError('Invalid budget', error.errors)
+    console.error('AI spend error:', error)
+    return serverError('Failed to save AI budget')
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { getAdminSession } from '@/lib/admin-auth'
+import {
+  addBrandAlias,
+  blockBrandToken,
+  listBlockedTokens,
+  listBrands,
+  mergeBrands,
+  removeBrandAlias,
+  unblockBrandToken,
+} from '@/lib/brand-admin'
+import { success, unauthorized, validationError, serverError } from '@/lib/api-response'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const actionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('merge'),
+    target_id: z.string().uuid(),
+    source_ids: z.array(z.string().uuid()).min(1),
+  }),
+  z.object({ action: z.literal('add_alias'), brand_id: z.string().uuid(), alias: z.string().min(1) }),
+  z.object({ action: z.literal('remove_alias'), brand_id: z.string().uuid(), alias: z.string().min(1) }),
+  z.object({ action: z.literal('block'), token: z.string().min(1) }),
+  z.object({ action: z.literal('unblock'), id: z.string().uuid() }),
+])
+
+/**
+ * GET /api/admin/brands
+ * Brands with deal counts and aliases, plus the brand blocklist
+ */
+export async function GET() {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  try {
+    const [brands, blocked] = await Promise.all([listBrands(), listBlockedTokens()])
+    return success({ brands, blocked })
+  } catch (error) {
+    console.error('Brands admin API error:', error)
+    return serverError('Failed to load brands')
+  }
+}
+
+/**
+ * POST /api/admin/brands
+ * Merge brands, edit aliases, or block / unblock a token
+ */
+export async function POST(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  let parsed: z.infer<typeof actionSchema>
+  try {
+    parsed = actionSchema.parse(await request.json())
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError('Invalid input', error.errors)
+    return validationError('Invalid JSON')
+  }
+
+  const by = session.email || 'admin'
+  try {
+    switch (parsed.action) {
+      case 'merge': {
+        const result = await mergeBrands(parsed.target_id, parsed.source_ids, by)
+        return success(result, `Moved ${result.dealsMoved} deals and updated ${result.preferencesUpdated} preferences`)
+      }
+      case 'add_alias':
+        await addBrandAlias(parsed.brand_id, parsed.alias, by)
+        return success({ ok: true })
+      case 'remove_alias':
+        await removeBrandAlias(parsed.brand_id, parsed.alias)
+        return success({ ok: true })
+      case 'block': {
+        const result = await blockBrandToken(parsed.token, by)
+        return success(result)
+      }
+      case 'unblock':
+        await unblockBrandToken(parsed.id)
+        return success({ ok: true })
+    }
+  } catch (error) {
+    console.error('Brands admin API error:', error)
+    return serverError(error instanceof Error ? error.message : 'Brand update failed')
+  }
+}
@@ -1,10 +1,12 @@
 import { NextRequest } from 'next/server'
 import { getAdminSession } from '@/lib/admin-auth'
-import { createGoogleGenerativeAI } from '@ai-sdk/google'
 import { generateText, tool } from 'ai'
 import { z } from 'zod'
 import { supabaseAdmin } from '@/lib/supabase/server'
+import { addDays, todayIn } from '@/lib/dates'
+import { revalidateDeals } from '@/lib/deal-cache'
 import { geocodeZip } from '@/lib/geocoding'
+import { runAiTask } from '@/lib/ai-provider'
 import * as Sentry from "@sentry/nextjs"
 import {
   success,
@@ -31,12 +33,12 @@ The app uses a 3-step ingestion process:
 1. **Fetch**: Download flyer images/PDFs from dispensary URLs (Weedmaps, websites)
 2. **OCR**: Extract text using Gemini Vision API (gemini-2.5-flash-image model)
    - OCR results are cached in deal_flyers table (ocr_text, ocr_text_hash)
-   - If OCR text is too short (<50 chars), creates summary entry instead
+   - If OCR text is too short (<50 chars), lists the flyer itself instead (flyer_listings)
 3. **Parse**: Use Gemini 1.5 Flash to extract structured deal data
    - Extracts: category, title, brand, product_name, price_text, confidence
    - Filters deals with confidence < 0.5
    - Quality checks: duplicate detection, validation, review flagging
-   - Low confidence deals become summary entries
+   - Low confidence deals are not published; the flyer is listed instead
 
 **Database Schema:**
 - users: email-based accounts (no passwords, created via Stripe webhook)
@@ -45,6 +47,7 @@ The app uses a 3-step ingestion process:
 - deals: extracted deal listings with quality metadata
 - dispensaries: dispensary configs (name, city, zip, flyer_url, weedmaps_url, active status)
 - deal_flyers: flyer tracking (file_path, source_url, hash, ocr_text, deals_extracted)
+- flyer_listings: "See today's flyer" cards for flyers whose deals could not be parsed (kept out of deals)
 - deal_reviews: manual review queue for flagged deals
 - email_logs: email delivery tracking
 
@@ -106,24 +109,6 @@ export async function POST(request: NextRequest) {
       return validationError('Messages array required')
     }
 
-    // Prefer Vercel AI Gateway (for rate limit protection), fallback to direct Gemini API
-    const geminiApiKey = process.env.GEMINI_API_KEY
-    const gatewayApiKey = process.env.AI_GATEWAY_API_KEY
-    const apiKey = gatewayApiKey || geminiApiKey
-    
-    if (!apiKey) {
-      return serverError('GEMINI_API_KEY or AI_GATEWAY_API_KEY is required')
-    }
-
-    const baseURL = gatewayApiKey ? (process.env.AI_GATEWAY_URL || 'https://gateway.vercel.ai/v1') : undefined
-
-    const google = createGoogleGenerativeAI({
-      apiKey,
-      ...(baseURL && { baseURL }), // Only use baseURL for gateway, not direct API
-    })
-
-    const model = google('gemini-1.5-flash')
-
     // Define tools (functions) the assistant can call
     const tools = {
       add_dispensary: tool({
@@ -232,20 +217,19 @@ export async function POST(request: NextRequest) {
             }
 
             // Get recent deals count
-            const sevenDaysAgo = new Date()
-            sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7)
+            const sevenDaysAgo = addDays(todayIn(), -7)
             const { count: recentDeals } = await supabaseAdmin
               .from('deals')
               .select('*', { count: 'exact', head: true })
               .eq('dispensary_name', name)
-              .gte('date', sevenDaysAgo.toISOString().split('T')[0])
+              .gte('date', sevenDaysAgo)
 
             // Get recent flyers
             const { data: recentFlyers } = await supabaseAdmin
               .from('deal_flyers')
               .select('date, deals_extracted, processed_at')
               .eq('dispensary_name', name)
-              .gte('date', sevenDaysAgo.toISOString().split('T')[0])
+              .gte('date', sevenDaysAgo)
               .order('date', { ascending: false })
               .limit(7)
 
@@ -289,6 +273,7 @@ export async function POST(request: NextRequest) {
                   reviewed_by: reviewedBy,
                 })
                 .eq('id', review.deal_id)
+              revalidateDeals()
 
               await supabaseAdmin
                 .from('deal_reviews')
@@ -330,6 +315,7 @@ export async function POST(request: NextRequest) {
                   reviewed_by: reviewedBy,
                 })
                 .eq('id', review.deal_id)
+              revalidateDeals()
 
               await supabaseAdmin
                 .from('deal_reviews')
@@ -358,9 +344,7 @@ export async function POST(request: NextRequest) {
         }),
         execute: async ({ days = 30 }: { days?: number }) => {
           try {
-            const startDate = new Date()
-            startDate.setDate(startDate.getDate() - days)
-            const startDateStr = startDate.toISOString().split('T')[0]
+            const startDateStr = addDays(todayIn(), -days)
 
             const { count: totalUsers } = await supabaseAdmin
               .from('users')
@@ -408,7 +392,7 @@ export async function POST(request: NextRequest) {
         inputSchema: getOcrStatusSchema,
         execute: async ({ dispensary_name, date }) => {
           try {
-            const targetDate = date || new Date().toISOString().split('T')[0]
+            const targetDate = date || todayIn()
 
             const { data: flyer, error: flyerError } = await supabaseAdmin
               .from('deal_flyers')
@@ -458,9 +442,7 @@ export async function POST(request: NextRequest) {
         }),
         execute: async ({ days = 7 }: { days?: number }) => {
           try {
-            const startDate = new Date()
-            startDate.setDate(startDate.getDate() - days)
-            const startDateStr = startDate.toISOString().split('T')[0]
+            const startDateStr = addDays(todayIn(), -days)
 
             const { data: flyers } = await supabaseAdmin
               .from('deal_flyers')
@@ -489,30 +471,33 @@ export async function POST(request: NextRequest) {
       },
       async (span) => {
         span.setAttribute("message_count", messages.length);
-        span.setAttribute("using_gateway", !!gatewayApiKey);
         span.setAttribute("tool_count", Object.keys(tools).length);
 
         try {
-          const result = await generateText({
-            model,
-            system: SYSTEM_PROMPT,
-            messages: messages.map((msg: any) => ({
-              role: msg.role,
-              content: msg.content,
-            })),
-            tools,
-            // Note: maxSteps/maxToolRoundtrips may not be available in all AI SDK versions
-            // Tools will still work, but may require multiple turns for complex operations
-          });
+          const { result, model } = await runAiTask('admin_chat', (model, abortSignal) =>
+            generateText({
+              model,
+              system: SYSTEM_PROMPT,
+              messages: messages.map((msg: any) => ({
+                role: msg.role,
+                content: msg.content,
+              })),
+              tools,
+              abortSignal,
+              // Note: maxSteps/maxToolRoundtrips may not be available in all AI SDK versions
+              // Tools will still work, but may require multiple turns for complex operations
+            })
+          );
 
           span.setAttribute("usage_tokens", result.usage?.totalTokens || 0);
           span.setAttribute("tool_calls_count", result.toolCalls?.length || 0);
+          span.setAttribute("model", model);
 
           const { logger } = Sentry;
           logger.info("Admin chat completed", {
             messageCount: messages.length,
             toolCallsCount: result.toolCalls?.length || 0,
-            usingGateway: !!gatewayApiKey,
+            model,
           });
 
           return result;
@@ -525,7 +510,6 @@ export async function POST(request: NextRequest) {
           const { logger } = Sentry;
           logger.error("Admin chat failed", {
             messageCount: messages.length,
-            usingGateway: !!gatewayApiKey,
             error: errorMessage,
           });
 
@@ -535,7 +519,6 @@ export async function POST(request: NextRequest) {
             },
             extra: {
               messageCount: messages.length,
-              usingGateway: !!gatewayApiKey,
             },
           });
 
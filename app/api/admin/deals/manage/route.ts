@@ -2,6 +2,9 @@ import { NextRequest } from 'next/server'
 import { z } from 'zod'
 import { supabaseAdmin } from '@/lib/supabase/server'
 import { getAdminSession } from '@/lib/admin-auth'
+import { dealPricingColumns } from '@/lib/pricing'
+import { dealCategoryColumns, dealCategorySchema } from '@/lib/categories'
+import { revalidateDeals } from '@/lib/deal-cache'
 import { success, unauthorized, validationError, serverError } from '@/lib/api-response'
 
 export const dynamic = 'force-dynamic'
@@ -14,7 +17,7 @@ const schema = z.object({
     .object({
       title: z.string().optional(),
       description: z.string().optional(),
-      category: z.string().optional(),
+      category: dealCategorySchema.optional(),
       end_date: z.string().optional(),
       menu_url: z.string().optional(),
       city: z.string().optional(),
@@ -63,10 +66,26 @@ export async function POST(request: NextRequest) {
       Object.assign(patch, { sponsored: false })
     } else if (parsed.action === 'edit' && parsed.edits) {
       Object.assign(patch, parsed.edits)
+      // Pack sizes and subcategories often live in the title ("3 for $50 eighths"), so re-derive them on edits
+      if (parsed.edits.title || parsed.edits.category) {
+        const { data: current } = await supabaseAdmin
+          .from('deals')
+          .select('title, category, price_text, regular_price, deal_price')
+          .eq('id', parsed.deal_id)
+          .maybeSingle()
+        if (current) {
+          const edited = { ...current, ...parsed.edits, title: parsed.edits.title || current.title }
+          if (parsed.edits.title) {
+            Object.assign(patch, dealPricingColumns(edited))
+          }
+          Object.assign(patch, dealCategoryColumns(edited))
+        }
+      }
     }
 
     const { error } = await supabaseAdmin.from('deals').update(patch).eq('id', parsed.deal_id)
     if (error) return serverError('Update failed', error)
+    revalidateDeals()
 
     await supabaseAdmin
       .from('deal_submissions')
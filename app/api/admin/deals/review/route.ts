@@ -2,6 +2,11 @@ import { NextRequest } from 'next/server'
 import { z } from 'zod'
 import { supabaseAdmin } from '@/lib/supabase/server'
 import { getAdminSession } from '@/lib/admin-auth'
+import { recordInstallReviewOutcome } from '@/lib/extension-installs'
+import { recordParseCorrection } from '@/lib/parse-hints'
+import { dealPricingColumns } from '@/lib/pricing'
+import { dealCategoryColumns, dealCategorySchema } from '@/lib/categories'
+import { revalidateDeals } from '@/lib/deal-cache'
 import {
   success,
   unauthorized,
@@ -15,14 +20,35 @@ export const runtime = 'nodejs'
 
 const reviewActionSchema = z.object({
   review_id: z.string().uuid(),
-  action: z.enum(['approve', 'reject', 'fix']),
+  action: z.enum(['approve', 'reject', 'fix', 'merge']),
   notes: z.string().optional(),
   reviewed_by: z.string().email().optional(),
+  // Corrections applied with 'fix'; kept as a parsing example for the deal's dispensary
+  edits: z
+    .object({
+      title: z.string().trim().min(1).optional(),
+      category: dealCategorySchema.optional(),
+      price_text: z.string().trim().min(1).optional(),
+    })
+    .optional(),
 })
 
+const REVIEW_DEAL_FIELDS = `
+  id,
+  dispensary_name,
+  city,
+  date,
+  category,
+  title,
+  price_text,
+  confidence,
+  source_url,
+  image
+`
+
 /**
  * GET /api/admin/deals/review
- * List pending deal reviews
+ * List pending deal reviews. Possible duplicates include the existing deal and its sources for a side-by-side view.
  */
 export async function GET(request: NextRequest) {
   // Check admin session
@@ -41,16 +67,11 @@ export async function GET(request: NextRequest) {
         status,
         notes,
         created_at,
-        deals (
-          id,
-          dispensary_name,
-          city,
-          date,
-          category,
-          title,
-          price_text,
-          confidence,
-          source_url
+        duplicate_of_deal_id,
+        deals!deal_id ( ${REVIEW_DEAL_FIELDS} ),
+        duplicate_of:deals!duplicate_of_deal_id (
+          ${REVIEW_DEAL_FIELDS},
+          deal_sources ( id, source_type, source_url, title, price_text, seen_on, similarity )
         )
       `)
       .eq('status', 'pending')
@@ -70,7 +91,7 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/admin/deals/review
- * Approve, reject, or fix a deal review
+ * Approve, reject, or fix a deal review, or merge a possible duplicate into the deal it duplicates
  */
 export async function POST(request: NextRequest) {
   // Check admin session
@@ -86,7 +107,7 @@ export async function POST(request: NextRequest) {
     // Get the review
     const { data: review, error: reviewError } = await supabaseAdmin
       .from('deal_reviews')
-      .select('deal_id, status')
+      .select('deal_id, status, duplicate_of_deal_id, deals!deal_id ( source_install_id )')
       .eq('id', validated.review_id)
       .eq('status', 'pending')
       .single()
@@ -97,9 +118,13 @@ export async function POST(request: NextRequest) {
 
     const reviewedBy = validated.reviewed_by || process.env.ADMIN_EMAIL || 'system'
 
+    // Deals captured by the Chrome extension feed the capturing install's trust score once the
+    // approve/reject write succeeds; fixed and merged captures leave it unchanged
+    const sourceInstallId = (review.deals as { source_install_id?: string | null } | null)?.source_install_id
+
     if (validated.action === 'approve') {
       // Approve the deal - remove review flag
-      await supabaseAdmin
+      const { error: approveError } = await supabaseAdmin
         .from('deals')
         .update({
           needs_review: false,
@@ -107,6 +132,9 @@ export async function POST(request: NextRequest) {
           reviewed_by: reviewedBy,
         })
         .eq('id', review.deal_id)
+      if (approveError) return serverError('Failed to approve deal', approveError)
+      revalidateDeals()
+      if (sourceInstallId) await recordInstallReviewOutcome(sourceInstallId, 'approved')
 
       // Update review status
       await supabaseAdmin
@@ -122,13 +150,15 @@ export async function POST(request: NextRequest) {
       return success({ ok: true, action: 'approved' })
     } else if (validated.action === 'reject') {
       // Reject the deal - mark as reviewed but keep needs_review flag
-      await supabaseAdmin
+      const { error: rejectError } = await supabaseAdmin
         .from('deals')
         .update({
           reviewed_at: new Date().toISOString(),
           reviewed_by: reviewedBy,
         })
         .eq('id', review.deal_id)
+      if (rejectError) return serverError('Failed to reject deal', rejectError)
+      if (sourceInstallId) await recordInstallReviewOutcome(sourceInstallId, 'rejected')
 
       // Update review status
       await supabaseAdmin
@@ -143,28 +173,87 @@ export async function POST(request: NextRequest) {
 
       return success({ ok: true, action: 'rejected' })
     } else if (validated.action === 'fix') {
-      // Deal was fixed - remove review flag
+      // Deal was fixed - apply the corrections and remove review flag
+      const patch: Record<string, unknown> = {
+        needs_review: false,
+        reviewed_at: new Date().toISOString(),
+        reviewed_by: reviewedBy,
+      }
+
+      let hintRecorded = false
+      const edits = validated.edits
+      if (edits && (edits.title || edits.category || edits.price_text)) {
+        const { data: current } = await supabaseAdmin
+          .from('deals')
+          .select('dispensary_id, title, category, price_text, regular_price, deal_price')
+          .eq('id', review.deal_id)
+          .maybeSingle()
+        if (current) {
+          const edited = { ...current, ...edits }
+          Object.assign(patch, edits, dealCategoryColumns(edited))
+          if (edits.title || edits.price_text) Object.assign(patch, dealPricingColumns(edited))
+
+          if (current.dispensary_id) {
+            try {
+              hintRecorded = await recordParseCorrection(
+                current.dispensary_id,
+                { category: current.category, title: current.title, price_text: current.price_text },
+                { category: edited.category, title: edited.title, price_text: edited.price_text }
+              )
+            } catch (error) {
+              console.error('Failed to record parse correction:', error)
+            }
+          }
+        }
+      }
+
+      await supabaseAdmin.from('deals').update(patch).eq('id', review.deal_id)
+      revalidateDeals()
+
+      // Update review status
+      await supabaseAdmin
+        .from('deal_reviews')
+        .update({
+          status: 'fixed',
+          reviewed_at: new Date().toISOString(),
+          reviewed_by: reviewedBy,
+          notes: validated.notes,
+        })
+        .eq('id', validated.review_id)
+
+      return success({ ok: true, action: 'fixed', hint_recorded: hintRecorded })
+    } else if (validated.action === 'merge') {
+      if (!review.duplicate_of_deal_id) {
+        return validationError('This review has no duplicate to merge into')
+      }
+
+      // The flagged deal's provenance moves to the canonical deal; the copy itself is retired
+      await supabaseAdmin
+        .from('deal_sources')
+        .update({ deal_id: review.duplicate_of_deal_id })
+        .eq('deal_id', review.deal_id)
+
       await supabaseAdmin
         .from('deals')
         .update({
-          needs_review: false,
+          status: 'rejected',
           reviewed_at: new Date().toISOString(),
           reviewed_by: reviewedBy,
         })
         .eq('id', review.deal_id)
+      revalidateDeals()
 
-      // Update review status
       await supabaseAdmin
         .from('deal_reviews')
         .update({
-          status: 'fixed',
+          status: 'rejected',
           reviewed_at: new Date().toISOString(),
           reviewed_by: reviewedBy,
-          notes: validated.notes,
+          notes: validated.notes || `Merged into ${review.duplicate_of_deal_id}`,
         })
         .eq('id', validated.review_id)
 
-      return success({ ok: true, action: 'fixed' })
+      return success({ ok: true, action: 'merged' })
     }
 
     return validationError('Invalid action')
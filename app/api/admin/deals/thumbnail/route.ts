@@ -0,0 +1,80 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { getAdminSession } from '@/lib/admin-auth'
+import { dealCropSource, recropDealThumbnail } from '@/lib/deal-thumbnails'
+import { success, unauthorized, validationError, notFound, serverError } from '@/lib/api-response'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const PDF_FLYER_MESSAGE = 'This deal comes from a PDF flyer; thumbnails can only be cropped from image flyers'
+
+const boxCoordinate = z.number().int().min(0).max(1000)
+
+const recropSchema = z
+  .object({
+    deal_id: z.string().uuid(),
+    page: z.number().int().min(0),
+    box: z.tuple([boxCoordinate, boxCoordinate, boxCoordinate, boxCoordinate]),
+  })
+  .refine((value) => value.box[0] < value.box[2] && value.box[1] < value.box[3], {
+    message: 'Box must be [ymin, xmin, ymax, xmax] with min < max',
+    path: ['box'],
+  })
+
+/**
+ * GET /api/admin/deals/thumbnail?deal_id=...&page=0
+ * A page of the flyer a deal was parsed from, with the box its thumbnail is cropped from
+ */
+export async function GET(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  const dealId = z.string().uuid().safeParse(request.nextUrl.searchParams.get('deal_id'))
+  if (!dealId.success) return validationError('deal_id is required')
+  const pageParam = request.nextUrl.searchParams.get('page')
+  const page = pageParam === null ? undefined : Number(pageParam)
+  if (page !== undefined && (!Number.isInteger(page) || page < 0)) return validationError('Invalid page')
+
+  try {
+    const source = await dealCropSource(dealId.data, page)
+    if (!source) return notFound('No stored flyer image for this deal')
+    if (source === 'pdf') return validationError(PDF_FLYER_MESSAGE)
+    return success({
+      page: source.page,
+      page_count: source.pageCount,
+      image: source.image,
+      box: source.box,
+    })
+  } catch (error) {
+    console.error('Thumbnail API error:', error)
+    return serverError(error instanceof Error ? error.message : 'Failed to load flyer')
+  }
+}
+
+/**
+ * POST /api/admin/deals/thumbnail
+ * Save a box drawn by an admin and re-crop the deal's thumbnail from it
+ */
+export async function POST(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  let parsed: z.infer<typeof recropSchema>
+  try {
+    parsed = recropSchema.parse(await request.json())
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError('Invalid input', error.errors)
+    return validationError('Invalid JSON')
+  }
+
+  try {
+    const image = await recropDealThumbnail(parsed.deal_id, { page: parsed.page, box: parsed.box })
+    if (!image) return notFound('No stored flyer image for this deal')
+    if (image === 'pdf') return validationError(PDF_FLYER_MESSAGE)
+    return success({ image }, 'Thumbnail re-cropped')
+  } catch (error) {
+    console.error('Thumbnail API error:', error)
+    return serverError(error instanceof Error ? error.message : 'Re-crop failed')
+  }
+}
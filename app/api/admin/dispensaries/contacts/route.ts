@@ -0,0 +1,108 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { supabaseAdmin } from '@/lib/supabase/server'
+import { getAdminSession } from '@/lib/admin-auth'
+import { success, unauthorized, validationError, notFound, serverError } from '@/lib/api-response'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const postSchema = z.object({
+  dispensary_id: z.string().uuid(),
+  email: z.string().trim().email(),
+  name: z.string().trim().max(200).optional(),
+})
+
+/**
+ * GET /api/admin/dispensaries/contacts?dispensary_id=
+ * A dispensary's contacts and the emails they sent us most recently.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  const dispensaryId = request.nextUrl.searchParams.get('dispensary_id')
+  if (!dispensaryId || !z.string().uuid().safeParse(dispensaryId).success) {
+    return validationError('dispensary_id is required')
+  }
+
+  try {
+    const [{ data: contacts, error }, { data: emails }] = await Promise.all([
+      supabaseAdmin
+        .from('dispensary_contacts')
+        .select('id, email, name, verified_at, verified_by, created_at')
+        .eq('dispensary_id', dispensaryId)
+        .order('created_at', { ascending: true }),
+      supabaseAdmin
+        .from('inbound_emails')
+        .select('id, from_email, subject, status, attachments, deals_extracted, reply_sent, error, created_at')
+        .eq('dispensary_id', dispensaryId)
+        .order('created_at', { ascending: false })
+        .limit(10),
+    ])
+    if (error) return serverError('Failed to load contacts', error)
+
+    return success({ contacts: contacts || [], emails: emails || [] })
+  } catch (error) {
+    console.error('Dispensary contacts error:', error)
+    return serverError('Failed to load contacts')
+  }
+}
+
+/**
+ * POST /api/admin/dispensaries/contacts
+ * Add a verified contact: emails from this address are accepted as the dispensary's deals.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  try {
+    const { dispensary_id, email, name } = postSchema.parse(await request.json())
+
+    const { data: dispensary, error } = await supabaseAdmin
+      .from('dispensaries')
+      .select('id')
+      .eq('id', dispensary_id)
+      .maybeSingle()
+    if (error) return serverError('Failed to load dispensary', error)
+    if (!dispensary) return notFound('Dispensary not found')
+
+    const { data: contact, error: saveError } = await supabaseAdmin
+      .from('dispensary_contacts')
+      .upsert(
+        {
+          dispensary_id,
+          email: email.toLowerCase(),
+          name: name || null,
+          verified_at: new Date().toISOString(),
+          verified_by: session.email || null,
+        },
+        { onConflict: 'dispensary_id,email' }
+      )
+      .select('id, email, name, verified_at, verified_by, created_at')
+      .single()
+    if (saveError) return serverError('Failed to save contact', saveError)
+
+    return success({ contact })
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError('Invalid input', error.errors)
+    console.error('Dispensary contacts error:', error)
+    return serverError('Failed to save contact')
+  }
+}
+
+/**
+ * DELETE /api/admin/dispensaries/contacts?id=
+ */
+export async function DELETE(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  const id = request.nextUrl.searchParams.get('id')
+  if (!id || !z.string().uuid().safeParse(id).success) return validationError('id is required')
+
+  const { error } = await supabaseAdmin.from('dispensary_contacts').delete().eq('id', id)
+  if (error) return serverError('Failed to remove contact', error)
+  return success({ removed: true })
+}
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { supabaseAdmin } from '@/lib/supabase/server'
+import { getAdminSession } from '@/lib/admin-auth'
+import { discoverDealsPage } from '@/lib/deals-page-crawler'
+import { recordDealsPageCrawl } from '@/lib/ingest-deals'
+import { success, unauthorized, validationError, notFound, serverError } from '@/lib/api-response'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const schema = z.object({
+  id: z.string().uuid(),
+})
+
+/**
+ * POST /api/admin/dispensaries/crawl
+ * Crawl a dispensary's website for its deals page and store the ranked candidates.
+ * Does not change deals_url: that is set when a candidate produces deals, or by hand.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  try {
+    const { id } = schema.parse(await request.json())
+
+    const { data: dispensary, error } = await supabaseAdmin
+      .from('dispensaries')
+      .select('name, website')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) return serverError('Failed to load dispensary', error)
+    if (!dispensary) return notFound('Dispensary not found')
+    if (!dispensary.website) return validationError('Dispensary has no website to crawl')
+
+    const crawl = await discoverDealsPage(dispensary.website)
+    await recordDealsPageCrawl(dispensary.name, crawl)
+
+    return success(crawl)
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError('Invalid input', error.errors)
+    console.error('Deals page crawl error:', error)
+    return serverError('Crawl failed')
+  }
+}
@@ -0,0 +1,22 @@
+import { getAdminSession } from '@/lib/admin-auth'
+import { listFetchProblems } from '@/lib/polite-fetch'
+import { success, unauthorized, serverError } from '@/lib/api-response'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/admin/dispensaries/fetch-problems
+ * Dispensary URLs whose last fetch failed or was blocked (robots.txt, 401/403, 429)
+ */
+export async function GET() {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  try {
+    return success({ problems: await listFetchProblems() })
+  } catch (error) {
+    console.error('Fetch problems API error:', error)
+    return serverError('Failed to load fetch problems')
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { supabaseAdmin } from '@/lib/supabase/server'
+import { getAdminSession } from '@/lib/admin-auth'
+import { dealCategorySchema } from '@/lib/categories'
+import { getDispensaryParseHints, saveDispensaryParseHints, MAX_EXAMPLES } from '@/lib/parse-hints'
+import { success, unauthorized, validationError, notFound, serverError } from '@/lib/api-response'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const hintDealSchema = z.object({
+  category: z.string().min(1),
+  title: z.string().min(1),
+  price_text: z.string().min(1),
+})
+
+const putSchema = z.object({
+  id: z.string().uuid(),
+  notes: z.string().max(2000).nullable(),
+  category_remaps: z
+    .array(z.object({ term: z.string().trim().min(1).max(100), category: dealCategorySchema }))
+    .max(30),
+  ignore_patterns: z.array(z.string().max(200)).max(30),
+  examples: z
+    .array(z.object({ before: hintDealSchema, after: hintDealSchema, captured_at: z.string() }))
+    .max(MAX_EXAMPLES),
+})
+
+/**
+ * GET /api/admin/dispensaries/parse-hints?id=
+ * A dispensary's parsing hints: notes, category remaps, ignore patterns and corrected examples.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  const id = request.nextUrl.searchParams.get('id')
+  if (!id || !z.string().uuid().safeParse(id).success) return validationError('id is required')
+
+  try {
+    return success({ hints: await getDispensaryParseHints(id) })
+  } catch (error) {
+    console.error('Parse hints error:', error)
+    return serverError('Failed to load parse hints')
+  }
+}
+
+/**
+ * PUT /api/admin/dispensaries/parse-hints
+ * Replace a dispensary's parsing hints. Examples can be removed here; new ones come from review fixes.
+ */
+export async function PUT(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  try {
+    const { id, ...hints } = putSchema.parse(await request.json())
+
+    const { data: dispensary, error } = await supabaseAdmin.from('dispensaries').select('id').eq('id', id).maybeSingle()
+    if (error) return serverError('Failed to load dispensary', error)
+    if (!dispensary) return notFound('Dispensary not found')
+
+    return success({ hints: await saveDispensaryParseHints(id, hints) })
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError('Invalid input', error.errors)
+    console.error('Parse hints error:', error)
+    return serverError('Failed to save parse hints')
+  }
+}
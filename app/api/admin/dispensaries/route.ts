@@ -1,8 +1,11 @@
 import { NextRequest } from 'next/server'
 import { z } from 'zod'
 import { supabaseAdmin } from '@/lib/supabase/server'
+import { addDays, isValidTimezone, todayIn } from '@/lib/dates'
 import { geocodeZip } from '@/lib/geocoding'
+import { revalidateDeals } from '@/lib/deal-cache'
 import { getAdminSession } from '@/lib/admin-auth'
+import { reactivateDispensary } from '@/lib/ingest-deals'
 import {
   success,
   unauthorized,
@@ -21,6 +24,8 @@ const dispensarySchema = z.object({
   state: z.string().default('MI'),
   weedmaps_url: z.string().url().optional(),
   flyer_url: z.string().url().optional(),
+  deals_url: z.string().url().optional(),
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').nullable().optional(),
   active: z.boolean().default(true),
 })
 
@@ -57,7 +62,7 @@ export async function GET(request: NextRequest) {
           .from('deals')
           .select('id', { count: 'exact', head: true })
           .eq('dispensary_name', disp.name)
-          .gte('date', new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0])
+          .gte('date', addDays(todayIn(), -7))
 
         return {
           ...disp,
@@ -109,6 +114,7 @@ export async function POST(request: NextRequest) {
         state: validated.state,
         weedmaps_url: validated.weedmaps_url,
         flyer_url: validated.flyer_url,
+        deals_url: validated.deals_url,
         active: validated.active,
         latitude,
         longitude,
@@ -137,7 +143,8 @@ export async function POST(request: NextRequest) {
 
 /**
  * PUT /api/admin/dispensaries
- * Update an existing dispensary
+ * Update an existing dispensary. Turning an inactive dispensary back on clears its
+ * deactivation record and resets its success rate.
  */
 export async function PUT(request: NextRequest) {
   // Check admin session
@@ -152,6 +159,17 @@ export async function PUT(request: NextRequest) {
 
     const { id, ...updates } = validated
 
+    if (updates.active === true) {
+      const { data: current } = await supabaseAdmin
+        .from('dispensaries')
+        .select('active')
+        .eq('id', id)
+        .maybeSingle()
+      if (current && current.active === false) {
+        await reactivateDispensary(id)
+      }
+    }
+
     // Build update object with geocoding if zip is updated
     const updateData: Record<string, any> = {
       ...updates,
@@ -182,6 +200,8 @@ export async function PUT(request: NextRequest) {
     if (!data) {
       return notFound('Dispensary not found')
     }
+    // Deal cards show the dispensary's name, logo and timezone
+    revalidateDeals()
 
     return success({ dispensary: data })
   } catch (error) {
@@ -216,6 +236,9 @@ export async function DELETE(request: NextRequest) {
       .from('dispensaries')
       .update({
         active: false,
+        deactivated_at: new Date().toISOString(),
+        deactivated_by_run_id: null,
+        deactivation_reason: `Deactivated manually${session.email ? ` by ${session.email}` : ''}`,
         updated_at: new Date().toISOString(),
       })
       .eq('id', id)
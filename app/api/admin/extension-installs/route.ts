@@ -0,0 +1,97 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { supabaseAdmin } from '@/lib/supabase/server'
+import { getAdminSession } from '@/lib/admin-auth'
+import { issueInstallKey, listInstalls, revokeInstall } from '@/lib/extension-installs'
+import { success, unauthorized, validationError, serverError } from '@/lib/api-response'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const issueSchema = z.object({
+  label: z.string().min(1),
+  daily_quota: z.number().int().min(1).max(100000).optional(),
+})
+
+const updateSchema = z.object({
+  id: z.string().uuid(),
+  daily_quota: z.number().int().min(1).max(100000),
+})
+
+/**
+ * GET /api/admin/extension-installs
+ * List extension installs with quota and trust stats
+ */
+export async function GET() {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  try {
+    const installs = await listInstalls()
+    return success({ installs, min_version: process.env.EXTENSION_MIN_VERSION || null })
+  } catch (error) {
+    console.error('Extension installs API error:', error)
+    return serverError('Failed to load installs')
+  }
+}
+
+/**
+ * POST /api/admin/extension-installs
+ * Issue a new per-install key. The plaintext key is returned once and never stored.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  try {
+    const parsed = issueSchema.parse(await request.json())
+    const { install, apiKey } = await issueInstallKey(parsed.label, parsed.daily_quota)
+    return success({ install, api_key: apiKey }, 'Copy this key now; it will not be shown again')
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError('Invalid input', error.errors)
+    console.error('Extension installs API error:', error)
+    return serverError('Failed to issue key')
+  }
+}
+
+/**
+ * PUT /api/admin/extension-installs
+ * Change an install's daily capture quota
+ */
+export async function PUT(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  try {
+    const parsed = updateSchema.parse(await request.json())
+    const { error } = await supabaseAdmin
+      .from('extension_installs')
+      .update({ daily_quota: parsed.daily_quota })
+      .eq('id', parsed.id)
+    if (error) return serverError('Update failed', error)
+    return success({ ok: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError('Invalid input', error.errors)
+    return serverError('Update failed')
+  }
+}
+
+/**
+ * DELETE /api/admin/extension-installs?id=
+ * Revoke an install's key without affecting other installs
+ */
+export async function DELETE(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  const id = request.nextUrl.searchParams.get('id')
+  if (!id) return validationError('Install ID required')
+
+  try {
+    await revokeInstall(id)
+    return success({ ok: true })
+  } catch (error) {
+    console.error('Extension installs API error:', error)
+    return serverError('Failed to revoke install')
+  }
+}
@@ -3,6 +3,9 @@ import { z } from 'zod'
 import { getAdminSession } from '@/lib/admin-auth'
 import { supabaseAdmin } from '@/lib/supabase/server'
 import { updateDispensaryStats } from '@/lib/ingest-deals'
+import { runWebsitePipeline, runFlyerPipeline, stopReasonStatus } from '@/lib/ingest-pipeline'
+import { beginIngestionRun } from '@/lib/ingestion-runs'
+import { withAiSpendContext } from '@/lib/ai-spend'
 import { success, unauthorized, validationError, serverError } from '@/lib/api-response'
 
 export const dynamic = 'force-dynamic'
@@ -23,13 +26,13 @@ const schema = z.object({
  * POST /api/admin/ingest-url
  * Admin-only: Ingest deals from a URL tied to a dispensary.
  *
- * - HTML deal pages (e.g. https://bowdega.com/deals): use website-deals (1 Gemini call to
+ * - HTML deal pages (e.g. https://bowdega.com/deals): use the website stage (1 Gemini call to
  *   extract from HTML). Saves cost vs fetch→OCR→parse and works correctly for direct site URLs.
  * - Image/PDF flyers (.pdf, .png, .jpg, .jpeg, .webp, .gif): use fetch → OCR → parse (2 AI calls).
  *
  * Body: source_url (required), and either dispensary_id or dispensary_name.
  * Optional: dispensary_city for precise match when using dispensary_name.
- * Uses Bearer INGESTION_CRON_SECRET when calling internal ingest routes to bypass rate limits.
+ * Runs the pipeline stages in-process (no HTTP round trip through the public ingest routes).
  */
 export async function POST(request: NextRequest) {
   const session = await getAdminSession()
@@ -70,110 +73,82 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const baseUrl = process.env.APP_URL || 'http://localhost:3000'
-    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
-    if (process.env.INGESTION_CRON_SECRET) {
-      headers.Authorization = `Bearer ${process.env.INGESTION_CRON_SECRET}`
-    }
-
     const looksLikeFlyer = FLYER_EXT.test(new URL(validated.source_url).pathname)
+    const run = await beginIngestionRun({ dispensaryName, trigger: 'admin' })
+    const onStep = run.stepsFor(validated.source_url)
+    const spend = { dispensaryId: run.dispensaryId, dispensaryName, ingestionRunId: run.id }
 
     if (!looksLikeFlyer) {
-      // HTML deals page: fetch HTML and extract with one Gemini call (website-deals). No OCR.
-      const webRes = await fetch(`${baseUrl}/api/ingest/website-deals`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          dispensary_name: dispensaryName,
-          website_url: validated.source_url,
-          city: city ?? undefined,
-        }),
-      })
-      const webData = await webRes.json()
-      if (!webRes.ok) {
+      // HTML deals page: fetch HTML and extract with one Gemini call. No OCR.
+      const web = await withAiSpendContext(spend, () =>
+        runWebsitePipeline(
+          {
+            dispensaryName,
+            websiteUrl: validated.source_url,
+            city: city ?? undefined,
+          },
+          { onStep }
+        )
+      )
+      await run.finish({ dealsInserted: web.ok ? web.data.dealsInserted : 0 })
+      if (!web.ok && web.reason === 'not_modified') {
+        return success({ deals_inserted: 0, skipped: true, reason: 'not_modified', deals_extended: web.metrics?.dealsExtended || 0 })
+      }
+      if (!web.ok) {
         return NextResponse.json(
-          { error: webData?.error || 'Website extraction failed', details: webData?.details },
-          { status: webRes.status }
+          { error: 'Website extraction failed', details: web.message, reason: web.reason },
+          { status: stopReasonStatus(web.reason) }
         )
       }
-      const dealsInserted = webData.deals_inserted ?? 0
-      await updateDispensaryStats(dispensaryName, dealsInserted > 0)
+      await updateDispensaryStats(dispensaryName, web.data.dealsInserted > 0, run.id)
       return success({
-        deals_inserted: dealsInserted,
-        deals: webData.deals ?? [],
+        deals_inserted: web.data.dealsInserted,
+        deals: web.data.deals,
         low_confidence_handled: 0,
-        flagged_for_review: webData.flagged_for_review ?? 0,
+        flagged_for_review: web.data.flaggedForReview,
         source: 'website',
       })
     }
 
     // Flyer path: fetch → OCR → parse
-    const fetchRes = await fetch(`${baseUrl}/api/ingest/fetch`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        dispensary_name: dispensaryName,
-        source_url: validated.source_url,
-      }),
-    })
-    const fetchData = await fetchRes.json()
-    if (!fetchRes.ok) {
-      return NextResponse.json(
-        { error: fetchData?.error || 'Fetch failed', details: fetchData?.details },
-        { status: fetchRes.status }
-      )
-    }
-    if (fetchData.skipped) {
-      return success({ deals_inserted: 0, skipped: true, reason: 'duplicate' })
-    }
-    const filePath = fetchData.file_path
-    if (!filePath) {
-      return serverError('Fetch did not return file_path')
-    }
-
-    const ocrRes = await fetch(`${baseUrl}/api/ingest/ocr`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({ file_path: filePath }),
-    })
-    const ocrData = await ocrRes.json()
-    if (!ocrRes.ok) {
-      return NextResponse.json(
-        { error: ocrData?.error || 'OCR failed' },
-        { status: ocrRes.status }
+    const flyer = await withAiSpendContext(spend, () =>
+      runFlyerPipeline(
+        {
+          dispensaryName,
+          city: city ?? undefined,
+          sourceUrl: validated.source_url,
+        },
+        { onStep }
       )
-    }
-    const ocrText = ocrData.text
-    if (!ocrText || typeof ocrText !== 'string') {
-      return serverError('OCR did not return text')
-    }
-
-    const parseRes = await fetch(`${baseUrl}/api/ingest/parse`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        ocr_text: ocrText,
-        dispensary_name: dispensaryName,
-        city: city ?? undefined,
-        source_url: validated.source_url,
-      }),
-    })
-    const parseData = await parseRes.json()
-    if (!parseRes.ok) {
+    )
+    await run.finish({ dealsInserted: flyer.ok ? flyer.data.dealsInserted : 0 })
+    if (!flyer.ok) {
+      if (flyer.reason === 'duplicate') {
+        return success({ deals_inserted: 0, skipped: true, reason: 'duplicate' })
+      }
+      if (flyer.reason === 'not_modified') {
+        return success({ deals_inserted: 0, skipped: true, reason: 'not_modified', deals_extended: flyer.metrics?.dealsExtended || 0 })
+      }
       return NextResponse.json(
-        { error: parseData?.error || 'Parse failed' },
-        { status: parseRes.status }
+        { error: `${flyer.stage} stage failed`, details: flyer.message, reason: flyer.reason },
+        { status: stopReasonStatus(flyer.reason) }
       )
     }
 
-    const dealsInserted = parseData.deals_inserted ?? 0
-    await updateDispensaryStats(dispensaryName, dealsInserted > 0)
+    const dealsExtended = flyer.data.dealsExtended || 0
+    await updateDispensaryStats(
+      dispensaryName,
+      flyer.data.dealsInserted > 0 || dealsExtended > 0 || Boolean(flyer.data.flyerListed),
+      run.id
+    )
 
     return success({
-      deals_inserted: dealsInserted,
-      deals: parseData.deals,
-      low_confidence_handled: parseData.low_confidence_handled,
-      flagged_for_review: parseData.flagged_for_review,
+      deals_inserted: flyer.data.dealsInserted,
+      deals_extended: dealsExtended,
+      deals: flyer.data.deals,
+      low_confidence_handled: flyer.data.lowConfidenceHandled,
+      flyer_listed: Boolean(flyer.data.flyerListed),
+      flagged_for_review: flyer.data.flaggedForReview,
       source: 'flyer',
     })
   } catch (error) {
@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { getAdminSession } from '@/lib/admin-auth'
+import { discardIngestionJobs, listIngestionJobs, requeueIngestionJobs } from '@/lib/ingestion-jobs'
+import { success, unauthorized, validationError, serverError } from '@/lib/api-response'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const statusSchema = z.enum(['PENDING', 'RUNNING', 'SUCCEEDED', 'DEAD', 'DISCARDED']).default('DEAD')
+
+const actionSchema = z.object({
+  action: z.enum(['requeue', 'discard']),
+  ids: z.array(z.string().uuid()).min(1).max(500),
+})
+
+/**
+ * GET /api/admin/ingestion-jobs?status=DEAD
+ * Ingestion jobs in one status (dead-lettered by default) plus counts per status
+ */
+export async function GET(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  const status = statusSchema.safeParse(request.nextUrl.searchParams.get('status') ?? undefined)
+  if (!status.success) return validationError('Invalid status', status.error.errors)
+
+  try {
+    return success(await listIngestionJobs(status.data))
+  } catch (error) {
+    console.error('Ingestion jobs API error:', error)
+    return serverError('Failed to load ingestion jobs')
+  }
+}
+
+/**
+ * POST /api/admin/ingestion-jobs
+ * Requeue dead or discarded jobs with fresh attempts, or discard dead / pending ones
+ */
+export async function POST(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) return unauthorized()
+
+  let parsed: z.infer<typeof actionSchema>
+  try {
+    parsed = actionSchema.parse(await request.json())
+  } catch (error) {
+    if (error instanceof z.ZodError) return validationError('Invalid input', error.errors)
+    return validationError('Invalid JSON')
+  }
+
+  try {
+    if (parsed.action === 'requeue') {
+      const requeued = await requeueIngestionJobs(parsed.ids)
+      return success({ requeued }, `Requeued ${requeued} job${requeued === 1 ? '' : 's'}`)
+    }
+    const discarded = await discardIngestionJobs(parsed.ids)
+    return success({ discarded }, `Discarded ${discarded} job${discarded === 1 ? '' : 's'}`)
+  } catch (error) {
+    console.error('Ingestion jobs API error:', error)
+    return serverError(error instanceof Error ? error.message : 'Job update failed')
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest } from 'next/server'
+import { getAdminSession } from '@/lib/admin-auth'
+import { listIngestionRuns, type IngestionRunStatus } from '@/lib/ingestion-runs'
+import { success, unauthorized, serverError } from '@/lib/api-response'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const STATUSES: IngestionRunStatus[] = ['running', 'succeeded', 'no_deals', 'skipped', 'failed']
+
+/**
+ * GET /api/admin/ingestion-runs?dispensary=&days=&status=&limit=
+ * Ingestion run timeline (newest first) with per-stage steps
+ */
+export async function GET(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) {
+    return unauthorized()
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const status = searchParams.get('status') as IngestionRunStatus | null
+
+    const runs = await listIngestionRuns({
+      dispensaryName: searchParams.get('dispensary') || undefined,
+      days: parseInt(searchParams.get('days') || '7', 10),
+      status: status && STATUSES.includes(status) ? status : undefined,
+      limit: parseInt(searchParams.get('limit') || '200', 10),
+    })
+
+    return success({ runs })
+  } catch (error) {
+    console.error('Ingestion runs API error:', error)
+    return serverError('Failed to load ingestion runs')
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getAdminSession } from '@/lib/admin-auth'
 import { supabaseAdmin } from '@/lib/supabase/server'
+import { addDays, todayIn } from '@/lib/dates'
 import * as Sentry from "@sentry/nextjs"
 
 export const dynamic = 'force-dynamic'
@@ -25,9 +26,7 @@ export async function GET(request: NextRequest) {
     const type = searchParams.get('type') || 'all' // 'email', 'ingestion', or 'all'
     const days = parseInt(searchParams.get('days') || '7', 10)
     
-    const startDate = new Date()
-    startDate.setDate(startDate.getDate() - days)
-    const startDateStr = startDate.toISOString().split('T')[0]
+    const startDateStr = addDays(todayIn(), -days)
 
     const results: {
       email_logs?: any[]
@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { getAdminSession } from '@/lib/admin-auth'
+import { processRawDealIngest, getRawIngestBacklog } from '@/lib/raw-ingest'
+import { success, unauthorized, validationError, serverError } from '@/lib/api-response'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const schema = z.object({
+  limit: z.number().int().min(1).max(1000).optional(),
+})
+
+/**
+ * GET /api/admin/raw-ingest
+ * Backlog of extension captures waiting to be processed
+ */
+export async function GET() {
+  const session = await getAdminSession()
+  if (!session.authenticated) {
+    return unauthorized()
+  }
+
+  try {
+    const backlog = await getRawIngestBacklog()
+    return success(backlog)
+  } catch (error) {
+    console.error('Raw ingest backlog error:', error)
+    return serverError('Failed to load capture backlog')
+  }
+}
+
+/**
+ * POST /api/admin/raw-ingest
+ * Admin-only: process unprocessed captures now instead of waiting for the cron
+ */
+export async function POST(request: NextRequest) {
+  const session = await getAdminSession()
+  if (!session.authenticated) {
+    return unauthorized()
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const validated = schema.parse(body)
+    const result = await processRawDealIngest({ limit: validated.limit })
+    return success(result)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return validationError('Invalid input', error.errors)
+    }
+    console.error('Raw ingest API error:', error)
+    return serverError('Failed to process captures')
+  }
+}
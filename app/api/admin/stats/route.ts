@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server'
 import { getAdminSession } from '@/lib/admin-auth'
 import { supabaseAdmin } from '@/lib/supabase/server'
+import { addDays, todayIn } from '@/lib/dates'
 import { headers } from 'next/headers'
 import {
   success,
@@ -26,9 +27,7 @@ export async function GET(request: NextRequest) {
     // Get date range from query params (default to last 30 days)
     const searchParams = request.nextUrl.searchParams
     const days = parseInt(searchParams.get('days') || '30', 10)
-    const startDate = new Date()
-    startDate.setDate(startDate.getDate() - days)
-    const startDateStr = startDate.toISOString().split('T')[0]
+    const startDateStr = addDays(todayIn(), -days)
 
     // Total users
     const { count: totalUsers } = await supabaseAdmin
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { headers } from 'next/headers'
+import { checkDealLiveness } from '@/lib/deal-liveness'
+import * as Sentry from '@sentry/nextjs'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+/**
+ * GET /api/cron/check-liveness
+ * Re-fetches the sources of live ingested deals and expires deals missing from them several checks in a row.
+ * Optional ?limit= caps deals per run.
+ */
+export async function GET(request: NextRequest) {
+  return Sentry.startSpan(
+    { op: 'cron', name: 'Deal Liveness Check' },
+    async (span) => {
+      span.setAttribute('cron.schedule', '15 */6 * * *')
+      span.setAttribute('cron.type', 'check-liveness')
+
+      const headersList = await headers()
+      const authHeader = headersList.get('authorization')
+      if (!authHeader?.startsWith('Bearer ')) {
+        span.setAttribute('error', true)
+        span.setAttribute('error_type', 'unauthorized')
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+      const token = authHeader.slice(7)
+      if (token !== process.env.INGESTION_CRON_SECRET) {
+        span.setAttribute('error', true)
+        span.setAttribute('error_type', 'unauthorized')
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const limitParam = request.nextUrl.searchParams.get('limit')
+      const limit = limitParam ? parseInt(limitParam, 10) || undefined : undefined
+
+      try {
+        const summary = await checkDealLiveness({ limit })
+
+        span.setAttribute('deals_checked', summary.deals_checked)
+        span.setAttribute('expired', summary.expired)
+        span.setAttribute('broken_links', summary.broken_links)
+
+        return NextResponse.json({ ok: true, ...summary })
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        span.setAttribute('error', true)
+        span.setAttribute('error_message', errorMessage)
+
+        const { logger } = Sentry
+        logger.error('Deal liveness check failed', { error: errorMessage })
+        Sentry.captureException(error, {
+          tags: { operation: 'cron_check_liveness' },
+        })
+
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+      }
+    }
+  )
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { headers } from 'next/headers'
+import { expireStaleDeals } from '@/lib/deals'
+import * as Sentry from '@sentry/nextjs'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/cron/expire-deals
+ * Marks approved deals past their end date as expired and drops the cached deal reads when any were.
+ */
+export async function GET() {
+  return Sentry.startSpan(
+    { op: 'cron', name: 'Expire Deals' },
+    async (span) => {
+      span.setAttribute('cron.schedule', '5 * * * *')
+      span.setAttribute('cron.type', 'expire-deals')
+
+      const headersList = await headers()
+      const authHeader = headersList.get('authorization')
+      if (!authHeader?.startsWith('Bearer ')) {
+        span.setAttribute('error', true)
+        span.setAttribute('error_type', 'unauthorized')
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+      const token = authHeader.slice(7)
+      if (token !== process.env.INGESTION_CRON_SECRET) {
+        span.setAttribute('error', true)
+        span.setAttribute('error_type', 'unauthorized')
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      try {
+        const expired = await expireStaleDeals()
+        span.setAttribute('expired', expired)
+        return NextResponse.json({ ok: true, expired })
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        span.setAttribute('error', true)
+        span.setAttribute('error_message', errorMessage)
+
+        const { logger } = Sentry
+        logger.error('Deal expiry failed', { error: errorMessage })
+        Sentry.captureException(error, {
+          tags: { operation: 'cron_expire_deals' },
+        })
+
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+      }
+    }
+  )
+}
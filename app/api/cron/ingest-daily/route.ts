@@ -2,12 +2,19 @@ import { NextRequest, NextResponse } from 'next/server'
 import { headers } from 'next/headers'
 import { supabaseAdmin } from '@/lib/supabase/server'
 import { getDispensariesNearZip } from '@/lib/dispensary-discovery'
-import { ingestDealsForDispensary, updateDispensaryStats } from '@/lib/ingest-deals'
+import type { DispensaryForIngest } from '@/lib/ingest-deals'
+import { enqueueIngestionJobs, ingestJobFor } from '@/lib/ingestion-jobs'
 import * as Sentry from "@sentry/nextjs"
+import { todayIn } from '@/lib/dates'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
 
+/**
+ * GET /api/cron/ingest-daily
+ * Collects today's dispensaries and enqueues an INGEST_DISPENSARY job for each;
+ * /api/cron/ingestion-worker runs them.
+ */
 export async function GET(request: NextRequest) {
   return Sentry.startSpan(
     {
@@ -41,11 +48,7 @@ export async function GET(request: NextRequest) {
         )
       }
 
-      const today = new Date().toISOString().split('T')[0]
-      let processed = 0
-      let skipped = 0
-      let failed = 0
-      let dealsInserted = 0
+      const today = todayIn()
 
       try {
         // Get all active users with preferences (zip + radius)
@@ -90,7 +93,7 @@ export async function GET(request: NextRequest) {
         }
 
         // Collect all dispensaries that are near any user's zip code
-        const dispensariesToProcess = new Map<string, { name: string; city?: string; flyer_url?: string; website?: string }>()
+        const dispensariesToProcess = new Map<string, DispensaryForIngest>()
         
         for (const [zip, radius] of zipRadiusMap.entries()) {
           const nearbyDispensaries = await getDispensariesNearZip(zip, radius)
@@ -120,7 +123,7 @@ export async function GET(request: NextRequest) {
           if (dispensaryIds.length > 0) {
             const { data: zoneDispensaries } = await supabaseAdmin
               .from('dispensaries')
-              .select('name, city, flyer_url, website')
+              .select('name, city, flyer_url, website, deals_url')
               .in('id', dispensaryIds)
               .eq('active', true)
             for (const d of zoneDispensaries || []) {
@@ -130,6 +133,7 @@ export async function GET(request: NextRequest) {
                   city: d.city,
                   flyer_url: d.flyer_url || undefined,
                   website: d.website || undefined,
+                  deals_url: d.deals_url || undefined,
                 })
               }
             }
@@ -139,7 +143,7 @@ export async function GET(request: NextRequest) {
         // Also get dispensaries that are active but might not have users yet (for initial setup)
         const { data: allActiveDispensaries } = await supabaseAdmin
           .from('dispensaries')
-          .select('name, city, flyer_url, website, ingestion_success_rate')
+          .select('name, city, flyer_url, website, deals_url, ingestion_success_rate')
           .eq('active', true)
 
         if (allActiveDispensaries) {
@@ -150,6 +154,7 @@ export async function GET(request: NextRequest) {
                 city: disp.city,
                 flyer_url: disp.flyer_url || undefined,
                 website: disp.website || undefined,
+                deals_url: disp.deals_url || undefined,
               })
             }
           }
@@ -192,87 +197,33 @@ export async function GET(request: NextRequest) {
           });
 
           return NextResponse.json({
-            processed: 0,
-            skipped: 0,
-            failed: 0,
-            deals_inserted: 0,
+            enqueued: 0,
+            already_queued: 0,
+            dispensaries: 0,
             message: 'No dispensaries to process',
           })
         }
 
-        // Process dispensaries with concurrency limit
-        const concurrency = 5
-        const successCounts = new Map<string, number>()
-        const failureCounts = new Map<string, number>()
-
-        for (let i = 0; i < dispensaries.length; i += concurrency) {
-          const batch = dispensaries.slice(i, i + concurrency)
-
-          await Promise.all(batch.map(async (dispensary) => {
-            try {
-              const dealsFromThisDispensary = await ingestDealsForDispensary(dispensary)
-
-              if (dealsFromThisDispensary > 0) {
-                dealsInserted += dealsFromThisDispensary
-                processed++
-                successCounts.set(dispensary.name, (successCounts.get(dispensary.name) || 0) + 1)
-              } else {
-                if (!dispensary.flyer_url && !dispensary.website) {
-                  const { logger } = Sentry;
-                  logger.info("Skipping dispensary - no flyer URL or website", {
-                    dispensary: dispensary.name,
-                  });
-                  skipped++
-                } else {
-                  failed++
-                  failureCounts.set(dispensary.name, (failureCounts.get(dispensary.name) || 0) + 1)
-                }
-              }
-            } catch (error) {
-              const { logger } = Sentry;
-              logger.error("Failed to process dispensary", {
-                dispensary: dispensary.name,
-                error: error instanceof Error ? error.message : 'Unknown error',
-              });
-
-              Sentry.captureException(error instanceof Error ? error : new Error(String(error)), {
-                tags: {
-                  operation: "cron_ingest",
-                  step: "process_dispensary",
-                },
-                extra: {
-                  dispensary: dispensary.name,
-                },
-              });
-
-              failed++
-              failureCounts.set(dispensary.name, (failureCounts.get(dispensary.name) || 0) + 1)
-              await updateDispensaryStats(dispensary.name, false)
-            }
-          }))
-        }
+        // Enqueue one job per dispensary; the ingestion worker runs them and retries failures with backoff
+        const { enqueued, skipped: alreadyQueued } = await enqueueIngestionJobs(
+          dispensaries.map((dispensary) => ingestJobFor(dispensary, 'cron'))
+        )
 
-        span.setAttribute("processed", processed);
-        span.setAttribute("skipped", skipped);
-        span.setAttribute("failed", failed);
-        span.setAttribute("deals_inserted", dealsInserted);
+        span.setAttribute("enqueued", enqueued);
+        span.setAttribute("already_queued", alreadyQueued);
 
         const { logger } = Sentry;
-        logger.info("Daily ingestion completed", {
+        logger.info("Daily ingestion enqueued", {
           date: today,
-          processed,
-          skipped,
-          failed,
-          dealsInserted,
-          dispensariesProcessed: dispensaries.length,
+          enqueued,
+          alreadyQueued,
+          dispensaries: dispensaries.length,
         });
 
         return NextResponse.json({
-          processed,
-          skipped,
-          failed,
-          deals_inserted: dealsInserted,
-          dispensaries_processed: dispensaries.length,
+          enqueued,
+          already_queued: alreadyQueued,
+          dispensaries: dispensaries.length,
         })
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -293,10 +244,6 @@ export async function GET(request: NextRequest) {
           },
           extra: {
             date: today,
-            processed,
-            skipped,
-            failed,
-            dealsInserted,
           },
         });
 
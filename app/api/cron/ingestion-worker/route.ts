@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { headers } from 'next/headers'
+import { drainIngestionJobs } from '@/lib/ingestion-worker'
+import * as Sentry from "@sentry/nextjs"
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+/** Time spent draining per run; INGESTION_WORKER_BUDGET_MS overrides it (keep it under maxDuration) */
+const DEFAULT_BUDGET_MS = 240 * 1000
+
+/**
+ * GET /api/cron/ingestion-worker
+ * Drains the ingestion_jobs queue (dispensary ingestion and zone processing) within a time budget.
+ * Failed jobs are retried with backoff on later runs; exhausted ones are dead-lettered for admin review.
+ */
+export async function GET(request: NextRequest) {
+  return Sentry.startSpan(
+    {
+      op: "cron",
+      name: "Ingestion Worker",
+    },
+    async (span) => {
+      span.setAttribute("cron.schedule", "*/10 * * * *");
+      span.setAttribute("cron.type", "ingestion-worker");
+
+      // Verify cron secret
+      const headersList = await headers()
+      const authHeader = headersList.get('authorization')
+
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        span.setAttribute("error", true);
+        span.setAttribute("error_type", "unauthorized");
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const token = authHeader.substring(7)
+      if (token !== process.env.INGESTION_CRON_SECRET) {
+        span.setAttribute("error", true);
+        span.setAttribute("error_type", "unauthorized");
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const configuredBudget = parseInt(process.env.INGESTION_WORKER_BUDGET_MS || '', 10)
+      const budgetMs = Math.min(
+        parseInt(request.nextUrl.searchParams.get('budgetMs') || '', 10) ||
+          (Number.isFinite(configuredBudget) && configuredBudget > 0 ? configuredBudget : DEFAULT_BUDGET_MS),
+        DEFAULT_BUDGET_MS
+      )
+      span.setAttribute("budget_ms", budgetMs);
+
+      try {
+        const summary = await drainIngestionJobs({ budgetMs })
+
+        span.setAttribute("claimed", summary.claimed);
+        span.setAttribute("succeeded", summary.succeeded);
+        span.setAttribute("retried", summary.retried);
+        span.setAttribute("dead", summary.dead);
+
+        const { logger } = Sentry;
+        logger.info("Ingestion worker run completed", { ...summary });
+
+        return NextResponse.json({
+          ok: true,
+          claimed: summary.claimed,
+          succeeded: summary.succeeded,
+          retried: summary.retried,
+          dead: summary.dead,
+          timed_out: summary.timedOut,
+        })
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+        span.setAttribute("error", true);
+        span.setAttribute("error_message", errorMessage);
+
+        const { logger } = Sentry;
+        logger.error("Ingestion worker failed", { error: errorMessage });
+
+        Sentry.captureException(error, {
+          tags: {
+            operation: "cron_ingestion_worker",
+            cron_type: "ingestion-worker",
+          },
+        });
+
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+      }
+    }
+  );
+}
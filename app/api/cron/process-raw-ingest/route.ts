@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { headers } from 'next/headers'
+import { processRawDealIngest } from '@/lib/raw-ingest'
+import * as Sentry from '@sentry/nextjs'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/cron/process-raw-ingest
+ * Turns unprocessed raw_deal_ingest captures into deals queued for review.
+ * Optional ?limit= caps rows per run.
+ */
+export async function GET(request: NextRequest) {
+  return Sentry.startSpan(
+    { op: 'cron', name: 'Process Raw Deal Ingest' },
+    async (span) => {
+      span.setAttribute('cron.schedule', '30 * * * *')
+      span.setAttribute('cron.type', 'process-raw-ingest')
+
+      const headersList = await headers()
+      const authHeader = headersList.get('authorization')
+      if (!authHeader?.startsWith('Bearer ')) {
+        span.setAttribute('error', true)
+        span.setAttribute('error_type', 'unauthorized')
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+      const token = authHeader.slice(7)
+      if (token !== process.env.INGESTION_CRON_SECRET) {
+        span.setAttribute('error', true)
+        span.setAttribute('error_type', 'unauthorized')
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const limitParam = request.nextUrl.searchParams.get('limit')
+      const limit = limitParam ? parseInt(limitParam, 10) || undefined : undefined
+
+      try {
+        const result = await processRawDealIngest({ limit })
+
+        span.setAttribute('rows_processed', result.rows_processed)
+        span.setAttribute('deals_created', result.deals_created)
+        span.setAttribute('failed_rows', result.failed_rows)
+
+        return NextResponse.json({ ok: true, ...result })
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        span.setAttribute('error', true)
+        span.setAttribute('error_message', errorMessage)
+
+        const { logger } = Sentry
+        logger.error('Raw ingest cron failed', { error: errorMessage })
+        Sentry.captureException(error, {
+          tags: { operation: 'cron_process_raw_ingest' },
+        })
+
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+      }
+    }
+  )
+}
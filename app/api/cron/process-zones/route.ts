@@ -1,9 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { headers } from 'next/headers'
 import { supabaseAdmin } from '@/lib/supabase/server'
-import { geocodeZip } from '@/lib/geocoding'
-import { ingestDealsForDispensary, type DispensaryForIngest } from '@/lib/ingest-deals'
-import { searchDispensariesNearLocation, getPlaceDetails } from '@/lib/places'
+import { enqueueIngestionJobs } from '@/lib/ingestion-jobs'
 import * as Sentry from "@sentry/nextjs"
 
 export const dynamic = 'force-dynamic'
@@ -12,13 +10,11 @@ export const runtime = 'nodejs'
 /** Zones to process per cron run (5–10; overridable via ?batchSize=). One zone per ZIP; each zone can have multiple users. */
 const DEFAULT_BATCH_SIZE = 10
 const DEFAULT_TTL_MINUTES = 360 // 6 hours
-const LOCK_DURATION_MINUTES = 10
-const DEFAULT_RADIUS_MILES = 25
 
 /**
  * GET /api/cron/process-zones
- * Processes queued zones: discovers dispensaries via Google Places, links them to zones
- * Uses atomic locking to prevent concurrent processing of same zones
+ * Enqueues a PROCESS_ZONE ingestion job for each due zone. The ingestion worker does the work
+ * (lib/zone-processing: Places discovery, zone links, notifications) and retries failures with backoff.
  */
 export async function GET(request: NextRequest) {
   return Sentry.startSpan(
@@ -54,30 +50,21 @@ export async function GET(request: NextRequest) {
 
       span.setAttribute("batch_size", batchSize);
 
-      let claimed = 0
-      let processed = 0
-      let failed = 0
-      let skipped = 0
-
       try {
-        // Step 1: Atomically claim zones to process
-        const lockToken = `lock_${Date.now()}_${Math.random().toString(36).substring(7)}`
-        const lockExpiresAt = new Date(Date.now() + LOCK_DURATION_MINUTES * 60 * 1000).toISOString()
-
-        // Atomic claim: update zones that are ready and not locked
+        // Atomically claim due zones by pushing next_process_at forward, so a concurrent run skips them.
+        // If the PROCESS_ZONE job fails for good, the zone comes round again after one TTL.
+        const now = new Date().toISOString()
         const { data: claimedZones, error: claimError } = await supabaseAdmin
           .from('zones')
           .update({
-            processing_lock: lockToken,
-            processing_lock_expires_at: lockExpiresAt,
-            updated_at: new Date().toISOString(),
+            next_process_at: new Date(Date.now() + DEFAULT_TTL_MINUTES * 60 * 1000).toISOString(),
+            updated_at: now,
           })
           .eq('status', 'ACTIVE')
-          .lte('next_process_at', new Date().toISOString())
-          .or(`processing_lock.is.null,processing_lock_expires_at.lt.${new Date().toISOString()}`)
+          .lte('next_process_at', now)
           .order('next_process_at', { ascending: true, nullsFirst: true })
           .limit(batchSize)
-          .select('*')
+          .select('id, zip')
 
         if (claimError) {
           const { logger } = Sentry;
@@ -96,327 +83,33 @@ export async function GET(request: NextRequest) {
           return NextResponse.json({ error: 'Failed to claim zones' }, { status: 500 })
         }
 
-        if (!claimedZones || claimedZones.length === 0) {
-          const { logger } = Sentry;
-          logger.info("No zones ready for processing");
-
-          return NextResponse.json({
-            ok: true,
-            claimed: 0,
-            processed: 0,
-            failed: 0,
-            skipped: 0,
-            message: 'No zones ready for processing',
-          })
-        }
-
-        claimed = claimedZones.length
+        const claimed = claimedZones?.length || 0
         span.setAttribute("zones_claimed", claimed);
 
-        // Step 2: Process each claimed zone
-        for (const zone of claimedZones) {
-          try {
-            // Geocode ZIP
-            const zipLocation = await geocodeZip(zone.zip)
-            if (!zipLocation) {
-              const { logger } = Sentry;
-              logger.warn("Could not geocode zip", {
-                zip: zone.zip,
-                zone_id: zone.id,
-              });
-              // Schedule retry with backoff
-              await supabaseAdmin
-                .from('zones')
-                .update({
-                  next_process_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(), // 1 hour
-                  processing_lock: null,
-                  processing_lock_expires_at: null,
-                  updated_at: new Date().toISOString(),
-                })
-                .eq('id', zone.id)
-              skipped++
-              continue
-            }
-
-            // Skip discovery if zone already has dispensaries (saves Places API calls)
-            const { data: existingLinks } = await supabaseAdmin
-              .from('zone_dispensaries')
-              .select('dispensary_id')
-              .eq('zone_id', zone.id)
-              .limit(1)
-
-            if (existingLinks && existingLinks.length > 0) {
-              // Zone already populated: skip Places, still create DEALS_READY and refresh zone
-              const { data: subscriptions } = await supabaseAdmin
-                .from('user_subscriptions')
-                .select('email')
-                .eq('zone_id', zone.id)
-                .limit(1000)
-
-              if (subscriptions && subscriptions.length > 0) {
-                const notifications = subscriptions.map((sub) => ({
-                  email: sub.email,
-                  zone_id: zone.id,
-                  type: 'DEALS_READY' as const,
-                  status: 'PENDING' as const,
-                }))
-                await supabaseAdmin
-                  .from('notifications_outbox')
-                  .upsert(notifications, {
-                    onConflict: 'email,zone_id,type',
-                    ignoreDuplicates: true,
-                  })
-              }
-
-              await supabaseAdmin
-                .from('zones')
-                .update({
-                  last_processed_at: new Date().toISOString(),
-                  next_process_at: new Date(Date.now() + zone.ttl_minutes * 60 * 1000).toISOString(),
-                  processing_lock: null,
-                  processing_lock_expires_at: null,
-                  updated_at: new Date().toISOString(),
-                })
-                .eq('id', zone.id)
-
-              processed++
-              continue
-            }
-
-            // Discover dispensaries via Google Places
-            const radiusMeters = DEFAULT_RADIUS_MILES * 1609.34 // Convert miles to meters
-            const places = await searchDispensariesNearLocation(
-              zipLocation.latitude,
-              zipLocation.longitude,
-              radiusMeters,
-              20
-            )
-
-            if (places.length === 0) {
-              // No dispensaries found - update zone and continue
-              await supabaseAdmin
-                .from('zones')
-                .update({
-                  last_processed_at: new Date().toISOString(),
-                  next_process_at: new Date(Date.now() + zone.ttl_minutes * 60 * 1000).toISOString(),
-                  processing_lock: null,
-                  processing_lock_expires_at: null,
-                  updated_at: new Date().toISOString(),
-                })
-                .eq('id', zone.id)
-              processed++
-              continue
-            }
-
-            // Upsert dispensaries and link to zone
-            let dispensariesLinked = 0
-            const newlyInsertedDispensaries: DispensaryForIngest[] = []
-            for (const place of places) {
-              // Get additional details if needed (website, phone)
-              let placeDetails = place
-              if (!place.website || !place.phone) {
-                const details = await getPlaceDetails(place.place_id)
-                if (details) {
-                  placeDetails = { ...place, ...details }
-                }
-              }
-
-              // Upsert dispensary by place_id
-              const { data: existingDisp } = await supabaseAdmin
-                .from('dispensaries')
-                .select('id')
-                .eq('place_id', placeDetails.place_id)
-                .single()
-
-              let dispensaryId: string
-
-              if (existingDisp) {
-                // Update existing
-                const { data: updated } = await supabaseAdmin
-                  .from('dispensaries')
-                  .update({
-                    name: placeDetails.name,
-                    address: placeDetails.address || null,
-                    latitude: placeDetails.latitude,
-                    longitude: placeDetails.longitude,
-                    phone: placeDetails.phone || null,
-                    website: placeDetails.website || null,
-                    city: zipLocation.city || null,
-                    zip: zone.zip,
-                    updated_at: new Date().toISOString(),
-                  })
-                  .eq('id', existingDisp.id)
-                  .select('id')
-                  .single()
-
-                if (updated) {
-                  dispensaryId = updated.id
-                } else {
-                  continue
-                }
-              } else {
-                // Insert new
-                const { data: newDisp, error: insertError } = await supabaseAdmin
-                  .from('dispensaries')
-                  .insert({
-                    place_id: placeDetails.place_id,
-                    name: placeDetails.name,
-                    address: placeDetails.address || null,
-                    latitude: placeDetails.latitude,
-                    longitude: placeDetails.longitude,
-                    phone: placeDetails.phone || null,
-                    website: placeDetails.website || null,
-                    city: zipLocation.city || null,
-                    zip: zone.zip,
-                    state: zipLocation.state || 'MI',
-                    active: true,
-                  })
-                  .select('id')
-                  .single()
-
-                if (insertError || !newDisp) {
-                  const { logger } = Sentry;
-                  logger.error("Failed to insert dispensary", {
-                    error: insertError?.message,
-                    dispensary_name: placeDetails.name,
-                    zone_id: zone.id,
-                    zip: zone.zip,
-                  });
-
-                  Sentry.captureException(insertError || new Error("Failed to insert dispensary"), {
-                    tags: {
-                      operation: "process_zones",
-                      step: "insert_dispensary",
-                    },
-                    extra: {
-                      dispensary_name: placeDetails.name,
-                      zone_id: zone.id,
-                    },
-                  });
-
-                  continue
-                }
-
-                dispensaryId = newDisp.id
-                newlyInsertedDispensaries.push({
-                  name: placeDetails.name,
-                  city: zipLocation.city || undefined,
-                  website: placeDetails.website || undefined,
-                })
-              }
-
-              // Link dispensary to zone
-              await supabaseAdmin
-                .from('zone_dispensaries')
-                .upsert(
-                  {
-                    zone_id: zone.id,
-                    dispensary_id: dispensaryId,
-                    last_seen_at: new Date().toISOString(),
-                  },
-                  {
-                    onConflict: 'zone_id,dispensary_id',
-                  }
-                )
-              
-              dispensariesLinked++
-            }
-
-            // Create DEALS_READY notifications for all users subscribed to this zone
-            const { data: subscriptions } = await supabaseAdmin
-              .from('user_subscriptions')
-              .select('email')
-              .eq('zone_id', zone.id)
-              .limit(1000) // Prevent unbounded queries - reasonable limit per zone
-
-            if (subscriptions && subscriptions.length > 0) {
-              const notifications = subscriptions.map((sub) => ({
-                email: sub.email,
-                zone_id: zone.id,
-                type: 'DEALS_READY' as const,
-                status: 'PENDING' as const,
-              }))
-
-              // Upsert notifications (idempotent)
-              await supabaseAdmin
-                .from('notifications_outbox')
-                .upsert(notifications, {
-                  onConflict: 'email,zone_id,type',
-                  ignoreDuplicates: true,
-                })
-            }
-
-            // Update zone freshness and release lock
-            await supabaseAdmin
-              .from('zones')
-              .update({
-                last_processed_at: new Date().toISOString(),
-                next_process_at: new Date(Date.now() + zone.ttl_minutes * 60 * 1000).toISOString(),
-                processing_lock: null,
-                processing_lock_expires_at: null,
-                updated_at: new Date().toISOString(),
-              })
-              .eq('id', zone.id)
-
-            // Inline deal ingestion for newly discovered dispensaries (don't wait for 8am ingest-daily)
-            const ingestConcurrency = 3
-            for (let i = 0; i < newlyInsertedDispensaries.length; i += ingestConcurrency) {
-              const batch = newlyInsertedDispensaries.slice(i, i + ingestConcurrency)
-              await Promise.allSettled(batch.map((d) => ingestDealsForDispensary(d)))
-            }
-
-            processed++
-          } catch (error) {
-            const { logger } = Sentry;
-            logger.error(`Error processing zone ${zone.id} (${zone.zip})`, {
-              error: error instanceof Error ? error.message : 'Unknown error',
-              zone_id: zone.id,
-              zip: zone.zip,
-            });
-
-            Sentry.captureException(error instanceof Error ? error : new Error(String(error)), {
-              tags: {
-                operation: "cron_process_zones",
-                zone_id: zone.id,
-                zone_zip: zone.zip,
-              },
-            });
-
-            // Schedule retry with backoff
-            const backoffMinutes = 15 // Simple backoff
-            await supabaseAdmin
-              .from('zones')
-              .update({
-                next_process_at: new Date(Date.now() + backoffMinutes * 60 * 1000).toISOString(),
-                processing_lock: null,
-                processing_lock_expires_at: null,
-                updated_at: new Date().toISOString(),
-              })
-              .eq('id', zone.id)
-
-            failed++
-          }
-        }
+        const { enqueued, skipped } = await enqueueIngestionJobs(
+          (claimedZones || []).map((zone) => ({
+            type: 'PROCESS_ZONE' as const,
+            payload: { zone_id: zone.id },
+            dedupeKey: `zone:${zone.id}`,
+          }))
+        )
 
-        span.setAttribute("claimed", claimed);
-        span.setAttribute("processed", processed);
-        span.setAttribute("failed", failed);
+        span.setAttribute("enqueued", enqueued);
         span.setAttribute("skipped", skipped);
 
         const { logger } = Sentry;
-        logger.info("Zone processing completed", {
+        logger.info("Zone jobs enqueued", {
           claimed,
-          processed,
-          failed,
+          enqueued,
           skipped,
         });
 
         return NextResponse.json({
           ok: true,
           claimed,
-          processed,
-          failed,
+          enqueued,
           skipped,
+          message: claimed === 0 ? 'No zones ready for processing' : undefined,
         })
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
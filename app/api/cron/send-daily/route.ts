@@ -13,7 +13,11 @@ import {
   getDispensariesInUserZones,
   addDistancesToDeals,
   rankDealsWithDistance,
+  sortDealsByPrice,
 } from '@/lib/zone-deals'
+import { getFlyerListings } from '@/lib/flyer-listings'
+import { expandOccurrences, RECURRENCE_SELECT } from '@/lib/recurring-deals'
+import { todayIn } from '@/lib/dates'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -55,7 +59,7 @@ export async function GET(request: NextRequest) {
       }
 
       try {
-        const today = new Date().toISOString().split('T')[0] // YYYY-MM-DD
+        const today = todayIn() // YYYY-MM-DD in Michigan, where subscribers' zones are
 
         // Process notifications_outbox queue for WELCOME and DEALS_READY
         // Only process PENDING notifications that haven't exceeded retry limit
@@ -256,11 +260,6 @@ export async function GET(request: NextRequest) {
                 return
               }
 
-              // Filter out stale deals (older than 2 days)
-              const twoDaysAgo = new Date(today)
-              twoDaysAgo.setDate(twoDaysAgo.getDate() - 2)
-              const twoDaysAgoStr = twoDaysAgo.toISOString().split('T')[0]
-
               // Build query with brand join
               let dealsQuery = supabaseAdmin
                 .from('deals')
@@ -271,13 +270,32 @@ export async function GET(request: NextRequest) {
                     name
                   )
                 `)
-                .eq('date', today)
-                .gte('date', twoDaysAgoStr) // Only show deals from last 2 days
+                // Today's deals, including ones kept running by an unchanged flyer
+                .or(`date.eq.${today},last_seen_date.eq.${today}`)
                 .in('category', preferences.categories)
                 .in('dispensary_name', dispensariesInZones)
                 .eq('needs_review', false) // Only show approved deals
+                .eq('recurring', false)
                 .limit(10)
 
+              // Weekly specials, of which today's occurrences are added below
+              let recurringQuery = supabaseAdmin
+                .from('deals')
+                .select(`
+                  *,
+                  brands (
+                    id,
+                    name
+                  ),
+                  deal_recurrences ( ${RECURRENCE_SELECT} )
+                `)
+                .eq('recurring', true)
+                .eq('status', 'approved')
+                .or(`end_date.is.null,end_date.gte.${today}`)
+                .in('category', preferences.categories)
+                .in('dispensary_name', dispensariesInZones)
+                .eq('needs_review', false)
+
               // If user has brand preferences, filter by brands (use pre-fetched brand map)
               if (preferences.brands && preferences.brands.length > 0) {
                 // Get brand IDs from pre-fetched map
@@ -287,6 +305,7 @@ export async function GET(request: NextRequest) {
 
                 if (brandIds.length > 0) {
                   dealsQuery = dealsQuery.in('brand_id', brandIds)
+                  recurringQuery = recurringQuery.in('brand_id', brandIds)
                 } else {
                   // User has brand preferences but no matching brands found
                   skipped++
@@ -294,9 +313,14 @@ export async function GET(request: NextRequest) {
                 }
               }
 
-              const { data: deals } = await dealsQuery
+              const [{ data: oneOffDeals }, { data: recurringDeals }, flyerListings] = await Promise.all([
+                dealsQuery,
+                recurringQuery,
+                getFlyerListings({ dispensaryNames: dispensariesInZones, limit: 20 }),
+              ])
+              const deals = [...(oneOffDeals || []), ...expandOccurrences(recurringDeals || [], today)].slice(0, 10)
 
-              if (!deals || deals.length === 0) {
+              if (deals.length === 0 && flyerListings.length === 0) {
                 skipped++
                 return
               }
@@ -307,10 +331,16 @@ export async function GET(request: NextRequest) {
                 preferences.zip || null
               )
 
-              // Rank deals: group duplicates and rank by distance
-              const rankedDeals = rankDealsWithDistance(dealsWithDistances)
+              // Rank deals: group duplicates and rank by distance, then best price first
+              const rankedDeals = sortDealsByPrice(rankDealsWithDistance(dealsWithDistances))
               const appUrl = process.env.APP_URL || 'https://dailydispodeals.com'
               const zoneZip = (zone as { zip?: string } | null)?.zip ?? preferences.zip ?? ''
+              // Flyers whose deals could not be parsed are linked as cards, after the deals and outside the ranking
+              const flyers = flyerListings.slice(0, 3).map((flyer) => ({
+                dispensary_name: flyer.dispensaryName,
+                city: flyer.city ?? null,
+                url: `${appUrl}${flyer.href}`,
+              }))
 
               const templateId = process.env.RESEND_DEALS_TEMPLATE_ID
               if (templateId) {
@@ -320,18 +350,19 @@ export async function GET(request: NextRequest) {
                   zoneZip,
                   email,
                   appUrl,
-                  today
+                  today,
+                  flyers
                 )
                 // Resend API supports template; SDK CreateEmailOptions types omit it.
                 await resend.emails.send({
                   from: 'Daily Dispo Deals <deals@dailydispodeals.com>',
                   to: email,
-                  subject: getDealsEmailSubject(rankedDeals.length),
+                  subject: getDealsEmailSubject(rankedDeals.length, flyers.length),
                   template: { id: templateId, variables },
                 } as any)
               } else {
                 // Fallback: inline HTML
-                const { subject, html } = renderDailyDealsEmail(rankedDeals, email, appUrl)
+                const { subject, html } = renderDailyDealsEmail(rankedDeals, email, appUrl, flyers)
                 await resend.emails.send({
                   from: 'Daily Dispo Deals <deals@dailydispodeals.com>',
                   to: email,
@@ -5,6 +5,7 @@ import { resend } from '@/lib/resend'
 import { getDispensariesNearZip } from '@/lib/dispensary-discovery'
 import { renderWeeklySummaryEmail } from '@/lib/email/render'
 import * as Sentry from '@sentry/nextjs'
+import { addDays, todayIn } from '@/lib/dates'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -33,10 +34,8 @@ export async function GET(request: NextRequest) {
       }
 
       try {
-        const today = new Date().toISOString().split('T')[0]
-        const d = new Date()
-        d.setDate(d.getDate() - 7)
-        const weekAgo = d.toISOString().split('T')[0]
+        const today = todayIn()
+        const weekAgo = addDays(today, -7)
 
         const { data: freeUsers, error: qErr } = await supabaseAdmin
           .from('subscriptions')
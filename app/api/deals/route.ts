@@ -1,11 +1,13 @@
 import { NextRequest } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase/server'
 import { rateLimit } from '@/lib/rate-limit'
+import { addDays } from '@/lib/dates'
 import * as Sentry from "@sentry/nextjs"
 import {
   getDispensariesInUserZones,
   addDistancesToDeals,
   rankDealsWithDistance,
+  sortDealsByPrice,
 } from '@/lib/zone-deals'
 import {
   success,
@@ -18,36 +20,6 @@ import {
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
 
-function parsePrice(priceText: string): number {
-  // Try to extract numeric value from price text
-  // Examples: "2/$35" -> 17.5, "1g $15" -> 15, "$25 each" -> 25, "30% off" -> 0.3
-  const priceLower = priceText.toLowerCase().trim()
-  
-  // Handle percentage discounts (e.g., "30% off", "50% discount")
-  // For percentages, we can't calculate exact price, so use percentage as a score
-  // Higher percentage = better deal, but we'll invert it so lower numbers = better
-  const percentMatch = priceLower.match(/(\d+(?:\.\d+)?)\s*%/)
-  if (percentMatch) {
-    const percent = parseFloat(percentMatch[1])
-    // Return negative so higher percentages sort first (we want 50% > 30%)
-    // But we want lower numbers to be "better" in sorting, so return 100 - percent
-    return 100 - percent
-  }
-  
-  const match = priceText.match(/(\d+(?:\.\d+)?)/g)
-  if (!match || match.length === 0) return Infinity
-  
-  const numbers = match.map(Number)
-  
-  // If format is "X/$Y", calculate per unit
-  if (priceText.includes('/$') && numbers.length >= 2) {
-    return numbers[1] / numbers[0]
-  }
-  
-  // Otherwise use the first number found
-  return numbers[0]
-}
-
 export async function GET(request: NextRequest) {
   // Rate limiting - moderate for deals endpoint
   const rateLimitResult = await rateLimit(request, 'moderate')
@@ -92,10 +64,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Filter out stale deals (older than 2 days from requested date)
-    const requestedDate = new Date(date)
-    const twoDaysAgo = new Date(requestedDate)
-    twoDaysAgo.setDate(twoDaysAgo.getDate() - 2)
-    const twoDaysAgoStr = twoDaysAgo.toISOString().split('T')[0]
+    const twoDaysAgoStr = addDays(date, -2)
 
     // Query deals matching date and categories, with brand join
     // Show deals from last 2 days up to and including the requested date
@@ -108,7 +77,8 @@ export async function GET(request: NextRequest) {
           name
         )
       `)
-      .gte('date', twoDaysAgoStr) // Only show deals from last 2 days
+      // Only show deals from last 2 days, or kept running since by an unchanged flyer
+      .or(`date.gte.${twoDaysAgoStr},last_seen_date.gte.${twoDaysAgoStr}`)
       .lte('date', date) // Up to and including the requested date
       .in('category', preferences.categories)
       .eq('needs_review', false) // Only show approved deals
@@ -178,27 +148,11 @@ export async function GET(request: NextRequest) {
     // Rank deals: group duplicates and rank by distance
     const rankedDeals = rankDealsWithDistance(dealsWithDistances)
 
-    // Score and sort deals by price (lower = better)
-    const scoredDeals = rankedDeals.map(deal => ({
-      ...deal,
-      score: parsePrice(deal.price_text),
-    }))
-
-    scoredDeals.sort((a, b) => {
-      // Lower price = higher score
-      if (a.score !== b.score) {
-        return a.score - b.score
-      }
-      // If same price, prefer closer (if distances available)
-      if (a.distance !== undefined && b.distance !== undefined) {
-        return a.distance - b.distance
-      }
-      // If same price, prefer newer
-      return new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-    })
+    // Sort by effective unit price / discount depth (best first)
+    const sortedDeals = sortDealsByPrice(rankedDeals)
 
-    // Remove score and distance from response (distance is only used for ranking)
-    const result = scoredDeals.map(({ score, distance, ...deal }) => deal)
+    // Remove distance from response (distance is only used for ranking)
+    const result = sortedDeals.map(({ distance, ...deal }) => deal)
 
     return success({ deals: result })
   } catch (error) {
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDbRequestCount, resetDbRequestCount } from '@/lib/supabase/server'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+function authorized(request: NextRequest): boolean {
+  // Dev-only protection
+  if (process.env.NODE_ENV !== 'production') return true
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return false
+  return authHeader.substring(7) === process.env.DEV_SECRET
+}
+
+/**
+ * GET /api/dev/db-requests
+ * Supabase requests made by this server process since start or the last reset (scripts/load-test.ts).
+ */
+export async function GET(request: NextRequest) {
+  if (!authorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+  return NextResponse.json({ requests: getDbRequestCount() })
+}
+
+/**
+ * DELETE /api/dev/db-requests
+ * Resets the count.
+ */
+export async function DELETE(request: NextRequest) {
+  if (!authorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+  }
+  resetDbRequestCount()
+  return NextResponse.json({ requests: 0 })
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase/server'
+import { todayIn } from '@/lib/dates'
+import { dealPricingColumns } from '@/lib/pricing'
+import { dealCategoryColumns } from '@/lib/categories'
+import { revalidateDeals } from '@/lib/deal-cache'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -24,7 +28,7 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const today = new Date().toISOString().split('T')[0]
+    const today = todayIn()
 
     const sampleDeals = [
       {
@@ -94,7 +98,7 @@ export async function POST(request: NextRequest) {
         dispensary_name: 'Gage Ferndale',
         city: 'Ferndale',
         date: today,
-        category: 'cbd/thca',
+        category: 'cbd-thca',
         title: 'THCA Flower',
         price_text: '$40/eighth',
         source_url: null,
@@ -121,7 +125,7 @@ export async function POST(request: NextRequest) {
 
     const { error } = await supabaseAdmin
       .from('deals')
-      .insert(sampleDeals)
+      .insert(sampleDeals.map((deal) => ({ ...deal, ...dealPricingColumns(deal), ...dealCategoryColumns(deal) })))
 
     if (error) {
       console.error('Seed error:', error)
@@ -130,6 +134,7 @@ export async function POST(request: NextRequest) {
         { status: 500 }
       )
     }
+    revalidateDeals()
 
     return NextResponse.json({ inserted: sampleDeals.length })
   } catch (error) {
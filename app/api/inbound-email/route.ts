@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { inboundEmailSchema, processInboundEmail, verifyInboundSignature } from '@/lib/inbound-email'
+import * as Sentry from '@sentry/nextjs'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+/**
+ * POST /api/inbound-email
+ * Resend "email.received" webhook: dispensaries email flyers and deals to our inbound address
+ * (lib/inbound-email, which fetches the message itself from Resend's receiving API). Saved payloads can be replayed with `npm run check:inbound -- --post <url>`.
+ */
+export async function POST(request: NextRequest) {
+  return Sentry.startSpan(
+    {
+      op: 'http.server',
+      name: 'Inbound Email Webhook',
+    },
+    async (span) => {
+      const { logger } = Sentry
+      const body = await request.text()
+
+      const webhookSecret = process.env.RESEND_INBOUND_WEBHOOK_SECRET
+      if (!webhookSecret) {
+        logger.error('Inbound email webhook secret not configured')
+        span.setAttribute('error', true)
+        span.setAttribute('error_type', 'missing_webhook_secret')
+        return NextResponse.json({ error: 'Inbound email not configured - set RESEND_INBOUND_WEBHOOK_SECRET' }, { status: 500 })
+      }
+
+      if (!verifyInboundSignature(body, request.headers, webhookSecret)) {
+        span.setAttribute('error', true)
+        span.setAttribute('error_type', 'invalid_signature')
+        return NextResponse.json({ error: 'Invalid signature' }, { status: 400 })
+      }
+
+      let event: { type?: unknown }
+      try {
+        event = JSON.parse(body)
+      } catch {
+        span.setAttribute('error', true)
+        span.setAttribute('error_type', 'invalid_payload')
+        return NextResponse.json({ error: 'Invalid payload' }, { status: 400 })
+      }
+
+      // Other event types share the webhook but not the email.received shape
+      if (event?.type !== 'email.received') {
+        return NextResponse.json({ received: true, ignored: event?.type })
+      }
+
+      const parsed = inboundEmailSchema.safeParse(event)
+      if (!parsed.success) {
+        span.setAttribute('error', true)
+        span.setAttribute('error_type', 'invalid_payload')
+        return NextResponse.json({ error: 'Invalid payload' }, { status: 400 })
+      }
+      const payload = parsed.data
+
+      try {
+        const result = await processInboundEmail(payload)
+        span.setAttribute('inbound.status', result.status)
+        span.setAttribute('inbound.deals', result.dealsExtracted)
+        return NextResponse.json({ received: true, ...result })
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        span.setAttribute('error', true)
+        span.setAttribute('error_message', errorMessage)
+        logger.error('Inbound email processing failed', { error: errorMessage })
+        Sentry.captureException(error, {
+          tags: { operation: 'inbound_email' },
+        })
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+      }
+    }
+  )
+}
@@ -2,7 +2,20 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import * as Sentry from '@sentry/nextjs'
 import { supabaseAdmin } from '@/lib/supabase/server'
-import { success, validationError, unauthorized, serverError } from '@/lib/api-response'
+import { rateLimit } from '@/lib/rate-limit'
+import {
+  success,
+  validationError,
+  error as errorResponse,
+  rateLimitError,
+  serverError,
+} from '@/lib/api-response'
+import {
+  authenticateExtensionInstall,
+  isLegacySharedKey,
+  recordInstallCapture,
+  type ExtensionInstall,
+} from '@/lib/extension-installs'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -70,22 +83,47 @@ export async function OPTIONS() {
  * POST /api/ingest-extension
  *
  * Ingestion-only endpoint for the Chrome extension to submit raw deal data.
- * Data is stored as-is in the raw_deal_ingest table for later Gemini processing.
+ * Each install authenticates with its own key (extension_installs); the key is bound to
+ * x-ddd-install-id on first use and checked against the daily quota and minimum version.
+ * The old shared DDD_EXTENSION_API_KEY is still accepted during the move to per-install keys,
+ * rate-limited per client and logged on every use.
+ * Data is stored as-is in the raw_deal_ingest table; /api/cron/process-raw-ingest
+ * (lib/raw-ingest.ts) later parses it into deals queued for review.
  */
 export async function POST(request: NextRequest) {
   const { logger } = Sentry
 
   try {
-    const configuredKey = process.env.DDD_EXTENSION_API_KEY
-    if (!configuredKey) {
-      logger.error('Extension ingest API key is not configured')
-      return withCors(serverError('Extension ingest is not configured'))
-    }
-
-    const providedKey = getApiKeyFromRequest(request)
-    if (!providedKey || providedKey !== configuredKey) {
-      logger.warn('Invalid or missing extension ingest API key')
-      return withCors(unauthorized('Invalid API key'))
+    const installId = request.headers.get('x-ddd-install-id')?.trim() || null
+    const extensionVersion = request.headers.get('x-ddd-extension-version')?.trim() || null
+
+    const apiKey = getApiKeyFromRequest(request)
+    const legacyKey = isLegacySharedKey(apiKey)
+    let install: ExtensionInstall | null = null
+    if (legacyKey) {
+      logger.warn('Deprecated shared extension key used', {
+        install_id: installId,
+        version: extensionVersion,
+      })
+      const limit = await rateLimit(request, 'moderate')
+      if (!limit.success) {
+        return withCors(rateLimitError('Too many requests with the shared key; request a per-install key'))
+      }
+    } else {
+      const auth = await authenticateExtensionInstall({
+        apiKey,
+        installId,
+        version: extensionVersion,
+      })
+      if (!auth.ok) {
+        logger.warn('Extension ingest request rejected', {
+          code: auth.code,
+          install_id: installId,
+          version: extensionVersion,
+        })
+        return withCors(errorResponse(auth.message, auth.status, auth.code))
+      }
+      install = auth.install
     }
 
     const json = await request.json().catch(() => {
@@ -124,6 +162,7 @@ export async function POST(request: NextRequest) {
         captured_at: new Date(data.captured_at).toISOString(),
         processed: false,
         processing_error: null,
+        install_id: install?.id ?? null,
       })
       .select('id')
       .single()
@@ -138,6 +177,10 @@ export async function POST(request: NextRequest) {
       return withCors(serverError('Failed to store deal data'))
     }
 
+    if (install) {
+      await recordInstallCapture(install, installId, extensionVersion)
+    }
+
     // Avoid logging raw_text in production to keep logs lean and privacy-safe
     if (process.env.NODE_ENV !== 'production') {
       logger.info('Raw deal ingest stored', {
@@ -145,18 +188,20 @@ export async function POST(request: NextRequest) {
         dispensary_name: data.dispensary_name,
         page_url: data.page_url,
         source: data.source,
+        install: install?.id ?? 'shared-key',
       })
     } else {
       logger.info('Raw deal ingest stored', {
         id: insertResult.id,
         dispensary_name: data.dispensary_name,
         page_url: data.page_url,
+        install: install?.id ?? 'shared-key',
       })
     }
 
-    // Gemini normalization and processing will later consume rows from raw_deal_ingest
-    // where processed = false and update processed/processing_error accordingly.
-    return withCors(
+    // processRawDealIngest consumes rows where processed = false and records
+    // processed/processing_error on each row.
+    const response = withCors(
       success(
         {
           id: insertResult.id,
@@ -165,6 +210,8 @@ export async function POST(request: NextRequest) {
         200
       )
     )
+    if (legacyKey) response.headers.set('Deprecation', 'true')
+    return response
   } catch (err: any) {
     Sentry.captureException(err)
     const { logger } = Sentry
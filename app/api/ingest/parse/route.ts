@@ -1,9 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { supabaseAdmin } from '@/lib/supabase/server'
-import { parseDealsFromText, type Deal } from '@/lib/ai-parser'
-import { calculateDealHash, validateDealQuality, flagForReview, type DealWithMetadata } from '@/lib/deal-quality'
-import { findOrCreateBrand, extractBrandFromTitle } from '@/lib/brand-extraction'
+import { parseFlyer, stopReasonStatus } from '@/lib/ingest-pipeline'
 import { rateLimit } from '@/lib/rate-limit'
 
 export const dynamic = 'force-dynamic'
@@ -16,6 +13,10 @@ const schema = z.object({
   source_url: z.string().url().optional(),
 })
 
+/**
+ * POST /api/ingest/parse
+ * External entry point for the parse stage; internal callers use lib/ingest-pipeline directly.
+ */
 export async function POST(request: NextRequest) {
   // Rate limiting - strict for AI parsing endpoints (expensive operations)
   const rateLimitResult = await rateLimit(request, 'strict')
@@ -27,253 +28,56 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const validated = schema.parse(body)
 
-    // Get today's date
-    const today = new Date().toISOString().split('T')[0]
-
-    // Short-circuit if OCR text is obviously too short/noisy to justify AI parsing
-    const trimmedText = validated.ocr_text.trim()
-    if (trimmedText.length < 50) {
-      // Create a simple summary entry instead of calling AI
-      const summaryEntry = {
-        dispensary_name: validated.dispensary_name,
-        city: validated.city || null,
-        date: today,
-        category: 'flower',
-        title: `${validated.dispensary_name} - Deal Flyer Available`,
-        price_text: 'See flyer for details',
-        source_url: validated.source_url || null,
-      }
-
-      const { error: insertError } = await supabaseAdmin
-        .from('deals')
-        .insert(summaryEntry)
+    const result = await parseFlyer({
+      ocrText: validated.ocr_text,
+      dispensaryName: validated.dispensary_name,
+      city: validated.city,
+      sourceUrl: validated.source_url,
+    })
 
-      if (insertError) {
-        console.error('Summary entry insert error (short OCR):', insertError)
-        return NextResponse.json(
-          { error: 'Failed to insert summary entry' },
-          { status: 500 }
-        )
-      }
+    if (!result.ok) {
+      console.error('Parse stage stopped:', result.reason, result.message)
+      return NextResponse.json(
+        { error: result.message, reason: result.reason },
+        { status: stopReasonStatus(result.reason) }
+      )
+    }
 
+    if (result.data.dealsExtended) {
       return NextResponse.json({
-        deals_inserted: 1,
-        deals: [summaryEntry],
-        ai_skipped: true,
-        message: 'OCR text too short; skipped AI parsing and created summary entry',
+        deals_inserted: 0,
+        deals_extended: result.data.dealsExtended,
+        deals: [],
+        message: 'Flyer unchanged; extended existing deals',
       })
     }
 
-    // Get source_url from deal_flyers if not provided
-    let sourceUrl = validated.source_url || null
-    if (!sourceUrl) {
-      const { data: flyer } = await supabaseAdmin
-        .from('deal_flyers')
-        .select('source_url')
-        .eq('dispensary_name', validated.dispensary_name)
-        .eq('date', today)
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single()
-
-      sourceUrl = flyer?.source_url || null
+    if (result.data.fallback === 'text_too_short') {
+      return NextResponse.json({
+        deals_inserted: result.data.dealsInserted,
+        deals: [],
+        ai_skipped: true,
+        flyer_listed: result.data.flyerListed,
+        message: 'OCR text too short; skipped AI parsing and listed the flyer',
+      })
     }
 
-    let deals: Deal[] = []
-    let aiFailed = false
-
-    try {
-      // Parse deals using AI Gateway
-      deals = await parseDealsFromText(
-        validated.ocr_text,
-        validated.dispensary_name,
-        validated.city
-      )
-    } catch (aiError) {
-      console.error('AI Gateway parsing failed:', aiError)
-      aiFailed = true
-      
-      // Create a summary-only entry when AI fails
-      const summaryEntry = {
-        dispensary_name: validated.dispensary_name,
-        city: validated.city || null,
-        date: today,
-        category: 'flower', // Default category for summary
-        title: `${validated.dispensary_name} - Deal Flyer Available`,
-        price_text: 'See flyer for details',
-        source_url: sourceUrl, // Always include source_url for verification
-      }
-
-      const { error: insertError } = await supabaseAdmin
-        .from('deals')
-        .insert(summaryEntry)
-
-      if (insertError) {
-        console.error('Summary entry insert error:', insertError)
-        return NextResponse.json(
-          { error: 'Failed to insert summary entry' },
-          { status: 500 }
-        )
-      }
-
+    if (result.data.fallback === 'ai_failed') {
       return NextResponse.json({
-        deals_inserted: 1,
-        deals: [summaryEntry],
+        deals_inserted: result.data.dealsInserted,
+        deals: [],
         ai_failed: true,
-        message: 'AI parsing failed, created summary entry',
+        flyer_listed: result.data.flyerListed,
+        message: 'AI parsing failed, listed the flyer',
       })
     }
 
-    // Filter out deals with low confidence (these would also become summary entries)
-    const highConfidenceDeals = deals.filter(deal => (deal.confidence ?? 1) >= 0.5)
-    const lowConfidenceDeals = deals.filter(deal => (deal.confidence ?? 1) < 0.5)
-
-    // Process high confidence deals with quality checks
-    let dealsInserted = 0
-    let dealsFlaggedForReview = 0
-    
-    if (highConfidenceDeals.length > 0) {
-      const dealsToInsert: Array<{ deal: any; reviewReason?: string }> = []
-      
-      for (const deal of highConfidenceDeals) {
-        // Construct DealWithMetadata with proper types
-        const dealWithMetadata: DealWithMetadata = {
-          category: deal.category, // Already the correct enum type from Deal
-          title: deal.title,
-          brand: deal.brand,
-          product_name: deal.product_name,
-          price_text: deal.price_text,
-          confidence: deal.confidence,
-          dispensary_name: validated.dispensary_name,
-          date: today,
-          city: validated.city,
-        }
-        
-        // Calculate deal hash for duplicate detection
-        const dealHash = calculateDealHash(dealWithMetadata)
-        
-        // Validate deal quality
-        const qualityCheck = await validateDealQuality(dealWithMetadata)
-        
-        if (!qualityCheck.isValid || qualityCheck.duplicateFound) {
-          // Skip duplicate deals
-          console.log(`Skipping duplicate deal: ${deal.title}`)
-          continue
-        }
-        
-        // Extract brand from deal (AI may have extracted it, or we use fallback)
-        let brandId: string | null = null
-        let productName: string | null = null
-        
-        if (deal.brand) {
-          // AI extracted brand, use it
-          brandId = await findOrCreateBrand(deal.brand)
-          productName = deal.product_name || deal.title.replace(deal.brand, '').trim()
-        } else {
-          // Fallback: try to extract brand from title
-          const extracted = extractBrandFromTitle(deal.title)
-          if (extracted.brand) {
-            brandId = await findOrCreateBrand(extracted.brand)
-            productName = extracted.productName
-          } else {
-            // No brand found, keep full title
-            productName = null
-          }
-        }
-        
-        // Prepare deal for insertion
-        const dealToInsert: any = {
-          dispensary_name: validated.dispensary_name,
-          city: validated.city || null,
-          date: today,
-          category: deal.category,
-          title: deal.title,
-          product_name: productName,
-          price_text: deal.price_text,
-          source_url: sourceUrl,
-          brand_id: brandId,
-          confidence: deal.confidence ?? 1.0,
-          deal_hash: dealHash,
-          needs_review: qualityCheck.needsReview,
-        }
-        
-        dealsToInsert.push({ 
-          deal: dealToInsert, 
-          reviewReason: qualityCheck.reviewReason 
-        })
-        
-        // Track if this deal needs review
-        if (qualityCheck.needsReview && qualityCheck.reviewReason) {
-          dealsFlaggedForReview++
-        }
-      }
-
-      if (dealsToInsert.length > 0) {
-        const dealsForInsertion = dealsToInsert.map(item => item.deal)
-        
-        const { data: insertedDeals, error: insertError } = await supabaseAdmin
-          .from('deals')
-          .insert(dealsForInsertion)
-          .select('id, needs_review')
-
-        if (insertError) {
-          console.error('Deals insert error:', insertError)
-          return NextResponse.json(
-            { error: 'Failed to insert deals' },
-            { status: 500 }
-          )
-        }
-
-        dealsInserted = dealsToInsert.length
-        
-        // Flag deals for review that need it
-        if (insertedDeals) {
-          for (let i = 0; i < insertedDeals.length; i++) {
-            const insertedDeal = insertedDeals[i]
-            const dealData = dealsToInsert[i]
-            
-            if (insertedDeal.needs_review && dealData.reviewReason) {
-              await flagForReview(insertedDeal.id, dealData.reviewReason)
-            }
-          }
-        }
-      }
-    }
-
-    // For low confidence deals, create a summary entry
-    if (lowConfidenceDeals.length > 0) {
-      const summaryEntry = {
-        dispensary_name: validated.dispensary_name,
-        city: validated.city || null,
-        date: today,
-        category: 'flower', // Default category
-        title: `${validated.dispensary_name} - Multiple Deals Available`,
-        price_text: 'See flyer for details',
-        source_url: sourceUrl,
-      }
-
-      await supabaseAdmin
-        .from('deals')
-        .insert(summaryEntry)
-
-      dealsInserted += 1
-    }
-
-    // Update deal_flyers with deals_extracted count
-    await supabaseAdmin
-      .from('deal_flyers')
-      .update({
-        deals_extracted: dealsInserted,
-        processed_at: new Date().toISOString(),
-      })
-      .eq('dispensary_name', validated.dispensary_name)
-      .eq('date', today)
-
     return NextResponse.json({
-      deals_inserted: dealsInserted,
-      deals: highConfidenceDeals.slice(0, dealsInserted), // Only return inserted deals
-      low_confidence_handled: lowConfidenceDeals.length > 0,
-      flagged_for_review: dealsFlaggedForReview,
+      deals_inserted: result.data.dealsInserted,
+      deals: result.data.deals,
+      low_confidence_handled: result.data.lowConfidenceHandled,
+      flyer_listed: result.data.flyerListed,
+      flagged_for_review: result.data.flaggedForReview,
     })
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
 import { z } from 'zod'
+import { dealCategorySchema } from '@/lib/categories'
 import { supabaseAdmin } from '@/lib/supabase/server'
 import { success, validationError, serverError } from '@/lib/api-response'
 import { rateLimit } from '@/lib/rate-limit'
@@ -9,7 +10,7 @@ export const dynamic = 'force-dynamic'
 const schema = z.object({
   email: z.string().email(),
   zip: z.string().min(5).max(10),
-  categories: z.array(z.string()).optional(),
+  categories: z.array(dealCategorySchema).optional(),
 })
 
 export async function POST(request: NextRequest) {
@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
 import { z } from 'zod'
+import { dealCategorySchema } from '@/lib/categories'
 import { supabaseAdmin } from '@/lib/supabase/server'
 import { getOrCreateAuthUser } from '@/lib/auth-helpers'
 import { rateLimit } from '@/lib/rate-limit'
@@ -16,7 +17,7 @@ export const runtime = 'nodejs'
 
 const baseSchema = z.object({ email: z.string().email() })
 const paidSchema = baseSchema.extend({
-  categories: z.array(z.string()).min(1),
+  categories: z.array(dealCategorySchema).min(1),
   brands: z.array(z.string()).optional(),
   zip: z.string().min(1, 'Zip code is required'),
   radius: z.union([z.literal(5), z.literal(10), z.literal(25)]),
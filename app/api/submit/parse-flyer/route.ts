@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { extractTextFromImage } from '@/lib/ocr'
+import { splitFlyer, ocrFlyerPages } from '@/lib/flyer-pages'
 import { parseDealsFromText } from '@/lib/ai-parser'
 import { supabaseAdmin } from '@/lib/supabase/server'
 import { success, validationError, serverError } from '@/lib/api-response'
@@ -19,7 +19,7 @@ export async function POST(request: NextRequest) {
 
     const buffer = Buffer.from(await file.arrayBuffer())
     const mime = file.type || 'image/jpeg'
-    const { text } = await extractTextFromImage(buffer, mime)
+    const { text } = await ocrFlyerPages(await splitFlyer(buffer, mime))
     const dispensaryName = String(form.get('dispensary_name') || 'Unknown')
     const city = String(form.get('city') || '')
     const deals = text ? await parseDealsFromText(text, dispensaryName, city) : []
@@ -1,7 +1,10 @@
 import { NextRequest } from 'next/server'
 import { z } from 'zod'
 import { supabaseAdmin } from '@/lib/supabase/server'
-import { slugify, uniqueSlug } from '@/lib/slugs'
+import { slugify } from '@/lib/slugs'
+import { dealCategorySchema } from '@/lib/categories'
+import { createDealSubmission } from '@/lib/deal-submissions'
+import { weekdayMask } from '@/lib/recurring-deals'
 import { success, validationError, serverError } from '@/lib/api-response'
 import { rateLimit } from '@/lib/rate-limit'
 
@@ -12,16 +15,28 @@ const schema = z.object({
   dispensary_name: z.string().min(2),
   city: z.string().min(2),
   title: z.string().min(2),
-  category: z.string().min(2),
+  category: dealCategorySchema,
   brand: z.string().optional().nullable(),
   description: z.string().optional().nullable(),
   regular_price: z.string().optional().nullable(),
   deal_price: z.string().optional().nullable(),
   start_date: z.string().min(8),
-  end_date: z.string().min(8),
+  end_date: z.string().min(8).optional().or(z.literal('')),
   menu_url: z.string().url(),
   contact_email: z.string().email().optional().or(z.literal('')),
   image: z.string().optional().nullable(),
+  // Weekly special: the weekdays it runs (0 = Sunday) and an optional time window; end_date becomes its last day
+  recurrence: z
+    .object({
+      weekdays: z.array(z.number().int().min(0).max(6)).min(1),
+      start_time: z.string().regex(/^\d{2}:\d{2}$/).optional().or(z.literal('')),
+      end_time: z.string().regex(/^\d{2}:\d{2}$/).optional().or(z.literal('')),
+    })
+    .optional()
+    .nullable(),
+}).refine((deal) => deal.end_date || deal.recurrence, {
+  message: 'Every deal needs an expiration date',
+  path: ['end_date'],
 })
 
 export async function POST(request: NextRequest) {
@@ -32,9 +47,6 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const parsed = schema.parse(body)
 
-    const { data: existing } = await supabaseAdmin.from('deals').select('slug')
-    const slug = uniqueSlug(`${parsed.title}-${parsed.city}`, (existing || []).map((d) => d.slug).filter(Boolean) as string[])
-
     let dispensaryId: string | null = null
     const { data: shop } = await supabaseAdmin
       .from('dispensaries')
@@ -61,58 +73,21 @@ export async function POST(request: NextRequest) {
       dispensaryId = created?.id || null
     }
 
-    const priceText = parsed.deal_price || parsed.title
-    const { data: deal, error: dealError } = await supabaseAdmin
-      .from('deals')
-      .insert({
+    const deal = await createDealSubmission(
+      {
+        ...parsed,
         dispensary_id: dispensaryId,
-        dispensary_name: parsed.dispensary_name,
-        city: parsed.city.replace(/,?\s*MI$/i, ''),
-        state: 'MI',
-        date: parsed.start_date,
-        start_date: parsed.start_date,
-        end_date: parsed.end_date,
-        category: parsed.category,
-        title: parsed.title,
-        slug,
-        description: parsed.description || parsed.title,
-        brand: parsed.brand || null,
-        regular_price: parsed.regular_price || null,
-        deal_price: parsed.deal_price || null,
-        price_text: priceText,
-        image: parsed.image || null,
-        menu_url: parsed.menu_url,
-        source_url: parsed.menu_url,
-        featured: false,
-        sponsored: false,
-        verified: false,
-        submission_source: 'dispensary',
-        status: 'pending',
-        needs_review: true,
-      })
-      .select('id, slug')
-      .single()
-
-    if (dealError || !deal) {
-      console.error(dealError)
-      return serverError('Could not save deal')
-    }
-
-    await supabaseAdmin.from('deal_submissions').insert({
-      deal_id: deal.id,
-      dispensary_name: parsed.dispensary_name,
-      city: parsed.city,
-      contact_email: parsed.contact_email || null,
-      payload: parsed,
-      flyer_path: parsed.image || null,
-      status: 'pending',
-    })
-
-    await supabaseAdmin.from('deal_reviews').insert({
-      deal_id: deal.id,
-      reason: 'dispensary_submission',
-      status: 'pending',
-    })
+        end_date: parsed.end_date || null,
+        recurrence: parsed.recurrence
+          ? {
+              weekdays: weekdayMask(parsed.recurrence.weekdays),
+              start_time: parsed.recurrence.start_time || null,
+              end_time: parsed.recurrence.end_time || null,
+            }
+          : null,
+      },
+      { source: 'form', payload: parsed, reviewReason: 'dispensary_submission' }
+    )
 
     return success({ id: deal.id, slug: deal.slug }, 'Submitted for review')
   } catch (error) {
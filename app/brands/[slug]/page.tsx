@@ -2,7 +2,7 @@ import { DealCard } from '@/app/components/deals/DealCard'
 import { getActiveDeals, toDealCard } from '@/lib/deals'
 import { slugify } from '@/lib/slugs'
 
-export const dynamic = 'force-dynamic'
+export const revalidate = 300
 
 export default async function BrandPage({ params }: { params: { slug: string } }) {
   const deals = await getActiveDeals({ limit: 80 })
@@ -2,7 +2,7 @@ import Link from 'next/link'
 import { getActiveBrands, getActiveDeals } from '@/lib/deals'
 import { slugify } from '@/lib/slugs'
 
-export const dynamic = 'force-dynamic'
+export const revalidate = 300
 
 export default async function BrandsPage() {
   const brands = await getActiveBrands()
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import * as Dialog from '@radix-ui/react-dialog'
 import { Plus_Jakarta_Sans } from 'next/font/google'
+import { DEAL_CATEGORIES } from '@/lib/categories'
 
 const plusJakarta = Plus_Jakarta_Sans({
   subsets: ['latin'],
@@ -22,18 +23,6 @@ interface PreferencesModalProps {
   initialPreferValueDeals?: boolean
 }
 
-const CATEGORIES = [
-  'flower',
-  'pre-rolls',
-  'vapes',
-  'concentrates',
-  'edibles',
-  'drinks',
-  'topicals',
-  'cbd/thca',
-  'accessories',
-] as const
-
 // Module-level cache for brands (similar to YouTube videos pattern)
 let cachedBrands: Array<{ id: string; name: string }> | null = null
 let cachedAt: number | null = null
@@ -277,7 +266,7 @@ export function PreferencesModal({
                     </h3>
                     <p className="text-[15px] text-gray-600 mb-4">Select all that apply.</p>
                     <div className="grid grid-cols-2 gap-3">
-                      {CATEGORIES.map((category) => (
+                      {DEAL_CATEGORIES.map(({ slug: category, label }) => (
                         <label
                           key={category}
                           className="flex items-center gap-3 p-3 sm:p-3.5 rounded-lg border border-slate-200/80 bg-white cursor-pointer hover:border-lake-blue-400 hover:bg-lake-blue-50/30 transition-colors min-h-[48px]"
@@ -288,9 +277,7 @@ export function PreferencesModal({
                             onChange={() => toggleCategory(category)}
                             className="w-5 h-5 rounded border-gray-300 text-lake-blue-600 focus:ring-lake-blue-500"
                           />
-                          <span className="text-[15px] font-medium text-gray-800 capitalize">
-                            {category.replace('/', ' / ')}
-                          </span>
+                          <span className="text-[15px] font-medium text-gray-800">{label}</span>
                         </label>
                       ))}
                     </div>
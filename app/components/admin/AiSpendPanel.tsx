@@ -0,0 +1,235 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useAdminAuth, getAuthHeaders } from '@/lib/hooks/useAdminAuth'
+import type { AiBudget, AiBudgetState } from '@/lib/ai-spend'
+
+interface AiSpend {
+  budget: AiBudget
+  state: AiBudgetState
+  spent_today_usd: number
+  spent_month_usd: number
+  daily: Array<{ day: string; cost_usd: number; calls: number; deals_inserted: number }>
+  by_dispensary: Array<{ dispensary_name: string; cost_usd: number; deals_inserted: number; runs: number }>
+  by_zone: Array<{ zone_id: string; zip: string | null; cost_usd: number }>
+  by_task: Record<string, number>
+}
+
+const STATE_LABELS: Record<AiBudgetState, { label: string; style: string }> = {
+  ok: { label: 'Within budget', style: 'bg-green-100 text-green-800' },
+  skip_low_yield: { label: 'Near budget: skipping low-yield shops', style: 'bg-amber-100 text-amber-800' },
+  cache_only: { label: 'Budget reached: cache-only ingestion', style: 'bg-red-100 text-red-800' },
+}
+
+const CHART_HEIGHT = 160
+
+function usd(value: number): string {
+  return value < 1 ? `$${value.toFixed(3)}` : `$${value.toFixed(2)}`
+}
+
+function costPerDeal(cost: number, deals: number): string {
+  return deals > 0 ? usd(cost / deals) : '-'
+}
+
+/**
+ * AI spend against deals yielded (lib/ai-spend), with the daily/monthly budget editor.
+ */
+export function AiSpendPanel({ days }: { days: number }) {
+  const { token } = useAdminAuth()
+  const [spend, setSpend] = useState<AiSpend | null>(null)
+  const [budget, setBudget] = useState<AiBudget | null>(null)
+  const [error, setError] = useState('')
+  const [saved, setSaved] = useState('')
+
+  const load = useCallback(async () => {
+    setError('')
+    try {
+      const res = await fetch(`/api/admin/ai-spend?days=${days}`, { headers: getAuthHeaders(token) })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load AI spend')
+      setSpend(data.data)
+      setBudget(data.data.budget)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load AI spend')
+    }
+  }, [token, days])
+
+  useEffect(() => {
+    if (token !== null) load()
+  }, [token, load])
+
+  const saveBudget = async () => {
+    if (!budget) return
+    setSaved('')
+    const res = await fetch('/api/admin/ai-spend', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders(token) },
+      body: JSON.stringify(budget),
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      setError(data.error || 'Failed to save AI budget')
+      return
+    }
+    setSaved('Saved')
+    load()
+  }
+
+  if (error) return <div className="text-red-600">{error}</div>
+  if (!spend || !budget) return null
+
+  const totalCost = spend.daily.reduce((sum, day) => sum + day.cost_usd, 0)
+  const totalDeals = spend.daily.reduce((sum, day) => sum + day.deals_inserted, 0)
+  const maxCost = Math.max(...spend.daily.map((day) => day.cost_usd), 0.0001)
+  const maxDeals = Math.max(...spend.daily.map((day) => day.deals_inserted), 1)
+  const state = STATE_LABELS[spend.state]
+  const limitInput = (value: number | null, onChange: (value: number | null) => void) => (
+    <input
+      type="number"
+      min={0}
+      step="0.5"
+      placeholder="No limit"
+      className="mt-1 w-full border p-2"
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+    />
+  )
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">AI Spend</h3>
+        <span className={`px-2 py-1 text-xs rounded ${state.style}`}>{state.label}</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <div className="text-gray-600">Today</div>
+          <div className="font-semibold">
+            {usd(spend.spent_today_usd)}
+            {spend.budget.daily_usd !== null && ` of ${usd(spend.budget.daily_usd)}`}
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-600">This month</div>
+          <div className="font-semibold">
+            {usd(spend.spent_month_usd)}
+            {spend.budget.monthly_usd !== null && ` of ${usd(spend.budget.monthly_usd)}`}
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-600">Last {days} days</div>
+          <div className="font-semibold">
+            {usd(totalCost)} · {totalDeals} deals
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-600">Cost per new deal</div>
+          <div className="font-semibold">{costPerDeal(totalCost, totalDeals)}</div>
+        </div>
+      </div>
+
+      {/* Spend (indigo) and deals yielded (green) per day, each scaled to its own maximum */}
+      <div>
+        <div className="flex items-end gap-px" style={{ height: CHART_HEIGHT }}>
+          {spend.daily.map((day) => (
+            <div
+              key={day.day}
+              className="flex-1 flex items-end justify-center gap-px"
+              title={`${day.day}: ${usd(day.cost_usd)} over ${day.calls} calls, ${day.deals_inserted} deals`}
+            >
+              <div className="w-1/2 bg-indigo-500" style={{ height: `${(day.cost_usd / maxCost) * 100}%` }} />
+              <div className="w-1/2 bg-green-500" style={{ height: `${(day.deals_inserted / maxDeals) * 100}%` }} />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{spend.daily[0]?.day}</span>
+          <span>
+            <span className="inline-block w-2 h-2 bg-indigo-500 mr-1" />
+            AI spend (max {usd(maxCost)})
+            <span className="inline-block w-2 h-2 bg-green-500 ml-3 mr-1" />
+            Deals inserted (max {maxDeals})
+          </span>
+          <span>{spend.daily[spend.daily.length - 1]?.day}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 text-sm">
+        <div>
+          <h4 className="font-medium text-gray-900 mb-2">Top dispensaries</h4>
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pr-2">Dispensary</th>
+                <th className="pr-2">Spend</th>
+                <th className="pr-2">Deals</th>
+                <th>Per deal</th>
+              </tr>
+            </thead>
+            <tbody>
+              {spend.by_dispensary.map((row) => (
+                <tr key={row.dispensary_name} className="border-t">
+                  <td className="py-1 pr-2">{row.dispensary_name}</td>
+                  <td className="py-1 pr-2">{usd(row.cost_usd)}</td>
+                  <td className="py-1 pr-2">{row.deals_inserted}</td>
+                  <td className="py-1">{costPerDeal(row.cost_usd, row.deals_inserted)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {spend.by_dispensary.length === 0 && <p className="text-gray-500">No AI spend recorded</p>}
+        </div>
+
+        <div>
+          <h4 className="font-medium text-gray-900 mb-2">By zone</h4>
+          {spend.by_zone.map((row) => (
+            <div key={row.zone_id} className="flex justify-between border-t py-1">
+              <span>{row.zip || row.zone_id}</span>
+              <span>{usd(row.cost_usd)}</span>
+            </div>
+          ))}
+          {spend.by_zone.length === 0 && <p className="text-gray-500">No zone expansion spend</p>}
+          <h4 className="font-medium text-gray-900 mt-4 mb-2">By task</h4>
+          {Object.entries(spend.by_task).map(([task, cost]) => (
+            <div key={task} className="flex justify-between border-t py-1">
+              <span>{task}</span>
+              <span>{usd(cost)}</span>
+            </div>
+          ))}
+        </div>
+
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault()
+            saveBudget()
+          }}
+        >
+          <h4 className="font-medium text-gray-900">Budget</h4>
+          <label className="block">
+            Daily (USD)
+            {limitInput(budget.daily_usd, (daily_usd) => setBudget({ ...budget, daily_usd }))}
+          </label>
+          <label className="block">
+            Monthly (USD)
+            {limitInput(budget.monthly_usd, (monthly_usd) => setBudget({ ...budget, monthly_usd }))}
+          </label>
+          <label className="block">
+            Skip low-yield shops from (% of budget)
+            <input
+              type="number"
+              min={1}
+              max={100}
+              className="mt-1 w-full border p-2"
+              value={Math.round(budget.low_yield_ratio * 100)}
+              onChange={(e) => setBudget({ ...budget, low_yield_ratio: Number(e.target.value) / 100 })}
+            />
+          </label>
+          <button className="rounded bg-gray-900 px-4 py-2 text-white">Save budget</button>
+          {saved && <p className="text-green-700">{saved}</p>}
+        </form>
+      </div>
+    </div>
+  )
+}
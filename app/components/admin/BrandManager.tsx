@@ -0,0 +1,209 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useAdminAuth, getAuthHeaders } from '@/lib/hooks/useAdminAuth'
+
+type Brand = {
+  id: string
+  name: string
+  created_at: string
+  deal_count: number
+  aliases: string[]
+}
+
+type BlockedToken = {
+  id: string
+  token: string
+  created_by: string | null
+  created_at: string
+}
+
+export function BrandManager() {
+  const { token } = useAdminAuth()
+  const [brands, setBrands] = useState<Brand[]>([])
+  const [blocked, setBlocked] = useState<BlockedToken[]>([])
+  const [search, setSearch] = useState('')
+  const [selected, setSelected] = useState<string[]>([])
+  const [targetId, setTargetId] = useState('')
+  const [blockToken, setBlockToken] = useState('')
+  const [message, setMessage] = useState('')
+  const [loading, setLoading] = useState(true)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    const res = await fetch('/api/admin/brands', { headers: getAuthHeaders(token) })
+    const json = await res.json()
+    setBrands(json.data?.brands || [])
+    setBlocked(json.data?.blocked || [])
+    setLoading(false)
+  }, [token])
+
+  useEffect(() => {
+    if (token) load()
+  }, [token, load])
+
+  const post = async (body: Record<string, unknown>) => {
+    setMessage('')
+    const res = await fetch('/api/admin/brands', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders(token) },
+      body: JSON.stringify(body),
+    })
+    const json = await res.json()
+    setMessage(json.success ? json.message || '' : json.error || 'Update failed')
+    await load()
+    return json.success as boolean
+  }
+
+  const visible = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    if (!q) return brands
+    return brands.filter((b) => b.name.toLowerCase().includes(q) || b.aliases.some((a) => a.toLowerCase().includes(q)))
+  }, [brands, search])
+
+  const selectedBrands = brands.filter((b) => selected.includes(b.id))
+  // Default the merge target to the selected brand with the most deals
+  const mergeTarget = selectedBrands.find((b) => b.id === targetId) || selectedBrands[0]
+
+  const toggle = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]))
+  }
+
+  const merge = async () => {
+    if (!mergeTarget) return
+    const sources = selectedBrands.filter((b) => b.id !== mergeTarget.id)
+    if (!confirm(`Merge ${sources.map((b) => b.name).join(', ')} into ${mergeTarget.name}? Their deals and subscriber preferences move to ${mergeTarget.name}.`)) return
+    const ok = await post({ action: 'merge', target_id: mergeTarget.id, source_ids: sources.map((b) => b.id) })
+    if (ok) {
+      setSelected([])
+      setTargetId('')
+    }
+  }
+
+  const addAlias = async (brand: Brand) => {
+    const alias = prompt(`Another spelling of ${brand.name}`)
+    if (!alias) return
+    await post({ action: 'add_alias', brand_id: brand.id, alias })
+  }
+
+  const block = async (brand: Brand) => {
+    if (!confirm(`Block "${brand.name}"? The brand is deleted, its ${brand.deal_count} deals lose their brand, and it will never be created again.`)) return
+    await post({ action: 'block', token: brand.name })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          className="border p-2"
+          placeholder="Search brands or aliases"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <span className="text-sm text-gray-500">{brands.length} brands</span>
+        {message && <span className="text-sm text-gray-700">{message}</span>}
+      </div>
+
+      {selectedBrands.length >= 2 && mergeTarget && (
+        <div className="flex flex-wrap items-center gap-2 rounded border border-amber-200 bg-amber-50 p-3 text-sm">
+          <span>Merge {selectedBrands.length} brands into</span>
+          <select className="border p-1" value={mergeTarget.id} onChange={(e) => setTargetId(e.target.value)}>
+            {selectedBrands.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.name} ({b.deal_count} deals)
+              </option>
+            ))}
+          </select>
+          <button className="rounded bg-gray-900 px-3 py-1 text-white" onClick={merge}>
+            Merge
+          </button>
+          <button className="text-gray-600" onClick={() => setSelected([])}>
+            Clear
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <p>Loading brands…</p>
+      ) : (
+        <div className="overflow-x-auto rounded border bg-white">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="p-2"></th>
+                <th className="p-2">Brand</th>
+                <th className="p-2">Aliases</th>
+                <th className="p-2">Deals</th>
+                <th className="p-2">Created</th>
+                <th className="p-2">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((brand) => (
+                <tr key={brand.id} className="border-t">
+                  <td className="p-2">
+                    <input type="checkbox" checked={selected.includes(brand.id)} onChange={() => toggle(brand.id)} />
+                  </td>
+                  <td className="p-2 font-medium">{brand.name}</td>
+                  <td className="p-2">
+                    <div className="flex flex-wrap gap-1">
+                      {brand.aliases.map((alias) => (
+                        <span key={alias} className="rounded bg-gray-100 px-2 py-0.5 text-xs">
+                          {alias}
+                          <button
+                            className="ml-1 text-gray-400 hover:text-red-600"
+                            title="Remove alias"
+                            onClick={() => post({ action: 'remove_alias', brand_id: brand.id, alias })}
+                          >
+                            ×
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="p-2">{brand.deal_count}</td>
+                  <td className="p-2">{new Date(brand.created_at).toLocaleDateString()}</td>
+                  <td className="p-2 space-x-1">
+                    <button className="rounded bg-gray-800 px-2 py-1 text-white" onClick={() => addAlias(brand)}>
+                      Alias
+                    </button>
+                    <button className="rounded bg-red-600 px-2 py-1 text-white" onClick={() => block(brand)}>
+                      Block
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!visible.length && <p className="p-4 text-gray-500">No brands found.</p>}
+        </div>
+      )}
+
+      <div className="rounded border bg-white p-4">
+        <h3 className="font-semibold text-gray-900">Blocklist</h3>
+        <p className="mb-3 text-sm text-gray-600">Words that are never turned into brands, e.g. &quot;Buy&quot; or &quot;Premium&quot; at the start of a flyer line.</p>
+        <form
+          className="mb-3 flex gap-2"
+          onSubmit={async (e) => {
+            e.preventDefault()
+            if (await post({ action: 'block', token: blockToken })) setBlockToken('')
+          }}
+        >
+          <input className="border p-2" placeholder="Token to block" value={blockToken} onChange={(e) => setBlockToken(e.target.value)} required />
+          <button className="rounded bg-gray-900 px-4 py-2 text-white">Block</button>
+        </form>
+        <div className="flex flex-wrap gap-2">
+          {blocked.map((item) => (
+            <span key={item.id} className="rounded bg-red-50 px-2 py-1 text-xs text-red-800">
+              {item.token}
+              <button className="ml-1 text-red-400 hover:text-red-700" title="Unblock" onClick={() => post({ action: 'unblock', id: item.id })}>
+                ×
+              </button>
+            </span>
+          ))}
+          {!blocked.length && <span className="text-sm text-gray-500">Nothing blocked yet.</span>}
+        </div>
+      </div>
+    </div>
+  )
+}
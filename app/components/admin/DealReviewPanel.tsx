@@ -3,6 +3,21 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useAdminAuth, getAuthHeaders } from '@/lib/hooks/useAdminAuth'
 import { SkeletonLoader } from '@/app/components/SkeletonLoader'
+import { ThumbnailCropper } from './ThumbnailCropper'
+import { DEAL_CATEGORY_SLUGS } from '@/lib/categories'
+
+interface ReviewDeal {
+  id: string
+  dispensary_name: string
+  city: string | null
+  date: string
+  category: string
+  title: string
+  price_text: string
+  confidence: number | null
+  source_url: string | null
+  image: string | null
+}
 
 interface Review {
   id: string
@@ -11,19 +26,36 @@ interface Review {
   status: string
   notes: string | null
   created_at: string
-  deals: {
-    id: string
-    dispensary_name: string
-    city: string | null
-    date: string
-    category: string
-    title: string
-    price_text: string
-    confidence: number | null
-    source_url: string | null
-  }
+  duplicate_of_deal_id: string | null
+  deals: ReviewDeal
+  duplicate_of: (ReviewDeal & {
+    deal_sources: Array<{
+      id: string
+      source_type: string
+      source_url: string | null
+      title: string
+      price_text: string
+      seen_on: string
+      similarity: number | null
+    }>
+  }) | null
+}
+
+/** Review reasons as stored ("low_confidence, possible_duplicate"), with the duplicate named */
+function describeReason(review: Review): string {
+  return review.reason
+    .split(', ')
+    .map((reason) =>
+      reason === 'possible_duplicate' && review.duplicate_of
+        ? `possible duplicate of "${review.duplicate_of.title}"`
+        : reason
+    )
+    .join(', ')
 }
 
+/** Corrected fields sent with a 'fix'; the API keeps them as a parsing example for the dispensary */
+type DealEdits = Partial<Pick<ReviewDeal, 'title' | 'category' | 'price_text'>>
+
 interface Dispensary {
   id: string
   name: string
@@ -40,6 +72,11 @@ export function DealReviewPanel() {
   const [addUrlLoading, setAddUrlLoading] = useState(false)
   const [addUrlResult, setAddUrlResult] = useState<{ deals_inserted: number; skipped?: boolean } | null>(null)
   const [addUrlError, setAddUrlError] = useState('')
+  const [captureBacklog, setCaptureBacklog] = useState<{ pending: number; errored: number } | null>(null)
+  const [captureProcessing, setCaptureProcessing] = useState(false)
+  const [captureResult, setCaptureResult] = useState('')
+  const [croppingReviewId, setCroppingReviewId] = useState<string | null>(null)
+  const [fixing, setFixing] = useState<{ reviewId: string; title: string; category: string; price_text: string } | null>(null)
   const { token } = useAdminAuth()
 
   const fetchDispensaries = useCallback(async () => {
@@ -56,6 +93,19 @@ export function DealReviewPanel() {
     }
   }, [token])
 
+  const fetchCaptureBacklog = useCallback(async () => {
+    try {
+      const { apiFetch, isErrorResponse, unwrapApiResponse } = await import('@/lib/api-client')
+      const response = await apiFetch<{ pending: number; errored: number }>('/api/admin/raw-ingest', {
+        headers: getAuthHeaders(token),
+      })
+      if (isErrorResponse(response)) return
+      setCaptureBacklog(unwrapApiResponse(response))
+    } catch {
+      setCaptureBacklog(null)
+    }
+  }, [token])
+
   const fetchReviews = useCallback(async () => {
     setLoading(true)
     setError('')
@@ -82,8 +132,34 @@ export function DealReviewPanel() {
     if (token !== null) {
       fetchReviews()
       fetchDispensaries()
+      fetchCaptureBacklog()
+    }
+  }, [token, fetchReviews, fetchDispensaries, fetchCaptureBacklog])
+
+  const handleProcessCaptures = async () => {
+    setCaptureProcessing(true)
+    setCaptureResult('')
+    try {
+      const { apiFetch, getErrorMessage, isErrorResponse, unwrapApiResponse } = await import('@/lib/api-client')
+      const response = await apiFetch<{ rows_processed: number; deals_created: number; failed_rows: number }>('/api/admin/raw-ingest', {
+        method: 'POST',
+        headers: getAuthHeaders(token),
+        body: JSON.stringify({}),
+      })
+      if (isErrorResponse(response)) throw new Error(getErrorMessage(response))
+      const data = unwrapApiResponse(response)
+      setCaptureResult(
+        `${data.rows_processed} capture(s) processed, ${data.deals_created} deal(s) queued for review` +
+          (data.failed_rows > 0 ? `, ${data.failed_rows} failed` : '')
+      )
+      fetchCaptureBacklog()
+      if (data.deals_created > 0) fetchReviews()
+    } catch (err) {
+      setCaptureResult(err instanceof Error ? err.message : 'Failed to process captures')
+    } finally {
+      setCaptureProcessing(false)
     }
-  }, [token, fetchReviews, fetchDispensaries])
+  }
 
   const handleAddUrlSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -112,7 +188,12 @@ export function DealReviewPanel() {
     }
   }
 
-  const handleReview = async (reviewId: string, action: 'approve' | 'reject' | 'fix', notes?: string) => {
+  const handleReview = async (
+    reviewId: string,
+    action: 'approve' | 'reject' | 'fix' | 'merge',
+    notes?: string,
+    edits?: DealEdits
+  ) => {
     try {
       const { apiFetch, getErrorMessage, isErrorResponse } = await import('@/lib/api-client')
       const response = await apiFetch('/api/admin/deals/review', {
@@ -122,6 +203,7 @@ export function DealReviewPanel() {
           review_id: reviewId,
           action,
           notes,
+          edits,
         }),
       })
 
@@ -136,6 +218,24 @@ export function DealReviewPanel() {
     }
   }
 
+  const handleSaveFix = (review: Review) => {
+    if (!fixing) return
+    // Only send what changed, so an unchanged fix doesn't become a parsing example
+    const edits: DealEdits = {}
+    if (fixing.title.trim() !== review.deals.title) edits.title = fixing.title.trim()
+    if (fixing.category !== review.deals.category) edits.category = fixing.category
+    if (fixing.price_text.trim() !== review.deals.price_text) edits.price_text = fixing.price_text.trim()
+    setFixing(null)
+    handleReview(review.id, 'fix', undefined, Object.keys(edits).length > 0 ? edits : undefined)
+  }
+
+  const handleThumbnailSaved = (reviewId: string, image: string) => {
+    setReviews((current) =>
+      current.map((r) => (r.id === reviewId ? { ...r, deals: { ...r.deals, image } } : r))
+    )
+    setCroppingReviewId(null)
+  }
+
   if (loading && reviews.length === 0) {
     return <SkeletonLoader variant="review" count={3} />
   }
@@ -192,6 +292,25 @@ export function DealReviewPanel() {
         </form>
       </div>
 
+      {/* Extension captures (raw_deal_ingest) */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Extension Captures</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {captureBacklog
+            ? `${captureBacklog.pending} unprocessed capture(s)${captureBacklog.errored > 0 ? `, ${captureBacklog.errored} with errors` : ''}.`
+            : 'Captures from the Chrome extension are parsed hourly into deals for review.'}
+        </p>
+        {captureResult && <div className="text-sm text-gray-700 mb-4">{captureResult}</div>}
+        <button
+          type="button"
+          onClick={handleProcessCaptures}
+          disabled={captureProcessing || captureBacklog?.pending === 0}
+          className="px-4 py-2 bg-lake-blue-700 text-white rounded-lg hover:bg-lake-blue-800 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+        >
+          {captureProcessing ? 'Processing...' : 'Process Captures Now'}
+        </button>
+      </div>
+
       {/* Pending Deal Reviews */}
       <div>
         <h2 className="text-2xl font-bold text-gray-900 mb-4">Pending Deal Reviews</h2>
@@ -203,7 +322,11 @@ export function DealReviewPanel() {
             {reviews.map((review) => (
           <div key={review.id} className="bg-white rounded-lg shadow p-6">
             <div className="flex justify-between items-start mb-4">
-              <div>
+              {review.deals.image && (
+                // eslint-disable-next-line @next/next/no-img-element -- thumbnail cropped from the flyer
+                <img src={review.deals.image} alt="" className="w-20 h-20 object-cover rounded mr-4 border border-gray-200" />
+              )}
+              <div className="flex-1">
                 <h3 className="text-lg font-semibold text-gray-900">{review.deals.title}</h3>
                 <p className="text-sm text-gray-600">
                   {review.deals.dispensary_name} • {review.deals.city || 'N/A'} • {review.deals.date}
@@ -227,7 +350,7 @@ export function DealReviewPanel() {
               )}
               <div>
                 <span className="text-sm font-medium text-gray-700">Review Reason: </span>
-                <span className="text-sm text-gray-900">{review.reason}</span>
+                <span className="text-sm text-gray-900">{describeReason(review)}</span>
               </div>
               {review.deals.source_url && (
                 <div>
@@ -243,7 +366,42 @@ export function DealReviewPanel() {
               )}
             </div>
 
+            {review.duplicate_of && (
+              <div className="mb-4 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <div className="border border-gray-200 rounded-lg p-3">
+                  <div className="text-xs font-medium text-gray-500 uppercase mb-1">This deal</div>
+                  <div className="font-medium text-gray-900">{review.deals.title}</div>
+                  <div className="text-gray-700">{review.deals.price_text}</div>
+                  <div className="text-gray-500">{review.deals.category} • {review.deals.date}</div>
+                </div>
+                <div className="border border-amber-300 bg-amber-50 rounded-lg p-3">
+                  <div className="text-xs font-medium text-amber-700 uppercase mb-1">Existing deal</div>
+                  <div className="font-medium text-gray-900">{review.duplicate_of.title}</div>
+                  <div className="text-gray-700">{review.duplicate_of.price_text}</div>
+                  <div className="text-gray-500">{review.duplicate_of.category} • {review.duplicate_of.date}</div>
+                  {review.duplicate_of.deal_sources.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-xs text-gray-600">
+                      {review.duplicate_of.deal_sources.map((source) => (
+                        <li key={source.id}>
+                          {source.source_type} · {source.seen_on} · &ldquo;{source.title}&rdquo; {source.price_text}
+                          {source.similarity !== null && ` (${Math.round(Number(source.similarity) * 100)}% match)`}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            )}
+
             <div className="flex gap-2">
+              {review.duplicate_of && (
+                <button
+                  onClick={() => handleReview(review.id, 'merge')}
+                  className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition text-sm font-medium"
+                >
+                  Merge into Existing
+                </button>
+              )}
               <button
                 onClick={() => handleReview(review.id, 'approve')}
                 className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition text-sm font-medium"
@@ -257,12 +415,81 @@ export function DealReviewPanel() {
                 Reject
               </button>
               <button
-                onClick={() => handleReview(review.id, 'fix')}
+                onClick={() =>
+                  setFixing(
+                    fixing?.reviewId === review.id
+                      ? null
+                      : {
+                          reviewId: review.id,
+                          title: review.deals.title,
+                          category: review.deals.category,
+                          price_text: review.deals.price_text,
+                        }
+                  )
+                }
                 className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-sm font-medium"
               >
-                Mark as Fixed
+                Fix…
+              </button>
+              <button
+                onClick={() => setCroppingReviewId(croppingReviewId === review.id ? null : review.id)}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm font-medium"
+              >
+                {review.deals.image ? 'Re-crop Thumbnail' : 'Crop Thumbnail'}
               </button>
             </div>
+            {fixing?.reviewId === review.id && (
+              <div className="mt-4 border border-gray-200 rounded-lg p-4 bg-gray-50 space-y-3">
+                <p className="text-xs text-gray-600">
+                  Corrections are saved as an example for {review.deals.dispensary_name}&apos;s future flyers.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <input
+                    value={fixing.title}
+                    onChange={(e) => setFixing({ ...fixing, title: e.target.value })}
+                    className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    placeholder="Title"
+                  />
+                  <select
+                    value={fixing.category}
+                    onChange={(e) => setFixing({ ...fixing, category: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {DEAL_CATEGORY_SLUGS.map((slug) => (
+                      <option key={slug} value={slug}>
+                        {slug}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    value={fixing.price_text}
+                    onChange={(e) => setFixing({ ...fixing, price_text: e.target.value })}
+                    className="md:col-span-3 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    placeholder="Price (e.g. 2/$35)"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleSaveFix(review)}
+                    disabled={!fixing.title.trim() || !fixing.price_text.trim()}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+                  >
+                    Save &amp; Mark Fixed
+                  </button>
+                  <button onClick={() => setFixing(null)} className="px-4 py-2 border border-gray-300 rounded-lg text-sm">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+            {croppingReviewId === review.id && (
+              <ThumbnailCropper
+                dealId={review.deals.id}
+                token={token}
+                onSaved={(image) => handleThumbnailSaved(review.id, image)}
+                onClose={() => setCroppingReviewId(null)}
+              />
+            )}
           </div>
         ))}
           </div>
@@ -3,6 +3,9 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useAdminAuth, getAuthHeaders } from '@/lib/hooks/useAdminAuth'
 import { SkeletonLoader } from '@/app/components/SkeletonLoader'
+import { IngestionRunTimeline } from './IngestionRunTimeline'
+import { DEFAULT_TIMEZONE, SERVED_TIMEZONES } from '@/lib/dates'
+import type { DispensaryParseHints } from '@/lib/parse-hints'
 
 interface Dispensary {
   id: string
@@ -12,18 +15,41 @@ interface Dispensary {
   state: string
   flyer_url: string | null
   weedmaps_url: string | null
+  website: string | null
+  deals_url: string | null
+  deals_url_found_at: string | null
+  deals_page_candidates: DealsPageCandidate[] | null
+  deals_page_crawled_at: string | null
   active: boolean
   ingestion_success_rate: number | null
   last_ingested_at: string | null
+  deactivated_at: string | null
+  deactivation_reason: string | null
+  /** Last menu or source link that answered 4xx/5xx on a liveness check (lib/deal-liveness) */
+  broken_link_url: string | null
+  broken_link_status: number | null
+  broken_link_since: string | null
+  /** IANA timezone for the shop's deal dates; null for America/Detroit (lib/dates) */
+  timezone: string | null
   recent_deals_count?: number
 }
 
+interface DealsPageCandidate {
+  url: string
+  kind: 'page' | 'menu_embed'
+  score: number
+  reasons: string[]
+  depth: number
+  fetched: boolean
+}
+
 export function DispensaryManager() {
   const [dispensaries, setDispensaries] = useState<Dispensary[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const [showAddModal, setShowAddModal] = useState(false)
   const [editing, setEditing] = useState<Dispensary | null>(null)
+  const [viewingRuns, setViewingRuns] = useState<Dispensary | null>(null)
   const [discoverZip, setDiscoverZip] = useState('')
   const [discoverRadius, setDiscoverRadius] = useState<5 | 10 | 25>(25)
   const [discovering, setDiscovering] = useState(false)
@@ -223,6 +249,8 @@ export function DispensaryManager() {
         </form>
       </div>
 
+      <FetchProblemsPanel token={token} />
+
       {showAddModal && (
         <AddDispensaryModal
           onClose={() => {
@@ -233,6 +261,17 @@ export function DispensaryManager() {
         />
       )}
 
+      {viewingRuns && (
+        <RunTimelineModal
+          dispensary={viewingRuns}
+          onClose={() => {
+            setViewingRuns(null)
+            fetchDispensaries()
+          }}
+          token={token}
+        />
+      )}
+
       {editing && (
         <EditDispensaryModal
           dispensary={editing}
@@ -300,8 +339,26 @@ export function DispensaryManager() {
                   >
                     {disp.active ? 'Active' : 'Inactive'}
                   </span>
+                  {!disp.active && disp.deactivation_reason && (
+                    <div className="mt-1 max-w-xs whitespace-normal text-xs text-gray-500">{disp.deactivation_reason}</div>
+                  )}
+                  {disp.broken_link_url && (
+                    <div
+                      className="mt-1 max-w-xs whitespace-normal text-xs text-red-700"
+                      title={disp.broken_link_url}
+                    >
+                      Broken link ({disp.broken_link_status})
+                      {disp.broken_link_since && ` since ${new Date(disp.broken_link_since).toLocaleDateString()}`}
+                    </div>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <button
+                    onClick={() => setViewingRuns(disp)}
+                    className="text-lake-blue-600 hover:text-lake-blue-900 mr-4"
+                  >
+                    Runs
+                  </button>
                   <button
                     onClick={() => setEditing(disp)}
                     className="text-lake-blue-600 hover:text-lake-blue-900 mr-4"
@@ -324,6 +381,565 @@ export function DispensaryManager() {
   )
 }
 
+function RunTimelineModal({ dispensary, onClose, token }: { dispensary: Dispensary; onClose: () => void; token: string | null }) {
+  const [reactivating, setReactivating] = useState(false)
+
+  const handleReactivate = async () => {
+    setReactivating(true)
+    try {
+      const res = await fetch('/api/admin/dispensaries', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders(token),
+        },
+        body: JSON.stringify({ id: dispensary.id, active: true }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to reactivate dispensary')
+      }
+
+      onClose()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to reactivate dispensary')
+    } finally {
+      setReactivating(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold">{dispensary.name} — Ingestion Runs</h3>
+            <p className="text-sm text-gray-500">
+              Success rate{' '}
+              {dispensary.ingestion_success_rate !== null
+                ? `${(dispensary.ingestion_success_rate * 100).toFixed(0)}%`
+                : 'N/A'}
+              {dispensary.last_ingested_at && ` · last run ${new Date(dispensary.last_ingested_at).toLocaleString()}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            Close
+          </button>
+        </div>
+
+        {dispensary.broken_link_url && (
+          <div className="mb-4 rounded-lg bg-amber-50 p-3 text-sm text-amber-800">
+            <div className="font-medium">
+              Broken link: HTTP {dispensary.broken_link_status}
+              {dispensary.broken_link_since && ` since ${new Date(dispensary.broken_link_since).toLocaleString()}`}
+            </div>
+            <div className="mt-1 break-all">{dispensary.broken_link_url}</div>
+          </div>
+        )}
+
+        {!dispensary.active && (
+          <div className="mb-4 rounded-lg bg-red-50 p-3 text-sm text-red-800">
+            <div className="font-medium">
+              Inactive{dispensary.deactivated_at && ` since ${new Date(dispensary.deactivated_at).toLocaleString()}`}
+            </div>
+            {dispensary.deactivation_reason && <div className="mt-1">{dispensary.deactivation_reason}</div>}
+            <button
+              onClick={handleReactivate}
+              disabled={reactivating}
+              className="mt-2 px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              {reactivating ? 'Reactivating...' : 'Reactivate'}
+            </button>
+          </div>
+        )}
+
+        <DealsPagePanel dispensary={dispensary} token={token} />
+
+        <ParseHintsPanel dispensary={dispensary} token={token} />
+
+        <EmailContactsPanel dispensary={dispensary} token={token} />
+
+        <IngestionRunTimeline dispensaryName={dispensary.name} days={30} />
+      </div>
+    </div>
+  )
+}
+
+function DealsPagePanel({ dispensary, token }: { dispensary: Dispensary; token: string | null }) {
+  const [dealsUrl, setDealsUrl] = useState(dispensary.deals_url)
+  const [candidates, setCandidates] = useState(dispensary.deals_page_candidates || [])
+  const [crawledAt, setCrawledAt] = useState(dispensary.deals_page_crawled_at)
+  const [crawling, setCrawling] = useState(false)
+
+  if (!dispensary.website && !dealsUrl) return null
+
+  const handleCrawl = async () => {
+    setCrawling(true)
+    try {
+      const res = await fetch('/api/admin/dispensaries/crawl', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders(token),
+        },
+        body: JSON.stringify({ id: dispensary.id }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Crawl failed')
+      setCandidates(data.data?.candidates || [])
+      setCrawledAt(new Date().toISOString())
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Crawl failed')
+    } finally {
+      setCrawling(false)
+    }
+  }
+
+  const handleUse = async (url: string) => {
+    const res = await fetch('/api/admin/dispensaries', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(token),
+      },
+      body: JSON.stringify({ id: dispensary.id, deals_url: url }),
+    })
+    if (res.ok) {
+      setDealsUrl(url)
+    } else {
+      const data = await res.json()
+      alert(data.error || 'Failed to set deals page')
+    }
+  }
+
+  return (
+    <div className="mb-4 rounded-lg border border-gray-200 p-3 text-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <div className="font-medium text-gray-900">Deals page</div>
+          {dealsUrl ? (
+            <a href={dealsUrl} target="_blank" rel="noreferrer" className="break-all text-lake-blue-600 hover:underline">
+              {dealsUrl}
+            </a>
+          ) : (
+            <div className="text-gray-500">Not found yet{dispensary.website && ` · website ${dispensary.website}`}</div>
+          )}
+          {crawledAt && <div className="text-xs text-gray-500">Last crawled {new Date(crawledAt).toLocaleString()}</div>}
+        </div>
+        {dispensary.website && (
+          <button
+            onClick={handleCrawl}
+            disabled={crawling}
+            className="shrink-0 px-3 py-1 bg-gray-800 text-white rounded-lg hover:bg-gray-900 disabled:opacity-50"
+          >
+            {crawling ? 'Crawling...' : 'Crawl now'}
+          </button>
+        )}
+      </div>
+
+      {candidates.length > 0 && (
+        <table className="mt-3 min-w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1 pr-2">Score</th>
+              <th className="py-1 pr-2">Candidate</th>
+              <th className="py-1 pr-2">Why</th>
+              <th className="py-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {candidates.map((candidate) => (
+              <tr key={candidate.url} className="border-t align-top">
+                <td className="py-1 pr-2 font-medium">{candidate.score}</td>
+                <td className="py-1 pr-2 break-all">
+                  {candidate.url}
+                  <div className="text-gray-500">
+                    {candidate.kind === 'menu_embed' ? 'menu embed' : `depth ${candidate.depth}`}
+                    {!candidate.fetched && ' · not fetched'}
+                  </div>
+                </td>
+                <td className="py-1 pr-2 text-gray-600">{candidate.reasons.join(', ')}</td>
+                <td className="py-1 text-right">
+                  {candidate.url !== dealsUrl && (
+                    <button onClick={() => handleUse(candidate.url)} className="text-lake-blue-600 hover:text-lake-blue-900">
+                      Use
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+function ParseHintsPanel({ dispensary, token }: { dispensary: Dispensary; token: string | null }) {
+  const [hints, setHints] = useState<DispensaryParseHints | null>(null)
+  const [notes, setNotes] = useState('')
+  const [remaps, setRemaps] = useState('')
+  const [ignores, setIgnores] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const apply = (loaded: DispensaryParseHints) => {
+    setHints(loaded)
+    setNotes(loaded.notes || '')
+    setRemaps(loaded.category_remaps.map((remap) => `${remap.term} = ${remap.category}`).join('\n'))
+    setIgnores(loaded.ignore_patterns.join('\n'))
+  }
+
+  useEffect(() => {
+    if (token === null) return
+    fetch(`/api/admin/dispensaries/parse-hints?id=${dispensary.id}`, { headers: getAuthHeaders(token) })
+      .then((res) => res.json())
+      .then((data) => data.data?.hints && apply(data.data.hints))
+      .catch(() => setHints(null))
+  }, [dispensary.id, token])
+
+  const save = async (examples = hints?.examples || []) => {
+    setSaving(true)
+    try {
+      const category_remaps = remaps
+        .split('\n')
+        .map((line) => line.split('='))
+        .filter((parts) => parts.length === 2 && parts[0].trim() && parts[1].trim())
+        .map(([term, category]) => ({ term: term.trim(), category: category.trim() }))
+      const res = await fetch('/api/admin/dispensaries/parse-hints', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders(token),
+        },
+        body: JSON.stringify({
+          id: dispensary.id,
+          notes: notes.trim() || null,
+          category_remaps,
+          ignore_patterns: ignores.split('\n').map((line) => line.trim()).filter(Boolean),
+          examples,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to save parse hints')
+      apply(data.data.hints)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save parse hints')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!hints) return null
+
+  return (
+    <div className="mb-4 rounded-lg border border-gray-200 p-3 text-sm space-y-3">
+      <div>
+        <div className="font-medium text-gray-900">Parsing hints</div>
+        <div className="text-xs text-gray-500">
+          Added to the AI prompt for this shop&apos;s flyers. Examples are captured when a review is fixed.
+        </div>
+      </div>
+      <label className="block">
+        <span className="text-xs text-gray-600">Notes</span>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={2}
+          className="mt-1 w-full px-2 py-1 border border-gray-300 rounded"
+          placeholder="e.g. Prices on this flyer are before tax; 'Daily Drop' items are one-day only"
+        />
+      </label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="block">
+          <span className="text-xs text-gray-600">Category remaps (term = category, one per line)</span>
+          <textarea
+            value={remaps}
+            onChange={(e) => setRemaps(e.target.value)}
+            rows={3}
+            className="mt-1 w-full px-2 py-1 border border-gray-300 rounded font-mono text-xs"
+            placeholder="Smalls = flower"
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs text-gray-600">Never a deal (one per line)</span>
+          <textarea
+            value={ignores}
+            onChange={(e) => setIgnores(e.target.value)}
+            rows={3}
+            className="mt-1 w-full px-2 py-1 border border-gray-300 rounded font-mono text-xs"
+            placeholder="Happy hour 4-6pm"
+          />
+        </label>
+      </div>
+      {hints.examples.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {hints.examples.map((example) => (
+            <li key={example.captured_at} className="flex items-start justify-between gap-2">
+              <span className="text-gray-700">
+                <span className="text-red-700 line-through">
+                  [{example.before.category}] {example.before.title} — {example.before.price_text}
+                </span>{' '}
+                → [{example.after.category}] {example.after.title} — {example.after.price_text}
+              </span>
+              <button
+                onClick={() => save(hints.examples.filter((other) => other !== example))}
+                disabled={saving}
+                className="shrink-0 text-red-600 hover:text-red-900"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button
+        onClick={() => save()}
+        disabled={saving}
+        className="px-3 py-1 bg-gray-800 text-white rounded-lg hover:bg-gray-900 disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save hints'}
+      </button>
+    </div>
+  )
+}
+
+type DispensaryContact = {
+  id: string
+  email: string
+  name: string | null
+  verified_at: string | null
+  verified_by: string | null
+}
+
+type InboundEmail = {
+  id: string
+  from_email: string
+  subject: string | null
+  status: string
+  attachments: number
+  deals_extracted: number
+  reply_sent: boolean
+  error: string | null
+  created_at: string
+}
+
+const INBOUND_STATUS_STYLES: Record<string, string> = {
+  processed: 'bg-green-100 text-green-800',
+  no_content: 'bg-gray-100 text-gray-700',
+  failed: 'bg-red-100 text-red-800',
+}
+
+function EmailContactsPanel({ dispensary, token }: { dispensary: Dispensary; token: string | null }) {
+  const [contacts, setContacts] = useState<DispensaryContact[] | null>(null)
+  const [emails, setEmails] = useState<InboundEmail[]>([])
+  const [email, setEmail] = useState('')
+  const [name, setName] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const load = useCallback(() => {
+    if (token === null) return
+    fetch(`/api/admin/dispensaries/contacts?dispensary_id=${dispensary.id}`, { headers: getAuthHeaders(token) })
+      .then((res) => res.json())
+      .then((data) => {
+        setContacts(data.data?.contacts || [])
+        setEmails(data.data?.emails || [])
+      })
+      .catch(() => setContacts(null))
+  }, [dispensary.id, token])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const addContact = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch('/api/admin/dispensaries/contacts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders(token),
+        },
+        body: JSON.stringify({ dispensary_id: dispensary.id, email: email.trim(), name: name.trim() || undefined }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to add contact')
+      setEmail('')
+      setName('')
+      load()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to add contact')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeContact = async (contact: DispensaryContact) => {
+    if (!confirm(`Stop accepting deal emails from ${contact.email}?`)) return
+    const res = await fetch(`/api/admin/dispensaries/contacts?id=${contact.id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(token),
+    })
+    if (res.ok) load()
+  }
+
+  if (!contacts) return null
+
+  return (
+    <div className="mb-4 rounded-lg border border-gray-200 p-3 text-sm space-y-3">
+      <div>
+        <div className="font-medium text-gray-900">Email contacts</div>
+        <div className="text-xs text-gray-500">
+          Flyers and deals emailed from these addresses become pending submissions. Mail from anyone else is ignored.
+        </div>
+      </div>
+      {contacts.length > 0 && (
+        <ul className="space-y-1">
+          {contacts.map((contact) => (
+            <li key={contact.id} className="flex items-center justify-between gap-2">
+              <span className="text-gray-700">
+                {contact.email}
+                {contact.name && <span className="text-gray-500"> · {contact.name}</span>}
+                {contact.verified_by && (
+                  <span className="text-xs text-gray-400"> · verified by {contact.verified_by}</span>
+                )}
+              </span>
+              <button onClick={() => removeContact(contact)} className="shrink-0 text-red-600 hover:text-red-900">
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="manager@dispensary.com"
+          className="flex-1 min-w-[12rem] px-2 py-1 border border-gray-300 rounded"
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (optional)"
+          className="w-40 px-2 py-1 border border-gray-300 rounded"
+        />
+        <button
+          onClick={addContact}
+          disabled={saving || !email.trim()}
+          className="px-3 py-1 bg-gray-800 text-white rounded-lg hover:bg-gray-900 disabled:opacity-50"
+        >
+          {saving ? 'Adding...' : 'Add verified contact'}
+        </button>
+      </div>
+      {emails.length > 0 && (
+        <div>
+          <div className="text-xs font-medium text-gray-600 mb-1">Recent emails</div>
+          <ul className="space-y-1 text-xs">
+            {emails.map((inbound) => (
+              <li key={inbound.id} className="flex items-start gap-2">
+                <span
+                  className={`shrink-0 rounded px-2 py-0.5 ${INBOUND_STATUS_STYLES[inbound.status] || 'bg-gray-100 text-gray-700'}`}
+                  title={inbound.error || undefined}
+                >
+                  {inbound.status.replace('_', ' ')}
+                </span>
+                <span className="text-gray-700">
+                  {new Date(inbound.created_at).toLocaleString()} · {inbound.subject || '(no subject)'} ·{' '}
+                  {inbound.attachments} {inbound.attachments === 1 ? 'attachment' : 'attachments'} ·{' '}
+                  {inbound.deals_extracted} {inbound.deals_extracted === 1 ? 'deal' : 'deals'}
+                  {inbound.reply_sent ? ' · replied' : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+type FetchProblem = {
+  url: string
+  host: string
+  last_outcome: string
+  last_status: number | null
+  last_error: string | null
+  last_fetched_at: string
+  last_success_at: string | null
+  blocked: boolean
+}
+
+const FETCH_OUTCOME_LABELS: Record<string, string> = {
+  robots_disallowed: 'robots.txt',
+  forbidden: 'Forbidden',
+  rate_limited: 'Rate limited',
+  http_error: 'HTTP error',
+  network_error: 'Unreachable',
+}
+
+function FetchProblemsPanel({ token }: { token: string | null }) {
+  const [problems, setProblems] = useState<FetchProblem[]>([])
+
+  useEffect(() => {
+    if (!token) return
+    fetch('/api/admin/dispensaries/fetch-problems', { headers: getAuthHeaders(token) })
+      .then((res) => res.json())
+      .then((json) => setProblems(json.data?.problems || []))
+      .catch(() => setProblems([]))
+  }, [token])
+
+  if (problems.length === 0) return null
+  const blocked = problems.filter((p) => p.blocked).length
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h3 className="text-lg font-semibold text-gray-900">Fetch problems</h3>
+      <p className="mb-3 text-sm text-gray-600">
+        {blocked} blocked, {problems.length - blocked} failing. Blocked sites keep us out via robots.txt, 401/403 or 429 and
+        need a flyer URL or a contact instead.
+      </p>
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1 pr-2">URL</th>
+            <th className="py-1 pr-2">Outcome</th>
+            <th className="py-1 pr-2">Last fetch</th>
+            <th className="py-1">Last success</th>
+          </tr>
+        </thead>
+        <tbody>
+          {problems.map((problem) => (
+            <tr key={problem.url} className="border-t align-top">
+              <td className="py-1 pr-2 break-all">
+                <a href={problem.url} target="_blank" rel="noreferrer" className="text-lake-blue-600 hover:underline">
+                  {problem.url}
+                </a>
+              </td>
+              <td className="py-1 pr-2">
+                <span
+                  className={`rounded px-2 py-0.5 text-xs ${problem.blocked ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}
+                  title={problem.last_error || undefined}
+                >
+                  {FETCH_OUTCOME_LABELS[problem.last_outcome] || problem.last_outcome}
+                  {problem.last_status ? ` ${problem.last_status}` : ''}
+                </span>
+              </td>
+              <td className="py-1 pr-2 text-gray-600">{new Date(problem.last_fetched_at).toLocaleString()}</td>
+              <td className="py-1 text-gray-600">
+                {problem.last_success_at ? new Date(problem.last_success_at).toLocaleDateString() : 'Never'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
 function AddDispensaryModal({ onClose, token }: { onClose: () => void; token: string | null }) {
   const [formData, setFormData] = useState({
     name: '',
@@ -441,6 +1057,11 @@ function AddDispensaryModal({ onClose, token }: { onClose: () => void; token: st
   )
 }
 
+const TIMEZONE_LABELS: Record<(typeof SERVED_TIMEZONES)[number], string> = {
+  'America/Detroit': 'Eastern (most of Michigan)',
+  'America/Menominee': 'Central (Gogebic, Iron, Dickinson, Menominee)',
+}
+
 function EditDispensaryModal({ dispensary, onClose, token }: { dispensary: Dispensary; onClose: () => void; token: string | null }) {
   const [formData, setFormData] = useState({
     name: dispensary.name,
@@ -448,6 +1069,7 @@ function EditDispensaryModal({ dispensary, onClose, token }: { dispensary: Dispe
     zip: dispensary.zip || '',
     flyer_url: dispensary.flyer_url || '',
     weedmaps_url: dispensary.weedmaps_url || '',
+    timezone: dispensary.timezone || DEFAULT_TIMEZONE,
     active: dispensary.active,
   })
   const [submitting, setSubmitting] = useState(false)
@@ -470,6 +1092,7 @@ function EditDispensaryModal({ dispensary, onClose, token }: { dispensary: Dispe
           zip: formData.zip || undefined,
           flyer_url: formData.flyer_url || undefined,
           weedmaps_url: formData.weedmaps_url || undefined,
+          timezone: formData.timezone === DEFAULT_TIMEZONE ? null : formData.timezone,
         }),
       })
 
@@ -537,6 +1160,20 @@ function EditDispensaryModal({ dispensary, onClose, token }: { dispensary: Dispe
               className="w-full px-3 py-2 border border-gray-300 rounded-lg"
             />
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Timezone</label>
+            <select
+              value={formData.timezone}
+              onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              {SERVED_TIMEZONES.map((timezone) => (
+                <option key={timezone} value={timezone}>
+                  {TIMEZONE_LABELS[timezone]}
+                </option>
+              ))}
+            </select>
+          </div>
           <div>
             <label className="flex items-center">
               <input
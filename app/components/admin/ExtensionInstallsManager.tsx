@@ -0,0 +1,151 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useAdminAuth, getAuthHeaders } from '@/lib/hooks/useAdminAuth'
+
+type Install = {
+  id: string
+  label: string
+  install_id: string | null
+  key_prefix: string
+  status: 'active' | 'revoked'
+  daily_quota: number
+  extension_version: string | null
+  last_seen_at: string | null
+  captures_total: number
+  captures_approved: number
+  captures_rejected: number
+  trust_score: number
+}
+
+export function ExtensionInstallsManager() {
+  const { token } = useAdminAuth()
+  const [installs, setInstalls] = useState<Install[]>([])
+  const [minVersion, setMinVersion] = useState<string | null>(null)
+  const [form, setForm] = useState({ label: '', daily_quota: '' })
+  const [issuedKey, setIssuedKey] = useState('')
+  const [loading, setLoading] = useState(true)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    const res = await fetch('/api/admin/extension-installs', { headers: getAuthHeaders(token) })
+    const json = await res.json()
+    setInstalls(json.data?.installs || [])
+    setMinVersion(json.data?.min_version || null)
+    setLoading(false)
+  }, [token])
+
+  useEffect(() => {
+    if (token) load()
+  }, [token, load])
+
+  const updateQuota = async (install: Install) => {
+    const value = prompt(`Daily capture quota for ${install.label}`, String(install.daily_quota))
+    if (!value || !Number(value)) return
+    await fetch('/api/admin/extension-installs', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders(token) },
+      body: JSON.stringify({ id: install.id, daily_quota: Number(value) }),
+    })
+    load()
+  }
+
+  const revoke = async (install: Install) => {
+    if (!confirm(`Revoke the key for ${install.label}? The extension will stop submitting immediately.`)) return
+    await fetch(`/api/admin/extension-installs?id=${install.id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(token),
+    })
+    load()
+  }
+
+  return (
+    <div className="space-y-6">
+      <form
+        className="grid gap-2 rounded border bg-white p-4 md:grid-cols-3"
+        onSubmit={async (e) => {
+          e.preventDefault()
+          setIssuedKey('')
+          const res = await fetch('/api/admin/extension-installs', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders(token) },
+            body: JSON.stringify({
+              label: form.label,
+              ...(form.daily_quota ? { daily_quota: Number(form.daily_quota) } : {}),
+            }),
+          })
+          const json = await res.json()
+          setIssuedKey(json.data?.api_key || '')
+          setForm({ label: '', daily_quota: '' })
+          load()
+        }}
+      >
+        <input className="border p-2" placeholder="Issued to (name or team)" value={form.label} onChange={(e) => setForm({ ...form, label: e.target.value })} required />
+        <input className="border p-2" placeholder="Daily quota (default 500)" type="number" min={1} value={form.daily_quota} onChange={(e) => setForm({ ...form, daily_quota: e.target.value })} />
+        <button className="rounded bg-gray-900 px-4 py-2 text-white">Issue key</button>
+        {issuedKey && (
+          <p className="md:col-span-3 rounded bg-amber-50 p-2 text-sm text-amber-800">
+            Copy this key now, it will not be shown again: <code className="break-all font-mono">{issuedKey}</code>
+          </p>
+        )}
+      </form>
+
+      {minVersion && <p className="text-sm text-gray-600">Minimum supported extension version: {minVersion}</p>}
+
+      {loading ? (
+        <p>Loading installs…</p>
+      ) : (
+        <div className="overflow-x-auto rounded border bg-white">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="p-2">Install</th>
+                <th className="p-2">Version</th>
+                <th className="p-2">Captures</th>
+                <th className="p-2">Trust</th>
+                <th className="p-2">Quota</th>
+                <th className="p-2">Last seen</th>
+                <th className="p-2">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {installs.map((install) => (
+                <tr key={install.id} className="border-t">
+                  <td className="p-2">
+                    <div className="font-medium">{install.label}</div>
+                    <div className="text-xs text-gray-500">
+                      {install.key_prefix}… {install.status === 'revoked' ? '· REVOKED' : ''}
+                    </div>
+                  </td>
+                  <td className="p-2">{install.extension_version || '-'}</td>
+                  <td className="p-2">
+                    {install.captures_total}
+                    <div className="text-xs text-gray-500">
+                      {install.captures_approved} approved · {install.captures_rejected} rejected
+                    </div>
+                  </td>
+                  <td className="p-2">{(Number(install.trust_score) * 100).toFixed(0)}%</td>
+                  <td className="p-2">{install.daily_quota}/day</td>
+                  <td className="p-2">{install.last_seen_at ? new Date(install.last_seen_at).toLocaleString() : '-'}</td>
+                  <td className="p-2 space-x-1">
+                    {install.status === 'active' && (
+                      <>
+                        <button className="rounded bg-gray-800 px-2 py-1 text-white" onClick={() => updateQuota(install)}>
+                          Quota
+                        </button>
+                        <button className="rounded bg-red-600 px-2 py-1 text-white" onClick={() => revoke(install)}>
+                          Revoke
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!installs.length && <p className="p-4 text-gray-500">No extension keys issued yet.</p>}
+        </div>
+      )}
+    </div>
+  )
+}
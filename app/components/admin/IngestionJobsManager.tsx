@@ -0,0 +1,179 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useAdminAuth, getAuthHeaders } from '@/lib/hooks/useAdminAuth'
+
+type JobStatus = 'PENDING' | 'RUNNING' | 'SUCCEEDED' | 'DEAD' | 'DISCARDED'
+
+type IngestionJob = {
+  id: string
+  type: 'INGEST_DISPENSARY' | 'PROCESS_ZONE' | 'CROP_THUMBNAILS'
+  payload: { dispensary?: { name: string; city?: string }; zone_id?: string; trigger?: string; deal_ids?: string[] }
+  status: JobStatus
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string
+  last_attempted_at: string | null
+  error_message: string | null
+  result: Record<string, unknown> | null
+  dead_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+const STATUSES: JobStatus[] = ['DEAD', 'PENDING', 'RUNNING', 'SUCCEEDED', 'DISCARDED']
+
+function describeJob(job: IngestionJob): string {
+  if (job.type === 'INGEST_DISPENSARY') {
+    const d = job.payload.dispensary
+    return d ? `Ingest ${d.name}${d.city ? ` (${d.city})` : ''}` : 'Ingest dispensary'
+  }
+  if (job.type === 'CROP_THUMBNAILS') {
+    const count = job.payload.deal_ids?.length || 0
+    return `Crop ${count} deal thumbnail${count === 1 ? '' : 's'}`
+  }
+  const zip = job.result?.zip
+  return `Process zone ${typeof zip === 'string' ? zip : job.payload.zone_id || ''}`
+}
+
+export function IngestionJobsManager() {
+  const { token } = useAdminAuth()
+  const [status, setStatus] = useState<JobStatus>('DEAD')
+  const [jobs, setJobs] = useState<IngestionJob[]>([])
+  const [counts, setCounts] = useState<Partial<Record<JobStatus, number>>>({})
+  const [selected, setSelected] = useState<string[]>([])
+  const [message, setMessage] = useState('')
+  const [loading, setLoading] = useState(true)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    const res = await fetch(`/api/admin/ingestion-jobs?status=${status}`, { headers: getAuthHeaders(token) })
+    const json = await res.json()
+    setJobs(json.data?.jobs || [])
+    setCounts(json.data?.counts || {})
+    setSelected([])
+    setLoading(false)
+  }, [token, status])
+
+  useEffect(() => {
+    if (token) load()
+  }, [token, load])
+
+  const act = async (action: 'requeue' | 'discard', ids: string[]) => {
+    if (ids.length === 0) return
+    if (action === 'discard' && !confirm(`Discard ${ids.length} job${ids.length === 1 ? '' : 's'}? They will not run again.`)) return
+    setMessage('')
+    const res = await fetch('/api/admin/ingestion-jobs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders(token) },
+      body: JSON.stringify({ action, ids }),
+    })
+    const json = await res.json()
+    setMessage(json.success ? json.message || '' : json.error || 'Update failed')
+    await load()
+  }
+
+  const toggle = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]))
+  }
+
+  const canRequeue = status === 'DEAD' || status === 'DISCARDED'
+  const canDiscard = status === 'DEAD' || status === 'PENDING'
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {STATUSES.map((s) => (
+          <button
+            key={s}
+            onClick={() => setStatus(s)}
+            className={`rounded px-3 py-1 text-sm ${status === s ? 'bg-gray-900 text-white' : 'bg-white border text-gray-700'}`}
+          >
+            {s.toLowerCase()} ({counts[s] ?? 0})
+          </button>
+        ))}
+        {message && <span className="text-sm text-gray-700">{message}</span>}
+      </div>
+
+      {selected.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded border border-amber-200 bg-amber-50 p-3 text-sm">
+          <span>{selected.length} selected</span>
+          {canRequeue && (
+            <button className="rounded bg-gray-900 px-3 py-1 text-white" onClick={() => act('requeue', selected)}>
+              Requeue
+            </button>
+          )}
+          {canDiscard && (
+            <button className="rounded bg-red-600 px-3 py-1 text-white" onClick={() => act('discard', selected)}>
+              Discard
+            </button>
+          )}
+          <button className="text-gray-600" onClick={() => setSelected([])}>
+            Clear
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <p>Loading jobs…</p>
+      ) : (
+        <div className="overflow-x-auto rounded border bg-white">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="p-2">
+                  <input
+                    type="checkbox"
+                    checked={jobs.length > 0 && selected.length === jobs.length}
+                    onChange={(e) => setSelected(e.target.checked ? jobs.map((j) => j.id) : [])}
+                  />
+                </th>
+                <th className="p-2">Job</th>
+                <th className="p-2">Attempts</th>
+                <th className="p-2">{status === 'PENDING' ? 'Next attempt' : 'Updated'}</th>
+                <th className="p-2">Last error</th>
+                <th className="p-2">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {jobs.map((job) => (
+                <tr key={job.id} className="border-t align-top">
+                  <td className="p-2">
+                    <input type="checkbox" checked={selected.includes(job.id)} onChange={() => toggle(job.id)} />
+                  </td>
+                  <td className="p-2">
+                    <div className="font-medium">{describeJob(job)}</div>
+                    <div className="text-xs text-gray-500">
+                      {job.type} · queued {new Date(job.created_at).toLocaleString()}
+                      {job.payload.trigger && ` · ${job.payload.trigger}`}
+                    </div>
+                  </td>
+                  <td className="p-2">
+                    {job.attempts}/{job.max_attempts}
+                  </td>
+                  <td className="p-2 text-gray-600">
+                    {new Date(status === 'PENDING' ? job.next_attempt_at : job.updated_at).toLocaleString()}
+                  </td>
+                  <td className="p-2 max-w-md break-words text-gray-700">{job.error_message || '—'}</td>
+                  <td className="p-2 space-x-1 whitespace-nowrap">
+                    {canRequeue && (
+                      <button className="rounded bg-gray-800 px-2 py-1 text-white" onClick={() => act('requeue', [job.id])}>
+                        Requeue
+                      </button>
+                    )}
+                    {canDiscard && (
+                      <button className="rounded bg-red-600 px-2 py-1 text-white" onClick={() => act('discard', [job.id])}>
+                        Discard
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!jobs.length && <p className="p-4 text-gray-500">No {status.toLowerCase()} jobs.</p>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useAdminAuth, getAuthHeaders } from '@/lib/hooks/useAdminAuth'
+import { SkeletonLoader } from '@/app/components/SkeletonLoader'
+import type { IngestionRun } from '@/lib/ingestion-runs'
+
+const STATUS_STYLES: Record<IngestionRun['status'], string> = {
+  running: 'bg-blue-100 text-blue-800',
+  succeeded: 'bg-green-100 text-green-800',
+  no_deals: 'bg-amber-100 text-amber-800',
+  skipped: 'bg-gray-100 text-gray-700',
+  failed: 'bg-red-100 text-red-800',
+}
+
+/**
+ * Share of parsed deals flagged for review or filtered out, for runs with and without parse hints
+ * (lib/parse-hints), so a shop's hints can be seen working. Null for a side with no parsed runs.
+ */
+function hintEffect(runs: IngestionRun[]) {
+  const rate = (group: IngestionRun[]) => {
+    const found = group.reduce((n, run) => n + run.deals_found, 0)
+    if (found === 0) return null
+    const rejected = group.reduce((n, run) => n + run.flagged + run.deals_filtered, 0)
+    return { runs: group.length, rate: rejected / found }
+  }
+  const parsed = runs.filter((run) => run.deals_found > 0)
+  return {
+    withHints: rate(parsed.filter((run) => run.parse_hints > 0)),
+    withoutHints: rate(parsed.filter((run) => !run.parse_hints)),
+  }
+}
+
+/**
+ * Ingestion run history, newest first, with each run's stage steps.
+ * Pass dispensaryName to show one shop's timeline; omit it for all shops.
+ */
+export function IngestionRunTimeline({ dispensaryName, days = 7 }: { dispensaryName?: string; days?: number }) {
+  const { token } = useAdminAuth()
+  const [runs, setRuns] = useState<IngestionRun[]>([])
+  const [statusFilter, setStatusFilter] = useState('')
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError('')
+    try {
+      const { apiFetch, getErrorMessage, isErrorResponse, unwrapApiResponse } = await import('@/lib/api-client')
+      const params = new URLSearchParams({ days: String(days) })
+      if (dispensaryName) params.set('dispensary', dispensaryName)
+      if (statusFilter) params.set('status', statusFilter)
+      const response = await apiFetch<{ runs: IngestionRun[] }>(`/api/admin/ingestion-runs?${params}`, {
+        headers: getAuthHeaders(token),
+      })
+      if (isErrorResponse(response)) {
+        throw new Error(getErrorMessage(response))
+      }
+      setRuns(unwrapApiResponse(response).runs || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load ingestion runs')
+    } finally {
+      setLoading(false)
+    }
+  }, [token, dispensaryName, days, statusFilter])
+
+  useEffect(() => {
+    if (token !== null) load()
+  }, [token, load])
+
+  const effect = dispensaryName ? hintEffect(runs) : null
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-xs text-gray-600">
+          {effect?.withHints &&
+            `Flagged or filtered: ${Math.round(effect.withHints.rate * 100)}% of deals over ${effect.withHints.runs} run(s) with parse hints` +
+              (effect.withoutHints
+                ? ` vs ${Math.round(effect.withoutHints.rate * 100)}% over ${effect.withoutHints.runs} without`
+                : '')}
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+          className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+        >
+          <option value="">All runs</option>
+          <option value="failed">Failed</option>
+          <option value="no_deals">No deals</option>
+          <option value="succeeded">Succeeded</option>
+          <option value="skipped">Skipped</option>
+        </select>
+      </div>
+
+      {loading ? (
+        <SkeletonLoader variant="table" count={3} />
+      ) : error ? (
+        <div className="text-red-600 text-sm">{error}</div>
+      ) : runs.length === 0 ? (
+        <p className="text-sm text-gray-500">No ingestion runs in this period</p>
+      ) : (
+        <ol className="divide-y divide-gray-200">
+          {runs.map((run) => (
+            <li key={run.id} className="py-3">
+              <button
+                type="button"
+                onClick={() => setExpanded(expanded === run.id ? null : run.id)}
+                className="w-full text-left"
+              >
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[run.status]}`}>
+                    {run.status.replace('_', ' ')}
+                  </span>
+                  {!dispensaryName && <span className="font-medium text-gray-900">{run.dispensary_name}</span>}
+                  <span className="text-gray-500">{new Date(run.started_at).toLocaleString()}</span>
+                  <span className="text-gray-400">· {run.trigger}</span>
+                  {run.deactivated && (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-600 text-white">deactivated</span>
+                  )}
+                </div>
+                <div className="mt-1 text-xs text-gray-600">
+                  Reached {run.stage_reached || '-'} · HTTP {run.http_status ?? '-'} · OCR {run.ocr_length ?? '-'} chars ·{' '}
+                  {run.deals_found} found / {run.deals_inserted} inserted / {run.deals_filtered} filtered /{' '}
+                  {run.duplicates} duplicates / {run.flagged} flagged
+                  {run.deals_extended > 0 && ` / ${run.deals_extended} extended (flyer unchanged)`} · {run.ai_tokens} tokens
+                  {Number(run.ai_cost_usd) > 0 && ` ($${Number(run.ai_cost_usd).toFixed(3)})`}
+                  {run.parse_hints > 0 && ` · ${run.parse_hints} parse hints`}
+                  {run.success_rate_after !== null && ` · rate after ${(Number(run.success_rate_after) * 100).toFixed(0)}%`}
+                </div>
+                {run.error && <div className="mt-1 text-xs text-red-700 break-all">{run.error}</div>}
+              </button>
+
+              {expanded === run.id && (
+                <table className="mt-2 min-w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="p-1">Stage</th>
+                      <th className="p-1">Outcome</th>
+                      <th className="p-1">HTTP</th>
+                      <th className="p-1">OCR</th>
+                      <th className="p-1">Deals</th>
+                      <th className="p-1">Tokens</th>
+                      <th className="p-1">Time</th>
+                      <th className="p-1">Source</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(run.ingestion_run_steps || []).map((step) => (
+                      <tr key={step.id} className="border-t">
+                        <td className="p-1">{step.stage}</td>
+                        <td className={`p-1 ${step.ok ? 'text-green-700' : 'text-red-700'}`}>
+                          {step.ok ? 'ok' : step.reason}
+                          {step.error && <div className="text-gray-500 break-all">{step.error}</div>}
+                        </td>
+                        <td className="p-1">{step.http_status ?? '-'}</td>
+                        <td className="p-1">{step.ocr_length ?? '-'}</td>
+                        <td className="p-1">
+                          {step.deals_found ?? '-'}
+                          {step.duplicates ? ` (${step.duplicates} dup)` : ''}
+                        </td>
+                        <td className="p-1">{step.ai_tokens ?? '-'}</td>
+                        <td className="p-1">{step.duration_ms !== null ? `${step.duration_ms}ms` : '-'}</td>
+                        <td className="p-1 max-w-xs truncate">
+                          {step.source_url ? (
+                            <a href={step.source_url} target="_blank" rel="noopener noreferrer" className="text-lake-blue-600 hover:underline">
+                              {step.source_url}
+                            </a>
+                          ) : (
+                            '-'
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
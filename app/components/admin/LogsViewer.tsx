@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useAdminAuth, getAuthHeaders } from '@/lib/hooks/useAdminAuth'
 import { SkeletonLoader } from '@/app/components/SkeletonLoader'
+import { IngestionRunTimeline } from './IngestionRunTimeline'
 
 interface EmailLog {
   id: string
@@ -24,7 +25,7 @@ interface IngestionLog {
 }
 
 export function LogsViewer() {
-  const [type, setType] = useState<'email' | 'ingestion' | 'all'>('all')
+  const [type, setType] = useState<'email' | 'ingestion' | 'runs' | 'all'>('all')
   const [days, setDays] = useState(7)
   const [emailLogs, setEmailLogs] = useState<EmailLog[]>([])
   const [ingestionLogs, setIngestionLogs] = useState<IngestionLog[]>([])
@@ -46,7 +47,8 @@ export function LogsViewer() {
     setIngestionError('')
     try {
       const { apiFetch, getErrorMessage, isErrorResponse, unwrapApiResponse } = await import('@/lib/api-client')
-      const response = await apiFetch<{ email_logs: EmailLog[]; ingestion_logs: IngestionLog[]; ingestion_error?: string }>(`/api/admin/logs?type=${type}&days=${days}`, {
+      const logType = type === 'runs' ? 'ingestion' : type
+      const response = await apiFetch<{ email_logs: EmailLog[]; ingestion_logs: IngestionLog[]; ingestion_error?: string }>(`/api/admin/logs?type=${logType}&days=${days}`, {
         headers: getAuthHeaders(token),
       })
       
@@ -91,12 +93,13 @@ export function LogsViewer() {
         <div className="flex gap-4">
           <select
             value={type}
-            onChange={(e) => setType(e.target.value as 'email' | 'ingestion' | 'all')}
+            onChange={(e) => setType(e.target.value as 'email' | 'ingestion' | 'runs' | 'all')}
             className="px-4 py-2 border border-gray-300 rounded-lg"
           >
             <option value="all">All Logs</option>
             <option value="email">Email Logs</option>
             <option value="ingestion">Ingestion Logs</option>
+            <option value="runs">Ingestion Runs</option>
           </select>
           <select
             value={days}
@@ -160,6 +163,18 @@ export function LogsViewer() {
         </div>
       )}
 
+      {(type === 'runs' || type === 'all') && (
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Ingestion Runs</h3>
+            <p className="text-sm text-gray-500">Every ingestion attempt per dispensary, with the stage it reached. Click a run for its steps.</p>
+          </div>
+          <div className="px-6 py-4">
+            <IngestionRunTimeline days={days} />
+          </div>
+        </div>
+      )}
+
       {(type === 'ingestion' || type === 'all') && (
         <div className="bg-white rounded-lg shadow">
           <div className="px-6 py-4 border-b border-gray-200">
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useAdminAuth, getAuthHeaders } from '@/lib/hooks/useAdminAuth'
 import { SkeletonLoader } from '@/app/components/SkeletonLoader'
+import { AiSpendPanel } from '@/app/components/admin/AiSpendPanel'
 
 interface Stats {
   users: { total: number }
@@ -121,6 +122,8 @@ export function StatsDashboard() {
           </div>
         </div>
       </div>
+
+      <AiSpendPanel days={days} />
     </div>
   )
 }
@@ -0,0 +1,177 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { getAuthHeaders } from '@/lib/hooks/useAdminAuth'
+
+/** [ymin, xmin, ymax, xmax] on a 0–1000 scale, as stored on deals.image_box */
+type Box = [number, number, number, number]
+
+type CropSource = {
+  page: number
+  page_count: number
+  image: string
+  box: Box | null
+}
+
+function toBoxStyle(box: Box) {
+  return {
+    top: `${box[0] / 10}%`,
+    left: `${box[1] / 10}%`,
+    height: `${(box[2] - box[0]) / 10}%`,
+    width: `${(box[3] - box[1]) / 10}%`,
+  }
+}
+
+/**
+ * Draw the box a deal's thumbnail is cropped from on its flyer page, and re-crop it.
+ */
+export function ThumbnailCropper({
+  dealId,
+  token,
+  onSaved,
+  onClose,
+}: {
+  dealId: string
+  token: string | null
+  onSaved: (image: string) => void
+  onClose: () => void
+}) {
+  const [source, setSource] = useState<CropSource | null>(null)
+  const [box, setBox] = useState<Box | null>(null)
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null)
+  const frameRef = useRef<HTMLDivElement>(null)
+
+  const load = useCallback(
+    async (page?: number) => {
+      setError('')
+      const { apiFetch, getErrorMessage, isErrorResponse, unwrapApiResponse } = await import('@/lib/api-client')
+      const query = page === undefined ? '' : `&page=${page}`
+      const response = await apiFetch<CropSource>(`/api/admin/deals/thumbnail?deal_id=${dealId}${query}`, {
+        headers: getAuthHeaders(token),
+      })
+      if (isErrorResponse(response)) {
+        setError(getErrorMessage(response))
+        return
+      }
+      const data = unwrapApiResponse(response)
+      setSource(data)
+      setBox(data.box)
+    },
+    [dealId, token]
+  )
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  // Pointer position inside the page image on the 0–1000 scale
+  const pointFor = (event: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect()
+    const clamp = (n: number) => Math.min(1000, Math.max(0, Math.round(n)))
+    return {
+      x: clamp(((event.clientX - rect.left) / rect.width) * 1000),
+      y: clamp(((event.clientY - rect.top) / rect.height) * 1000),
+    }
+  }
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    event.currentTarget.setPointerCapture(event.pointerId)
+    const start = pointFor(event)
+    setDragStart(start)
+    setBox(null)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!dragStart) return
+    const point = pointFor(event)
+    setBox([
+      Math.min(dragStart.y, point.y),
+      Math.min(dragStart.x, point.x),
+      Math.max(dragStart.y, point.y),
+      Math.max(dragStart.x, point.x),
+    ])
+  }
+
+  const handleSave = async () => {
+    if (!source || !box) return
+    setSaving(true)
+    setError('')
+    try {
+      const { apiFetch, getErrorMessage, isErrorResponse, unwrapApiResponse } = await import('@/lib/api-client')
+      const response = await apiFetch<{ image: string }>('/api/admin/deals/thumbnail', {
+        method: 'POST',
+        headers: getAuthHeaders(token),
+        body: JSON.stringify({ deal_id: dealId, page: source.page, box }),
+      })
+      if (isErrorResponse(response)) throw new Error(getErrorMessage(response))
+      onSaved(unwrapApiResponse(response).image)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Re-crop failed')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const validBox = box !== null && box[2] - box[0] > 5 && box[3] - box[1] > 5
+
+  return (
+    <div className="mt-4 border border-gray-200 rounded-lg p-4 bg-gray-50">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-sm text-gray-700">Drag on the flyer to draw the deal&apos;s box.</p>
+        {source && source.page_count > 1 && (
+          <div className="flex items-center gap-2 text-sm">
+            <button
+              className="px-2 py-1 border rounded disabled:opacity-40"
+              disabled={source.page === 0}
+              onClick={() => load(source.page - 1)}
+            >
+              ←
+            </button>
+            <span>
+              Page {source.page + 1} / {source.page_count}
+            </span>
+            <button
+              className="px-2 py-1 border rounded disabled:opacity-40"
+              disabled={source.page >= source.page_count - 1}
+              onClick={() => load(source.page + 1)}
+            >
+              →
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && <div className="text-red-600 text-sm mb-3">{error}</div>}
+      {!source && !error && <p className="text-sm text-gray-500">Loading flyer…</p>}
+
+      {source && (
+        <div
+          ref={frameRef}
+          className="relative max-w-xl cursor-crosshair select-none touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDragStart(null)}
+        >
+          {/* eslint-disable-next-line @next/next/no-img-element -- data URL of a flyer page */}
+          <img src={source.image} alt="Flyer page" className="w-full" draggable={false} />
+          {box && <div className="absolute border-2 border-red-500 bg-red-500/10" style={toBoxStyle(box)} />}
+        </div>
+      )}
+
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={handleSave}
+          disabled={!validBox || saving}
+          className="px-4 py-2 bg-lake-blue-700 text-white rounded-lg hover:bg-lake-blue-800 disabled:opacity-50 text-sm font-medium"
+        >
+          {saving ? 'Cropping…' : 'Save Thumbnail'}
+        </button>
+        <button onClick={onClose} className="px-4 py-2 border border-gray-300 rounded-lg text-sm">
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
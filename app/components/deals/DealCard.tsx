@@ -49,7 +49,7 @@ export function DealCard({ deal, compact = false }: { deal: DealCardData; compac
           {deal.state ? `, ${deal.state}` : ''}
           {deal.distanceMi != null ? ` · ${deal.distanceMi} mi` : ''}
         </p>
-        <p className="mt-2 font-marker text-coral">{expirationLabel(deal.endDate)}</p>
+        <p className="mt-2 font-marker text-coral">{deal.recurrenceLabel || expirationLabel(deal.endDate, deal.timezone || undefined)}</p>
         <Link href={deal.href} className="btn-primary mt-auto w-full !py-2 !text-sm">
           View Deal
         </Link>
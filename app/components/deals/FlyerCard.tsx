@@ -0,0 +1,41 @@
+import Image from 'next/image'
+import Link from 'next/link'
+import type { FlyerListingCard } from '@/lib/flyer-listings'
+
+export function FlyerCard({ flyer }: { flyer: FlyerListingCard }) {
+  return (
+    <article className="panel flex h-full min-w-[260px] w-full flex-col overflow-hidden">
+      <div className="relative h-40 bg-teal-deep">
+        {flyer.imageUrl ? (
+          <Image src={flyer.imageUrl} alt={`${flyer.dispensaryName} flyer`} fill className="object-cover object-top" sizes="320px" />
+        ) : (
+          <div className="halftone flex h-full items-center justify-center font-display text-4xl text-mint/40">
+            {flyer.isPdf ? 'PDF' : 'FLYER'}
+          </div>
+        )}
+        <div className="absolute left-2 top-2 flex flex-wrap gap-1">
+          <span className="sticker-gold">Flyer</span>
+        </div>
+      </div>
+      <div className="flex flex-1 flex-col p-4">
+        <h3 className="font-display text-3xl uppercase leading-none text-cream">See Today&apos;s Flyer</h3>
+        <p className="mt-1 text-sm uppercase tracking-wide text-mint">
+          {flyer.unparsedDeals > 0
+            ? `${flyer.unparsedDeals} more ${flyer.unparsedDeals === 1 ? 'deal' : 'deals'} on the flyer`
+            : 'All of today’s specials in one place'}
+        </p>
+        {flyer.dispensarySlug ? (
+          <Link href={`/dispensary/${flyer.dispensarySlug}`} className="mt-3 font-display text-sm uppercase text-gold">
+            {flyer.dispensaryName}
+          </Link>
+        ) : (
+          <p className="mt-3 font-display text-sm uppercase text-gold">{flyer.dispensaryName}</p>
+        )}
+        {flyer.city && <p className="text-xs text-cream/60">{flyer.city}</p>}
+        <a href={flyer.href} target="_blank" rel="noreferrer" className="btn-primary mt-auto w-full !py-2 !text-sm">
+          View Flyer
+        </a>
+      </div>
+    </article>
+  )
+}
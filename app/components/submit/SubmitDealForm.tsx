@@ -2,9 +2,12 @@
 
 import { useState } from 'react'
 import { DEAL_CATEGORIES } from '@/lib/categories'
+import { todayIn } from '@/lib/dates'
 
 type Mode = 'manual' | 'flyer'
 
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
 export function SubmitDealForm() {
   const [mode, setMode] = useState<Mode>('manual')
   const [status, setStatus] = useState<'idle' | 'parsing' | 'saving' | 'done' | 'error'>('idle')
@@ -18,14 +21,23 @@ export function SubmitDealForm() {
     description: '',
     regular_price: '',
     deal_price: '',
-    start_date: new Date().toISOString().slice(0, 10),
+    start_date: todayIn(),
     end_date: '',
     menu_url: '',
     contact_email: '',
     image: '',
   })
 
+  // Weekly specials ("Munchie Monday"): weekdays it runs on (0 = Sunday) and an optional time window
+  const [recurrence, setRecurrence] = useState({ weekdays: [] as number[], start_time: '', end_time: '' })
+
   const set = (key: keyof typeof form, value: string) => setForm((f) => ({ ...f, [key]: value }))
+  const toggleWeekday = (day: number) =>
+    setRecurrence((r) => ({
+      ...r,
+      weekdays: r.weekdays.includes(day) ? r.weekdays.filter((d) => d !== day) : [...r.weekdays, day].sort(),
+    }))
+  const repeats = recurrence.weekdays.length > 0
 
   const parseFlyer = async (file: File) => {
     setStatus('parsing')
@@ -61,7 +73,7 @@ export function SubmitDealForm() {
 
   const submit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!form.end_date) {
+    if (!form.end_date && !repeats) {
       setStatus('error')
       setMessage('Every deal needs an expiration date.')
       return
@@ -71,7 +83,7 @@ export function SubmitDealForm() {
       const res = await fetch('/api/submit', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(form),
+        body: JSON.stringify({ ...form, recurrence: repeats ? recurrence : null }),
       })
       const json = await res.json()
       if (!res.ok || json.success === false) throw new Error(json.error || 'Submit failed')
@@ -149,7 +161,46 @@ export function SubmitDealForm() {
         <Field label="Regular Price — optional" value={form.regular_price} onChange={(v) => set('regular_price', v)} />
         <Field label="Deal Price — optional" value={form.deal_price} onChange={(v) => set('deal_price', v)} placeholder="$99 / 30% OFF" />
         <Field label="Start Date" type="date" value={form.start_date} onChange={(v) => set('start_date', v)} />
-        <Field label="End Date" type="date" required value={form.end_date} onChange={(v) => set('end_date', v)} />
+        <Field
+          label={repeats ? 'Last Week — optional' : 'End Date'}
+          type="date"
+          required={!repeats}
+          value={form.end_date}
+          onChange={(v) => set('end_date', v)}
+        />
+        <div className="md:col-span-2">
+          <span className="mb-1 block font-display text-xs uppercase tracking-widest text-cream/50">
+            Repeats Every Week — optional
+          </span>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                className={recurrence.weekdays.includes(day) ? 'btn-primary !py-1 !text-sm' : 'btn-ghost !py-1 !text-sm'}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {repeats && (
+          <>
+            <Field
+              label="From — optional"
+              type="time"
+              value={recurrence.start_time}
+              onChange={(v) => setRecurrence((r) => ({ ...r, start_time: v }))}
+            />
+            <Field
+              label="Until — optional"
+              type="time"
+              value={recurrence.end_time}
+              onChange={(v) => setRecurrence((r) => ({ ...r, end_time: v }))}
+            />
+          </>
+        )}
         <Field label="Menu URL" required value={form.menu_url} onChange={(v) => set('menu_url', v)} placeholder="https://" />
         <Field label="Contact email — optional" type="email" value={form.contact_email} onChange={(v) => set('contact_email', v)} />
       </div>
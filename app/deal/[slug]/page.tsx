@@ -3,6 +3,8 @@ import { notFound } from 'next/navigation'
 import type { Metadata } from 'next'
 import { DealCard } from '@/app/components/deals/DealCard'
 import { getActiveDeals, getDealBySlug, incrementDealView, isDealLive, toDealCard, expirationLabel } from '@/lib/deals'
+import { describeRecurrence, recurrenceOf } from '@/lib/recurring-deals'
+import { timezoneOf } from '@/lib/dates'
 import { ClaimForm } from '@/app/components/dispensary/ClaimForm'
 
 export const dynamic = 'force-dynamic'
@@ -22,6 +24,7 @@ export default async function DealPage({ params }: { params: { slug: string } })
 
   await incrementDealView(deal.id)
   const live = isDealLive(deal)
+  const recurrence = recurrenceOf(deal)
   const nearby = (await getActiveDeals({ city: deal.city || undefined, limit: 6 }))
     .filter((d) => d.id !== deal.id)
     .map(toDealCard)
@@ -54,7 +57,7 @@ export default async function DealPage({ params }: { params: { slug: string } })
           {deal.state ? `, ${deal.state}` : ''}
         </p>
         {deal.brand && <p className="mt-2 text-sm text-cream/70">Brand: {deal.brand}</p>}
-        <p className="mt-2 font-marker text-coral">{expirationLabel(deal.end_date)}</p>
+        <p className="mt-2 font-marker text-coral">{recurrence ? describeRecurrence(recurrence) : expirationLabel(deal.end_date, timezoneOf(deal))}</p>
         {live && deal.menu_url && (
           <a href={menuHref} className="btn-primary mt-6 inline-flex">
             View Menu →
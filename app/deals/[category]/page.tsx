@@ -1,8 +1,8 @@
-import { notFound } from 'next/navigation'
+import { notFound, permanentRedirect } from 'next/navigation'
 import Link from 'next/link'
 import type { Metadata } from 'next'
 import { DealCard } from '@/app/components/deals/DealCard'
-import { DEAL_CATEGORIES, categoryLabel, isDealCategory } from '@/lib/categories'
+import { DEAL_CATEGORIES, categoryLabel, isDealCategory, resolveCategory, subcategoriesOf } from '@/lib/categories'
 import { getActiveDeals, toDealCard } from '@/lib/deals'
 
 export const dynamic = 'force-dynamic'
@@ -23,11 +23,24 @@ export async function generateMetadata({
   }
 }
 
-export default async function CategoryDealsPage({ params }: { params: { category: string } }) {
-  if (!isDealCategory(params.category)) notFound()
-  const deals = await getActiveDeals({ category: params.category, limit: 60 })
+export default async function CategoryDealsPage({
+  params,
+  searchParams,
+}: {
+  params: { category: string }
+  searchParams: { type?: string }
+}) {
+  if (!isDealCategory(params.category)) {
+    // Old and alternate slugs (/deals/ounces, /deals/carts) land on their category
+    const resolved = resolveCategory(decodeURIComponent(params.category))
+    if (!resolved) notFound()
+    permanentRedirect(`/deals/${resolved.category}${resolved.subcategory ? `?type=${resolved.subcategory}` : ''}`)
+  }
+  const subcategories = subcategoriesOf(params.category)
+  const subcategory = subcategories.find((s) => s.slug === searchParams.type)
+  const deals = await getActiveDeals({ category: params.category, subcategory: subcategory?.slug, limit: 60 })
   const cards = deals.map(toDealCard)
-  const label = categoryLabel(params.category)
+  const label = subcategory ? `${subcategory.label} ${categoryLabel(params.category)}` : categoryLabel(params.category)
 
   return (
     <div className="mx-auto max-w-7xl px-4 py-10 sm:px-6">
@@ -46,6 +59,29 @@ export default async function CategoryDealsPage({ params }: { params: { category
           </Link>
         ))}
       </div>
+      {subcategories.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          <Link
+            href={`/deals/${params.category}`}
+            className={`border-[2px] px-3 py-1 font-display text-xs uppercase ${
+              !subcategory ? 'border-cream bg-cream text-ink' : 'border-cream/20 text-cream/70'
+            }`}
+          >
+            All
+          </Link>
+          {subcategories.map((sub) => (
+            <Link
+              key={sub.slug}
+              href={`/deals/${params.category}?type=${sub.slug}`}
+              className={`border-[2px] px-3 py-1 font-display text-xs uppercase ${
+                sub.slug === subcategory?.slug ? 'border-cream bg-cream text-ink' : 'border-cream/20 text-cream/70'
+              }`}
+            >
+              {sub.label}
+            </Link>
+          ))}
+        </div>
+      )}
       <div className="mt-10 grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
         {cards.length ? (
           cards.map((deal) => <DealCard key={deal.id} deal={deal} />)
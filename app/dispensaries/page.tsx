@@ -1,7 +1,7 @@
 import Link from 'next/link'
 import { supabaseAdmin } from '@/lib/supabase/server'
 
-export const dynamic = 'force-dynamic'
+export const revalidate = 300
 
 export default async function DispensariesIndexPage() {
   const { data } = await supabaseAdmin
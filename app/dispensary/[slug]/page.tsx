@@ -1,12 +1,14 @@
 import Link from 'next/link'
 import type { Metadata } from 'next'
 import { DealCard } from '@/app/components/deals/DealCard'
+import { FlyerCard } from '@/app/components/deals/FlyerCard'
 import { ClaimForm } from '@/app/components/dispensary/ClaimForm'
 import { getActiveDeals, toDealCard } from '@/lib/deals'
+import { getFlyerListings } from '@/lib/flyer-listings'
 import { supabaseAdmin } from '@/lib/supabase/server'
 import { notFound } from 'next/navigation'
 
-export const dynamic = 'force-dynamic'
+export const revalidate = 300
 
 export async function generateMetadata({ params }: { params: { slug: string } }): Promise<Metadata> {
   return { title: `Dispensary | Daily Dispo Deals` }
@@ -21,7 +23,10 @@ export default async function DispensaryPage({ params }: { params: { slug: strin
 
   if (!shop) notFound()
 
-  const deals = await getActiveDeals({ dispensaryId: shop.id, limit: 40 })
+  const [deals, flyers] = await Promise.all([
+    getActiveDeals({ dispensaryId: shop.id, limit: 40 }),
+    getFlyerListings({ dispensaryId: shop.id, limit: 1 }),
+  ])
   const cards = deals.map(toDealCard)
   const menu = shop.menu_url || shop.website || shop.deals_url
 
@@ -49,7 +54,12 @@ export default async function DispensaryPage({ params }: { params: { slug: strin
       <section className="mt-10">
         <h2 className="font-display text-3xl uppercase">Active Deals</h2>
         <div className="mt-4 grid gap-4 sm:grid-cols-2">
-          {cards.length ? cards.map((d) => <DealCard key={d.id} deal={d} />) : <p className="text-cream/60">No live deals right now.</p>}
+          {flyers.map((f) => (
+            <FlyerCard key={f.id} flyer={f} />
+          ))}
+          {cards.length
+            ? cards.map((d) => <DealCard key={d.id} deal={d} />)
+            : !flyers.length && <p className="text-cream/60">No live deals right now.</p>}
         </div>
       </section>
       <ClaimForm slug={shop.slug} />
@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { signFlyerListing } from '@/lib/flyer-listings'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const url = await signFlyerListing(params.id)
+  if (!url) {
+    return NextResponse.redirect(new URL('/deals', _request.url))
+  }
+  return NextResponse.redirect(url, 302)
+}
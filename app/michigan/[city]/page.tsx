@@ -2,13 +2,15 @@ import { notFound } from 'next/navigation'
 import Link from 'next/link'
 import type { Metadata } from 'next'
 import { DealCard } from '@/app/components/deals/DealCard'
+import { FlyerCard } from '@/app/components/deals/FlyerCard'
 import { FAQ } from '@/app/components/FAQ'
 import { CURATED_CITIES, cityName, getCity } from '@/lib/cities'
 import { DEAL_CATEGORIES } from '@/lib/categories'
 import { getActiveDeals, toDealCard } from '@/lib/deals'
+import { getFlyerListings } from '@/lib/flyer-listings'
 import { supabaseAdmin } from '@/lib/supabase/server'
 
-export const dynamic = 'force-dynamic'
+export const revalidate = 300
 
 export function generateStaticParams() {
   return CURATED_CITIES.map((c) => ({ city: c.slug }))
@@ -28,9 +30,10 @@ export default async function CityPage({ params }: { params: { city: string } })
   const city = getCity(params.city)
   if (!city) notFound()
 
-  const [deals, featured] = await Promise.all([
+  const [deals, featured, flyers] = await Promise.all([
     getActiveDeals({ city: city.name, limit: 40 }),
     getActiveDeals({ city: city.name, featured: true, limit: 3 }),
+    getFlyerListings({ city: city.name, limit: 12 }),
   ])
 
   const cards = deals.map(toDealCard)
@@ -103,6 +106,17 @@ export default async function CityPage({ params }: { params: { city: string } })
         </div>
       </section>
 
+      {flyers.length > 0 && (
+        <section className="mt-12">
+          <h2 className="font-display text-3xl uppercase text-cream">Today&apos;s Flyers</h2>
+          <div className="mt-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {flyers.map((flyer) => (
+              <FlyerCard key={flyer.id} flyer={flyer} />
+            ))}
+          </div>
+        </section>
+      )}
+
       <section className="mt-12">
         <h2 className="font-display text-3xl uppercase text-cream">Dispensaries With Active Deals</h2>
         <ul className="mt-4 flex flex-wrap gap-2">
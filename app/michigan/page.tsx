@@ -8,7 +8,7 @@ export const metadata: Metadata = {
   description: 'Browse today’s dispensary deals across Michigan. Free for shoppers. Submitted by dispensaries.',
 }
 
-export const dynamic = 'force-dynamic'
+export const revalidate = 300
 
 export default async function MichiganPage() {
   const deals = await getActiveDeals({ limit: 200 })
@@ -13,7 +13,7 @@ import { getActiveDeals, toDealCard } from '@/lib/deals'
 import { getAffiliateProducts, getSiteSettings } from '@/lib/settings'
 import { SAMPLE_DEALS } from '@/lib/types'
 
-export const dynamic = 'force-dynamic'
+export const revalidate = 300
 
 export default async function Home() {
   const [deals, products, settings] = await Promise.all([
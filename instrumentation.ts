@@ -1,6 +1,10 @@
 export async function register() {
   if (process.env.NEXT_RUNTIME === "nodejs") {
     await import("./sentry.server.config");
+
+    // Persist every AI call's tokens and cost (ai_usage) for budgets and the admin spend chart
+    const { registerAiSpendRecorder } = await import("./lib/ai-spend");
+    registerAiSpendRecorder();
   }
 
   if (process.env.NEXT_RUNTIME === "edge") {
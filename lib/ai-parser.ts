@@ -1,16 +1,20 @@
-import { generateObject } from 'ai'
-import { createOpenAI } from '@ai-sdk/openai'
-import { createGoogleGenerativeAI } from '@ai-sdk/google'
+import { generateObject, type LanguageModel } from 'ai'
 import { z } from 'zod'
 import * as Sentry from "@sentry/nextjs"
+import { runAiTask } from './ai-provider'
+import { categoryPromptList, dealCategorySchema } from './categories'
+import { WEEKDAYS } from './recurring-deals'
+import { countParseHints, formatParseHints, type DispensaryParseHints } from './parse-hints'
+import type { AiUsageCallback } from './types'
 
 const DealSchema = z.object({
-  category: z.enum(['flower', 'pre-rolls', 'vapes', 'concentrates', 'edibles', 'drinks', 'topicals', 'cbd/thca', 'accessories']),
+  category: dealCategorySchema,
   title: z.string().min(1),
   brand: z.string().optional(), // Brand/producer name (e.g., "STIIIZY", "Element", "GLTino")
   product_name: z.string().optional(), // Product name without brand (e.g., "1g carts", "Live Resin")
   price_text: z.string().min(1),
   confidence: z.number().min(0).max(1).optional(),
+  recurring_days: z.array(z.enum(WEEKDAYS)).optional(), // Weekly specials ("Munchie Monday"), see lib/recurring-deals
 })
 
 export type Deal = z.infer<typeof DealSchema>
@@ -20,63 +24,33 @@ const ParseResponseSchema = z.object({
 })
 
 /**
- * Parse deals from OCR text using Vercel AI Gateway
- * Supports both OpenAI and Google Gemini models
+ * Parse deals from OCR text with the 'parse' AI task profile (lib/ai-provider: Gemini, falling back to OpenAI).
+ * options.model replaces the profile's models (the eval harness passes a stub).
+ * options.hints (lib/parse-hints) adds what admins taught us about this dispensary to the prompt.
  */
 export async function parseDealsFromText(
   ocrText: string,
   dispensaryName: string,
-  city?: string
+  city?: string,
+  onUsage?: AiUsageCallback,
+  options: { model?: LanguageModel; hints?: DispensaryParseHints | null } = {}
 ): Promise<Deal[]> {
-  // Prefer Vercel AI Gateway (for rate limit protection), fallback to direct Gemini API
-  const geminiApiKey = process.env.GEMINI_API_KEY
-  const gatewayApiKey = process.env.AI_GATEWAY_API_KEY
-  
-  // Determine which provider to use (defaults to Google/Gemini if either key is set, otherwise OpenAI)
-  const provider = process.env.AI_MODEL_PROVIDER || (geminiApiKey || gatewayApiKey ? 'google' : 'openai')
-  const aiGatewayUrl = process.env.AI_GATEWAY_URL || 'https://gateway.vercel.ai/v1'
-
-  let model: any
-
-  if (provider === 'google') {
-    // Use Google Gemini Flash (much cheaper: ~50% cost savings)
-    // Prefer gateway for rate limit protection when both keys are available
-    const apiKey = gatewayApiKey || geminiApiKey
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY or AI_GATEWAY_API_KEY is required for Google provider')
-    }
-    
-    const google = createGoogleGenerativeAI({
-      apiKey,
-      ...(gatewayApiKey ? { baseURL: aiGatewayUrl } : {}), // Use baseURL when gateway key is set
-    })
-    // Gemini 1.5 Flash model
-    model = google('gemini-1.5-flash')
-  } else {
-    // Use OpenAI GPT-4o-mini (default)
-    if (!gatewayApiKey) {
-      throw new Error('AI_GATEWAY_API_KEY is required for OpenAI provider')
-    }
-    const openai = createOpenAI({
-      apiKey: gatewayApiKey,
-      baseURL: aiGatewayUrl,
-    })
-    model = openai('gpt-4o-mini')
-  }
-
   const systemPrompt = `You are extracting cannabis deal data from a dispensary flyer. Return a JSON array with:
-- category (flower, vapes, edibles, etc.)
+- category (one of: ${categoryPromptList()})
 - title (full product title as shown)
 - brand (brand/producer name if present, e.g., "STIIIZY", "Element", "GLTino" - extract from title)
 - product_name (product name without brand, e.g., "1g carts", "Live Resin" - extract from title if brand present)
 - price_text (e.g. 2/$35, $15/gram, 30% off)
 - confidence (0–1)
+- recurring_days (only for weekly specials such as "Munchie Monday", "Wax Wednesday" or "every Friday": the lowercase weekdays it repeats on; omit for one-time deals)
 If brand is not clearly identifiable, leave brand and product_name empty and put full title in title field.
 Ignore irrelevant text like store hours.`
 
+  const hintText = formatParseHints(options.hints)
+
   const userPrompt = `Dispensary: ${dispensaryName}
 ${city ? `City: ${city}` : ''}
-
+${hintText ? `\n${hintText}\n` : ''}
 Extract all deals from this flyer text:
 ${ocrText}
 
@@ -102,18 +76,23 @@ Return only valid JSON in this format:
     async (span) => {
       span.setAttribute("dispensary", dispensaryName);
       span.setAttribute("city", city || "unknown");
-      span.setAttribute("provider", provider);
-      span.setAttribute("using_gateway", !!gatewayApiKey);
       span.setAttribute("ocr_text_length", ocrText.length);
+      span.setAttribute("parse_hints", countParseHints(options.hints ?? null));
 
       try {
-        const result = await generateObject({
-          model,
-          system: systemPrompt,
-          prompt: userPrompt,
-          temperature: 0.1,
-          schema: ParseResponseSchema,
-        });
+        const { result, model } = await runAiTask(
+          'parse',
+          (model, abortSignal) =>
+            generateObject({
+              model,
+              system: systemPrompt,
+              prompt: userPrompt,
+              temperature: 0.1,
+              schema: ParseResponseSchema,
+              abortSignal,
+            }),
+          { model: options.model, onUsage }
+        );
 
         // With generateObject, the result.object contains the parsed and validated data
         const parsedData = result.object as { deals: Deal[] };
@@ -124,6 +103,7 @@ Return only valid JSON in this format:
         span.setAttribute("deals_found", parsedData.deals.length);
         span.setAttribute("deals_filtered", filteredDeals.length);
         span.setAttribute("usage_tokens", result.usage?.totalTokens || 0);
+        span.setAttribute("model", model);
 
         const { logger } = Sentry;
         logger.info("AI parsing completed", {
@@ -131,8 +111,7 @@ Return only valid JSON in this format:
           city: city || "unknown",
           dealsFound: parsedData.deals.length,
           dealsFiltered: filteredDeals.length,
-          provider,
-          usingGateway: !!gatewayApiKey,
+          model,
         });
 
         return filteredDeals;
@@ -146,8 +125,6 @@ Return only valid JSON in this format:
         logger.error("AI parsing failed", {
           dispensary: dispensaryName,
           city: city || "unknown",
-          provider,
-          usingGateway: !!gatewayApiKey,
           error: errorMessage,
         });
 
@@ -155,11 +132,9 @@ Return only valid JSON in this format:
           tags: {
             operation: "ai_parse",
             dispensary: dispensaryName,
-            provider,
           },
           extra: {
             city,
-            usingGateway: !!gatewayApiKey,
             ocrTextLength: ocrText.length,
           },
         });
@@ -0,0 +1,300 @@
+/**
+ * AI model selection for every AI call in the app.
+ * Each call names a task profile (ocr, parse, website_extract, admin_chat): a chain of models tried
+ * in order, a timeout per attempt, and usage accounting. A successful call reports its tokens and
+ * estimated cost to the caller's onUsage and to every hook added with addAiUsageHook.
+ *
+ * Chains can be changed per task in env, e.g.
+ *   AI_PARSE_MODELS=gemini:gemini-2.5-flash,openai:gpt-4o-mini
+ *   AI_PARSE_TIMEOUT_MS=30000
+ * Models whose credentials are not set are skipped.
+ *
+ * AI_BACKEND=fixture replays recorded responses from AI_FIXTURES_DIR (default scripts/fixtures/ai-replay),
+ * keyed by task and a hash of the request, so ingestion runs offline and deterministically.
+ * AI_BACKEND=record calls the real models and saves each response there for later replay.
+ * scripts/check-ai-replay.ts (npm run check:replay) runs the pipeline's AI stages against these recordings.
+ */
+
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname, join, resolve } from 'path'
+import { wrapLanguageModel, type LanguageModel, type LanguageModelMiddleware, type LanguageModelUsage } from 'ai'
+import { createGoogleGenerativeAI } from '@ai-sdk/google'
+import { createOpenAI } from '@ai-sdk/openai'
+import * as Sentry from '@sentry/nextjs'
+import type { AiUsage, AiUsageCallback } from './types'
+
+export type AiTask = 'ocr' | 'parse' | 'website_extract' | 'admin_chat'
+export type AiVendor = 'gemini' | 'openai'
+
+export interface AiModelRef {
+  vendor: AiVendor
+  model: string
+}
+
+export interface AiTaskProfile {
+  /** Tried in order; the next one is used when a model errors or times out */
+  chain: AiModelRef[]
+  /** Per attempt */
+  timeoutMs: number
+}
+
+/** Usage of one successful AI call, as passed to usage hooks */
+export type AiTaskUsage = Required<AiUsage>
+
+const DEFAULT_PROFILES: Record<AiTask, AiTaskProfile> = {
+  ocr: {
+    chain: [
+      { vendor: 'gemini', model: 'gemini-2.5-flash-image' },
+      { vendor: 'openai', model: 'gpt-4o' },
+    ],
+    timeoutMs: 120_000,
+  },
+  parse: {
+    chain: [
+      { vendor: 'gemini', model: 'gemini-1.5-flash' },
+      { vendor: 'openai', model: 'gpt-4o-mini' },
+    ],
+    timeoutMs: 60_000,
+  },
+  website_extract: { chain: [{ vendor: 'gemini', model: 'gemini-1.5-flash' }], timeoutMs: 60_000 },
+  admin_chat: { chain: [{ vendor: 'gemini', model: 'gemini-1.5-flash' }], timeoutMs: 60_000 },
+}
+
+/** List prices in USD per million input / output tokens, for cost estimates. Unknown models count as free. */
+const MODEL_PRICES: Record<string, [number, number]> = {
+  'gemini-1.5-flash': [0.075, 0.3],
+  'gemini-2.5-flash': [0.3, 2.5],
+  'gemini-2.5-flash-image': [0.3, 2.5],
+  'gpt-4o': [2.5, 10],
+  'gpt-4o-mini': [0.15, 0.6],
+}
+
+const DEFAULT_FIXTURES_DIR = 'scripts/fixtures/ai-replay'
+
+type ProviderModel = Parameters<typeof wrapLanguageModel>[0]['model']
+
+const usageHooks: Array<(usage: AiTaskUsage) => void | Promise<void>> = []
+
+/**
+ * Call a function with the usage of every successful AI call (e.g. to persist spend).
+ * Runs before the call returns; a failing hook is logged and never fails the call.
+ */
+export function addAiUsageHook(hook: (usage: AiTaskUsage) => void | Promise<void>): void {
+  usageHooks.push(hook)
+}
+
+function parseChain(value: string): AiModelRef[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim().split(':'))
+    .filter(([vendor, model]) => (vendor === 'gemini' || vendor === 'openai') && !!model)
+    .map(([vendor, model]) => ({ vendor: vendor as AiVendor, model }))
+}
+
+/**
+ * A task's profile: the defaults above with AI_<TASK>_MODELS / AI_<TASK>_TIMEOUT_MS applied.
+ * AI_MODEL_PROVIDER=openai still puts OpenAI first for parsing.
+ */
+export function getTaskProfile(task: AiTask): AiTaskProfile {
+  const prefix = `AI_${task.toUpperCase()}`
+  const defaults = DEFAULT_PROFILES[task]
+
+  let chain = process.env[`${prefix}_MODELS`] ? parseChain(process.env[`${prefix}_MODELS`]!) : defaults.chain
+  if (chain.length === 0) chain = defaults.chain
+  if (task === 'parse' && !process.env[`${prefix}_MODELS`] && process.env.AI_MODEL_PROVIDER === 'openai') {
+    chain = [...chain].sort((a, b) => (a.vendor === 'openai' ? 0 : 1) - (b.vendor === 'openai' ? 0 : 1))
+  }
+
+  const timeout = Number(process.env[`${prefix}_TIMEOUT_MS`])
+  return { chain, timeoutMs: Number.isFinite(timeout) && timeout > 0 ? timeout : defaults.timeoutMs }
+}
+
+/**
+ * Provider model for a chain entry, or null when its credentials are not set.
+ * Gemini prefers Vercel AI Gateway (for rate limit protection) over a direct key;
+ * OpenAI prefers a direct key over the gateway.
+ */
+function buildModel(ref: AiModelRef): ProviderModel | null {
+  const gatewayApiKey = process.env.AI_GATEWAY_API_KEY
+  const baseURL = process.env.AI_GATEWAY_URL || 'https://gateway.vercel.ai/v1'
+
+  if (ref.vendor === 'gemini') {
+    const apiKey = gatewayApiKey || process.env.GEMINI_API_KEY
+    if (!apiKey) return null
+    return createGoogleGenerativeAI({ apiKey, ...(gatewayApiKey ? { baseURL } : {}) })(ref.model)
+  }
+
+  if (process.env.OPENAI_API_KEY) return createOpenAI({ apiKey: process.env.OPENAI_API_KEY })(ref.model)
+  if (gatewayApiKey) return createOpenAI({ apiKey: gatewayApiKey, baseURL })(ref.model)
+  return null
+}
+
+function sha256(data: Uint8Array | string): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * Stable key for a model request: its prompt, output format and tools, with file bytes replaced by their hash.
+ */
+export function aiRequestKey(params: { prompt: unknown; responseFormat?: unknown; tools?: unknown }): string {
+  const json = JSON.stringify(
+    { prompt: params.prompt, responseFormat: params.responseFormat, tools: params.tools },
+    (_key, value) => {
+      if (value instanceof Uint8Array) return `sha256:${sha256(value)}`
+      // Buffers are serialized through their toJSON before reaching here
+      if (value?.type === 'Buffer' && Array.isArray(value.data)) return `sha256:${sha256(Buffer.from(value.data))}`
+      return value
+    }
+  )
+  return sha256(json).slice(0, 32)
+}
+
+function fixturePath(task: AiTask, key: string): string {
+  return join(resolve(process.cwd(), process.env.AI_FIXTURES_DIR || DEFAULT_FIXTURES_DIR), task, `${key}.json`)
+}
+
+/** Replays a recorded response for each request; with `record`, calls the model and saves its response first */
+function fixtureMiddleware(task: AiTask, record: boolean): LanguageModelMiddleware {
+  return {
+    specificationVersion: 'v3',
+    wrapGenerate: async ({ doGenerate, params }) => {
+      const file = fixturePath(task, aiRequestKey(params))
+      if (!record) {
+        if (!existsSync(file)) {
+          throw new Error(`No recorded ${task} response at ${file} (record one with AI_BACKEND=record)`)
+        }
+        return { ...JSON.parse(readFileSync(file, 'utf8')), warnings: [] }
+      }
+
+      const result = await doGenerate()
+      mkdirSync(dirname(file), { recursive: true })
+      writeFileSync(
+        file,
+        `${JSON.stringify({ content: result.content, finishReason: result.finishReason, usage: result.usage }, null, 2)}\n`
+      )
+      return result
+    },
+  }
+}
+
+/** Stands in for a provider in fixture mode; every request is answered by fixtureMiddleware */
+function offlineModel(task: AiTask): ProviderModel {
+  const offline = () => Promise.reject(new Error(`AI_BACKEND=fixture never calls a provider (${task})`))
+  return {
+    specificationVersion: 'v3',
+    provider: 'fixture',
+    modelId: task,
+    supportedUrls: {},
+    doGenerate: offline,
+    doStream: offline,
+  }
+}
+
+/** Models to try for a task, labelled "vendor:model" */
+function resolveChain(task: AiTask, profile: AiTaskProfile): Array<{ label: string; model: LanguageModel }> {
+  const backend = process.env.AI_BACKEND
+  if (backend === 'fixture') {
+    return [{ label: `fixture:${task}`, model: wrapLanguageModel({ model: offlineModel(task), middleware: fixtureMiddleware(task, false) }) }]
+  }
+
+  const chain: Array<{ label: string; model: LanguageModel }> = []
+  for (const ref of profile.chain) {
+    const model = buildModel(ref)
+    if (!model) continue
+    chain.push({
+      label: `${ref.vendor}:${ref.model}`,
+      model: backend === 'record' ? wrapLanguageModel({ model, middleware: fixtureMiddleware(task, true) }) : model,
+    })
+  }
+  return chain
+}
+
+/** Estimated USD cost of a call; the model id may carry a vendor prefix */
+export function estimateAiCost(model: string, inputTokens: number, outputTokens: number): number {
+  const prices = MODEL_PRICES[model.replace(/^[a-z]+:/, '')]
+  if (!prices) return 0
+  return (inputTokens * prices[0] + outputTokens * prices[1]) / 1_000_000
+}
+
+/**
+ * Hooks are awaited so their writes finish before a serverless route returns.
+ * A failing onUsage or hook is only logged: the call already succeeded and was paid for.
+ */
+async function reportUsage(
+  task: AiTask,
+  model: string,
+  usage: LanguageModelUsage | undefined,
+  onUsage?: AiUsageCallback
+): Promise<void> {
+  const inputTokens = usage?.inputTokens || 0
+  const outputTokens = usage?.outputTokens || 0
+  const report: AiTaskUsage = {
+    task,
+    model,
+    inputTokens,
+    outputTokens,
+    totalTokens: usage?.totalTokens || inputTokens + outputTokens,
+    costUsd: estimateAiCost(model, inputTokens, outputTokens),
+  }
+
+  const logFailure = (err: unknown) => {
+    const { logger } = Sentry
+    logger.warn('AI usage hook failed', { task, error: err instanceof Error ? err.message : String(err) })
+  }
+
+  try {
+    onUsage?.(report)
+  } catch (err) {
+    logFailure(err)
+  }
+  await Promise.all(
+    usageHooks.map((hook) =>
+      Promise.resolve()
+        .then(() => hook(report))
+        .catch(logFailure)
+    )
+  )
+}
+
+/**
+ * Run an AI call for a task, falling through the task's model chain.
+ * `call` gets each model in turn with an abort signal for the profile's timeout; the first success
+ * wins and its usage is reported, with usage hooks finished before this returns. Throws the last error
+ * when every model fails, or when none is configured.
+ * `options.model` replaces the chain with one model (the eval harness passes a stub).
+ */
+export async function runAiTask<T extends { usage?: LanguageModelUsage }>(
+  task: AiTask,
+  call: (model: LanguageModel, abortSignal: AbortSignal) => PromiseLike<T>,
+  options: { model?: LanguageModel; onUsage?: AiUsageCallback } = {}
+): Promise<{ result: T; model: string }> {
+  const profile = getTaskProfile(task)
+  const candidates = options.model ? [{ label: 'override', model: options.model }] : resolveChain(task, profile)
+  if (candidates.length === 0) {
+    throw new Error(`No AI model configured for ${task}: set GEMINI_API_KEY or AI_GATEWAY_API_KEY, or OPENAI_API_KEY`)
+  }
+
+  let lastError: unknown
+  for (const candidate of candidates) {
+    let result: T
+    try {
+      result = await call(candidate.model, AbortSignal.timeout(profile.timeoutMs))
+    } catch (error) {
+      lastError = error
+      const { logger } = Sentry
+      logger.warn('AI model failed', {
+        task,
+        model: candidate.label,
+        fallingBack: candidate !== candidates[candidates.length - 1],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      continue
+    }
+
+    // Outside the try: accounting must not send a successful, paid call on to the next model
+    await reportUsage(task, candidate.label, result.usage, options.onUsage)
+    return { result, model: candidate.label }
+  }
+  throw lastError
+}
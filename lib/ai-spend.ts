@@ -0,0 +1,208 @@
+/**
+ * AI spend accounting and budgets.
+ * Every AI call's tokens and estimated cost are written to ai_usage by a lib/ai-provider usage hook
+ * (registered from instrumentation.ts), tagged with the dispensary, zone and ingestion run of the
+ * surrounding withAiSpendContext. Daily and monthly budgets live in site_settings ('ai_budget'):
+ * - spend past low_yield_ratio of a budget: ingestion skips dispensaries whose recent AI runs yielded little
+ * - spend at a budget: ingestion runs cache-only; cached OCR text, unchanged flyers and menu adapters
+ *   still work, flyers that would need a new AI call are listed as flyer cards instead
+ * Budget checks never throw: without a readable budget, ingestion goes ahead.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import * as Sentry from '@sentry/nextjs'
+import { supabaseAdmin } from './supabase/server'
+import { addAiUsageHook, type AiTaskUsage } from './ai-provider'
+import { DEFAULT_TIMEZONE, startOfDay, todayIn } from './dates'
+
+/** What an AI call was made for, recorded on its ai_usage row */
+export interface AiSpendContext {
+  dispensaryId?: string | null
+  dispensaryName?: string
+  zoneId?: string | null
+  ingestionRunId?: string | null
+}
+
+export interface AiBudget {
+  /** USD per day (Michigan time, lib/dates); null for no limit */
+  daily_usd: number | null
+  /** USD per calendar month; null for no limit */
+  monthly_usd: number | null
+  /** Share of a budget after which low-yield dispensaries are skipped (0–1) */
+  low_yield_ratio: number
+}
+
+export type AiBudgetState = 'ok' | 'skip_low_yield' | 'cache_only'
+
+export interface AiBudgetStatus {
+  state: AiBudgetState
+  budget: AiBudget
+  spentTodayUsd: number
+  spentMonthUsd: number
+}
+
+export const DEFAULT_AI_BUDGET: AiBudget = { daily_usd: null, monthly_usd: null, low_yield_ratio: 0.8 }
+
+/** How long a budget status is reused before spend is read again; calls made meanwhile are added locally */
+const STATUS_TTL_MS = 60 * 1000
+
+/** A dispensary is low-yield when its AI runs over this many days averaged fewer new deals than the minimum */
+const LOW_YIELD_LOOKBACK_DAYS = 7
+const LOW_YIELD_MIN_RUNS = 2
+const LOW_YIELD_MIN_DEALS_PER_RUN = 1
+
+const spendContext = new AsyncLocalStorage<AiSpendContext>()
+
+let cachedStatus: { status: AiBudgetStatus; loadedAt: number } | null = null
+let recorderRegistered = false
+
+/**
+ * Run `fn` with every AI call inside it attributed to `context`.
+ */
+export function withAiSpendContext<T>(context: AiSpendContext, fn: () => Promise<T>): Promise<T> {
+  return spendContext.run(context, fn)
+}
+
+function budgetState(budget: AiBudget, spentTodayUsd: number, spentMonthUsd: number): AiBudgetState {
+  const limits: Array<[number | null, number]> = [
+    [budget.daily_usd, spentTodayUsd],
+    [budget.monthly_usd, spentMonthUsd],
+  ]
+  if (limits.some(([limit, spent]) => limit !== null && spent >= limit)) return 'cache_only'
+  if (limits.some(([limit, spent]) => limit !== null && spent >= limit * budget.low_yield_ratio)) {
+    return 'skip_low_yield'
+  }
+  return 'ok'
+}
+
+async function recordAiUsage(usage: AiTaskUsage): Promise<void> {
+  const context = spendContext.getStore() || {}
+
+  if (cachedStatus) {
+    const { status } = cachedStatus
+    status.spentTodayUsd += usage.costUsd
+    status.spentMonthUsd += usage.costUsd
+    status.state = budgetState(status.budget, status.spentTodayUsd, status.spentMonthUsd)
+  }
+
+  const { error } = await supabaseAdmin.from('ai_usage').insert({
+    task: usage.task,
+    model: usage.model,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    total_tokens: usage.totalTokens,
+    cost_usd: usage.costUsd,
+    dispensary_id: context.dispensaryId || null,
+    dispensary_name: context.dispensaryName || null,
+    zone_id: context.zoneId || null,
+    ingestion_run_id: context.ingestionRunId || null,
+  })
+  if (error) throw new Error(`Failed to record AI usage: ${error.message}`)
+}
+
+/**
+ * Persist every AI call made by this process. Safe to call more than once.
+ */
+export function registerAiSpendRecorder(): void {
+  if (recorderRegistered) return
+  recorderRegistered = true
+  addAiUsageHook(recordAiUsage)
+}
+
+function toBudget(value: Partial<AiBudget> | null | undefined): AiBudget {
+  const limit = (n: unknown) => (typeof n === 'number' && n >= 0 ? n : null)
+  const ratio = value?.low_yield_ratio
+  return {
+    daily_usd: limit(value?.daily_usd),
+    monthly_usd: limit(value?.monthly_usd),
+    low_yield_ratio: typeof ratio === 'number' && ratio > 0 && ratio <= 1 ? ratio : DEFAULT_AI_BUDGET.low_yield_ratio,
+  }
+}
+
+export async function getAiBudget(): Promise<AiBudget> {
+  const { data, error } = await supabaseAdmin.from('site_settings').select('value').eq('key', 'ai_budget').maybeSingle()
+  if (error) throw new Error(`Failed to load AI budget: ${error.message}`)
+  return toBudget(data?.value as Partial<AiBudget> | null)
+}
+
+export async function saveAiBudget(budget: AiBudget): Promise<AiBudget> {
+  const value = toBudget(budget)
+  const { error } = await supabaseAdmin.from('site_settings').upsert({
+    key: 'ai_budget',
+    value,
+    updated_at: new Date().toISOString(),
+  })
+  if (error) throw new Error(`Failed to save AI budget: ${error.message}`)
+  cachedStatus = null
+  return value
+}
+
+/**
+ * Spend per day in America/Detroit from `since` (YYYY-MM-DD), oldest first.
+ * Summed in SQL (ai_spend_daily) over the calls made since that day began.
+ */
+export async function getDailyAiSpend(
+  since: string
+): Promise<Array<{ day: string; cost_usd: number; total_tokens: number; calls: number }>> {
+  const { data, error } = await supabaseAdmin.rpc('ai_spend_daily', {
+    p_since: startOfDay(since, DEFAULT_TIMEZONE).toISOString(),
+    p_timezone: DEFAULT_TIMEZONE,
+  })
+  if (error) throw new Error(`Failed to load AI spend: ${error.message}`)
+  return (data || []).map((row: { day: string; cost_usd: string; total_tokens: number; calls: number }) => ({
+    day: row.day,
+    cost_usd: Number(row.cost_usd) || 0,
+    total_tokens: Number(row.total_tokens) || 0,
+    calls: Number(row.calls) || 0,
+  }))
+}
+
+/**
+ * Today's and this month's spend against the budget. Cached for a minute; never throws.
+ */
+export async function getAiBudgetStatus(): Promise<AiBudgetStatus> {
+  if (cachedStatus && Date.now() - cachedStatus.loadedAt < STATUS_TTL_MS) return cachedStatus.status
+
+  try {
+    const today = todayIn()
+    const [budget, days] = await Promise.all([getAiBudget(), getDailyAiSpend(`${today.substring(0, 7)}-01`)])
+    const spentTodayUsd = days.find((row) => row.day === today)?.cost_usd || 0
+    const spentMonthUsd = days.reduce((sum, row) => sum + row.cost_usd, 0)
+    const status: AiBudgetStatus = {
+      state: budgetState(budget, spentTodayUsd, spentMonthUsd),
+      budget,
+      spentTodayUsd,
+      spentMonthUsd,
+    }
+    cachedStatus = { status, loadedAt: Date.now() }
+    return status
+  } catch (err) {
+    const { logger } = Sentry
+    logger.warn('Failed to check AI budget', { error: err instanceof Error ? err.message : 'Unknown error' })
+    return { state: 'ok', budget: DEFAULT_AI_BUDGET, spentTodayUsd: 0, spentMonthUsd: 0 }
+  }
+}
+
+/**
+ * Whether new AI calls are off for ingestion because a budget was reached.
+ */
+export async function aiBudgetExhausted(): Promise<boolean> {
+  return (await getAiBudgetStatus()).state === 'cache_only'
+}
+
+/**
+ * Whether a dispensary's recent AI-backed runs produced too few new deals to be worth running near the budget.
+ */
+export async function isLowYieldDispensary(dispensaryName: string): Promise<boolean> {
+  const since = new Date(Date.now() - LOW_YIELD_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  const { data, error } = await supabaseAdmin
+    .from('ingestion_runs')
+    .select('deals_inserted')
+    .eq('dispensary_name', dispensaryName)
+    .gt('ai_tokens', 0)
+    .gte('started_at', since)
+  if (error || !data || data.length < LOW_YIELD_MIN_RUNS) return false
+
+  const deals = data.reduce((sum, run) => sum + (run.deals_inserted || 0), 0)
+  return deals / data.length < LOW_YIELD_MIN_DEALS_PER_RUN
+}
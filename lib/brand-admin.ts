@@ -0,0 +1,214 @@
+/**
+ * Admin brand maintenance: merging duplicate brands, aliases and the brand blocklist.
+ * A merge repoints deals and user brand preferences at the surviving brand and records the
+ * merged names as aliases, so the same spellings resolve to it on the next ingest.
+ */
+
+import { supabaseAdmin } from './supabase/server'
+import { normalizeBrandName } from './brand-extraction'
+import { revalidateDeals } from './deal-cache'
+
+export type AdminBrand = {
+  id: string
+  name: string
+  created_at: string
+  deal_count: number
+  aliases: string[]
+}
+
+export type BlockedBrandToken = {
+  id: string
+  token: string
+  created_by: string | null
+  created_at: string
+}
+
+/**
+ * All brands with how many deals point at each and their aliases, most-used first.
+ */
+export async function listBrands(): Promise<AdminBrand[]> {
+  const { data, error } = await supabaseAdmin
+    .from('brands')
+    .select('id, name, created_at, deals(count), brand_aliases(alias)')
+    .order('name', { ascending: true })
+    .limit(2000)
+
+  if (error) throw new Error(error.message)
+
+  return (data || [])
+    .map((brand) => ({
+      id: brand.id,
+      name: brand.name,
+      created_at: brand.created_at,
+      deal_count: (brand.deals as unknown as Array<{ count: number }>)?.[0]?.count ?? 0,
+      aliases: ((brand.brand_aliases as Array<{ alias: string }>) || []).map((a) => a.alias),
+    }))
+    .sort((a, b) => b.deal_count - a.deal_count || a.name.localeCompare(b.name))
+}
+
+export async function listBlockedTokens(): Promise<BlockedBrandToken[]> {
+  const { data, error } = await supabaseAdmin
+    .from('brand_blocklist')
+    .select('id, token, created_by, created_at')
+    .order('token', { ascending: true })
+
+  if (error) throw new Error(error.message)
+  return data || []
+}
+
+/**
+ * Replace brand names in every user's preferences.brands (which stores names, not ids).
+ * A null replacement removes the names. Returns the number of preferences rows changed.
+ */
+async function replacePreferenceBrands(names: string[], replacement: string | null): Promise<number> {
+  if (names.length === 0) return 0
+
+  const { data: rows, error } = await supabaseAdmin
+    .from('preferences')
+    .select('id, brands')
+    .overlaps('brands', names)
+
+  if (error) throw new Error(error.message)
+
+  const removed = new Set(names)
+  for (const row of rows || []) {
+    const kept = ((row.brands as string[]) || []).filter((name) => !removed.has(name))
+    const brands = replacement && !kept.includes(replacement) ? [...kept, replacement] : kept
+    const { error: updateError } = await supabaseAdmin.from('preferences').update({ brands }).eq('id', row.id)
+    if (updateError) throw new Error(updateError.message)
+  }
+  return rows?.length || 0
+}
+
+/**
+ * Merge source brands into the target: deals and preferences move to the target, the source
+ * names and their aliases become aliases of the target, and the source brands are deleted.
+ */
+export async function mergeBrands(
+  targetId: string,
+  sourceIds: string[],
+  by: string
+): Promise<{ dealsMoved: number; preferencesUpdated: number }> {
+  const ids = sourceIds.filter((id) => id !== targetId)
+  if (ids.length === 0) return { dealsMoved: 0, preferencesUpdated: 0 }
+
+  const { data: brands, error } = await supabaseAdmin.from('brands').select('id, name').in('id', [targetId, ...ids])
+  if (error) throw new Error(error.message)
+
+  const target = brands?.find((b) => b.id === targetId)
+  const sources = (brands || []).filter((b) => b.id !== targetId)
+  if (!target) throw new Error('Target brand not found')
+  if (sources.length === 0) return { dealsMoved: 0, preferencesUpdated: 0 }
+  const sourceIdsFound = sources.map((b) => b.id)
+
+  const { data: moved, error: dealsError } = await supabaseAdmin
+    .from('deals')
+    .update({ brand_id: target.id, brand: target.name })
+    .in('brand_id', sourceIdsFound)
+    .select('id')
+  if (dealsError) throw new Error(dealsError.message)
+  revalidateDeals()
+
+  const preferencesUpdated = await replacePreferenceBrands(
+    sources.map((b) => b.name),
+    target.name
+  )
+
+  // Existing aliases follow their brand, then the merged names themselves become aliases
+  const { error: aliasMoveError } = await supabaseAdmin
+    .from('brand_aliases')
+    .update({ brand_id: target.id })
+    .in('brand_id', sourceIdsFound)
+  if (aliasMoveError) throw new Error(aliasMoveError.message)
+
+  const { error: aliasError } = await supabaseAdmin.from('brand_aliases').upsert(
+    sources.map((b) => ({
+      brand_id: target.id,
+      alias: b.name,
+      normalized_alias: normalizeBrandName(b.name),
+      source: 'merge',
+      created_by: by,
+    })),
+    { onConflict: 'normalized_alias' }
+  )
+  if (aliasError) throw new Error(aliasError.message)
+
+  const { error: deleteError } = await supabaseAdmin.from('brands').delete().in('id', sourceIdsFound)
+  if (deleteError) throw new Error(deleteError.message)
+
+  return { dealsMoved: moved?.length || 0, preferencesUpdated }
+}
+
+/**
+ * Add another spelling for a brand. Fails if the spelling already belongs to a brand or an alias.
+ */
+export async function addBrandAlias(brandId: string, alias: string, by: string): Promise<void> {
+  const normalized = normalizeBrandName(alias)
+  if (!normalized) throw new Error('Alias is empty')
+
+  const { data: clash } = await supabaseAdmin
+    .from('brands')
+    .select('id, name')
+    .eq('normalized_name', normalized)
+    .neq('id', brandId)
+    .maybeSingle()
+  if (clash) throw new Error(`"${alias}" is already the brand ${clash.name}; merge them instead`)
+
+  const { error } = await supabaseAdmin.from('brand_aliases').insert({
+    brand_id: brandId,
+    alias: alias.trim(),
+    normalized_alias: normalized,
+    source: 'manual',
+    created_by: by,
+  })
+  if (error) throw new Error(error.code === '23505' ? `"${alias}" is already an alias` : error.message)
+}
+
+export async function removeBrandAlias(brandId: string, alias: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('brand_aliases')
+    .delete()
+    .eq('brand_id', brandId)
+    .eq('normalized_alias', normalizeBrandName(alias))
+  if (error) throw new Error(error.message)
+}
+
+/**
+ * Blocklist a token so it is never created as a brand. When it names an existing brand, that
+ * brand is deleted: its deals lose their brand and it is dropped from user preferences.
+ */
+export async function blockBrandToken(token: string, by: string): Promise<{ brandRemoved: boolean }> {
+  const normalized = normalizeBrandName(token)
+  if (!normalized) throw new Error('Token is empty')
+
+  const { error } = await supabaseAdmin
+    .from('brand_blocklist')
+    .upsert({ token: token.trim(), normalized_token: normalized, created_by: by }, { onConflict: 'normalized_token' })
+  if (error) throw new Error(error.message)
+
+  const { data: brand } = await supabaseAdmin
+    .from('brands')
+    .select('id, name')
+    .eq('normalized_name', normalized)
+    .maybeSingle()
+  if (!brand) return { brandRemoved: false }
+
+  const { error: dealsError } = await supabaseAdmin
+    .from('deals')
+    .update({ brand_id: null, brand: null })
+    .eq('brand_id', brand.id)
+  if (dealsError) throw new Error(dealsError.message)
+  revalidateDeals()
+
+  await replacePreferenceBrands([brand.name], null)
+
+  const { error: deleteError } = await supabaseAdmin.from('brands').delete().eq('id', brand.id)
+  if (deleteError) throw new Error(deleteError.message)
+
+  return { brandRemoved: true }
+}
+
+export async function unblockBrandToken(id: string): Promise<void> {
+  const { error } = await supabaseAdmin.from('brand_blocklist').delete().eq('id', id)
+  if (error) throw new Error(error.message)
+}
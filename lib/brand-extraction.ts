@@ -1,4 +1,5 @@
 import { supabaseAdmin } from './supabase/server'
+import { KNOWN_BRANDS, NON_BRAND_WORDS } from './known-brands'
 
 /**
  * Normalize brand name for matching (lowercase, trim, remove special chars)
@@ -10,29 +11,88 @@ export function normalizeBrandName(name: string): string {
     .replace(/[^a-z0-9]/g, '') // Remove special characters
 }
 
+const KNOWN_BRAND_BY_VARIANT = new Map<string, string>(
+  KNOWN_BRANDS.flatMap((brand) => [
+    [normalizeBrandName(brand.name), brand.name] as [string, string],
+    ...brand.variants.map((variant) => [normalizeBrandName(variant), brand.name] as [string, string]),
+  ])
+)
+
+// Longest variants first, so "muha meds" wins over "muha"
+const KNOWN_BRAND_PATTERNS = KNOWN_BRANDS.flatMap((brand) =>
+  brand.variants.map((variant) => ({ name: brand.name, variant, startOnly: brand.startOnly }))
+)
+  .sort((a, b) => b.variant.length - a.variant.length)
+  .map(({ name, variant, startOnly }) => {
+    const words = variant.split(/\s+/).map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    return {
+      name,
+      // Short variants ("pv", "hlf") only count at the start of a title
+      anywhere: !startOnly && variant.length >= 4,
+      pattern: new RegExp(`(^|[^a-z0-9])(${words.join('[\\s.\\-]*')})(?![a-z0-9])`, 'i'),
+    }
+  })
+
+/**
+ * Canonical spelling of a brand name: the known brand it is a variant of, otherwise the name as given.
+ * Null for empty names and for words that are never brands ("Buy", "Premium").
+ */
+export function canonicalBrandName(name: string): string | null {
+  const trimmed = name.trim()
+  const normalized = normalizeBrandName(trimmed)
+  if (!normalized || NON_BRAND_WORDS.has(normalized)) return null
+  return KNOWN_BRAND_BY_VARIANT.get(normalized) || trimmed
+}
+
+/**
+ * Known brand mentioned in a title, preferring one at the start.
+ */
+function matchKnownBrand(title: string): { brand: string; productName: string } | null {
+  for (const entry of KNOWN_BRAND_PATTERNS) {
+    const match = entry.pattern.exec(title)
+    if (!match) continue
+    const start = match.index + match[1].length
+    if (start > 0 && !entry.anywhere) continue
+    const productName = `${title.slice(0, start)} ${title.slice(start + match[2].length)}`
+      .replace(/^[\s\-–—|/:]+/, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+    return { brand: entry.name, productName }
+  }
+  return null
+}
+
+/** Looks like a brand: has letters, no prices or percentages */
+function plausibleBrand(candidate: string): boolean {
+  return /[a-z]/i.test(candidate) && !/[$%]/.test(candidate) && canonicalBrandName(candidate) !== null
+}
+
 /**
  * Extract brand name from product title
- * Common patterns: "BRAND Product", "BRAND - Product", "BRAND/Product"
+ * Known brands are matched first; otherwise common patterns: "BRAND - Product", "BRAND/Product", "BRAND Product"
  */
 export function extractBrandFromTitle(title: string): { brand: string | null; productName: string } {
   const titleTrimmed = title.trim()
-  
+
+  const known = matchKnownBrand(titleTrimmed)
+  if (known) return known
+
   // Common separators
   const separators = [' - ', ' / ', ' | ', ' – ', ' — ']
-  
+
   for (const sep of separators) {
     const parts = titleTrimmed.split(sep)
     if (parts.length >= 2) {
       const potentialBrand = parts[0].trim()
       const productName = parts.slice(1).join(sep).trim()
-      
+
       // If first part is short (likely brand) and second part is longer (product)
-      if (potentialBrand.length <= 30 && productName.length > potentialBrand.length) {
+      if (potentialBrand.length <= 30 && productName.length > potentialBrand.length && plausibleBrand(potentialBrand)) {
         return { brand: potentialBrand, productName }
       }
     }
   }
-  
+
   // Try to find brand at start (common pattern: "BRAND 1g carts")
   // Look for capitalized words at the start
   const words = titleTrimmed.split(/\s+/)
@@ -41,44 +101,70 @@ export function extractBrandFromTitle(title: string): { brand: string | null; pr
     // If first word is all caps or starts with capital, likely brand
     if (firstWord === firstWord.toUpperCase() || /^[A-Z]/.test(firstWord)) {
       // Check if it's a known brand pattern (short, capitalized)
-      if (firstWord.length <= 20 && firstWord.length >= 2) {
+      if (firstWord.length <= 20 && firstWord.length >= 2 && plausibleBrand(firstWord)) {
         const productName = words.slice(1).join(' ')
         return { brand: firstWord, productName }
       }
     }
   }
-  
+
   // No brand found, return full title as product name
   return { brand: null, productName: titleTrimmed }
 }
 
 /**
- * Find or create a brand in the database
+ * Resolve a brand name to an existing brand: blocklist first, then admin aliases, then brands.
+ * Null when the name is blocked or never a brand; { id: null } when it's a new brand.
  */
-export async function findOrCreateBrand(brandName: string): Promise<string | null> {
-  if (!brandName || brandName.trim().length === 0) {
-    return null
-  }
+async function resolveBrand(brandName: string): Promise<{ id: string | null; name: string } | null> {
+  const name = canonicalBrandName(brandName)
+  if (!name) return null
+
+  const normalized = Array.from(new Set([normalizeBrandName(brandName), normalizeBrandName(name)]))
+
+  const { data: blocked } = await supabaseAdmin
+    .from('brand_blocklist')
+    .select('id')
+    .in('normalized_token', normalized)
+    .limit(1)
+  if (blocked && blocked.length > 0) return null
+
+  const { data: alias } = await supabaseAdmin
+    .from('brand_aliases')
+    .select('brand_id')
+    .in('normalized_alias', normalized)
+    .limit(1)
+    .maybeSingle()
+  if (alias) return { id: alias.brand_id, name }
 
-  const normalized = normalizeBrandName(brandName)
-  
-  // First try exact match on normalized name
   const { data: existing } = await supabaseAdmin
     .from('brands')
     .select('id')
-    .eq('normalized_name', normalized)
-    .single()
+    .eq('normalized_name', normalizeBrandName(name))
+    .maybeSingle()
+
+  return { id: existing?.id || null, name }
+}
 
-  if (existing) {
-    return existing.id
+/**
+ * Find or create a brand in the database
+ * Blocked names and non-brand words are never created.
+ */
+export async function findOrCreateBrand(brandName: string): Promise<string | null> {
+  if (!brandName || brandName.trim().length === 0) {
+    return null
   }
 
+  const resolved = await resolveBrand(brandName)
+  if (!resolved) return null
+  if (resolved.id) return resolved.id
+
   // Try case-insensitive match on name
   const { data: existingCaseInsensitive } = await supabaseAdmin
     .from('brands')
     .select('id')
-    .ilike('name', brandName.trim())
-    .single()
+    .ilike('name', resolved.name)
+    .maybeSingle()
 
   if (existingCaseInsensitive) {
     return existingCaseInsensitive.id
@@ -88,8 +174,8 @@ export async function findOrCreateBrand(brandName: string): Promise<string | nul
   const { data: newBrand, error } = await supabaseAdmin
     .from('brands')
     .insert({
-      name: brandName.trim(),
-      normalized_name: normalized,
+      name: resolved.name,
+      normalized_name: normalizeBrandName(resolved.name),
     })
     .select('id')
     .single()
@@ -103,22 +189,15 @@ export async function findOrCreateBrand(brandName: string): Promise<string | nul
 }
 
 /**
- * Get brand ID by name (case-insensitive)
+ * Get brand ID by name, following aliases (null when unknown or blocked)
  */
 export async function getBrandId(brandName: string): Promise<string | null> {
   if (!brandName || brandName.trim().length === 0) {
     return null
   }
 
-  const normalized = normalizeBrandName(brandName)
-  
-  const { data } = await supabaseAdmin
-    .from('brands')
-    .select('id')
-    .eq('normalized_name', normalized)
-    .single()
-
-  return data?.id || null
+  const resolved = await resolveBrand(brandName)
+  return resolved?.id || null
 }
 
 /**
@@ -1,26 +1,248 @@
+/**
+ * Deal category taxonomy.
+ * The one list of categories and subcategories used by the parsers' schemas, category pages,
+ * sitemap, preferences, newsletter signup and quality checks. Aliases map free text
+ * ("carts", "oz", "cbd/thca") onto a slug; keywords are title hints used to infer a
+ * subcategory and to flag deals whose title doesn't fit their category.
+ */
+
+import { z } from 'zod'
+
+export interface DealSubcategory {
+  readonly slug: string
+  readonly label: string
+  readonly aliases: readonly string[]
+  readonly keywords: readonly string[]
+}
+
+export interface DealCategory {
+  readonly slug: string
+  readonly label: string
+  readonly aliases: readonly string[]
+  readonly keywords: readonly string[]
+  /** Offered on the free newsletter signup */
+  readonly newsletter: boolean
+  readonly subcategories: readonly DealSubcategory[]
+}
+
 export const DEAL_CATEGORIES = [
-  { slug: 'flower', label: 'Flower', aliases: ['flower'] },
-  { slug: 'vapes', label: 'Vapes', aliases: ['vapes', 'vape', 'carts'] },
-  { slug: 'concentrates', label: 'Concentrates', aliases: ['concentrates'] },
-  { slug: 'edibles', label: 'Edibles', aliases: ['edibles'] },
-  { slug: 'pre-rolls', label: 'Pre-Rolls', aliases: ['pre-rolls', 'prerolls'] },
-  { slug: 'ounces', label: 'Ounces', aliases: ['ounces', 'oz'] },
-] as const
+  {
+    slug: 'flower',
+    label: 'Flower',
+    aliases: ['flower', 'bud', 'buds'],
+    keywords: ['flower', 'bud', 'eighth', 'ounce', 'oz', 'gram', 'g'],
+    newsletter: true,
+    subcategories: [
+      { slug: 'eighths', label: 'Eighths', aliases: ['eighth', 'eighths'], keywords: ['eighth', '1/8', '3.5g', '3.5 g'] },
+      { slug: 'quarters', label: 'Quarters', aliases: ['quarter', 'quarters'], keywords: ['quarter', '1/4', '7g', '7 g'] },
+      { slug: 'half-ounces', label: 'Half Ounces', aliases: ['half ounce', 'half oz', 'half-ounces'], keywords: ['half ounce', 'half oz', '1/2 oz', '14g', '14 g'] },
+      { slug: 'ounces', label: 'Ounces', aliases: ['ounce', 'ounces', 'oz'], keywords: ['ounce', 'oz', '28g', '28 g'] },
+      { slug: 'shake', label: 'Shake & Smalls', aliases: ['shake', 'smalls', 'popcorn'], keywords: ['shake', 'smalls', 'popcorn', 'trim'] },
+    ],
+  },
+  {
+    slug: 'pre-rolls',
+    label: 'Pre-Rolls',
+    aliases: ['pre-rolls', 'pre-roll', 'prerolls', 'preroll', 'joints'],
+    keywords: ['pre-roll', 'preroll', 'joint', 'blunt'],
+    newsletter: true,
+    subcategories: [
+      { slug: 'infused', label: 'Infused', aliases: ['infused pre-rolls', 'infused'], keywords: ['infused', 'diamond', 'kief', 'moon rock'] },
+      { slug: 'packs', label: 'Multi-Packs', aliases: ['packs', 'multi-pack'], keywords: ['pack', 'pk', '5x', '10x'] },
+      { slug: 'singles', label: 'Singles', aliases: ['singles', 'single'], keywords: ['single', '1g pre', '1 g pre'] },
+    ],
+  },
+  {
+    slug: 'vapes',
+    label: 'Vapes',
+    aliases: ['vapes', 'vape', 'vaporizers'],
+    keywords: ['vape', 'cart', 'cartridge', 'pen', 'disposable', 'pod', 'aio'],
+    newsletter: true,
+    subcategories: [
+      { slug: 'disposables', label: 'Disposables', aliases: ['disposable', 'disposables', 'aio'], keywords: ['disposable', 'dispo', 'all-in-one', 'aio'] },
+      { slug: 'pods', label: 'Pods', aliases: ['pod', 'pods'], keywords: ['pod'] },
+      { slug: 'carts', label: 'Carts', aliases: ['cart', 'carts', 'cartridge', 'cartridges'], keywords: ['cart', 'cartridge', '510'] },
+    ],
+  },
+  {
+    slug: 'concentrates',
+    label: 'Concentrates',
+    aliases: ['concentrates', 'concentrate', 'extracts', 'dabs'],
+    keywords: ['concentrate', 'wax', 'shatter', 'live resin', 'rosin', 'dab', 'badder', 'budder', 'sugar', 'diamonds'],
+    newsletter: true,
+    subcategories: [
+      { slug: 'rosin', label: 'Rosin', aliases: ['rosin', 'live rosin'], keywords: ['rosin'] },
+      { slug: 'live-resin', label: 'Live Resin', aliases: ['live resin'], keywords: ['live resin', 'cured resin'] },
+      { slug: 'wax-shatter', label: 'Wax & Shatter', aliases: ['wax', 'shatter', 'badder', 'budder'], keywords: ['wax', 'shatter', 'badder', 'budder', 'sugar', 'crumble'] },
+    ],
+  },
+  {
+    slug: 'edibles',
+    label: 'Edibles',
+    aliases: ['edibles', 'edible'],
+    keywords: ['edible', 'gummy', 'gummies', 'chocolate', 'cookie', 'brownie', 'chew', 'mint', 'mg'],
+    newsletter: true,
+    subcategories: [
+      { slug: 'gummies', label: 'Gummies', aliases: ['gummy', 'gummies'], keywords: ['gummy', 'gummies', 'chew'] },
+      { slug: 'chocolates', label: 'Chocolates', aliases: ['chocolate', 'chocolates'], keywords: ['chocolate', 'bar'] },
+      { slug: 'baked-goods', label: 'Baked Goods', aliases: ['baked goods'], keywords: ['cookie', 'brownie', 'baked'] },
+    ],
+  },
+  {
+    slug: 'drinks',
+    label: 'Drinks',
+    aliases: ['drinks', 'drink', 'beverages', 'beverage'],
+    keywords: ['drink', 'beverage', 'soda', 'tea', 'seltzer', 'shot', 'lemonade'],
+    newsletter: false,
+    subcategories: [],
+  },
+  {
+    slug: 'topicals',
+    label: 'Topicals',
+    aliases: ['topicals', 'topical'],
+    keywords: ['topical', 'cream', 'lotion', 'balm', 'salve', 'patch'],
+    newsletter: false,
+    subcategories: [],
+  },
+  {
+    slug: 'cbd-thca',
+    label: 'CBD / THCa',
+    aliases: ['cbd-thca', 'cbd/thca', 'cbd', 'thca', 'hemp'],
+    keywords: ['cbd', 'thca', 'hemp', 'cbn', 'cbg'],
+    newsletter: false,
+    subcategories: [],
+  },
+  {
+    slug: 'accessories',
+    label: 'Accessories',
+    aliases: ['accessories', 'accessory', 'gear'],
+    keywords: ['accessory', 'grinder', 'pipe', 'bong', 'vaporizer', 'papers', 'lighter', 'battery', 'tray'],
+    newsletter: false,
+    subcategories: [
+      { slug: 'batteries', label: 'Batteries', aliases: ['battery', 'batteries'], keywords: ['battery', '510 batt'] },
+      { slug: 'glass', label: 'Glass', aliases: ['glass'], keywords: ['pipe', 'bong', 'rig', 'glass'] },
+      { slug: 'papers', label: 'Papers & Cones', aliases: ['papers', 'cones'], keywords: ['papers', 'cone', 'wraps'] },
+    ],
+  },
+] as const satisfies readonly DealCategory[]
 
 export type DealCategorySlug = (typeof DEAL_CATEGORIES)[number]['slug']
 
-export const NEWSLETTER_CATEGORIES = [
-  { slug: 'flower', label: 'Flower' },
-  { slug: 'vapes', label: 'Vapes' },
-  { slug: 'concentrates', label: 'Concentrates' },
-  { slug: 'edibles', label: 'Edibles' },
-  { slug: 'pre-rolls', label: 'Pre-Rolls' },
-] as const
+/** Category slugs as a tuple, for z.enum */
+export const DEAL_CATEGORY_SLUGS = DEAL_CATEGORIES.map((c) => c.slug) as [DealCategorySlug, ...DealCategorySlug[]]
+
+export const NEWSLETTER_CATEGORIES = DEAL_CATEGORIES.filter((c) => c.newsletter).map(({ slug, label }) => ({ slug, label }))
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase().replace(/[_\s]+/g, ' ')
+}
+
+function findCategory(slug: string): DealCategory | undefined {
+  return (DEAL_CATEGORIES as readonly DealCategory[]).find((c) => c.slug === slug)
+}
 
 export function categoryLabel(slug: string): string {
-  return DEAL_CATEGORIES.find((c) => c.slug === slug)?.label || slug.replace(/-/g, ' ')
+  return findCategory(slug)?.label || slug.replace(/-/g, ' ')
+}
+
+export function subcategoryLabel(category: string, subcategory: string): string {
+  return findCategory(category)?.subcategories.find((s) => s.slug === subcategory)?.label || subcategory.replace(/-/g, ' ')
 }
 
 export function isDealCategory(slug: string): slug is DealCategorySlug {
   return DEAL_CATEGORIES.some((c) => c.slug === slug)
 }
+
+export function subcategoriesOf(category: string): readonly DealSubcategory[] {
+  return findCategory(category)?.subcategories ?? []
+}
+
+/**
+ * Resolve free text to a category, and a subcategory when the text names one.
+ * "carts" → vapes/carts, "oz" → flower/ounces, "cbd/thca" → cbd-thca. Null when nothing matches.
+ */
+export function resolveCategory(value: string): { category: DealCategorySlug; subcategory: string | null } | null {
+  const text = normalize(value)
+  if (!text) return null
+
+  for (const category of DEAL_CATEGORIES as readonly DealCategory[]) {
+    if (category.slug === text || category.aliases.includes(text)) {
+      return { category: category.slug as DealCategorySlug, subcategory: null }
+    }
+  }
+  for (const category of DEAL_CATEGORIES as readonly DealCategory[]) {
+    const sub = category.subcategories.find((s) => s.slug === text || s.aliases.includes(text))
+    if (sub) return { category: category.slug as DealCategorySlug, subcategory: sub.slug }
+  }
+  return null
+}
+
+/**
+ * zod schema for a category field: accepts any alias and outputs the canonical slug.
+ * Parsers and API routes use this so "vape" or "cbd/thca" from a model or an old client still validates.
+ */
+export const dealCategorySchema = z.preprocess(
+  (value) => (typeof value === 'string' ? resolveCategory(value)?.category ?? value : value),
+  z.enum(DEAL_CATEGORY_SLUGS)
+)
+
+/** "flower, pre-rolls, vapes, …" for parser prompts */
+export function categoryPromptList(): string {
+  return DEAL_CATEGORY_SLUGS.join(', ')
+}
+
+/** Category and subcategory keywords together: any of them in a title is consistent with the category */
+export function categoryKeywords(category: string): string[] {
+  const entry = findCategory(category)
+  if (!entry) return []
+  return [...entry.keywords, ...entry.subcategories.flatMap((s) => s.keywords)]
+}
+
+/** Whether a title mentions anything that fits the category. True for categories with no keywords. */
+export function titleMatchesCategory(category: string, title: string): boolean {
+  const keywords = categoryKeywords(category)
+  if (keywords.length === 0) return true
+  const titleLower = title.toLowerCase()
+  return keywords.some((keyword) => containsKeyword(titleLower, keyword))
+}
+
+/**
+ * Subcategory implied by a deal title, or null. Subcategories are checked in taxonomy order,
+ * so more specific ones (disposables, pods) win over general ones (carts) listed after them.
+ */
+export function inferSubcategory(category: string, title: string): string | null {
+  const titleLower = title.toLowerCase()
+  for (const sub of subcategoriesOf(category)) {
+    if (sub.keywords.some((keyword) => containsKeyword(titleLower, keyword))) return sub.slug
+  }
+  return null
+}
+
+function containsKeyword(text: string, keyword: string): boolean {
+  // Short keywords ("oz", "pod") must stand alone so they don't match inside other words
+  if (keyword.length <= 3) {
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+    return new RegExp(`(^|[^a-z])${escaped}s?($|[^a-z])`).test(text)
+  }
+  return text.includes(keyword)
+}
+
+/**
+ * Canonical category columns for a deal row.
+ * Unknown categories are kept as given (they still show on city pages and in search) with no subcategory.
+ */
+export function dealCategoryColumns(deal: { category: string; title: string; subcategory?: string | null }): {
+  category: string
+  subcategory: string | null
+} {
+  const resolved = resolveCategory(deal.category)
+  if (!resolved) return { category: deal.category, subcategory: null }
+
+  const given = deal.subcategory
+    ? subcategoriesOf(resolved.category).find((s) => s.slug === deal.subcategory)?.slug
+    : undefined
+  return {
+    category: resolved.category,
+    subcategory: given ?? resolved.subcategory ?? inferSubcategory(resolved.category, deal.title),
+  }
+}
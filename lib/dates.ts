@@ -0,0 +1,133 @@
+/**
+ * Calendar dates where the dispensary is.
+ * Deal dates (date, start_date, end_date) are calendar days in the dispensary's timezone, not UTC days:
+ * a deal ending 2026-07-15 runs until midnight in Michigan, 04:00 UTC the next morning. "Today", day
+ * arithmetic and date labels all go through here rather than toISOString(), whose UTC day turns over
+ * at 8pm Eastern (7pm in winter). Safe to import from client components.
+ */
+
+export const DEFAULT_TIMEZONE = 'America/Detroit'
+
+/** Timezones of the dispensaries we list: most of Michigan, and the Central-time Upper Peninsula counties */
+export const SERVED_TIMEZONES = ['America/Detroit', 'America/Menominee'] as const
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function wallClockFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+    formatters.set(timezone, formatter)
+  }
+  return formatter
+}
+
+/** The wall-clock time at `instant` in `timezone`, read as if it were UTC (ms) */
+function wallClockMs(instant: number, timezone: string): number {
+  const parts: Record<string, number> = {}
+  for (const part of wallClockFormatter(timezone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10)
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+}
+
+function toMs(instant: Date | number | string): number {
+  return typeof instant === 'number' ? instant : new Date(instant).getTime()
+}
+
+function utcMidnight(date: string): number {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number)
+  return Date.UTC(year, month - 1, day)
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    wallClockFormatter(timezone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Timezone for a deal or dispensary row: its own, its dispensary's, else America/Detroit.
+ */
+export function timezoneOf(
+  row?: { timezone?: string | null; dispensaries?: { timezone?: string | null } | null } | null
+): string {
+  return row?.timezone || row?.dispensaries?.timezone || DEFAULT_TIMEZONE
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in `timezone`.
+ */
+export function localDate(instant: Date | number | string, timezone: string = DEFAULT_TIMEZONE): string {
+  return new Date(wallClockMs(toMs(instant), timezone)).toISOString().slice(0, 10)
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in `timezone`.
+ */
+export function todayIn(timezone: string = DEFAULT_TIMEZONE, now: Date | number = Date.now()): string {
+  return localDate(now, timezone)
+}
+
+/**
+ * The earliest "today" across SERVED_TIMEZONES. A deal ending before this date has ended everywhere,
+ * so set-wide queries (expiry, listings) can use it without cutting off a shop west of Detroit.
+ */
+export function earliestToday(now: Date | number = Date.now()): string {
+  return SERVED_TIMEZONES.map((timezone) => todayIn(timezone, now)).sort()[0]
+}
+
+/**
+ * Calendar arithmetic on YYYY-MM-DD dates; a DST change never moves the result.
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(utcMidnight(date) + days * MS_PER_DAY).toISOString().slice(0, 10)
+}
+
+/**
+ * Whole calendar days from `from` to `to` (negative when `to` is earlier).
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((utcMidnight(to) - utcMidnight(from)) / MS_PER_DAY)
+}
+
+/**
+ * Weekday of a calendar date, 0 = Sunday.
+ */
+export function weekdayOf(date: string): number {
+  return new Date(utcMidnight(date)).getUTCDay()
+}
+
+/**
+ * The instant local midnight starts `date` in `timezone` (23 or 25 hours before the next one on DST days).
+ */
+export function startOfDay(date: string, timezone: string = DEFAULT_TIMEZONE): Date {
+  const target = utcMidnight(date)
+  let instant = target
+  // The offset at the first guess can differ from the one at midnight when DST changed in between
+  for (let i = 0; i < 2; i++) {
+    instant = target - (wallClockMs(instant, timezone) - instant)
+  }
+  return new Date(instant)
+}
+
+/**
+ * Format a calendar date, e.g. { month: 'short', day: 'numeric' } -> "Nov 1", whatever the runtime's timezone.
+ */
+export function formatDate(date: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(utcMidnight(date)).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' })
+}
@@ -0,0 +1,39 @@
+/**
+ * Cached deal reads.
+ * Public pages read deals through Next's data cache instead of querying Supabase on every view.
+ * Every entry is tagged 'deals'; anything that approves, edits, ingests or expires a deal calls
+ * revalidateDeals() so the next read (and the ISR pages built from it) sees the change.
+ * DEAL_CACHE=off bypasses the cache, e.g. for a before/after run of scripts/load-test.ts.
+ */
+import { revalidateTag, unstable_cache } from 'next/cache'
+
+export const DEALS_CACHE_TAG = 'deals'
+
+/** Upper bound on staleness for writes that don't call revalidateDeals (e.g. SQL run by hand) */
+const DEAL_CACHE_SECONDS = 300
+
+/**
+ * Wrap a deal query in the data cache, keyed by `name` and its arguments.
+ * The query must throw rather than return an empty result on error, or the error gets cached.
+ */
+export function cachedDealQuery<Args extends unknown[], T>(
+  name: string,
+  query: (...args: Args) => Promise<T>
+): (...args: Args) => Promise<T> {
+  const cached = unstable_cache(query, ['deals', name], {
+    tags: [DEALS_CACHE_TAG],
+    revalidate: DEAL_CACHE_SECONDS,
+  })
+  return (...args: Args) => (process.env.DEAL_CACHE === 'off' ? query(...args) : cached(...args))
+}
+
+/**
+ * Drop cached deal reads after deals change.
+ */
+export function revalidateDeals(): void {
+  try {
+    revalidateTag(DEALS_CACHE_TAG)
+  } catch {
+    // Outside a Next.js server (CLI scripts) there is no cache to drop
+  }
+}
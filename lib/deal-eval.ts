@@ -0,0 +1,146 @@
+/**
+ * Scoring for the extraction eval harness (scripts/eval-extraction.ts).
+ * Predicted deals are paired one-to-one with hand-labeled expected deals. A pair counts when the
+ * category is the same, the brands do not conflict, the prices agree and the titles share enough
+ * words; precision is the share of predictions that found a label, recall the share of labels found.
+ */
+
+import { jaccard, normalizeTitleTokens, pricingAgrees } from './deal-matching'
+import { parseDealPricing } from './pricing'
+import type { Deal } from './ai-parser'
+import type { DispensaryParseHints } from './parse-hints'
+
+export type LabeledDeal = Pick<Deal, 'category' | 'title' | 'brand' | 'price_text'>
+
+/** A fixture's expected.json; the input sits next to it as input.txt (ocr) or input.html (html) */
+export interface EvalFixture {
+  description?: string
+  /** 'ocr' runs parseDealsFromText on flyer OCR text, 'html' runs extractDealsFromWebsite on a deals page */
+  kind: 'ocr' | 'html'
+  dispensary: string
+  city?: string
+  /** Parse hints given to parseDealsFromText, to measure what a dispensary's hints change */
+  hints?: DispensaryParseHints
+  deals: LabeledDeal[]
+}
+
+/** Title word overlap a pair needs to count as the same deal */
+const MIN_TITLE_SIMILARITY = 0.5
+
+export interface DealEvalScore {
+  truePositives: number
+  falsePositives: number
+  falseNegatives: number
+  precision: number
+  recall: number
+  f1: number
+  /** Matched pairs whose brand was labeled and predicted the same */
+  brandCorrect: number
+  matched: Array<{ expected: LabeledDeal; predicted: LabeledDeal; titleSimilarity: number }>
+  missing: LabeledDeal[]
+  extra: LabeledDeal[]
+}
+
+function normalizeBrand(brand?: string | null): string {
+  return (brand || '').toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function brandsConflict(a?: string | null, b?: string | null): boolean {
+  const brandA = normalizeBrand(a)
+  const brandB = normalizeBrand(b)
+  return !!brandA && !!brandB && !brandA.includes(brandB) && !brandB.includes(brandA)
+}
+
+function pricesAgree(a: LabeledDeal, b: LabeledDeal): boolean {
+  const compact = (text: string) => text.toLowerCase().replace(/\s+/g, '')
+  if (compact(a.price_text) === compact(b.price_text)) return true
+  return pricingAgrees(parseDealPricing(a), parseDealPricing(b)) === true
+}
+
+/** Title words with the brand folded in, so "1g carts" + brand STIIIZY matches "STIIIZY 1g carts" */
+function titleTokens(deal: LabeledDeal): Set<string> {
+  return normalizeTitleTokens(`${deal.brand || ''} ${deal.title}`)
+}
+
+/**
+ * How alike the titles of a labeled and a predicted deal are, or null when they cannot be the same deal.
+ */
+export function pairSimilarity(expected: LabeledDeal, predicted: LabeledDeal): number | null {
+  if (expected.category !== predicted.category) return null
+  if (brandsConflict(expected.brand, predicted.brand)) return null
+  if (!pricesAgree(expected, predicted)) return null
+  const similarity = jaccard(titleTokens(expected), titleTokens(predicted))
+  return similarity >= MIN_TITLE_SIMILARITY ? similarity : null
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 1 : numerator / denominator
+}
+
+function f1(precision: number, recall: number): number {
+  return precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall)
+}
+
+/**
+ * Pair predictions with labels, most alike pairs first, and score the result.
+ */
+export function scoreDeals(expected: LabeledDeal[], predicted: LabeledDeal[]): DealEvalScore {
+  const candidates: Array<{ e: number; p: number; similarity: number }> = []
+  expected.forEach((label, e) => {
+    predicted.forEach((prediction, p) => {
+      const similarity = pairSimilarity(label, prediction)
+      if (similarity !== null) candidates.push({ e, p, similarity })
+    })
+  })
+  candidates.sort((a, b) => b.similarity - a.similarity)
+
+  const usedExpected = new Set<number>()
+  const usedPredicted = new Set<number>()
+  const matched: DealEvalScore['matched'] = []
+  for (const { e, p, similarity } of candidates) {
+    if (usedExpected.has(e) || usedPredicted.has(p)) continue
+    usedExpected.add(e)
+    usedPredicted.add(p)
+    matched.push({ expected: expected[e], predicted: predicted[p], titleSimilarity: Math.round(similarity * 1000) / 1000 })
+  }
+
+  const precision = ratio(matched.length, predicted.length)
+  const recall = ratio(matched.length, expected.length)
+  return {
+    truePositives: matched.length,
+    falsePositives: predicted.length - matched.length,
+    falseNegatives: expected.length - matched.length,
+    precision,
+    recall,
+    f1: f1(precision, recall),
+    brandCorrect: matched.filter(
+      ({ expected, predicted }) => !!expected.brand && normalizeBrand(expected.brand) === normalizeBrand(predicted.brand)
+    ).length,
+    matched,
+    missing: expected.filter((_, i) => !usedExpected.has(i)),
+    extra: predicted.filter((_, i) => !usedPredicted.has(i)),
+  }
+}
+
+/**
+ * Micro-averaged totals over several fixtures: every deal counts once, whichever fixture it is in.
+ */
+export function summarizeScores(
+  scores: DealEvalScore[]
+): Pick<DealEvalScore, 'truePositives' | 'falsePositives' | 'falseNegatives' | 'precision' | 'recall' | 'f1' | 'brandCorrect'> {
+  const sum = (pick: (score: DealEvalScore) => number) => scores.reduce((total, score) => total + pick(score), 0)
+  const truePositives = sum((s) => s.truePositives)
+  const falsePositives = sum((s) => s.falsePositives)
+  const falseNegatives = sum((s) => s.falseNegatives)
+  const precision = ratio(truePositives, truePositives + falsePositives)
+  const recall = ratio(truePositives, truePositives + falseNegatives)
+  return {
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision,
+    recall,
+    f1: f1(precision, recall),
+    brandCorrect: sum((s) => s.brandCorrect),
+  }
+}
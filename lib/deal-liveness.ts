@@ -0,0 +1,321 @@
+/**
+ * Source liveness re-checks.
+ * Ingested deals stay live until their end_date, which is often tomorrow or missing, even when the
+ * dispensary pulled the special or replaced its flyer. checkDealLiveness re-fetches each live deal's
+ * source (or menu) URL through politeFetch and looks for the deal again:
+ * - a web page: the deal among the page's menu-adapter specials (lib/deal-matching), else its title
+ *   words in the page text
+ * - a flyer file: the same file as the flyer the deal was parsed from (a 304 counts as the same)
+ * Each miss is counted on the deal; consecutive misses first lower its confidence, then expire it with
+ * the reason recorded. Blocked or failing fetches are inconclusive and count neither way.
+ * Links answering 4xx/5xx are flagged on the dispensary (broken_link_*) for admins.
+ */
+
+import * as Sentry from '@sentry/nextjs'
+import { supabaseAdmin } from './supabase/server'
+import { politeFetch, type FetchOutcome } from './polite-fetch'
+import { extractMenuDeals } from './menu-adapters'
+import { findBestMatch, normalizeTitleTokens } from './deal-matching'
+import { computeFileHash } from './file-utils'
+import { addDays, earliestToday, timezoneOf, todayIn } from './dates'
+import { revalidateDeals } from './deal-cache'
+import type { Deal } from './ai-parser'
+import type { DealPricing } from './pricing'
+
+export type LivenessVerdict = 'seen' | 'missing' | 'gone' | 'unknown'
+
+export interface LivenessSummary {
+  deals_checked: number
+  urls_fetched: number
+  seen: number
+  missed: number
+  downgraded: number
+  expired: number
+  inconclusive: number
+  broken_links: number
+}
+
+interface LiveDeal {
+  id: string
+  dispensary_name: string
+  title: string
+  price_text: string
+  category: string | null
+  brand_id: string | null
+  pricing: DealPricing | null
+  confidence: number | null
+  date: string
+  last_seen_date: string | null
+  source_url: string | null
+  menu_url: string | null
+  liveness_misses: number | null
+  dispensaries: { timezone: string | null } | null
+}
+
+/** What a fetched URL tells us, shared by every deal from that URL */
+type PageCheck =
+  | { kind: 'page'; menuDeals: Deal[]; tokens: Set<string> }
+  | { kind: 'file'; hash: string }
+  | { kind: 'unchanged' }
+  | { kind: 'failed'; outcome: FetchOutcome; status: number | null }
+
+/** A deal is rechecked once this long has passed since its last check */
+const RECHECK_AFTER_HOURS = 20
+const DEFAULT_LIMIT = 100
+/** Ingested deals without an end_date are checked until this many days after their date */
+const UNDATED_LOOKBACK_DAYS = 7
+/** Misses before a deal is expired; LIVENESS_EXPIRE_AFTER_MISSES overrides it. Confidence drops one miss earlier. */
+const DEFAULT_EXPIRE_AFTER_MISSES = 3
+const CONFIDENCE_PENALTY = 0.5
+/** Share of a deal's title words that must appear in a page without structured menu data */
+const MIN_TITLE_COVERAGE = 0.8
+
+function expireAfterMisses(): number {
+  const configured = parseInt(process.env.LIVENESS_EXPIRE_AFTER_MISSES || '', 10)
+  return Number.isFinite(configured) && configured >= 1 ? configured : DEFAULT_EXPIRE_AFTER_MISSES
+}
+
+function pageText(html: string): string {
+  return html
+    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, ' ')
+    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&nbsp;/g, ' ')
+}
+
+async function fetchPage(url: string): Promise<PageCheck> {
+  const result = await politeFetch(url, { conditional: true })
+  if (result.outcome === 'not_modified') return { kind: 'unchanged' }
+  if (result.outcome !== 'ok' || !result.response) {
+    return { kind: 'failed', outcome: result.outcome, status: result.status }
+  }
+
+  try {
+    const contentType = result.response.headers.get('content-type') || ''
+    if (contentType.includes('html')) {
+      const html = await result.response.text()
+      return {
+        kind: 'page',
+        menuDeals: extractMenuDeals(html)?.deals || [],
+        tokens: normalizeTitleTokens(pageText(html)),
+      }
+    }
+    return { kind: 'file', hash: computeFileHash(Buffer.from(await result.response.arrayBuffer())) }
+  } catch {
+    return { kind: 'failed', outcome: 'network_error', status: result.status }
+  }
+}
+
+/**
+ * Hashes of the flyers at `url` on the days the deal was parsed or kept running from them.
+ */
+async function flyerHashes(url: string, deal: LiveDeal): Promise<Set<string>> {
+  const { data } = await supabaseAdmin
+    .from('deal_flyers')
+    .select('hash')
+    .eq('source_url', url)
+    .in('date', [deal.date, deal.last_seen_date].filter(Boolean) as string[])
+  return new Set((data || []).map((flyer) => flyer.hash))
+}
+
+/**
+ * Whether the deal is still at its source, given what the source returned.
+ */
+async function dealVerdict(deal: LiveDeal, url: string, check: PageCheck): Promise<LivenessVerdict> {
+  switch (check.kind) {
+    case 'unchanged':
+      return 'seen'
+    case 'failed':
+      // The page is gone for good; anything else (5xx, blocked, network) may pass
+      return check.outcome === 'http_error' && (check.status === 404 || check.status === 410) ? 'gone' : 'unknown'
+    case 'file': {
+      const hashes = await flyerHashes(url, deal)
+      if (hashes.size === 0) return 'unknown'
+      return hashes.has(check.hash) ? 'seen' : 'missing'
+    }
+    case 'page': {
+      if (findBestMatch(deal, check.menuDeals)) return 'seen'
+      const titleTokens = normalizeTitleTokens(deal.title)
+      if (titleTokens.size === 0) return 'unknown'
+      let found = 0
+      for (const token of titleTokens) {
+        if (check.tokens.has(token)) found++
+      }
+      return found / titleTokens.size >= MIN_TITLE_COVERAGE ? 'seen' : 'missing'
+    }
+  }
+}
+
+async function applyVerdict(
+  deal: LiveDeal,
+  verdict: LivenessVerdict,
+  url: string,
+  summary: LivenessSummary
+): Promise<void> {
+  const now = new Date().toISOString()
+  if (verdict === 'unknown') {
+    summary.inconclusive++
+    await supabaseAdmin.from('deals').update({ liveness_checked_at: now }).eq('id', deal.id)
+    return
+  }
+  if (verdict === 'seen') {
+    summary.seen++
+    await supabaseAdmin.from('deals').update({ liveness_checked_at: now, liveness_misses: 0 }).eq('id', deal.id)
+    return
+  }
+
+  summary.missed++
+  const misses = (deal.liveness_misses || 0) + 1
+  const limit = expireAfterMisses()
+  const patch: Record<string, unknown> = { liveness_checked_at: now, liveness_misses: misses }
+
+  if (misses >= limit) {
+    summary.expired++
+    Object.assign(patch, {
+      status: 'expired',
+      end_date: todayIn(timezoneOf(deal)),
+      expired_reason:
+        verdict === 'gone'
+          ? `Source no longer exists (${url}), ${misses} checks in a row`
+          : `No longer found at source (${url}), ${misses} checks in a row`,
+      updated_at: now,
+    })
+  } else if (misses === limit - 1) {
+    summary.downgraded++
+    patch.confidence = Math.round((deal.confidence ?? 1) * CONFIDENCE_PENALTY * 100) / 100
+  }
+
+  await supabaseAdmin.from('deals').update(patch).eq('id', deal.id)
+}
+
+/**
+ * Flag (or clear) a broken link on each dispensary whose URLs were fetched in this run.
+ */
+async function recordBrokenLinks(
+  urlsByDispensary: Map<string, Set<string>>,
+  checks: Map<string, PageCheck>
+): Promise<number> {
+  const names = [...urlsByDispensary.keys()]
+  if (names.length === 0) return 0
+
+  const { data: dispensaries } = await supabaseAdmin
+    .from('dispensaries')
+    .select('id, name, broken_link_url, broken_link_since')
+    .in('name', names)
+
+  let broken = 0
+  const now = new Date().toISOString()
+  for (const dispensary of dispensaries || []) {
+    let brokenLink: { url: string; status: number } | null = null
+    for (const url of urlsByDispensary.get(dispensary.name) || []) {
+      const check = checks.get(url)
+      // 401/403/429 are the site keeping us out (see fetch problems), not a broken link
+      if (check?.kind === 'failed' && check.outcome === 'http_error' && check.status !== null && check.status >= 400) {
+        brokenLink = { url, status: check.status }
+        break
+      }
+    }
+
+    if (brokenLink) broken++
+    await supabaseAdmin
+      .from('dispensaries')
+      .update({
+        broken_link_url: brokenLink?.url ?? null,
+        broken_link_status: brokenLink?.status ?? null,
+        broken_link_since: brokenLink
+          ? dispensary.broken_link_url === brokenLink.url && dispensary.broken_link_since
+            ? dispensary.broken_link_since
+            : now
+          : null,
+        links_checked_at: now,
+      })
+      .eq('id', dispensary.id)
+  }
+  return broken
+}
+
+/**
+ * Re-check the live ingested deals due for a check (least recently checked first), each source URL
+ * fetched once, plus the menu URL of every dispensary involved.
+ */
+export async function checkDealLiveness(options: { limit?: number } = {}): Promise<LivenessSummary> {
+  const summary: LivenessSummary = {
+    deals_checked: 0,
+    urls_fetched: 0,
+    seen: 0,
+    missed: 0,
+    downgraded: 0,
+    expired: 0,
+    inconclusive: 0,
+    broken_links: 0,
+  }
+
+  const now = Date.now()
+  const today = earliestToday(now)
+  const undatedSince = addDays(today, -UNDATED_LOOKBACK_DAYS)
+  const recheckBefore = new Date(now - RECHECK_AFTER_HOURS * 60 * 60 * 1000).toISOString()
+
+  const { data, error } = await supabaseAdmin
+    .from('deals')
+    .select(
+      'id, dispensary_name, title, price_text, category, brand_id, pricing, confidence, date, last_seen_date, source_url, menu_url, liveness_misses, dispensaries ( timezone )'
+    )
+    .eq('status', 'approved')
+    .eq('recurring', false) // Weekly specials are off their source most days by design
+    .or('submission_source.is.null,submission_source.eq.ingest')
+    .or(`end_date.gte.${today},and(end_date.is.null,date.gte.${undatedSince})`)
+    .or(`liveness_checked_at.is.null,liveness_checked_at.lt.${recheckBefore}`)
+    .order('liveness_checked_at', { ascending: true, nullsFirst: true })
+    .limit(options.limit ?? DEFAULT_LIMIT)
+  if (error) throw new Error(`Failed to load live deals: ${error.message}`)
+
+  const deals = (data || []) as unknown as LiveDeal[]
+  const checks = new Map<string, PageCheck>()
+  const urlsByDispensary = new Map<string, Set<string>>()
+  const checkUrl = async (url: string): Promise<PageCheck> => {
+    let check = checks.get(url)
+    if (!check) {
+      check = await fetchPage(url)
+      checks.set(url, check)
+      summary.urls_fetched++
+    }
+    return check
+  }
+
+  for (const deal of deals) {
+    const url = deal.source_url || deal.menu_url
+    if (!url) continue
+    summary.deals_checked++
+    const urls = urlsByDispensary.get(deal.dispensary_name) || new Set<string>()
+    urls.add(url)
+    urlsByDispensary.set(deal.dispensary_name, urls)
+
+    try {
+      await applyVerdict(deal, await dealVerdict(deal, url, await checkUrl(url)), url, summary)
+    } catch (err) {
+      summary.inconclusive++
+      console.error(`Liveness check failed for deal ${deal.id}:`, err)
+    }
+  }
+
+  // Menu links shown to shoppers are checked too, even when no deal came from them
+  if (urlsByDispensary.size > 0) {
+    const { data: shops } = await supabaseAdmin
+      .from('dispensaries')
+      .select('name, menu_url')
+      .in('name', [...urlsByDispensary.keys()])
+      .not('menu_url', 'is', null)
+    for (const shop of shops || []) {
+      await checkUrl(shop.menu_url)
+      urlsByDispensary.get(shop.name)?.add(shop.menu_url)
+    }
+  }
+
+  summary.broken_links = await recordBrokenLinks(urlsByDispensary, checks)
+  if (summary.expired > 0) revalidateDeals()
+
+  const { logger } = Sentry
+  logger.info('Deal liveness check completed', { ...summary })
+  return summary
+}
@@ -0,0 +1,126 @@
+/**
+ * Similarity matching between deals, for duplicate detection across wording and sources.
+ * "STIIIZY 1G Pods 2/$50" and "Stiiizy 1g pod - 2 for $50" normalize to the same title tokens
+ * and the same structured price, so they score as one deal.
+ */
+
+import { parseDealPricing, type DealPricing } from './pricing'
+
+/** At or above this score a new deal is merged into the existing one */
+export const DUPLICATE_THRESHOLD = 0.85
+/** At or above this score (and below DUPLICATE_THRESHOLD) the new deal is queued for review as a possible duplicate */
+export const POSSIBLE_DUPLICATE_THRESHOLD = 0.6
+
+export interface MatchableDeal {
+  title: string
+  price_text: string
+  regular_price?: string | null
+  deal_price?: string | null
+  category?: string | null
+  brand_id?: string | null
+  pricing?: DealPricing | null
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'for', 'on', 'with', 'all', 'any', 'each', 'per',
+  'off', 'only', 'now', 'just', 'deal', 'deals', 'special', 'specials', 'sale', 'today',
+])
+
+/**
+ * Title words that identify the product, without prices, filler words or plural endings.
+ * Prices are dropped because they are compared structurally (see pricingAgrees).
+ */
+export function normalizeTitleTokens(title: string): Set<string> {
+  const text = title
+    .toLowerCase()
+    // Sizes: "1 G" / "1g" / "1 gram" → "1g"
+    .replace(/(\d+(?:\.\d+)?)\s*(?:grams?|gr)\b/g, '$1g')
+    .replace(/(\d+(?:\.\d+)?)\s+(g|mg|ml|oz)\b/g, '$1$2')
+    // Prices and price mechanics: "2/$50", "2 for $50", "$25", "30%"
+    .replace(/\d+\s*(?:\/|for)\s*\$\s*\d+(?:\.\d+)?/g, ' ')
+    .replace(/\$\s*\d+(?:\.\d+)?/g, ' ')
+    .replace(/\d+(?:\.\d+)?\s*%/g, ' ')
+    .replace(/[^a-z0-9.\s]/g, ' ')
+
+  const tokens = new Set<string>()
+  for (const word of text.split(/\s+/)) {
+    const token = word.replace(/^\.+|\.+$/g, '')
+    if (!token || STOP_WORDS.has(token)) continue
+    tokens.add(singularize(token))
+  }
+  return tokens
+}
+
+function singularize(word: string): string {
+  if (/\d/.test(word) || word.length <= 3) return word
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1)
+  return word
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1
+  let shared = 0
+  for (const token of a) {
+    if (b.has(token)) shared++
+  }
+  return shared / (a.size + b.size - shared)
+}
+
+/**
+ * Whether two parsed prices describe the same offer.
+ * Returns null when either side has no usable price, so price neither helps nor hurts the match.
+ */
+export function pricingAgrees(a: DealPricing, b: DealPricing): boolean | null {
+  if (a.mechanic === 'unknown' || b.mechanic === 'unknown') return null
+  return (
+    a.mechanic === b.mechanic &&
+    a.quantity === b.quantity &&
+    a.totalPrice === b.totalPrice &&
+    a.percentOff === b.percentOff &&
+    a.amountOff === b.amountOff
+  )
+}
+
+/**
+ * Similarity between two deals from the same dispensary, 0 to 1.
+ * Title token overlap is the base score. A different price or a different known brand means a
+ * different deal; a matching price lifts the score, a different category lowers it.
+ */
+export function dealSimilarity(a: MatchableDeal, b: MatchableDeal): number {
+  if (a.brand_id && b.brand_id && a.brand_id !== b.brand_id) return 0
+
+  let score = jaccard(normalizeTitleTokens(a.title), normalizeTitleTokens(b.title))
+
+  const pricingA = a.pricing ?? parseDealPricing(a)
+  const pricingB = b.pricing ?? parseDealPricing(b)
+  const priceMatch = pricingAgrees(pricingA, pricingB)
+  if (priceMatch === false) {
+    score = Math.min(score, POSSIBLE_DUPLICATE_THRESHOLD - 0.01)
+  } else if (priceMatch === true) {
+    score = Math.min(1, score + 0.15)
+  }
+
+  if (a.category && b.category && a.category !== b.category) {
+    score *= 0.8
+  }
+
+  return Math.round(score * 1000) / 1000
+}
+
+/**
+ * Best-scoring existing deal for a candidate, or null when nothing reaches POSSIBLE_DUPLICATE_THRESHOLD.
+ */
+export function findBestMatch<T extends MatchableDeal>(
+  candidate: MatchableDeal,
+  existing: T[]
+): { deal: T; score: number } | null {
+  let best: { deal: T; score: number } | null = null
+  for (const deal of existing) {
+    const score = dealSimilarity(candidate, deal)
+    if (score >= POSSIBLE_DUPLICATE_THRESHOLD && (!best || score > best.score)) {
+      best = { deal, score }
+    }
+  }
+  return best
+}
@@ -1,11 +1,19 @@
 import { createHash } from 'crypto'
 import { supabaseAdmin } from './supabase/server'
 import type { Deal } from './ai-parser'
+import { parseDealPricing } from './pricing'
+import { findBestMatch, DUPLICATE_THRESHOLD } from './deal-matching'
+import { titleMatchesCategory } from './categories'
+import { addDays } from './dates'
+import { revalidateDeals } from './deal-cache'
 
 export interface DealWithMetadata extends Deal {
   dispensary_name: string
   date: string
   city?: string
+  /** Preferred over dispensary_name for duplicate matching when known */
+  dispensary_id?: string | null
+  brand_id?: string | null
 }
 
 interface QualityCheckResult {
@@ -13,6 +21,14 @@ interface QualityCheckResult {
   needsReview: boolean
   reviewReason?: string
   duplicateFound?: boolean
+  /** Existing deal this one duplicates (duplicateFound) or may duplicate (possible_duplicate review) */
+  matchedDealId?: string
+  matchScore?: number
+}
+
+export interface DuplicateMatch {
+  dealId: string
+  score: number
 }
 
 /**
@@ -25,12 +41,22 @@ export function calculateDealHash(deal: DealWithMetadata): string {
 }
 
 /**
- * Check if a similar deal already exists
+ * PostgREST filter for deals of the same dispensary: by id when known, also by name for rows written before dispensary_id was set
+ */
+function sameDispensaryFilter(deal: DealWithMetadata): string {
+  const name = `dispensary_name.eq."${deal.dispensary_name.replace(/"/g, '\\"')}"`
+  return deal.dispensary_id ? `dispensary_id.eq.${deal.dispensary_id},${name}` : name
+}
+
+/**
+ * Find the existing deal a new one most likely duplicates: an exact hash match on the same date,
+ * or the most similar deal from the same dispensary in the last 7 days (see lib/deal-matching).
+ * Returns null when nothing scores above the possible-duplicate threshold.
  */
 export async function checkForDuplicates(
   deal: DealWithMetadata,
   dealHash: string
-): Promise<boolean> {
+): Promise<DuplicateMatch | null> {
   // Check for exact hash match (same dispensary, title, price, date)
   const { data: exactMatch } = await supabaseAdmin
     .from('deals')
@@ -39,53 +65,29 @@ export async function checkForDuplicates(
     .eq('date', deal.date)
     .eq('deal_hash', dealHash)
     .limit(1)
-    .single()
+    .maybeSingle()
 
   if (exactMatch) {
-    return true
+    return { dealId: exactMatch.id, score: 1 }
   }
 
-  // Check for similar deals (same dispensary, similar title/price within 7 days)
-  const sevenDaysAgo = new Date(deal.date)
-  sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7)
-  const sevenDaysAgoStr = sevenDaysAgo.toISOString().split('T')[0]
+  // Check for similar deals (same dispensary, similar title/price within 7 days), from any source
+  const sevenDaysAgoStr = addDays(deal.date, -7)
 
   const { data: similarDeals } = await supabaseAdmin
     .from('deals')
-    .select('id, title, price_text')
-    .eq('dispensary_name', deal.dispensary_name)
+    .select('id, title, price_text, regular_price, deal_price, category, brand_id, pricing')
+    .or(sameDispensaryFilter(deal))
+    .neq('status', 'rejected')
     .gte('date', sevenDaysAgoStr)
     .lte('date', deal.date)
 
   if (!similarDeals || similarDeals.length === 0) {
-    return false
-  }
-
-  // Check for similar titles (fuzzy match)
-  const normalizedTitle = deal.title.toLowerCase().trim()
-  for (const existing of similarDeals) {
-    const normalizedExisting = existing.title.toLowerCase().trim()
-    
-    // Check if titles are very similar (simple approach)
-    if (normalizedTitle === normalizedExisting) {
-      // Same title, check if price is similar
-      const priceMatch = extractPrice(deal.price_text) === extractPrice(existing.price_text)
-      if (priceMatch) {
-        return true
-      }
-    }
+    return null
   }
 
-  return false
-}
-
-/**
- * Extract numeric price from price text for comparison
- */
-function extractPrice(priceText: string): number | null {
-  // Try to extract first number
-  const match = priceText.match(/(\d+(?:\.\d+)?)/)
-  return match ? parseFloat(match[1]) : null
+  const best = findBestMatch(deal, similarDeals)
+  return best ? { dealId: best.deal.id, score: best.score } : null
 }
 
 /**
@@ -107,18 +109,24 @@ export async function validateDealQuality(
     reasons.push('low_confidence')
   }
 
-  // Check for duplicates
-  const isDuplicate = await checkForDuplicates(deal, dealHash)
-  if (isDuplicate) {
+  // Check for duplicates: near-certain matches are merged, weaker ones go to review side by side
+  const match = await checkForDuplicates(deal, dealHash)
+  if (match && match.score >= DUPLICATE_THRESHOLD) {
     return {
       isValid: false,
       needsReview: false,
       duplicateFound: true,
+      matchedDealId: match.dealId,
+      matchScore: match.score,
     }
   }
+  if (match) {
+    reasons.push('possible_duplicate')
+  }
 
   // Validate price reasonableness
-  const price = extractPrice(deal.price_text)
+  // Per-item price, so "2/$35" and "$25 each" are judged on what one item costs
+  const price = parseDealPricing(deal).unitPrice
   if (price !== null) {
     // Flag unusually high prices (>$200) or suspiciously low (<$1)
     if (price > 200) {
@@ -142,6 +150,8 @@ export async function validateDealQuality(
     needsReview,
     reviewReason: reasons.length > 0 ? reasons.join(', ') : undefined,
     duplicateFound: false,
+    matchedDealId: match?.dealId,
+    matchScore: match?.score,
   }
 }
 
@@ -149,28 +159,7 @@ export async function validateDealQuality(
  * Check if category matches title keywords
  */
 function checkCategoryMismatch(category: string, title: string): boolean {
-  const titleLower = title.toLowerCase()
-  
-  const categoryKeywords: Record<string, string[]> = {
-    'flower': ['flower', 'bud', 'eighth', 'ounce', 'oz', 'gram', 'g'],
-    'pre-rolls': ['pre-roll', 'preroll', 'joint', 'blunt'],
-    'vapes': ['vape', 'cart', 'cartridge', 'pen', 'disposable'],
-    'concentrates': ['concentrate', 'wax', 'shatter', 'live resin', 'rosin', 'dab'],
-    'edibles': ['edible', 'gummy', 'gummies', 'chocolate', 'cookie', 'brownie'],
-    'drinks': ['drink', 'beverage', 'soda', 'tea'],
-    'topicals': ['topical', 'cream', 'lotion', 'balm'],
-    'cbd/thca': ['cbd', 'thca', 'hemp'],
-    'accessories': ['accessory', 'grinder', 'pipe', 'bong', 'vaporizer'],
-  }
-
-  const keywords = categoryKeywords[category] || []
-  if (keywords.length === 0) return false
-
-  // Check if any keyword appears in title
-  const hasKeyword = keywords.some(keyword => titleLower.includes(keyword))
-  
-  // If category doesn't match, flag for review
-  return !hasKeyword
+  return !titleMatchesCategory(category, title)
 }
 
 /**
@@ -179,7 +168,8 @@ function checkCategoryMismatch(category: string, title: string): boolean {
 export async function flagForReview(
   dealId: string,
   reason: string,
-  notes?: string
+  notes?: string,
+  duplicateOfDealId?: string
 ): Promise<void> {
   // Update deal
   await supabaseAdmin
@@ -188,6 +178,7 @@ export async function flagForReview(
       needs_review: true,
     })
     .eq('id', dealId)
+  revalidateDeals()
 
   // Create review queue entry
   await supabaseAdmin
@@ -196,6 +187,7 @@ export async function flagForReview(
       deal_id: dealId,
       reason,
       notes,
+      duplicate_of_deal_id: duplicateOfDealId || null,
       status: 'pending',
     })
 }
@@ -0,0 +1,54 @@
+/**
+ * Deal provenance.
+ * Every place a deal was seen (flyer, website, extension capture, dispensary submission) is kept
+ * as a deal_sources row on the canonical deal, including copies merged away as duplicates.
+ */
+
+import { supabaseAdmin } from './supabase/server'
+
+export type DealSourceType = 'flyer' | 'website' | 'extension' | 'submission'
+
+export interface DealSourceInput {
+  sourceType: DealSourceType
+  sourceUrl: string | null
+  title: string
+  priceText: string
+  seenOn: string
+  /** Similarity to the canonical deal when this source was merged into it; omitted for the deal's own origin */
+  similarity?: number
+}
+
+export interface DealSource {
+  id: string
+  deal_id: string
+  source_type: DealSourceType
+  source_url: string | null
+  title: string
+  price_text: string
+  seen_on: string
+  similarity: number | null
+  created_at: string
+}
+
+/**
+ * Record sources against canonical deals. Failures are logged, never thrown: provenance is not worth failing ingestion over.
+ */
+export async function recordDealSources(entries: Array<{ dealId: string; source: DealSourceInput }>): Promise<void> {
+  if (entries.length === 0) return
+
+  const { error } = await supabaseAdmin.from('deal_sources').insert(
+    entries.map(({ dealId, source }) => ({
+      deal_id: dealId,
+      source_type: source.sourceType,
+      source_url: source.sourceUrl,
+      title: source.title,
+      price_text: source.priceText,
+      seen_on: source.seenOn,
+      similarity: source.similarity ?? null,
+    }))
+  )
+
+  if (error) {
+    console.error('Failed to record deal sources:', error)
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Dispensary deal submissions.
+ * A submission (from the /submit form or an inbound email) becomes a pending deal with a
+ * deal_submissions row, a 'deal_reviews' entry and its provenance; it goes live once approved.
+ */
+
+import { supabaseAdmin } from './supabase/server'
+import { uniqueSlug } from './slugs'
+import { dealPricingColumns } from './pricing'
+import { dealCategoryColumns } from './categories'
+import { recordDealSources } from './deal-sources'
+import { createRecurrence } from './recurring-deals'
+
+export type DealSubmissionSource = 'form' | 'email'
+
+export interface DealSubmissionInput {
+  dispensary_id: string | null
+  dispensary_name: string
+  /** As entered, e.g. "Port Huron, MI" */
+  city: string
+  title: string
+  category: string
+  brand?: string | null
+  description?: string | null
+  regular_price?: string | null
+  deal_price?: string | null
+  start_date: string
+  end_date?: string | null
+  menu_url: string | null
+  image?: string | null
+  contact_email?: string | null
+  /** Weekly special: weekday mask (lib/recurring-deals) and optional time window; end_date is its last day */
+  recurrence?: { weekdays: number; start_time?: string | null; end_time?: string | null } | null
+}
+
+export interface DealSubmissionOptions {
+  source: DealSubmissionSource
+  /** Stored as deal_submissions.payload: what the dispensary sent */
+  payload: unknown
+  /** What OCR and parsing read from a flyer, when the deal came from one */
+  extracted?: unknown
+  inboundEmailId?: string | null
+  /** deal_reviews reason */
+  reviewReason: string
+}
+
+/**
+ * Create a pending deal for a submission, with its submission, review and source rows.
+ */
+export async function createDealSubmission(
+  input: DealSubmissionInput,
+  options: DealSubmissionOptions
+): Promise<{ id: string; slug: string }> {
+  const { data: existing } = await supabaseAdmin.from('deals').select('slug')
+  const slug = uniqueSlug(`${input.title}-${input.city}`, (existing || []).map((d) => d.slug).filter(Boolean) as string[])
+
+  const priceText = input.deal_price || input.title
+  const { data: deal, error: dealError } = await supabaseAdmin
+    .from('deals')
+    .insert({
+      dispensary_id: input.dispensary_id,
+      dispensary_name: input.dispensary_name,
+      city: input.city.replace(/,?\s*MI$/i, ''),
+      state: 'MI',
+      date: input.start_date,
+      start_date: input.start_date,
+      end_date: input.end_date || null,
+      recurring: Boolean(input.recurrence),
+      ...dealCategoryColumns(input),
+      title: input.title,
+      slug,
+      description: input.description || input.title,
+      brand: input.brand || null,
+      regular_price: input.regular_price || null,
+      deal_price: input.deal_price || null,
+      price_text: priceText,
+      ...dealPricingColumns({
+        price_text: priceText,
+        title: input.title,
+        regular_price: input.regular_price,
+        deal_price: input.deal_price,
+      }),
+      image: input.image || null,
+      menu_url: input.menu_url,
+      source_url: input.menu_url,
+      featured: false,
+      sponsored: false,
+      verified: false,
+      submission_source: 'dispensary',
+      status: 'pending',
+      needs_review: true,
+    })
+    .select('id, slug')
+    .single()
+
+  if (dealError || !deal) {
+    throw new Error(`Could not save deal: ${dealError?.message || 'no row returned'}`)
+  }
+
+  if (input.recurrence) {
+    await createRecurrence(
+      deal.id,
+      {
+        weekdays: input.recurrence.weekdays,
+        start_time: input.recurrence.start_time || null,
+        end_time: input.recurrence.end_time || null,
+        starts_on: input.start_date,
+        ends_on: input.end_date || null,
+      },
+      'submission'
+    )
+  }
+
+  await supabaseAdmin.from('deal_submissions').insert({
+    deal_id: deal.id,
+    dispensary_name: input.dispensary_name,
+    city: input.city,
+    contact_email: input.contact_email || null,
+    payload: options.payload,
+    flyer_path: input.image || null,
+    extracted: options.extracted ?? null,
+    status: 'pending',
+    source: options.source,
+    inbound_email_id: options.inboundEmailId || null,
+  })
+
+  await supabaseAdmin.from('deal_reviews').insert({
+    deal_id: deal.id,
+    reason: options.reviewReason,
+    status: 'pending',
+  })
+
+  await recordDealSources([
+    {
+      dealId: deal.id,
+      source: {
+        sourceType: 'submission',
+        sourceUrl: input.menu_url,
+        title: input.title,
+        priceText: priceText,
+        seenOn: input.start_date,
+      },
+    },
+  ])
+
+  return deal
+}
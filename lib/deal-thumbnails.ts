@@ -0,0 +1,275 @@
+/**
+ * Per-deal thumbnails cropped from the source flyer.
+ * OCR asks for a bounding box per deal on each image piece of a flyer (StoredFlyerPage.regions);
+ * after parsing, each inserted deal is matched to the region that reads like it and the box is
+ * stored on deals.image_box. A CROP_THUMBNAILS ingestion job then crops, pads and compresses the
+ * box from the stored flyer into the public deal-media bucket and sets deals.image.
+ * Admins can redraw a wrong box from the review panel; that re-crops right away.
+ * PDF flyers get no thumbnails: their pages are not rasterized, so OCR is not asked for boxes on
+ * them, none are stored and the crop tool reports them as PDF flyers.
+ */
+
+import sharp from 'sharp'
+import { supabaseAdmin } from './supabase/server'
+import { splitFlyer, mimeTypeForPath, type StoredFlyerPage } from './flyer-pages'
+import { normalizeTitleTokens } from './deal-matching'
+import { enqueueIngestionJobs } from './ingestion-jobs'
+import { revalidateDeals } from './deal-cache'
+import type { RegionBox } from './ocr'
+
+/** Stored on deals.image_box: where on which piece of which flyer the deal is printed */
+export interface DealImageBox {
+  flyer_path: string
+  /** Index of the piece from splitFlyer (page of a PDF, tile of a tall image) */
+  page: number
+  box: RegionBox
+  source: 'ocr' | 'admin'
+}
+
+/** Share of the deal's title words a region must contain to be taken as that deal */
+const MIN_REGION_SCORE = 0.6
+/** Padding around the box, as a fraction of the piece's width / height */
+const THUMBNAIL_PADDING = 0.03
+const THUMBNAIL_WIDTH = 480
+const THUMBNAIL_QUALITY = 75
+/** Widest page image sent to the admin crop tool */
+const PREVIEW_WIDTH = 1000
+
+/** Whether thumbnails can be cropped from a stored flyer (images only, not PDFs) */
+export function isImageFlyer(flyerPath: string): boolean {
+  return mimeTypeForPath(flyerPath).startsWith('image/')
+}
+
+function dollarAmounts(text: string): Set<string> {
+  return new Set(Array.from(text.matchAll(/\$\s*(\d+(?:\.\d+)?)/g), (match) => String(Number(match[1]))))
+}
+
+/**
+ * The region that reads most like the deal: the share of its title words found in the region,
+ * with a small bonus when a dollar amount matches too. Null when nothing scores MIN_REGION_SCORE.
+ */
+export function matchDealRegion(
+  deal: { title: string; price_text: string },
+  pages: StoredFlyerPage[]
+): { page: number; box: RegionBox } | null {
+  const dealTokens = normalizeTitleTokens(deal.title)
+  if (dealTokens.size === 0) return null
+  const dealPrices = dollarAmounts(deal.price_text)
+
+  let best: { page: number; box: RegionBox; score: number } | null = null
+  for (const page of pages) {
+    for (const region of page.regions || []) {
+      const regionTokens = normalizeTitleTokens(region.text)
+      let shared = 0
+      for (const token of Array.from(dealTokens)) {
+        if (regionTokens.has(token)) shared++
+      }
+      let score = shared / dealTokens.size
+      const regionPrices = dollarAmounts(region.text)
+      if (Array.from(dealPrices).some((price) => regionPrices.has(price))) score += 0.2
+      if (!best || score > best.score) best = { page: page.index, box: region.box, score }
+    }
+  }
+  return best && best.score >= MIN_REGION_SCORE ? { page: best.page, box: best.box } : null
+}
+
+/**
+ * Match freshly inserted flyer deals to OCR regions, store their boxes and queue the crop job.
+ * Returns how many deals got a box; always 0 for a PDF flyer.
+ */
+export async function queueDealThumbnails(
+  flyerPath: string,
+  pages: StoredFlyerPage[],
+  deals: Array<{ id: string; deal: { title: string; price_text: string } }>
+): Promise<number> {
+  if (!isImageFlyer(flyerPath) || !pages.some((page) => page.regions?.length)) return 0
+
+  const boxed: string[] = []
+  for (const { id, deal } of deals) {
+    const match = matchDealRegion(deal, pages)
+    if (!match) continue
+    const imageBox: DealImageBox = { flyer_path: flyerPath, page: match.page, box: match.box, source: 'ocr' }
+    const { error } = await supabaseAdmin.from('deals').update({ image_box: imageBox }).eq('id', id)
+    if (!error) boxed.push(id)
+  }
+
+  if (boxed.length > 0) {
+    await enqueueIngestionJobs([{ type: 'CROP_THUMBNAILS', payload: { deal_ids: boxed } }])
+  }
+  return boxed.length
+}
+
+/**
+ * Crop a box out of a flyer piece: padded, scaled down and compressed to WebP.
+ */
+export async function cropThumbnail(pageBuffer: Buffer, box: RegionBox): Promise<Buffer> {
+  const upright = await sharp(pageBuffer).rotate().toBuffer()
+  const { width, height } = await sharp(upright).metadata()
+  if (!width || !height) throw new Error('Unreadable flyer image')
+
+  const [ymin, xmin, ymax, xmax] = box
+  const left = Math.max(0, Math.floor((xmin / 1000 - THUMBNAIL_PADDING) * width))
+  const top = Math.max(0, Math.floor((ymin / 1000 - THUMBNAIL_PADDING) * height))
+  const right = Math.min(width, Math.ceil((xmax / 1000 + THUMBNAIL_PADDING) * width))
+  const bottom = Math.min(height, Math.ceil((ymax / 1000 + THUMBNAIL_PADDING) * height))
+  if (right - left < 2 || bottom - top < 2) throw new Error('Box is too small to crop')
+
+  return sharp(upright)
+    .extract({ left, top, width: right - left, height: bottom - top })
+    .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+    .webp({ quality: THUMBNAIL_QUALITY })
+    .toBuffer()
+}
+
+async function flyerPieces(flyerPath: string) {
+  const { data, error } = await supabaseAdmin.storage.from('deal-flyers').download(flyerPath)
+  if (error || !data) throw new Error(`Flyer ${flyerPath} not found: ${error?.message || 'no data'}`)
+  return splitFlyer(Buffer.from(await data.arrayBuffer()), mimeTypeForPath(flyerPath))
+}
+
+/**
+ * Crop and upload thumbnails for deals with an image_box, setting deals.image.
+ * Throws when a flyer cannot be downloaded so the job is retried; a bad box only skips its deal.
+ */
+export async function generateDealThumbnails(dealIds: string[]): Promise<{ cropped: number; skipped: number }> {
+  const { data: deals, error } = await supabaseAdmin.from('deals').select('id, image_box').in('id', dealIds)
+  if (error) throw new Error(error.message)
+
+  const byFlyer = new Map<string, Array<{ id: string; imageBox: DealImageBox }>>()
+  for (const deal of deals || []) {
+    const imageBox = deal.image_box as DealImageBox | null
+    if (!imageBox) continue
+    const group = byFlyer.get(imageBox.flyer_path) || []
+    group.push({ id: deal.id, imageBox })
+    byFlyer.set(imageBox.flyer_path, group)
+  }
+
+  let cropped = 0
+  let skipped = (deals?.length || 0) - Array.from(byFlyer.values()).reduce((n, group) => n + group.length, 0)
+  for (const [flyerPath, group] of Array.from(byFlyer.entries())) {
+    const pieces = await flyerPieces(flyerPath)
+    for (const { id, imageBox } of group) {
+      const piece = pieces.find((p) => p.index === imageBox.page)
+      if (!piece || !piece.mimeType.startsWith('image/')) {
+        skipped++
+        continue
+      }
+
+      let thumbnail: Buffer
+      try {
+        thumbnail = await cropThumbnail(piece.buffer, imageBox.box)
+      } catch (err) {
+        console.error('Thumbnail crop failed:', id, err)
+        skipped++
+        continue
+      }
+
+      const path = `thumbnails/${id}.webp`
+      const { error: uploadError } = await supabaseAdmin.storage
+        .from('deal-media')
+        .upload(path, thumbnail, { contentType: 'image/webp', upsert: true })
+      if (uploadError) throw new Error(`Thumbnail upload failed: ${uploadError.message}`)
+
+      // Versioned so a re-crop is not served from the CDN cache
+      const { data: publicUrl } = supabaseAdmin.storage.from('deal-media').getPublicUrl(path)
+      await supabaseAdmin
+        .from('deals')
+        .update({ image: `${publicUrl.publicUrl}?v=${Date.now()}`, updated_at: new Date().toISOString() })
+        .eq('id', id)
+      cropped++
+    }
+  }
+  if (cropped > 0) revalidateDeals()
+  return { cropped, skipped }
+}
+
+/**
+ * The stored flyer a deal was parsed from: its box's flyer, else today's flyer record for its source.
+ */
+async function dealFlyerPath(deal: {
+  dispensary_name: string
+  date: string
+  source_url: string | null
+  image_box: DealImageBox | null
+}): Promise<string | null> {
+  if (deal.image_box?.flyer_path) return deal.image_box.flyer_path
+  if (!deal.source_url) return null
+  const { data: flyer } = await supabaseAdmin
+    .from('deal_flyers')
+    .select('file_path')
+    .eq('dispensary_name', deal.dispensary_name)
+    .eq('date', deal.date)
+    .eq('source_url', deal.source_url)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  return flyer?.file_path || null
+}
+
+/**
+ * One piece of a deal's flyer for the admin crop tool, as a JPEG data URL, with the current box.
+ * Null when the deal has no stored flyer; 'pdf' when its flyer is a PDF, which cannot be cropped.
+ */
+export async function dealCropSource(
+  dealId: string,
+  page?: number
+): Promise<{ page: number; pageCount: number; image: string; box: RegionBox | null } | 'pdf' | null> {
+  const { data: deal } = await supabaseAdmin
+    .from('deals')
+    .select('dispensary_name, date, source_url, image_box')
+    .eq('id', dealId)
+    .maybeSingle()
+  if (!deal) return null
+
+  const imageBox = deal.image_box as DealImageBox | null
+  const flyerPath = await dealFlyerPath({ ...deal, image_box: imageBox })
+  if (!flyerPath) return null
+  if (!isImageFlyer(flyerPath)) return 'pdf'
+
+  const pieces = await flyerPieces(flyerPath)
+  const index = page ?? imageBox?.page ?? 0
+  const piece = pieces.find((p) => p.index === index)
+  if (!piece) return null
+
+  const preview = await sharp(piece.buffer)
+    .rotate()
+    .resize({ width: PREVIEW_WIDTH, withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer()
+  return {
+    page: index,
+    pageCount: pieces.length,
+    image: `data:image/jpeg;base64,${preview.toString('base64')}`,
+    box: imageBox && imageBox.page === index ? imageBox.box : null,
+  }
+}
+
+/**
+ * Replace a deal's box with one drawn by an admin and crop the thumbnail again right away.
+ * Returns the new image URL, null when the deal has no stored flyer, or 'pdf' (and stores nothing) for a PDF flyer.
+ */
+export async function recropDealThumbnail(
+  dealId: string,
+  crop: { page: number; box: RegionBox }
+): Promise<string | 'pdf' | null> {
+  const { data: deal } = await supabaseAdmin
+    .from('deals')
+    .select('dispensary_name, date, source_url, image_box')
+    .eq('id', dealId)
+    .maybeSingle()
+  if (!deal) return null
+
+  const flyerPath = await dealFlyerPath({ ...deal, image_box: deal.image_box as DealImageBox | null })
+  if (!flyerPath) return null
+  if (!isImageFlyer(flyerPath)) return 'pdf'
+
+  const imageBox: DealImageBox = { flyer_path: flyerPath, page: crop.page, box: crop.box, source: 'admin' }
+  const { error } = await supabaseAdmin.from('deals').update({ image_box: imageBox }).eq('id', dealId)
+  if (error) throw new Error(error.message)
+
+  const { cropped } = await generateDealThumbnails([dealId])
+  if (cropped === 0) throw new Error('Could not crop that box from the flyer')
+
+  const { data } = await supabaseAdmin.from('deals').select('image').eq('id', dealId).maybeSingle()
+  return data?.image || null
+}
@@ -0,0 +1,327 @@
+/**
+ * Deals-page discovery for dispensary websites.
+ * Crawls a small, same-origin slice of the site from its root, scores links by anchor text and
+ * URL ("Daily Deals", /specials, "Promotions"), scores fetched pages by how much they read like a
+ * deals list, and notes embedded menus (Dutchie, Jane, Weedmaps iframes). The page budget keeps it
+ * to a handful of requests per dispensary. Fetching is injectable so the scoring can be checked
+ * against saved HTML (scripts/check-deals-crawler.ts).
+ */
+
+import { politeFetch } from './polite-fetch'
+
+/** Default number of pages fetched per crawl; DEALS_CRAWL_PAGE_BUDGET overrides it */
+const DEFAULT_PAGE_BUDGET = 8
+/** Links are followed at most this many clicks from the root */
+const MAX_DEPTH = 2
+/** Candidates kept on the dispensary for admins to inspect */
+const MAX_CANDIDATES = 20
+/** Below this a candidate is not worth an extraction call */
+export const MIN_CANDIDATE_SCORE = 5
+
+export type CandidateKind = 'page' | 'menu_embed'
+
+export interface DealsPageCandidate {
+  url: string
+  kind: CandidateKind
+  score: number
+  /** Why it scored what it did, e.g. ["anchor: daily deals", "content: 6 price signals"] */
+  reasons: string[]
+  depth: number
+  /** False for links that scored but were left unfetched by the page budget */
+  fetched: boolean
+}
+
+export interface DealsPageCrawlResult {
+  /** Highest-scoring candidate at or above MIN_CANDIDATE_SCORE, or null */
+  bestUrl: string | null
+  /** Best first */
+  candidates: DealsPageCandidate[]
+  pagesFetched: number
+}
+
+export interface FetchedPage {
+  /** Final URL after redirects */
+  url: string
+  status: number
+  html: string
+}
+
+/** Returns null for anything that isn't an HTML page (errors, PDFs, images) */
+export type PageFetcher = (url: string) => Promise<FetchedPage | null>
+
+const LINK_SIGNALS: Array<{ pattern: RegExp; weight: number; label: string }> = [
+  { pattern: /\bdaily\s*deals?\b/i, weight: 10, label: 'daily deals' },
+  { pattern: /\bspecials?\b/i, weight: 8, label: 'specials' },
+  { pattern: /\bdeals?\b/i, weight: 8, label: 'deals' },
+  { pattern: /\bpromo(?:tion)?s?\b/i, weight: 6, label: 'promotions' },
+  { pattern: /\b(?:sales?|discounts?|savings|offers?)\b/i, weight: 4, label: 'sale' },
+  { pattern: /\b(?:weekly|happy\s*hour|daily)\b/i, weight: 3, label: 'weekly' },
+  { pattern: /\bmenu\b/i, weight: 2, label: 'menu' },
+  { pattern: /\b(?:shop|order\s*online)\b/i, weight: 1, label: 'shop' },
+]
+
+/** Paths never worth fetching for deals */
+const SKIP_PATH = /\/(?:blog|news|careers?|jobs|privacy|terms|contact|about|login|account|cart|checkout|faq|wp-admin|wp-login|tag|category|author|feed)(?:\/|$|\?)/i
+const NON_HTML_EXTENSION = /\.(?:pdf|jpe?g|png|gif|webp|svg|css|js|json|xml|zip|mp4|ico)(?:$|\?)/i
+
+/** Hosts of embedded menu providers; their iframes carry the real menu */
+const MENU_EMBED_HOSTS = [
+  'dutchie.com',
+  'iheartjane.com',
+  'weedmaps.com',
+  'leafly.com',
+  'tymber.io',
+  'getmeadow.com',
+  'blaze.me',
+  'dispenseapp.com',
+  'sweedpos.com',
+  'joint-ecommerce.com',
+]
+
+const CONTENT_SIGNALS: RegExp[] = [
+  /\d+\s*%\s*off\b/gi,
+  /\bbogo\b/gi,
+  /\bbuy\s+\d+\s+get\s+\d+/gi,
+  /\b\d+\s*(?:for|\/)\s*\$\s*\d+/gi,
+  /\$\s*\d+(?:\.\d{2})?/g,
+]
+
+function pageBudget(): number {
+  const configured = parseInt(process.env.DEALS_CRAWL_PAGE_BUDGET || '', 10)
+  return configured > 0 ? configured : DEFAULT_PAGE_BUDGET
+}
+
+function hostKey(url: URL): string {
+  return url.hostname.replace(/^www\./, '').toLowerCase()
+}
+
+/** Absolute http(s) URL without its fragment, or null */
+function resolveUrl(href: string, base: string): URL | null {
+  try {
+    const url = new URL(href.trim(), base)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+    url.hash = ''
+    return url
+  } catch {
+    return null
+  }
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim()
+}
+
+function visibleText(html: string): string {
+  return stripTags(
+    html
+      .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, ' ')
+      .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, ' ')
+      .replace(/<noscript[^>]*>[\s\S]*?<\/noscript>/gi, ' ')
+  )
+}
+
+function attribute(tag: string, name: string): string | null {
+  const match = new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag)
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3] ?? '') : null
+}
+
+/** Links with their anchor text (falling back to title / aria-label for icon links) */
+export function extractLinks(html: string): Array<{ href: string; text: string }> {
+  const links: Array<{ href: string; text: string }> = []
+  const pattern = /<a\b([^>]*)>([\s\S]*?)<\/a>/gi
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(html))) {
+    const href = attribute(match[1], 'href')
+    if (!href) continue
+    const text = stripTags(match[2]) || attribute(match[1], 'title') || attribute(match[1], 'aria-label') || ''
+    links.push({ href, text })
+  }
+  return links
+}
+
+/** iframe and script sources pointing at a known menu provider */
+export function extractMenuEmbeds(html: string, base: string): string[] {
+  const embeds = new Set<string>()
+  const pattern = /<(?:iframe|script)\b([^>]*)>/gi
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(html))) {
+    const src = attribute(match[1], 'src') || attribute(match[1], 'data-src')
+    if (!src) continue
+    const url = resolveUrl(src, base)
+    if (url && MENU_EMBED_HOSTS.some((host) => hostKey(url) === host || hostKey(url).endsWith(`.${host}`))) {
+      embeds.add(url.toString())
+    }
+  }
+  return Array.from(embeds)
+}
+
+/**
+ * Score a link by its anchor text and its path. Anchor text counts in full, path words for
+ * three quarters (slugs are noisier than the words a site shows its visitors).
+ */
+export function scoreLink(url: URL, anchorText: string): { score: number; reasons: string[] } {
+  const reasons: string[] = []
+  let score = 0
+
+  const anchor = LINK_SIGNALS.find((signal) => signal.pattern.test(anchorText))
+  if (anchor) {
+    score += anchor.weight
+    reasons.push(`anchor: ${anchor.label}`)
+  }
+
+  const pathWords = decodeURIComponent(url.pathname).replace(/[-_/.]+/g, ' ')
+  const path = LINK_SIGNALS.find((signal) => signal.pattern.test(pathWords))
+  if (path) {
+    score += Math.round(path.weight * 0.75)
+    reasons.push(`url: ${path.label}`)
+  }
+
+  return { score, reasons }
+}
+
+/** How much a page reads like a list of deals: price and discount mentions, capped at 10 */
+export function scoreContent(html: string): { score: number; reasons: string[] } {
+  const text = visibleText(html)
+  let hits = 0
+  for (const pattern of CONTENT_SIGNALS) {
+    hits += text.match(pattern)?.length || 0
+  }
+  const score = Math.min(10, hits)
+  return { score, reasons: hits > 0 ? [`content: ${hits} price signals`] : [] }
+}
+
+/**
+ * Default fetcher: a polite GET (robots.txt, per-host throttling); non-HTML and failed responses are null.
+ * Crawl fetches are not recorded in fetch_states, only pipeline fetches are.
+ */
+export const fetchHtmlPage: PageFetcher = async (url) => {
+  const result = await politeFetch(url, { accept: 'text/html', record: false })
+  const contentType = result.response?.headers.get('content-type') || ''
+  if (!result.response || !contentType.includes('html')) return null
+  try {
+    return { url: result.url, status: result.response.status, html: await result.response.text() }
+  } catch {
+    return null
+  }
+}
+
+interface QueuedLink {
+  url: string
+  depth: number
+  linkScore: number
+  reasons: string[]
+}
+
+/**
+ * Crawl from the site root within the page budget and rank candidate deals pages.
+ * Only same-origin links are followed (www and non-www count as the same site); menu embeds
+ * on other hosts are recorded as candidates but not crawled.
+ */
+export async function discoverDealsPage(
+  rootUrl: string,
+  options: { maxPages?: number; fetchPage?: PageFetcher } = {}
+): Promise<DealsPageCrawlResult> {
+  const fetchPage = options.fetchPage ?? fetchHtmlPage
+  const budget = options.maxPages ?? pageBudget()
+
+  const root = resolveUrl(rootUrl, rootUrl)
+  if (!root) return { bestUrl: null, candidates: [], pagesFetched: 0 }
+
+  let site = hostKey(root)
+  const candidates = new Map<string, DealsPageCandidate>()
+  const queued = new Map<string, QueuedLink>([[root.toString(), { url: root.toString(), depth: 0, linkScore: 0, reasons: [] }]])
+  const visited = new Set<string>()
+  let pagesFetched = 0
+
+  while (pagesFetched < budget) {
+    // Best-scoring unvisited link next; the root always goes first
+    const next = Array.from(queued.values())
+      .filter((link) => !visited.has(link.url))
+      .sort((a, b) => b.linkScore - a.linkScore || a.depth - b.depth)[0]
+    if (!next) break
+    visited.add(next.url)
+
+    const page = await fetchPage(next.url)
+    pagesFetched++
+    if (!page) {
+      candidates.delete(next.url)
+      continue
+    }
+
+    const pageUrl = resolveUrl(page.url, next.url) ?? new URL(next.url)
+    // The root may redirect (http → https, bare → www); links are judged against where it landed
+    if (next.depth === 0) site = hostKey(pageUrl)
+    if (next.depth > 0 && hostKey(pageUrl) !== site) {
+      candidates.delete(next.url)
+      continue
+    }
+
+    const content = scoreContent(page.html)
+    const embeds = extractMenuEmbeds(page.html, pageUrl.toString())
+    const reasons = [...next.reasons, ...content.reasons]
+    let score = next.linkScore + content.score - next.depth
+    if (embeds.length > 0) {
+      score += 3
+      reasons.push(`embeds menu: ${new URL(embeds[0]).hostname}`)
+    }
+    candidates.set(next.url, { url: next.url, kind: 'page', score, reasons, depth: next.depth, fetched: true })
+
+    for (const embed of embeds) {
+      if (candidates.has(embed)) continue
+      const link = scoreLink(new URL(embed), '')
+      candidates.set(embed, {
+        url: embed,
+        kind: 'menu_embed',
+        score: 4 + link.score + Math.max(0, next.linkScore - next.depth),
+        reasons: [`menu embed on ${pageUrl.pathname}`, ...link.reasons],
+        depth: next.depth + 1,
+        fetched: false,
+      })
+    }
+
+    if (next.depth >= MAX_DEPTH) continue
+
+    for (const { href, text } of extractLinks(page.html)) {
+      const url = resolveUrl(href, pageUrl.toString())
+      if (!url || hostKey(url) !== site) continue
+      if (SKIP_PATH.test(url.pathname) || NON_HTML_EXTENSION.test(url.pathname)) continue
+
+      const key = url.toString()
+      if (visited.has(key)) continue
+      const link = scoreLink(url, text)
+      if (link.score <= 0) continue
+
+      const existing = queued.get(key)
+      if (!existing || link.score > existing.linkScore) {
+        queued.set(key, { url: key, depth: next.depth + 1, linkScore: link.score, reasons: link.reasons })
+        if (!candidates.get(key)?.fetched) {
+          candidates.set(key, {
+            url: key,
+            kind: 'page',
+            score: link.score - (next.depth + 1),
+            reasons: link.reasons,
+            depth: next.depth + 1,
+            fetched: false,
+          })
+        }
+      }
+    }
+  }
+
+  const ranked = Array.from(candidates.values())
+    .sort((a, b) => b.score - a.score || a.depth - b.depth)
+    .slice(0, MAX_CANDIDATES)
+  const best = ranked.find((candidate) => candidate.score >= MIN_CANDIDATE_SCORE)
+
+  return { bestUrl: best?.url ?? null, candidates: ranked, pagesFetched }
+}
@@ -1,12 +1,11 @@
 import { supabaseAdmin } from '@/lib/supabase/server'
 import { categoryLabel } from '@/lib/categories'
 import { slugify } from '@/lib/slugs'
+import { describeRecurrence, expandOccurrences, recurrenceOf, RECURRENCE_SELECT } from '@/lib/recurring-deals'
+import { cachedDealQuery, revalidateDeals } from '@/lib/deal-cache'
+import { DEFAULT_TIMEZONE, daysBetween, earliestToday, formatDate, timezoneOf, todayIn } from '@/lib/dates'
 import type { DealCardData, DealRecord } from '@/lib/types'
 
-function todayISODate(): string {
-  return new Date().toISOString().slice(0, 10)
-}
-
 const DEAL_SELECT = `
   id,
   dispensary_id,
@@ -15,11 +14,13 @@ const DEAL_SELECT = `
   slug,
   description,
   category,
+  subcategory,
   brand,
   brand_id,
   regular_price,
   deal_price,
   price_text,
+  pricing,
   start_date,
   end_date,
   date,
@@ -34,33 +35,42 @@ const DEAL_SELECT = `
   submission_source,
   status,
   needs_review,
+  recurring,
   created_at,
   updated_at,
+  deal_recurrences ( ${RECURRENCE_SELECT} ),
   dispensaries (
     id,
     name,
     slug,
     city,
     verified,
-    logo
+    logo,
+    timezone
   )
 `
 
-export function expirationLabel(endDate?: string | null): string {
+/**
+ * "Ends Tonight", "Ends Tomorrow", "Ends Nov 1": end dates are calendar days in the dispensary's timezone.
+ */
+export function expirationLabel(
+  endDate?: string | null,
+  timezone: string = DEFAULT_TIMEZONE,
+  now: Date | number = Date.now()
+): string {
   if (!endDate) return 'Limited time'
   const end = endDate.slice(0, 10)
-  const today = todayISODate()
-  if (end === today) return 'Ends Tonight'
-  if (end < today) return 'Ended'
-  const endTime = new Date(`${end}T23:59:59`)
-  const diff = Math.ceil((endTime.getTime() - Date.now()) / (1000 * 60 * 60 * 24))
-  if (diff <= 1) return 'Ends Tomorrow'
-  return `Ends ${endTime.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+  const daysLeft = daysBetween(todayIn(timezone, now), end)
+  if (daysLeft === 0) return 'Ends Tonight'
+  if (daysLeft < 0) return 'Ended'
+  if (daysLeft === 1) return 'Ends Tomorrow'
+  return `Ends ${formatDate(end, { month: 'short', day: 'numeric' })}`
 }
 
 export function toDealCard(deal: DealRecord): DealCardData {
   const dispensaryName = deal.dispensaries?.name || deal.dispensary_name
   const city = deal.dispensaries?.city || deal.city
+  const recurrence = recurrenceOf(deal)
   return {
     id: deal.id,
     slug: deal.slug || slugify(deal.title),
@@ -73,92 +83,148 @@ export function toDealCard(deal: DealRecord): DealCardData {
     dispensarySlug: deal.dispensaries?.slug || undefined,
     city,
     state: deal.state || 'MI',
+    endDate: deal.end_date,
+    timezone: timezoneOf(deal),
     featured: Boolean(deal.featured),
     sponsored: Boolean(deal.sponsored),
     verified: Boolean(deal.verified || deal.dispensaries?.verified),
     submissionSource: deal.submission_source,
+    recurrenceLabel: recurrence ? describeRecurrence(recurrence) : null,
     href: `/deal/${deal.slug || deal.id}`,
   }
 }
 
-async function expireStaleDeals() {
-  const today = todayISODate()
-  await supabaseAdmin
+/**
+ * Mark approved deals whose end date has passed everywhere we list (lib/dates earliestToday) as expired.
+ * Runs on a schedule (/api/cron/expire-deals); reads don't depend on it, since they filter by date themselves.
+ */
+export async function expireStaleDeals(): Promise<number> {
+  const { data, error } = await supabaseAdmin
     .from('deals')
     .update({ status: 'expired', updated_at: new Date().toISOString() })
     .eq('status', 'approved')
     .not('end_date', 'is', null)
-    .lt('end_date', today)
+    .lt('end_date', earliestToday())
+    .select('id')
+  if (error) throw new Error(`Failed to expire deals: ${error.message}`)
+  if (data && data.length > 0) revalidateDeals()
+  return data?.length || 0
+}
+
+type ActiveDealsOptions = {
+  city?: string
+  category?: string
+  subcategory?: string
+  brand?: string
+  dispensaryId?: string
+  featured?: boolean
+  limit?: number
+  search?: string
 }
 
-function activeQuery() {
-  const today = todayISODate()
+/** One-off deals that may still run `today`; runsToday settles each against its own timezone */
+function activeQuery(today: string) {
   return supabaseAdmin
     .from('deals')
     .select(DEAL_SELECT)
     .eq('status', 'approved')
     .or('needs_review.eq.false,needs_review.is.null')
+    .eq('recurring', false)
     .gte('end_date', today)
 }
 
-export async function getActiveDeals(options?: {
-  city?: string
-  category?: string
-  brand?: string
-  dispensaryId?: string
-  featured?: boolean
-  limit?: number
-  search?: string
-}): Promise<DealRecord[]> {
-  try {
-    await expireStaleDeals()
-    let query = activeQuery().order('featured', { ascending: false }).order('created_at', { ascending: false })
+/** Recurring specials still running; which of them occur today is decided by their rule */
+function recurringQuery(today: string) {
+  return supabaseAdmin
+    .from('deals')
+    .select(DEAL_SELECT)
+    .eq('status', 'approved')
+    .or('needs_review.eq.false,needs_review.is.null')
+    .eq('recurring', true)
+    .or(`end_date.is.null,end_date.gte.${today}`)
+}
 
-    if (options?.city) {
-      query = query.ilike('city', options.city)
-    }
-    if (options?.category) {
-      query = query.eq('category', options.category)
-    }
-    if (options?.brand) {
-      query = query.ilike('brand', options.brand)
-    }
-    if (options?.dispensaryId) {
-      query = query.eq('dispensary_id', options.dispensaryId)
-    }
-    if (options?.featured) {
-      query = query.eq('featured', true)
-    }
-    if (options?.search) {
-      const q = options.search.replace(/,/g, ' ')
-      query = query.or(`title.ilike.%${q}%,city.ilike.%${q}%,dispensary_name.ilike.%${q}%,description.ilike.%${q}%`)
-    }
+function runsToday(deal: DealRecord): boolean {
+  return !deal.end_date || deal.end_date.slice(0, 10) >= todayIn(timezoneOf(deal))
+}
+
+function withFilters(query: ReturnType<typeof activeQuery>, options?: ActiveDealsOptions) {
+  if (options?.city) {
+    query = query.ilike('city', options.city)
+  }
+  if (options?.category) {
+    query = query.eq('category', options.category)
+  }
+  if (options?.subcategory) {
+    query = query.eq('subcategory', options.subcategory)
+  }
+  if (options?.brand) {
+    query = query.ilike('brand', options.brand)
+  }
+  if (options?.dispensaryId) {
+    query = query.eq('dispensary_id', options.dispensaryId)
+  }
+  if (options?.featured) {
+    query = query.eq('featured', true)
+  }
+  if (options?.search) {
+    const q = options.search.replace(/,/g, ' ')
+    query = query.or(`title.ilike.%${q}%,city.ilike.%${q}%,dispensary_name.ilike.%${q}%,description.ilike.%${q}%`)
+  }
+  return query.order('featured', { ascending: false }).order('created_at', { ascending: false })
+}
+
+/**
+ * Candidate rows for getActiveDeals. `today` (earliestToday) is an argument so the cache key turns
+ * over with the date; the per-timezone filtering happens on every read, outside the cache.
+ */
+const loadActiveDeals = cachedDealQuery(
+  'active',
+  async (options: ActiveDealsOptions | undefined, today: string) => {
+    let oneOff = withFilters(activeQuery(today), options)
     if (options?.limit) {
-      query = query.limit(options.limit)
+      oneOff = oneOff.limit(options.limit)
     }
 
-    const { data, error } = await query
-    if (error) {
-      console.error('getActiveDeals', error)
-      return []
+    const [deals, recurring] = await Promise.all([oneOff, withFilters(recurringQuery(today), options)])
+    if (deals.error || recurring.error) {
+      throw new Error((deals.error || recurring.error)?.message)
     }
-    return (data || []) as unknown as DealRecord[]
+    return {
+      oneOff: (deals.data || []) as unknown as DealRecord[],
+      recurring: (recurring.data || []) as unknown as DealRecord[],
+    }
+  }
+)
+
+/**
+ * Approved deals running today: one-off deals plus today's occurrence of each recurring special
+ * (lib/recurring-deals), featured first, then newest.
+ */
+export async function getActiveDeals(options?: ActiveDealsOptions): Promise<DealRecord[]> {
+  try {
+    const { oneOff, recurring } = await loadActiveDeals(options, earliestToday())
+    const occurrences = expandOccurrences(recurring, (deal) => todayIn(timezoneOf(deal)))
+    const running = oneOff.filter(runsToday)
+    const merged = [...running, ...occurrences].sort(
+      (a, b) => Number(Boolean(b.featured)) - Number(Boolean(a.featured)) || b.created_at.localeCompare(a.created_at)
+    )
+    return options?.limit ? merged.slice(0, options.limit) : merged
   } catch (error) {
     console.error('getActiveDeals', error)
     return []
   }
 }
 
+const loadDealBySlug = cachedDealQuery('by-slug', async (slug: string) => {
+  const { data, error } = await supabaseAdmin.from('deals').select(DEAL_SELECT).eq('slug', slug).maybeSingle()
+  if (error) throw new Error(error.message)
+  return (data as unknown as DealRecord) || null
+})
+
 export async function getDealBySlug(slug: string): Promise<DealRecord | null> {
   try {
-    await expireStaleDeals()
-    const { data, error } = await supabaseAdmin
-      .from('deals')
-      .select(DEAL_SELECT)
-      .eq('slug', slug)
-      .maybeSingle()
-    if (error || !data) return null
-    return data as unknown as DealRecord
+    return await loadDealBySlug(slug)
   } catch {
     return null
   }
@@ -170,19 +236,31 @@ export async function getDealById(id: string): Promise<DealRecord | null> {
 }
 
 export function isDealLive(deal: DealRecord): boolean {
-  const today = todayISODate()
   const approved = deal.status === 'approved' || (!deal.status && deal.needs_review === false)
-  const notExpired = !deal.end_date || deal.end_date >= today
+  const notExpired = runsToday(deal)
   return Boolean(approved && notExpired && deal.needs_review !== true)
 }
 
+/** Brand names with a deal still running, from the brand column alone */
+const loadActiveBrands = cachedDealQuery('brands', async (today: string) => {
+  const { data, error } = await supabaseAdmin
+    .from('deals')
+    .select('brand')
+    .eq('status', 'approved')
+    .or('needs_review.eq.false,needs_review.is.null')
+    .not('brand', 'is', null)
+    .or(`end_date.gte.${today},and(recurring.eq.true,end_date.is.null)`)
+  if (error) throw new Error(error.message)
+  return Array.from(new Set((data || []).map((row) => row.brand as string))).sort()
+})
+
 export async function getActiveBrands(): Promise<string[]> {
-  const deals = await getActiveDeals({ limit: 200 })
-  const set = new Set<string>()
-  for (const deal of deals) {
-    if (deal.brand) set.add(deal.brand)
+  try {
+    return await loadActiveBrands(earliestToday())
+  } catch (error) {
+    console.error('getActiveBrands', error)
+    return []
   }
-  return Array.from(set).sort()
 }
 
 export async function incrementDealView(dealId: string) {
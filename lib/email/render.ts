@@ -1,4 +1,5 @@
 import { createHash } from 'crypto'
+import { formatDate } from '../dates'
 
 /** Deal shape from Supabase (deals + brands) used for daily emails */
 export type DealForEmail = {
@@ -11,6 +12,23 @@ export type DealForEmail = {
   brands?: { name: string } | null
 }
 
+/** Flyer listing shown as a "See today's flyer" card in daily emails; url is the app's /flyer/[id] link */
+export type FlyerForEmail = {
+  dispensary_name: string
+  city: string | null
+  url: string
+}
+
+/** "See today's flyer" cards for the Resend template's DEALS_HTML */
+function templateFlyerBlocks(flyers: FlyerForEmail[]): string {
+  return flyers
+    .map((flyer) => {
+      const details = [flyer.dispensary_name, flyer.city].filter(Boolean).join(' • ')
+      return `<div class="deal"><p class="deal-title">See today's flyer</p><p class="deal-details">${escapeHtml(details)}</p><a href="${escapeHtml(flyer.url)}" class="btn">View Flyer</a></div>`
+    })
+    .join('')
+}
+
 /**
  * Build variables for the Resend deals template (lib/email/deals-template.html).
  * Use with resend.emails.send({ template: { id: RESEND_DEALS_TEMPLATE_ID, variables } }).
@@ -21,7 +39,8 @@ export function buildDealsTemplateVariables(
   zoneZip: string,
   userEmail: string,
   appUrl: string,
-  dateStr: string // YYYY-MM-DD
+  dateStr: string, // YYYY-MM-DD
+  flyers: FlyerForEmail[] = []
 ): { ZONE_NAME: string; FORMATTED_DATE: string; DEALS_HTML: string; UNSUBSCRIBE_LINK: string } {
   const unsubscribeToken = createHash('sha256')
     .update(`${userEmail}:${process.env.UNSUBSCRIBE_SECRET || 'change-me-in-production'}`)
@@ -29,8 +48,7 @@ export function buildDealsTemplateVariables(
     .substring(0, 16)
   const UNSUBSCRIBE_LINK = `${appUrl}/api/unsubscribe?email=${encodeURIComponent(userEmail)}&token=${unsubscribeToken}`
 
-  const date = new Date(dateStr + 'T12:00:00Z')
-  const FORMATTED_DATE = date.toLocaleDateString('en-US', {
+  const FORMATTED_DATE = formatDate(dateStr, {
     weekday: 'long',
     year: 'numeric',
     month: 'long',
@@ -38,7 +56,7 @@ export function buildDealsTemplateVariables(
   })
 
   const DEALS_HTML =
-    deals.length === 0
+    deals.length === 0 && flyers.length === 0
       ? '<p style="padding: 20px; text-align: center; color: #555;">No deals in this zone today — check back soon!</p>'
       : deals
           .map((deal) => {
@@ -53,7 +71,7 @@ export function buildDealsTemplateVariables(
                 : ''
             return `<div class="deal"><p class="deal-title">${escapeHtml(title)}</p><p class="deal-details">${escapeHtml(description)}</p><p class="deal-price">${escapeHtml(deal.price_text)}</p>${ctaBlock}</div>`
           })
-          .join('')
+          .join('') + templateFlyerBlocks(flyers)
 
   return {
     ZONE_NAME: zoneZip,
@@ -63,8 +81,9 @@ export function buildDealsTemplateVariables(
   }
 }
 
-/** Subject line for daily deals emails */
-export function getDealsEmailSubject(dealCount: number): string {
+/** Subject line for daily deals emails; an email with only flyer cards points at the flyers */
+export function getDealsEmailSubject(dealCount: number, flyerCount = 0): string {
+  if (dealCount === 0 && flyerCount > 0) return "Today's Dispo Deals - New Flyers Near You"
   return `Today's Dispo Deals - ${dealCount} ${dealCount === 1 ? 'Deal' : 'Deals'} for You`
 }
 
@@ -111,10 +130,10 @@ export function renderDailyDealsEmail(
     brands?: { name: string } | null
   }>,
   userEmail: string,
-  appUrl: string
+  appUrl: string,
+  flyers: FlyerForEmail[] = []
 ): { subject: string; html: string } {
-  const dealCount = deals.length
-  const subject = `Today's Dispo Deals - ${dealCount} ${dealCount === 1 ? 'Deal' : 'Deals'} for You`
+  const subject = getDealsEmailSubject(deals.length, flyers.length)
   
   // Generate unsubscribe token
   const unsubscribeToken = createHash('sha256')
@@ -141,6 +160,15 @@ export function renderDailyDealsEmail(
     </div>
   `}).join('')
 
+  const flyerCards = flyers.map((flyer) => `
+    <div style="border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; margin-bottom: 16px; background: #ffffff;">
+      <h3 style="margin: 0 0 8px 0; color: #0a2540; font-size: 18px;">${escapeHtml(flyer.dispensary_name)}</h3>
+      <p style="margin: 0 0 8px 0; color: #374151; font-size: 16px; font-weight: 600;">See today's flyer</p>
+      ${flyer.city ? `<p style="margin: 0 0 8px 0; color: #6b7280; font-size: 14px;">📍 ${escapeHtml(flyer.city)}</p>` : ''}
+      <a href="${escapeHtml(flyer.url)}" style="color: #136694; text-decoration: none; font-size: 14px;">View Flyer →</a>
+    </div>
+  `).join('')
+
   const html = `
     <!DOCTYPE html>
     <html>
@@ -159,6 +187,7 @@ export function renderDailyDealsEmail(
           </p>
           <h2 style="color: #0a2540; margin: 0 0 24px 0; font-size: 20px;">Today's Picks</h2>
           ${dealCards}
+          ${flyerCards}
           <p style="margin: 24px 0 0 0; color: #6b7280; font-size: 12px; text-align: center;">
             Daily Dispo Deals - Your personalized cannabis deals delivered daily<br>
             <a href="${unsubscribeUrl}" style="color: #9ca3af; text-decoration: underline;">Unsubscribe</a> | 
@@ -248,6 +277,65 @@ export function renderWeeklySummaryEmail(
   return { subject, html }
 }
 
+/** Auto-reply to a dispensary that emailed us deals: what we read, pending review */
+export function renderInboundReplyEmail(summary: {
+  dispensaryName: string
+  subject: string
+  deals: Array<{ title: string; price_text: string; schedule?: string | null }>
+  /** Attachments we could not read (filenames) */
+  unreadable: string[]
+}): { subject: string; html: string } {
+  const dealCount = summary.deals.length
+  const subject = summary.subject ? `Re: ${summary.subject}` : 'We received your deals'
+
+  const intro =
+    dealCount > 0
+      ? `Thanks for sending your deals for <strong>${escapeHtml(summary.dispensaryName)}</strong>. We found ${dealCount} ${dealCount === 1 ? 'deal' : 'deals'}; our team will review ${dealCount === 1 ? 'it' : 'them'} before ${dealCount === 1 ? 'it goes' : 'they go'} live.`
+      : `Thanks for writing to us for <strong>${escapeHtml(summary.dispensaryName)}</strong>. We couldn't find any deals in your email. Attach your flyer as an image or PDF, or list your deals in the message, and send it again.`
+
+  const dealRows = summary.deals
+    .map(
+      (deal) => `
+    <div style="border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px 16px; margin-bottom: 12px; background: #ffffff;">
+      <p style="margin: 0 0 4px 0; color: #374151; font-size: 16px; font-weight: 600;">${escapeHtml(deal.title)}</p>
+      <p style="margin: 0; color: #059669; font-size: 15px; font-weight: 700;">${escapeHtml(deal.price_text)}</p>
+      ${deal.schedule ? `<p style="margin: 4px 0 0 0; color: #6b7280; font-size: 14px;">${escapeHtml(deal.schedule)}</p>` : ''}
+    </div>
+  `
+    )
+    .join('')
+
+  const unreadable =
+    summary.unreadable.length > 0
+      ? `<p style="margin: 16px 0 0 0; color: #b45309; font-size: 14px;">We couldn't read: ${summary.unreadable.map(escapeHtml).join(', ')}. Our team will take a look.</p>`
+      : ''
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${escapeHtml(subject)}</title>
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px; background: #f9fafb;">
+        <div style="background: linear-gradient(135deg, #0a2540 0%, #136694 100%); padding: 24px; border-radius: 8px 8px 0 0; text-align: center;">
+          <h1 style="color: #ffffff; margin: 0; font-size: 24px;">Daily Dispo Deals</h1>
+        </div>
+        <div style="background: #ffffff; padding: 24px; border-radius: 0 0 8px 8px;">
+          <p style="margin: 0 0 16px 0; color: #374151; font-size: 16px;">${intro}</p>
+          ${dealRows}
+          ${unreadable}
+          <p style="margin: 24px 0 0 0; color: #6b7280; font-size: 14px;">
+            Something look wrong? Reply to this email and we'll fix it during review.
+          </p>
+        </div>
+      </body>
+    </html>
+  `
+  return { subject, html }
+}
+
 function escapeHtml(text: string): string {
   const map: Record<string, string> = {
     '&': '&amp;',
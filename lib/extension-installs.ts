@@ -0,0 +1,221 @@
+/**
+ * Chrome extension install registry: per-install API keys, daily capture quotas,
+ * minimum supported version and a trust score based on review outcomes.
+ */
+
+import crypto from 'crypto'
+import { supabaseAdmin } from './supabase/server'
+import { startOfDay, todayIn } from './dates'
+
+export type ExtensionInstall = {
+  id: string
+  label: string
+  install_id: string | null
+  key_prefix: string
+  status: 'active' | 'revoked'
+  daily_quota: number
+  extension_version: string | null
+  last_seen_at: string | null
+  captures_total: number
+  captures_approved: number
+  captures_rejected: number
+  trust_score: number
+  created_at: string
+  revoked_at: string | null
+}
+
+export type InstallAuthResult =
+  | { ok: true; install: ExtensionInstall }
+  | { ok: false; status: 401 | 426 | 429; code: string; message: string }
+
+const KEY_PREFIX = 'ddd_'
+const DEFAULT_DAILY_QUOTA = parseInt(process.env.EXTENSION_DEFAULT_DAILY_QUOTA || '500', 10)
+
+const INSTALL_SELECT =
+  'id, label, install_id, key_prefix, status, daily_quota, extension_version, last_seen_at, captures_total, captures_approved, captures_rejected, trust_score, created_at, revoked_at'
+
+export function hashApiKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex')
+}
+
+function generateApiKey(): string {
+  return `${KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`
+}
+
+/**
+ * Compare dotted versions numerically ("1.10.0" > "1.9.3").
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map((n) => parseInt(n, 10) || 0)
+  const pb = b.split('.').map((n) => parseInt(n, 10) || 0)
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0)
+    if (diff !== 0) return diff
+  }
+  return 0
+}
+
+/**
+ * True when the reported version meets EXTENSION_MIN_VERSION (or no minimum is configured).
+ */
+export function isSupportedVersion(version: string | null): boolean {
+  const minVersion = process.env.EXTENSION_MIN_VERSION
+  if (!minVersion) return true
+  if (!version) return false
+  return compareVersions(version, minVersion) >= 0
+}
+
+/**
+ * True for the shared DDD_EXTENSION_API_KEY every install used before per-install keys.
+ * It stays accepted (rate-limited and logged, captures unattributed) while deployed extensions
+ * move to their own keys; unset it to end the transition.
+ */
+export function isLegacySharedKey(apiKey: string | null): boolean {
+  const sharedKey = process.env.DDD_EXTENSION_API_KEY
+  if (!sharedKey || !apiKey) return false
+  const provided = Buffer.from(apiKey)
+  const expected = Buffer.from(sharedKey)
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected)
+}
+
+/**
+ * Authenticate an ingest request by per-install key, then enforce install binding,
+ * minimum version and the install's daily capture quota.
+ */
+export async function authenticateExtensionInstall(params: {
+  apiKey: string | null
+  installId: string | null
+  version: string | null
+}): Promise<InstallAuthResult> {
+  if (!params.apiKey) {
+    return { ok: false, status: 401, code: 'UNAUTHORIZED', message: 'Missing API key' }
+  }
+
+  const { data: install } = await supabaseAdmin
+    .from('extension_installs')
+    .select(INSTALL_SELECT)
+    .eq('api_key_hash', hashApiKey(params.apiKey))
+    .maybeSingle()
+
+  if (!install) {
+    return { ok: false, status: 401, code: 'UNAUTHORIZED', message: 'Invalid API key' }
+  }
+
+  if (install.status !== 'active') {
+    return { ok: false, status: 401, code: 'KEY_REVOKED', message: 'API key has been revoked' }
+  }
+
+  // A key is bound to the first install that uses it, so a copied key cannot be shared silently;
+  // once bound, a request without the install header is refused too.
+  if (install.install_id && install.install_id !== params.installId) {
+    return { ok: false, status: 401, code: 'INSTALL_MISMATCH', message: 'API key belongs to a different install' }
+  }
+
+  if (!isSupportedVersion(params.version)) {
+    return {
+      ok: false,
+      status: 426,
+      code: 'EXTENSION_OUTDATED',
+      message: `Extension version ${params.version || 'unknown'} is no longer supported; please update`,
+    }
+  }
+
+  const { count: capturesToday } = await supabaseAdmin
+    .from('raw_deal_ingest')
+    .select('id', { count: 'exact', head: true })
+    .eq('install_id', install.id)
+    .gte('created_at', startOfDay(todayIn()).toISOString())
+
+  if ((capturesToday || 0) >= install.daily_quota) {
+    return { ok: false, status: 429, code: 'RATE_LIMIT_EXCEEDED', message: 'Daily capture quota reached' }
+  }
+
+  return { ok: true, install: install as ExtensionInstall }
+}
+
+/**
+ * Record a successful capture: bind install_id on first use and refresh last-seen metadata.
+ * The count is incremented in SQL (record_extension_capture) so concurrent captures all count.
+ */
+export async function recordInstallCapture(
+  install: ExtensionInstall,
+  installId: string | null,
+  version: string | null
+): Promise<void> {
+  const { error } = await supabaseAdmin.rpc('record_extension_capture', {
+    p_install: install.id,
+    p_install_id: installId,
+    p_version: version,
+  })
+  if (error) {
+    console.error('Failed to record extension capture:', error)
+  }
+}
+
+/**
+ * Update an install's trust score after a deal it contributed was approved or rejected.
+ * Counts and score are updated in one SQL statement (record_extension_review_outcome).
+ */
+export async function recordInstallReviewOutcome(
+  installId: string,
+  outcome: 'approved' | 'rejected'
+): Promise<void> {
+  const { error } = await supabaseAdmin.rpc('record_extension_review_outcome', {
+    p_install: installId,
+    p_approved: outcome === 'approved',
+  })
+  if (error) {
+    console.error('Failed to record extension review outcome:', error)
+  }
+}
+
+/**
+ * Issue a new install key. The plaintext key is only returned here; only its hash is stored.
+ */
+export async function issueInstallKey(
+  label: string,
+  dailyQuota?: number
+): Promise<{ install: ExtensionInstall; apiKey: string }> {
+  const apiKey = generateApiKey()
+  const { data, error } = await supabaseAdmin
+    .from('extension_installs')
+    .insert({
+      label,
+      api_key_hash: hashApiKey(apiKey),
+      key_prefix: apiKey.slice(0, KEY_PREFIX.length + 6),
+      daily_quota: dailyQuota ?? DEFAULT_DAILY_QUOTA,
+      status: 'active',
+    })
+    .select(INSTALL_SELECT)
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to issue install key: ${error?.message || 'unknown error'}`)
+  }
+
+  return { install: data as ExtensionInstall, apiKey }
+}
+
+export async function revokeInstall(id: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('extension_installs')
+    .update({ status: 'revoked', revoked_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) {
+    throw new Error(`Failed to revoke install: ${error.message}`)
+  }
+}
+
+export async function listInstalls(): Promise<ExtensionInstall[]> {
+  const { data, error } = await supabaseAdmin
+    .from('extension_installs')
+    .select(INSTALL_SELECT)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load installs: ${error.message}`)
+  }
+
+  return (data || []) as ExtensionInstall[]
+}
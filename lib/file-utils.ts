@@ -1,14 +1,29 @@
 import crypto from 'crypto'
+import { politeFetch } from './polite-fetch'
 
 export function computeFileHash(buffer: Buffer): string {
   return crypto.createHash('sha256').update(buffer).digest('hex')
 }
 
 export async function downloadFile(url: string): Promise<Buffer> {
-  const response = await fetch(url)
-  if (!response.ok) {
-    throw new Error(`Failed to download file: ${response.statusText}`)
+  const { buffer } = await downloadFileWithStatus(url)
+  return buffer
+}
+
+/**
+ * Like downloadFile, but also reports the HTTP status (including on failure) for the ingestion ledger.
+ * Goes through the polite fetch client, so robots.txt and per-host throttling apply.
+ */
+export async function downloadFileWithStatus(
+  url: string
+): Promise<{ buffer: Buffer; status: number }> {
+  const result = await politeFetch(url)
+  if (!result.response) {
+    throw Object.assign(new Error(`Failed to download file: ${result.error || result.outcome}`), {
+      status: result.status ?? undefined,
+      outcome: result.outcome,
+    })
   }
-  const arrayBuffer = await response.arrayBuffer()
-  return Buffer.from(arrayBuffer)
+  const arrayBuffer = await result.response.arrayBuffer()
+  return { buffer: Buffer.from(arrayBuffer), status: result.status ?? result.response.status }
 }
@@ -0,0 +1,205 @@
+/**
+ * Flyer listings: a dispensary's stored flyer shown as a "See today's flyer" card when its deals
+ * could not be parsed (text too short, AI failure) or some came back under the confidence threshold.
+ * Kept out of the deals table so category filters, price sorting and duplicate checks never see them.
+ * Flyers live in the private deal-flyers bucket and are served through short-lived signed URLs.
+ */
+
+import { supabaseAdmin } from './supabase/server'
+import { earliestToday, timezoneOf, todayIn } from './dates'
+
+export type FlyerListingReason = 'text_too_short' | 'ai_failed' | 'low_confidence' | 'budget_exhausted'
+
+export type FlyerListingCard = {
+  id: string
+  dispensaryName: string
+  dispensarySlug?: string | null
+  city?: string | null
+  /** Signed URL of the flyer image; null for PDFs or when signing failed */
+  imageUrl: string | null
+  isPdf: boolean
+  /** Low-confidence deals left on the flyer (0 when none were parsed at all) */
+  unparsedDeals: number
+  /** Redirects to a fresh signed URL, so it keeps working in emails */
+  href: string
+}
+
+type FlyerListingRow = {
+  id: string
+  dispensary_name: string
+  city: string | null
+  file_path: string
+  unparsed_deals: number
+  last_seen_date: string
+  dispensaries?: { slug: string | null; timezone: string | null } | null
+}
+
+/** Signed URLs handed to pages; /flyer/[id] signs a new one on every visit */
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+function isPdfPath(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith('.pdf')
+}
+
+/** Public path of a listing's flyer, relative to the app URL */
+export function flyerListingPath(id: string): string {
+  return `/flyer/${id}`
+}
+
+/**
+ * List a flyer for its dispensary (one listing per flyer; a re-parse updates it).
+ */
+export async function recordFlyerListing(input: {
+  flyerId: string
+  filePath: string
+  dispensaryName: string
+  city?: string
+  date: string
+  sourceUrl: string | null
+  reason: FlyerListingReason
+  unparsedDeals?: number
+}): Promise<boolean> {
+  const { data: dispensary } = await supabaseAdmin
+    .from('dispensaries')
+    .select('id')
+    .eq('name', input.dispensaryName)
+    .maybeSingle()
+
+  const { error } = await supabaseAdmin.from('flyer_listings').upsert(
+    {
+      flyer_id: input.flyerId,
+      dispensary_id: dispensary?.id || null,
+      dispensary_name: input.dispensaryName,
+      city: input.city || null,
+      date: input.date,
+      last_seen_date: input.date,
+      file_path: input.filePath,
+      source_url: input.sourceUrl,
+      reason: input.reason,
+      unparsed_deals: input.unparsedDeals ?? 0,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'flyer_id' }
+  )
+
+  if (error) {
+    console.error('Flyer listing insert error:', error)
+    return false
+  }
+  return true
+}
+
+/**
+ * Keep an unchanged flyer's listing up for today. Returns how many listings were extended.
+ */
+export async function extendFlyerListings(input: {
+  dispensaryName: string
+  date: string
+  sourceUrl: string
+  today: string
+}): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('flyer_listings')
+    .update({ last_seen_date: input.today, updated_at: new Date().toISOString() })
+    .eq('dispensary_name', input.dispensaryName)
+    .eq('date', input.date)
+    .eq('source_url', input.sourceUrl)
+    .select('id')
+
+  if (error) {
+    console.error('Failed to extend flyer listings:', error)
+    return 0
+  }
+  return data?.length || 0
+}
+
+/**
+ * Today's flyer listings, newest first, with signed image URLs.
+ */
+export async function getFlyerListings(options?: {
+  city?: string
+  dispensaryId?: string
+  dispensaryNames?: string[]
+  limit?: number
+}): Promise<FlyerListingCard[]> {
+  try {
+    let query = supabaseAdmin
+      .from('flyer_listings')
+      .select('id, dispensary_name, city, file_path, unparsed_deals, last_seen_date, dispensaries ( slug, timezone )')
+      .gte('last_seen_date', earliestToday())
+      .order('created_at', { ascending: false })
+
+    if (options?.city) {
+      query = query.ilike('city', options.city)
+    }
+    if (options?.dispensaryId) {
+      query = query.eq('dispensary_id', options.dispensaryId)
+    }
+    if (options?.dispensaryNames) {
+      if (options.dispensaryNames.length === 0) return []
+      query = query.in('dispensary_name', options.dispensaryNames)
+    }
+    if (options?.limit) {
+      query = query.limit(options.limit)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      console.error('getFlyerListings', error)
+      return []
+    }
+
+    const rows = (data || []) as unknown as FlyerListingRow[]
+    // One listing per dispensary: the latest flyer is today's flyer
+    const seen = new Set<string>()
+    const listings = rows.filter((row) => {
+      if (row.last_seen_date !== todayIn(timezoneOf(row))) return false
+      if (seen.has(row.dispensary_name)) return false
+      seen.add(row.dispensary_name)
+      return true
+    })
+
+    const imagePaths = listings.filter((row) => !isPdfPath(row.file_path)).map((row) => row.file_path)
+    const signed = new Map<string, string>()
+    if (imagePaths.length > 0) {
+      const { data: urls } = await supabaseAdmin.storage
+        .from('deal-flyers')
+        .createSignedUrls(imagePaths, SIGNED_URL_TTL_SECONDS)
+      for (const url of urls || []) {
+        if (url.path && url.signedUrl) signed.set(url.path, url.signedUrl)
+      }
+    }
+
+    return listings.map((row) => ({
+      id: row.id,
+      dispensaryName: row.dispensary_name,
+      dispensarySlug: row.dispensaries?.slug,
+      city: row.city,
+      imageUrl: signed.get(row.file_path) || null,
+      isPdf: isPdfPath(row.file_path),
+      unparsedDeals: row.unparsed_deals,
+      href: flyerListingPath(row.id),
+    }))
+  } catch (error) {
+    console.error('getFlyerListings', error)
+    return []
+  }
+}
+
+/**
+ * A fresh signed URL for a listing's flyer, or null when the listing or file is gone.
+ */
+export async function signFlyerListing(id: string): Promise<string | null> {
+  const { data: listing } = await supabaseAdmin
+    .from('flyer_listings')
+    .select('file_path')
+    .eq('id', id)
+    .maybeSingle()
+  if (!listing) return null
+
+  const { data, error } = await supabaseAdmin.storage
+    .from('deal-flyers')
+    .createSignedUrl(listing.file_path, SIGNED_URL_TTL_SECONDS)
+  if (error || !data) return null
+  return data.signedUrl
+}
@@ -0,0 +1,333 @@
+/**
+ * Flyer preprocessing before OCR.
+ * Multi-page PDFs are split into single-page PDFs, very tall images (stitched Instagram
+ * flyers) are cut into overlapping tiles and oversized images are downsized, so each
+ * vision call sees one readable piece. Pieces are hashed so unchanged pages can reuse
+ * OCR text from an earlier version of the same flyer.
+ */
+
+import { PDFDocument } from 'pdf-lib'
+import sharp from 'sharp'
+import * as Sentry from '@sentry/nextjs'
+import { computeFileHash } from './file-utils'
+import { extractTextFromImage, type OcrRegion } from './ocr'
+import type { AiUsageCallback } from './types'
+
+/** Widest image sent to OCR; wider images are scaled down to this */
+const MAX_WIDTH = 2048
+/** Images taller than this many widths are tiled */
+const TALL_RATIO = 2
+/** Tile height as a multiple of the (downsized) width */
+const TILE_RATIO = 1.4
+/** Fraction of each tile repeated at the top of the next, so no line is cut in half */
+const TILE_OVERLAP = 0.12
+/** Upper bound on OCR calls for one flyer */
+const MAX_PAGES = 20
+
+export interface FlyerPage {
+  index: number
+  buffer: Buffer
+  mimeType: string
+  hash: string
+  /** Tile of a tall image that overlaps the previous piece */
+  overlapsPrevious: boolean
+}
+
+/** Per-page OCR record stored on deal_flyers.pages */
+export interface StoredFlyerPage {
+  index: number
+  hash: string
+  ocr_text: string | null
+  ocr_processed_at: string | null
+  error?: string
+  /** Deals located on an image piece, boxes relative to the piece (lib/deal-thumbnails crops them) */
+  regions?: OcrRegion[]
+}
+
+export interface FlyerOcrResult {
+  text: string
+  pages: StoredFlyerPage[]
+  /** Pages whose text came from an earlier flyer with the same page hash */
+  reusedPages: number
+  failedPages: number
+  lastError?: string
+}
+
+/** MIME type of a stored flyer from its file extension (see flyerExtension in lib/ingest-pipeline) */
+export function mimeTypeForPath(filePath: string): string {
+  const lower = filePath.toLowerCase()
+  if (lower.endsWith('.pdf')) return 'application/pdf'
+  if (lower.endsWith('.jpg') || lower.endsWith('.jpeg')) return 'image/jpeg'
+  if (lower.endsWith('.webp')) return 'image/webp'
+  return 'image/png'
+}
+
+/**
+ * Split a flyer into OCR-sized pieces in reading order.
+ * Anything that needs no splitting comes back as a single piece with its original bytes.
+ */
+export async function splitFlyer(buffer: Buffer, mimeType: string): Promise<FlyerPage[]> {
+  if (mimeType === 'application/pdf') {
+    return splitPdf(buffer)
+  }
+  if (mimeType.startsWith('image/')) {
+    return splitImage(buffer, mimeType)
+  }
+  return [singlePage(buffer, mimeType)]
+}
+
+function singlePage(buffer: Buffer, mimeType: string): FlyerPage {
+  return { index: 0, buffer, mimeType, hash: computeFileHash(buffer), overlapsPrevious: false }
+}
+
+async function splitPdf(buffer: Buffer): Promise<FlyerPage[]> {
+  let source: PDFDocument
+  try {
+    source = await PDFDocument.load(buffer, { updateMetadata: false, ignoreEncryption: true })
+  } catch (error) {
+    // Let the OCR provider try the original bytes rather than failing here
+    const { logger } = Sentry
+    logger.warn('Could not read PDF for page split', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return [singlePage(buffer, 'application/pdf')]
+  }
+
+  const pageCount = source.getPageCount()
+  if (pageCount <= 1) {
+    return [singlePage(buffer, 'application/pdf')]
+  }
+
+  const pages: FlyerPage[] = []
+  for (let i = 0; i < Math.min(pageCount, MAX_PAGES); i++) {
+    // updateMetadata: false keeps the output byte-identical across runs, so page hashes are stable
+    const single = await PDFDocument.create({ updateMetadata: false })
+    const [page] = await single.copyPages(source, [i])
+    single.addPage(page)
+    const bytes = Buffer.from(await single.save())
+    pages.push({ index: i, buffer: bytes, mimeType: 'application/pdf', hash: computeFileHash(bytes), overlapsPrevious: false })
+  }
+
+  if (pageCount > MAX_PAGES) {
+    const { logger } = Sentry
+    logger.warn('PDF flyer truncated to page limit', { pageCount, maxPages: MAX_PAGES })
+  }
+
+  return pages
+}
+
+async function splitImage(buffer: Buffer, mimeType: string): Promise<FlyerPage[]> {
+  let width: number | undefined
+  let height: number | undefined
+  try {
+    // Respect EXIF orientation so phone photos are tiled along their visual height
+    const metadata = await sharp(buffer).metadata()
+    const rotated = (metadata.orientation || 1) >= 5
+    width = rotated ? metadata.height : metadata.width
+    height = rotated ? metadata.width : metadata.height
+  } catch {
+    return [singlePage(buffer, mimeType)]
+  }
+
+  if (!width || !height) {
+    return [singlePage(buffer, mimeType)]
+  }
+
+  const tall = height / width > TALL_RATIO
+  if (!tall && width <= MAX_WIDTH) {
+    return [singlePage(buffer, mimeType)]
+  }
+
+  const scale = Math.min(1, MAX_WIDTH / width)
+  const scaledWidth = Math.round(width * scale)
+  const scaledHeight = Math.round(height * scale)
+  const normalized = await sharp(buffer).rotate().resize({ width: scaledWidth }).toBuffer()
+
+  if (!tall) {
+    const bytes = await sharp(normalized).jpeg({ quality: 90 }).toBuffer()
+    return [{ index: 0, buffer: bytes, mimeType: 'image/jpeg', hash: computeFileHash(bytes), overlapsPrevious: false }]
+  }
+
+  const tileHeight = Math.round(scaledWidth * TILE_RATIO)
+  const step = Math.round(tileHeight * (1 - TILE_OVERLAP))
+  const pages: FlyerPage[] = []
+  for (let top = 0; top < scaledHeight && pages.length < MAX_PAGES; top += step) {
+    const extractHeight = Math.min(tileHeight, scaledHeight - top)
+    const bytes = await sharp(normalized)
+      .extract({ left: 0, top, width: scaledWidth, height: extractHeight })
+      .jpeg({ quality: 90 })
+      .toBuffer()
+    pages.push({
+      index: pages.length,
+      buffer: bytes,
+      mimeType: 'image/jpeg',
+      hash: computeFileHash(bytes),
+      overlapsPrevious: top > 0,
+    })
+    if (top + extractHeight >= scaledHeight) break
+  }
+
+  return pages
+}
+
+/** perceptualHash grid: HASH_SIZE x HASH_SIZE bits */
+const HASH_SIZE = 16
+/** Grid two candidate images are compared on, pixel by pixel */
+const COMPARE_WIDTH = 256
+const COMPARE_HEIGHT = 320
+/** Largest per-pixel grey-level difference still treated as compression noise */
+const MAX_PIXEL_DIFF = 64
+
+/**
+ * 256-bit difference hash (dHash) of an image as hex, or null for PDFs and unreadable files.
+ * Re-encoded, resized or recompressed copies of the same flyer land within a few bits of each other.
+ */
+export async function perceptualHash(buffer: Buffer, mimeType: string): Promise<string | null> {
+  if (!mimeType.startsWith('image/')) return null
+  try {
+    const pixels = await sharp(buffer)
+      .rotate()
+      .grayscale()
+      .resize(HASH_SIZE + 1, HASH_SIZE, { fit: 'fill' })
+      .raw()
+      .toBuffer()
+
+    // Each bit: is this pixel brighter than its right-hand neighbour
+    let hex = ''
+    for (let row = 0; row < HASH_SIZE; row++) {
+      for (let nibble = 0; nibble < HASH_SIZE / 4; nibble++) {
+        let bits = 0
+        for (let i = 0; i < 4; i++) {
+          const offset = row * (HASH_SIZE + 1) + nibble * 4 + i
+          bits = (bits << 1) | (pixels[offset] > pixels[offset + 1] ? 1 : 0)
+        }
+        hex += bits.toString(16)
+      }
+    }
+    return hex
+  } catch {
+    return null
+  }
+}
+
+/** Number of differing bits between two perceptualHash values */
+export function hammingDistance(a: string, b: string): number {
+  let count = 0
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    let diff = parseInt(a[i] || '0', 16) ^ parseInt(b[i] || '0', 16)
+    while (diff) {
+      count += diff & 1
+      diff >>= 1
+    }
+  }
+  return count
+}
+
+/**
+ * Whether two images show the same flyer. A perceptual hash cannot tell a recompressed copy
+ * from one with a single price changed (both are a few bits apart), so candidates found by
+ * hash are confirmed here: any region that differs by more than compression noise means changed.
+ */
+export async function imagesLookIdentical(a: Buffer, b: Buffer): Promise<boolean> {
+  try {
+    const grey = (buffer: Buffer) =>
+      sharp(buffer).rotate().grayscale().resize(COMPARE_WIDTH, COMPARE_HEIGHT, { fit: 'fill' }).raw().toBuffer()
+    const [pixelsA, pixelsB] = await Promise.all([grey(a), grey(b)])
+    for (let i = 0; i < pixelsA.length; i++) {
+      if (Math.abs(pixelsA[i] - pixelsB[i]) > MAX_PIXEL_DIFF) return false
+    }
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Join page texts in order. Where a tile overlaps the previous one, lines repeated
+ * from the end of the previous tile are dropped from the start of the next.
+ */
+export function mergePageTexts(pieces: Array<{ text: string; overlapsPrevious: boolean }>): string {
+  const merged: string[] = []
+  let previousLines: string[] = []
+
+  for (const piece of pieces) {
+    let lines = piece.text.split('\n')
+    if (piece.overlapsPrevious && previousLines.length > 0) {
+      lines = lines.slice(overlapLength(previousLines, lines))
+    }
+    const text = lines.join('\n').trim()
+    if (text) merged.push(text)
+    previousLines = piece.text.split('\n')
+  }
+
+  return merged.join('\n\n')
+}
+
+function overlapLength(previous: string[], next: string[]): number {
+  const normalize = (line: string) => line.trim().toLowerCase()
+  const max = Math.min(previous.length, next.length, 30)
+  for (let k = max; k > 0; k--) {
+    let matches = true
+    for (let i = 0; i < k; i++) {
+      if (normalize(previous[previous.length - k + i]) !== normalize(next[i])) {
+        matches = false
+        break
+      }
+    }
+    if (matches) return k
+  }
+  return 0
+}
+
+/**
+ * OCR each piece separately and merge the text in page order.
+ * Image pieces are also asked for deal bounding boxes; PDF pages cannot be cropped, so they are not.
+ * Pieces whose hash appears in cachedText are not sent to the OCR provider (their regions come from cachedRegions).
+ * A failed piece is recorded (without text) and the rest are still merged.
+ */
+export async function ocrFlyerPages(
+  pages: FlyerPage[],
+  options: {
+    cachedText?: Map<string, string>
+    cachedRegions?: Map<string, OcrRegion[]>
+    onUsage?: AiUsageCallback
+  } = {}
+): Promise<FlyerOcrResult> {
+  const stored: StoredFlyerPage[] = []
+  const pieces: Array<{ text: string; overlapsPrevious: boolean }> = []
+  let reusedPages = 0
+  let failedPages = 0
+  let lastError: string | undefined
+
+  for (const page of pages) {
+    const cached = options.cachedText?.get(page.hash)
+    if (cached !== undefined) {
+      reusedPages++
+      stored.push({
+        index: page.index,
+        hash: page.hash,
+        ocr_text: cached,
+        ocr_processed_at: new Date().toISOString(),
+        regions: options.cachedRegions?.get(page.hash),
+      })
+      pieces.push({ text: cached, overlapsPrevious: page.overlapsPrevious })
+      continue
+    }
+
+    try {
+      const { text, regions } = await extractTextFromImage(page.buffer, page.mimeType, options.onUsage, {
+        regions: page.mimeType.startsWith('image/'),
+      })
+      stored.push({ index: page.index, hash: page.hash, ocr_text: text, ocr_processed_at: new Date().toISOString(), regions })
+      pieces.push({ text, overlapsPrevious: page.overlapsPrevious })
+    } catch (error) {
+      failedPages++
+      lastError = error instanceof Error ? error.message : 'Unknown error'
+      stored.push({ index: page.index, hash: page.hash, ocr_text: null, ocr_processed_at: null, error: lastError })
+      // Keep the slot so the next tile is compared with this (empty) piece, not an older one
+      pieces.push({ text: '', overlapsPrevious: false })
+    }
+  }
+
+  return { text: mergePageTexts(pieces), pages: stored, reusedPages, failedPages, lastError }
+}
@@ -0,0 +1,536 @@
+/**
+ * Inbound email submissions.
+ * Dispensaries email their flyers (image or PDF attachments) or deal text to our inbound address;
+ * Resend posts an "email.received" webhook to /api/inbound-email. The webhook only carries metadata,
+ * so the body, headers and attachments are fetched through Resend's receiving API by email_id. The
+ * sender must pass SPF, DKIM or DMARC for the From domain (a From header alone is trivially forged)
+ * and be a verified contact of a dispensary (dispensary_contacts). Attachments go through the flyer
+ * OCR and parse pipeline, the body text through the parser, and every deal found becomes a pending
+ * submission (lib/deal-submissions) for review. The sender gets a reply listing what we read.
+ * Unauthenticated and unknown senders are recorded but never answered, so spoofed or spam mail gets
+ * no backscatter.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { z } from 'zod'
+import * as Sentry from '@sentry/nextjs'
+import { supabaseAdmin } from './supabase/server'
+import { resend } from './resend'
+import { splitFlyer, ocrFlyerPages } from './flyer-pages'
+import { parseDealsFromText, type Deal } from './ai-parser'
+import { getParseHints } from './parse-hints'
+import { aiBudgetExhausted, withAiSpendContext } from './ai-spend'
+import { createDealSubmission } from './deal-submissions'
+import { weekdayMask, detectWeekdayRecurrence, describeRecurrence } from './recurring-deals'
+import { renderInboundReplyEmail } from './email/render'
+import { addDays, timezoneOf, todayIn } from './dates'
+
+/** Attachment metadata, as in the webhook and the received email; the bytes are downloaded separately */
+const attachmentSchema = z.object({
+  id: z.string(),
+  filename: z
+    .string()
+    .nullable()
+    .optional()
+    .transform((filename) => filename || 'attachment'),
+  content_type: z.string().default('application/octet-stream'),
+  content_disposition: z.string().nullable().optional(),
+  content_id: z.string().nullable().optional(),
+  /** Bytes; only the received email carries it */
+  size: z.number().optional(),
+})
+
+/** The "email.received" webhook body: metadata only */
+export const inboundEmailSchema = z.object({
+  type: z.string(),
+  created_at: z.string().optional(),
+  data: z.object({
+    email_id: z.string().min(1),
+    from: z.string().min(3),
+    to: z.array(z.string()).optional(),
+    subject: z.string().nullable().optional(),
+    message_id: z.string().nullable().optional(),
+    attachments: z.array(attachmentSchema).optional(),
+  }),
+})
+
+/** GET /emails/receiving/{email_id}: the message itself */
+export const receivedEmailSchema = z.object({
+  id: z.string(),
+  from: z.string().min(3),
+  to: z.array(z.string()).optional(),
+  subject: z.string().nullable().optional(),
+  message_id: z.string().nullable().optional(),
+  text: z.string().nullable().optional(),
+  html: z.string().nullable().optional(),
+  headers: z.record(z.union([z.string(), z.array(z.string())])).nullable().optional(),
+  attachments: z.array(attachmentSchema).optional(),
+})
+
+/** GET /emails/receiving/{email_id}/attachments/{id}: a short-lived download link */
+const attachmentLinkSchema = z.object({
+  download_url: z.string().url(),
+  size: z.number().optional(),
+})
+
+export type InboundEmailPayload = z.infer<typeof inboundEmailSchema>
+export type ReceivedEmail = z.infer<typeof receivedEmailSchema>
+export type InboundAttachment = z.infer<typeof attachmentSchema>
+
+export type InboundEmailStatus =
+  | 'processed'
+  | 'unauthenticated'
+  | 'unknown_sender'
+  | 'no_content'
+  | 'failed'
+  | 'duplicate'
+
+/** What a message holds before any lookups: the parts we can read */
+export interface ParsedInboundEmail {
+  emailId: string
+  /** Lowercase address */
+  from: string
+  /** The receiving server's SPF/DKIM/DMARC checks vouch for `from` (senderAuthenticated) */
+  authenticated: boolean
+  subject: string
+  messageId: string | null
+  /** Body text without quoted replies or signature */
+  bodyText: string
+  attachments: InboundAttachment[]
+  /** Attachments that are not images or PDFs, or over the size or count limit */
+  skipped: string[]
+}
+
+export interface InboundEmailResult {
+  status: InboundEmailStatus
+  inboundEmailId: string | null
+  dispensaryName: string | null
+  attachments: number
+  dealsExtracted: number
+  replySent: boolean
+}
+
+const FROM_ADDRESS = 'Daily Dispo Deals <deals@dailydispodeals.com>'
+const RESEND_API_URL = 'https://api.resend.com'
+/** Webhook timestamps older or newer than this are rejected (replays) */
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+const MAX_ATTACHMENTS = 5
+const MAX_ATTACHMENT_BYTES = 15 * 1024 * 1024
+const DOWNLOAD_TIMEOUT_MS = 20_000
+/** Body text shorter than this ("see attached") is not sent to the parser */
+const MIN_BODY_TEXT = 50
+
+/**
+ * Svix-style signature header value for a webhook body: "v1,<base64 HMAC-SHA256 of id.timestamp.body>".
+ */
+export function signInboundPayload(body: string, secret: string, id: string, timestamp: number): string {
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64')
+  return `v1,${createHmac('sha256', key).update(`${id}.${timestamp}.${body}`).digest('base64')}`
+}
+
+/**
+ * Check the svix-id / svix-timestamp / svix-signature headers Resend signs webhooks with.
+ */
+export function verifyInboundSignature(body: string, headers: Headers, secret: string, now = Date.now()): boolean {
+  const id = headers.get('svix-id')
+  const timestamp = parseInt(headers.get('svix-timestamp') || '', 10)
+  const signatures = headers.get('svix-signature')
+  if (!id || !Number.isFinite(timestamp) || !signatures) return false
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false
+
+  const expected = Buffer.from(signInboundPayload(body, secret, id, timestamp).slice(3), 'base64')
+  return signatures.split(' ').some((entry) => {
+    const [version, signature] = entry.split(',')
+    if (version !== 'v1' || !signature) return false
+    const given = Buffer.from(signature, 'base64')
+    return given.length === expected.length && timingSafeEqual(given, expected)
+  })
+}
+
+/** "Jane Doe <Jane@Shop.com>" -> "jane@shop.com" */
+export function senderAddress(from: string): string {
+  const bracketed = from.match(/<([^>]+)>/)
+  return (bracketed ? bracketed[1] : from).trim().toLowerCase()
+}
+
+function headerValue(headers: ReceivedEmail['headers'], name: string): string | null {
+  for (const [key, value] of Object.entries(headers || {})) {
+    if (key.toLowerCase() === name) return Array.isArray(value) ? value[0] ?? null : value
+  }
+  return null
+}
+
+/** Same domain, or one a subdomain of the other (DMARC relaxed alignment) */
+function aligned(domain: string, fromDomain: string): boolean {
+  const d = domain.replace(/^@/, '').toLowerCase()
+  return d === fromDomain || fromDomain.endsWith(`.${d}`) || d.endsWith(`.${fromDomain}`)
+}
+
+/**
+ * Whether the receiving server's Authentication-Results vouch for the From address: DMARC pass for
+ * its domain, or a DKIM signature or SPF pass aligned with it. Only the topmost header counts (the
+ * receiving server's own; the sender can add more below it), and with INBOUND_AUTHSERV_ID set it
+ * must name that server.
+ */
+export function senderAuthenticated(headers: ReceivedEmail['headers'], from: string): boolean {
+  const results = headerValue(headers, 'authentication-results')
+  const fromDomain = from.split('@')[1]
+  if (!results || !fromDomain) return false
+
+  const [authservId, ...checks] = results.split(';').map((part) => part.trim())
+  const trustedServer = process.env.INBOUND_AUTHSERV_ID
+  if (trustedServer && authservId.split(/\s+/)[0].toLowerCase() !== trustedServer.toLowerCase()) return false
+
+  return checks.some((check) => {
+    const verdict = check.match(/^(spf|dkim|dmarc)=(\w+)/i)
+    if (!verdict || verdict[2].toLowerCase() !== 'pass') return false
+    const props = Object.fromEntries(
+      Array.from(check.matchAll(/([\w.]+)=([^\s;()]+)/g), ([, key, value]) => [key.toLowerCase(), value])
+    )
+    const domains = {
+      dmarc: [props['header.from']],
+      dkim: [props['header.d'], props['header.i']?.split('@').pop()],
+      spf: [props['smtp.mailfrom']?.split('@').pop()],
+    }[verdict[1].toLowerCase() as 'spf' | 'dkim' | 'dmarc']
+    return domains.some((domain) => domain && aligned(domain, fromDomain))
+  })
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<br\s*\/?>|<\/(p|div|li|tr|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&#39;|&#039;/g, "'")
+    .replace(/&quot;/g, '"')
+}
+
+/** The new part of a message: stops at the quoted thread or the signature */
+function ownBodyText(text: string): string {
+  const lines: string[] = []
+  for (const line of text.split(/\r?\n/)) {
+    if (/^On .+ wrote:\s*$/.test(line.trim()) || /^-{2,}\s*(Original Message\s*-*)?$/i.test(line.trim())) break
+    if (line.trimStart().startsWith('>')) continue
+    lines.push(line.replace(/[ \t]+/g, ' ').trimEnd())
+  }
+  return lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function isReadable(attachment: InboundAttachment): boolean {
+  const type = attachment.content_type.toLowerCase()
+  return type.startsWith('image/') || type === 'application/pdf'
+}
+
+async function resendGet<T>(path: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> {
+  const response = await fetch(`${RESEND_API_URL}${path}`, {
+    headers: { Authorization: `Bearer ${process.env.RESEND_API_KEY}` },
+    signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+  })
+  if (!response.ok) throw new Error(`Resend GET ${path} failed: HTTP ${response.status}`)
+  return schema.parse(await response.json())
+}
+
+/**
+ * Fetch a received message (body, headers, attachment metadata) by the webhook's email_id.
+ */
+export async function fetchReceivedEmail(emailId: string): Promise<ReceivedEmail> {
+  return resendGet(`/emails/receiving/${encodeURIComponent(emailId)}`, receivedEmailSchema)
+}
+
+/**
+ * The sender, subject, body text and readable attachments of a received email.
+ */
+export function parseInboundEmail(email: ReceivedEmail): ParsedInboundEmail {
+  const attachments: InboundAttachment[] = []
+  const skipped: string[] = []
+  for (const attachment of email.attachments || []) {
+    const tooBig = (attachment.size ?? 0) > MAX_ATTACHMENT_BYTES
+    if (isReadable(attachment) && !tooBig && attachments.length < MAX_ATTACHMENTS) {
+      attachments.push(attachment)
+    } else {
+      skipped.push(attachment.filename)
+    }
+  }
+
+  const from = senderAddress(email.from)
+  return {
+    emailId: email.id,
+    from,
+    authenticated: senderAuthenticated(email.headers, from),
+    subject: (email.subject || '').trim(),
+    messageId: email.message_id || null,
+    bodyText: ownBodyText(email.text || (email.html ? htmlToText(email.html) : '')),
+    attachments,
+    skipped,
+  }
+}
+
+async function attachmentBytes(emailId: string, attachment: InboundAttachment): Promise<Buffer> {
+  const link = await resendGet(
+    `/emails/receiving/${encodeURIComponent(emailId)}/attachments/${encodeURIComponent(attachment.id)}`,
+    attachmentLinkSchema
+  )
+  if ((link.size ?? 0) > MAX_ATTACHMENT_BYTES) throw new Error('Attachment too large')
+  const response = await fetch(link.download_url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) })
+  if (!response.ok) throw new Error(`Download failed: HTTP ${response.status}`)
+  const buffer = Buffer.from(await response.arrayBuffer())
+  if (buffer.length > MAX_ATTACHMENT_BYTES) throw new Error('Attachment too large')
+  return buffer
+}
+
+async function storeAttachment(buffer: Buffer, attachment: InboundAttachment, date: string): Promise<string | null> {
+  try {
+    const path = `inbound/${date}/${Date.now()}-${attachment.filename.replace(/[^a-zA-Z0-9.]/g, '-')}`
+    const { error } = await supabaseAdmin.storage.from('deal-media').upload(path, buffer, {
+      contentType: attachment.content_type,
+      upsert: true,
+    })
+    if (error) return null
+    return supabaseAdmin.storage.from('deal-media').getPublicUrl(path).data.publicUrl
+  } catch {
+    return null
+  }
+}
+
+async function findVerifiedContact(
+  email: string
+): Promise<{
+  id: string
+  name: string
+  city: string | null
+  menu_url: string | null
+  website: string | null
+  timezone: string | null
+} | null> {
+  const { data } = await supabaseAdmin
+    .from('dispensary_contacts')
+    .select('dispensaries ( id, name, city, menu_url, website, timezone )')
+    .eq('email', email)
+    .not('verified_at', 'is', null)
+    .limit(1)
+    .maybeSingle()
+  const dispensary = data?.dispensaries
+  return (Array.isArray(dispensary) ? dispensary[0] : dispensary) || null
+}
+
+async function recordInboundEmail(
+  parsed: ParsedInboundEmail,
+  fields: { status: Exclude<InboundEmailStatus, 'duplicate'>; dispensaryId?: string | null; error?: string | null }
+): Promise<string | null> {
+  const { data } = await supabaseAdmin
+    .from('inbound_emails')
+    .insert({
+      provider_email_id: parsed.emailId,
+      from_email: parsed.from,
+      subject: parsed.subject || null,
+      dispensary_id: fields.dispensaryId || null,
+      status: fields.status,
+      attachments: parsed.attachments.length,
+      error: fields.error || null,
+    })
+    .select('id')
+    .single()
+  return data?.id || null
+}
+
+interface ExtractedDeal {
+  deal: Deal
+  /** Public URL of the flyer the deal came from */
+  image: string | null
+  origin: string
+}
+
+/**
+ * Handle one received email: fetch it, match the sender, read its flyers and text, create pending
+ * submissions and reply to the sender. Retries of an email already handled are ignored.
+ */
+export async function processInboundEmail(payload: InboundEmailPayload): Promise<InboundEmailResult> {
+  const { logger } = Sentry
+  const result: InboundEmailResult = {
+    status: 'processed',
+    inboundEmailId: null,
+    dispensaryName: null,
+    attachments: 0,
+    dealsExtracted: 0,
+    replySent: false,
+  }
+
+  const { data: seen } = await supabaseAdmin
+    .from('inbound_emails')
+    .select('id')
+    .eq('provider_email_id', payload.data.email_id)
+    .maybeSingle()
+  if (seen) return { ...result, status: 'duplicate', inboundEmailId: seen.id }
+
+  // Throws when Resend can't be reached, so the webhook fails and is retried
+  const parsed = parseInboundEmail(await fetchReceivedEmail(payload.data.email_id))
+  result.attachments = parsed.attachments.length
+
+  if (!parsed.authenticated) {
+    logger.warn('Inbound email failed sender authentication', { from: parsed.from })
+    result.inboundEmailId = await recordInboundEmail(parsed, { status: 'unauthenticated' })
+    return { ...result, status: 'unauthenticated' }
+  }
+
+  const dispensary = await findVerifiedContact(parsed.from)
+  if (!dispensary) {
+    logger.warn('Inbound email from unknown sender', { from: parsed.from })
+    result.inboundEmailId = await recordInboundEmail(parsed, { status: 'unknown_sender' })
+    return { ...result, status: 'unknown_sender' }
+  }
+  result.dispensaryName = dispensary.name
+
+  const hasBodyText = parsed.bodyText.length >= MIN_BODY_TEXT
+  if (parsed.attachments.length === 0 && !hasBodyText) {
+    result.inboundEmailId = await recordInboundEmail(parsed, { status: 'no_content', dispensaryId: dispensary.id })
+    result.replySent = await sendReply(parsed, dispensary.name, [], parsed.skipped)
+    return { ...result, status: 'no_content' }
+  }
+
+  if (await aiBudgetExhausted()) {
+    // Nothing can be read until the budget resets; admins see the email as failed
+    result.inboundEmailId = await recordInboundEmail(parsed, {
+      status: 'failed',
+      dispensaryId: dispensary.id,
+      error: 'AI budget exhausted',
+    })
+    return { ...result, status: 'failed' }
+  }
+
+  const inboundEmailId = await recordInboundEmail(parsed, { status: 'processed', dispensaryId: dispensary.id })
+  result.inboundEmailId = inboundEmailId
+  const today = todayIn(timezoneOf(dispensary))
+  const tomorrow = addDays(today, 1)
+
+  try {
+    const unreadable = [...parsed.skipped]
+    const extracted: ExtractedDeal[] = []
+    await withAiSpendContext({ dispensaryId: dispensary.id, dispensaryName: dispensary.name }, async () => {
+      const hints = await getParseHints(dispensary.name)
+      const parse = (text: string) => parseDealsFromText(text, dispensary.name, dispensary.city || undefined, undefined, { hints })
+
+      for (const attachment of parsed.attachments) {
+        try {
+          const buffer = await attachmentBytes(parsed.emailId, attachment)
+          const image = await storeAttachment(buffer, attachment, today)
+          const { text } = await ocrFlyerPages(await splitFlyer(buffer, attachment.content_type.toLowerCase()))
+          const deals = text.trim() ? await parse(text) : []
+          if (deals.length === 0) unreadable.push(attachment.filename)
+          for (const deal of deals) extracted.push({ deal, image, origin: attachment.filename })
+        } catch (error) {
+          unreadable.push(attachment.filename)
+          logger.warn('Inbound email attachment failed', {
+            filename: attachment.filename,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          })
+        }
+      }
+
+      if (hasBodyText) {
+        for (const deal of await parse(parsed.bodyText)) extracted.push({ deal, image: null, origin: 'body' })
+      }
+    })
+
+    // A flyer and its covering text often list the same deal
+    const seenKeys = new Set<string>()
+    const replyDeals: Array<{ title: string; price_text: string; schedule?: string | null }> = []
+    for (const { deal, image, origin } of extracted) {
+      const key = `${deal.title}|${deal.price_text}`.toLowerCase()
+      if (seenKeys.has(key)) continue
+      seenKeys.add(key)
+
+      const weekdays = weekdayMask(deal.recurring_days || []) | detectWeekdayRecurrence(`${deal.title} ${deal.price_text}`)
+      await createDealSubmission(
+        {
+          dispensary_id: dispensary.id,
+          dispensary_name: dispensary.name,
+          city: dispensary.city || '',
+          title: deal.title,
+          category: deal.category,
+          brand: deal.brand || null,
+          description: deal.product_name || null,
+          deal_price: deal.price_text,
+          start_date: today,
+          end_date: weekdays ? null : tomorrow,
+          menu_url: dispensary.menu_url || dispensary.website || null,
+          image,
+          contact_email: parsed.from,
+          recurrence: weekdays ? { weekdays } : null,
+        },
+        {
+          source: 'email',
+          payload: { subject: parsed.subject, from: parsed.from, origin },
+          extracted: deal,
+          inboundEmailId,
+          reviewReason: 'email_submission',
+        }
+      )
+      replyDeals.push({
+        title: deal.title,
+        price_text: deal.price_text,
+        schedule: weekdays
+          ? describeRecurrence({ weekdays, start_time: null, end_time: null, starts_on: today, ends_on: null, exceptions: null })
+          : null,
+      })
+    }
+
+    result.dealsExtracted = replyDeals.length
+    result.replySent = await sendReply(parsed, dispensary.name, replyDeals, unreadable)
+    if (inboundEmailId) {
+      await supabaseAdmin
+        .from('inbound_emails')
+        .update({ deals_extracted: result.dealsExtracted, reply_sent: result.replySent })
+        .eq('id', inboundEmailId)
+    }
+
+    logger.info('Inbound email processed', {
+      dispensary: dispensary.name,
+      attachments: parsed.attachments.length,
+      deals: result.dealsExtracted,
+    })
+    return result
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    if (inboundEmailId) {
+      await supabaseAdmin
+        .from('inbound_emails')
+        .update({ status: 'failed', error: message, deals_extracted: result.dealsExtracted })
+        .eq('id', inboundEmailId)
+    }
+    throw error
+  }
+}
+
+async function sendReply(
+  parsed: ParsedInboundEmail,
+  dispensaryName: string,
+  deals: Array<{ title: string; price_text: string; schedule?: string | null }>,
+  unreadable: string[]
+): Promise<boolean> {
+  const { subject, html } = renderInboundReplyEmail({ dispensaryName, subject: parsed.subject, deals, unreadable })
+  try {
+    const { error } = await resend.emails.send({
+      from: FROM_ADDRESS,
+      to: parsed.from,
+      subject,
+      html,
+      headers: parsed.messageId ? { 'In-Reply-To': parsed.messageId, References: parsed.messageId } : undefined,
+    })
+    if (error) throw new Error(error.message)
+    return true
+  } catch (error) {
+    const { logger } = Sentry
+    logger.warn('Inbound email reply failed', {
+      to: parsed.from,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return false
+  }
+}
@@ -1,19 +1,60 @@
 import * as Sentry from '@sentry/nextjs'
 import { supabaseAdmin } from './supabase/server'
+import { runFlyerPipeline, runWebsitePipeline, type StageResult } from './ingest-pipeline'
+import { discoverDealsPage, MIN_CANDIDATE_SCORE, type DealsPageCrawlResult } from './deals-page-crawler'
+import { beginIngestionRun, explainDeactivation, markRunOutcome, type IngestionTrigger } from './ingestion-runs'
+import { getAiBudgetStatus, isLowYieldDispensary, withAiSpendContext } from './ai-spend'
 
 export interface DispensaryForIngest {
   name: string
   city?: string
   flyer_url?: string
   website?: string
+  /** Deals page found by an earlier crawl of website */
+  deals_url?: string
 }
 
-const APP_URL = process.env.APP_URL || ''
+/** Success rate below which a dispensary is switched off automatically */
+export const AUTO_DEACTIVATE_THRESHOLD = 0.3
+
+/** Crawl candidates tried with an extraction call per run, before falling back to the website root */
+const MAX_CRAWL_ATTEMPTS = 2
+
+export interface DispensaryIngestResult {
+  dealsInserted: number
+  dealsExtended: number
+  /** Set when nothing was produced because of a failure worth retrying (provider error, timeout, 5xx) */
+  retryableError?: string
+}
+
+/**
+ * Whether a stopped stage failed for a reason that may pass on a later attempt.
+ * Missing pages (4xx), robots.txt and empty content will not change within the day.
+ */
+function isTransientStop(result: StageResult<unknown>): boolean {
+  if (result.ok) return false
+  switch (result.reason) {
+    case 'ai_failed':
+    case 'ocr_failed':
+    case 'upload_failed':
+    case 'record_failed':
+    case 'insert_failed':
+      return true
+    case 'fetch_failed': {
+      const status = result.metrics?.httpStatus
+      return status === undefined || status === 429 || status >= 500
+    }
+    default:
+      return false
+  }
+}
 
 /**
  * Ingest deals for a single dispensary.
- * Runs flyer (Weedmaps or any image/PDF) first; if no deals from flyer, tries website as fallback.
- * Uses /api/ingest/fetch, ocr, parse and /api/ingest/website-deals.
+ * Runs flyer (Weedmaps or any image/PDF) first; if no deals from flyer (even when the flyer was listed
+ * as a card because its deals could not be parsed), tries website as fallback:
+ * the remembered deals page, or the best pages found by crawling the site (lib/deals-page-crawler).
+ * Stages run in-process via lib/ingest-pipeline and every attempt is recorded in the ingestion run ledger.
  * Updates dispensary ingestion stats on success/failure.
  *
  * Optional / follow-up: A Weedmaps flyer resolver could use dispensary name+city to find the
@@ -22,54 +63,89 @@ const APP_URL = process.env.APP_URL || ''
  * @returns Number of deals inserted
  */
 export async function ingestDealsForDispensary(
-  dispensary: DispensaryForIngest
+  dispensary: DispensaryForIngest,
+  options?: { trigger?: IngestionTrigger }
 ): Promise<number> {
+  const result = await ingestDispensary(dispensary, options)
+  return result.dealsInserted
+}
+
+/**
+ * ingestDealsForDispensary with the full outcome, for the ingestion job worker.
+ * With `retryable`, a transient failure is returned as retryableError without counting against the
+ * dispensary's success rate: the job is retried, and only its final attempt updates the stats.
+ * Near the AI budget a low-yield dispensary is skipped; AI spend is attributed to the run and `zoneId`.
+ */
+export async function ingestDispensary(
+  dispensary: DispensaryForIngest,
+  options?: { trigger?: IngestionTrigger; retryable?: boolean; zoneId?: string | null }
+): Promise<DispensaryIngestResult> {
   if (!dispensary.flyer_url && !dispensary.website) {
-    return 0
+    return { dealsInserted: 0, dealsExtended: 0 }
   }
 
+  const { logger } = Sentry
+  const budget = await getAiBudgetStatus()
+  if (budget.state !== 'ok' && (await isLowYieldDispensary(dispensary.name))) {
+    logger.info('Skipping low-yield dispensary near the AI budget', {
+      dispensary: dispensary.name,
+      spentTodayUsd: budget.spentTodayUsd,
+      spentMonthUsd: budget.spentMonthUsd,
+    })
+    return { dealsInserted: 0, dealsExtended: 0 }
+  }
+
+  const run = await beginIngestionRun({ dispensaryName: dispensary.name, trigger: options?.trigger ?? 'cron' })
+  const spend = {
+    dispensaryId: run.dispensaryId,
+    dispensaryName: dispensary.name,
+    zoneId: options?.zoneId ?? null,
+    ingestionRunId: run.id,
+  }
   let dealsInserted = 0
+  // An unchanged flyer keeps yesterday's deals running: that counts as a successful run with nothing new to insert
+  let dealsExtended = 0
+  // A flyer listed as a card (its deals could not be parsed) still counts as a successful run for the stats
+  let flyerListed = false
+  let runError: string | undefined
+  let transientError: string | undefined
+  // Stopped by the AI budget rather than by the source: not held against the dispensary
+  let budgetStopped = false
 
   // 1. Flyer first (Weedmaps or any flyer URL)
-  if (dispensary.flyer_url && APP_URL) {
+  if (dispensary.flyer_url) {
     try {
-      const fetchResponse = await fetch(`${APP_URL}/api/ingest/fetch`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          dispensary_name: dispensary.name,
-          source_url: dispensary.flyer_url,
-        }),
-      })
-      if (fetchResponse.ok) {
-        const fetchData = await fetchResponse.json()
-        if (!fetchData.skipped) {
-          const ocrResponse = await fetch(`${APP_URL}/api/ingest/ocr`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ file_path: fetchData.file_path }),
-          })
-          if (ocrResponse.ok) {
-            const ocrData = await ocrResponse.json()
-            const parseResponse = await fetch(`${APP_URL}/api/ingest/parse`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                ocr_text: ocrData.text,
-                dispensary_name: dispensary.name,
-                city: dispensary.city,
-                source_url: dispensary.flyer_url,
-              }),
-            })
-            if (parseResponse.ok) {
-              const parseData = await parseResponse.json()
-              dealsInserted = parseData.deals_inserted || 0
-            }
-          }
-        }
+      const flyerUrl = dispensary.flyer_url
+      const result = await withAiSpendContext(spend, () =>
+        runFlyerPipeline(
+          {
+            dispensaryName: dispensary.name,
+            city: dispensary.city,
+            sourceUrl: flyerUrl,
+          },
+          { onStep: run.stepsFor(flyerUrl) }
+        )
+      )
+      if (result.ok) {
+        dealsInserted = result.data.dealsInserted
+        dealsExtended = result.data.dealsExtended || 0
+        flyerListed = Boolean(result.data.flyerListed)
+      } else if (result.reason === 'not_modified') {
+        dealsExtended = result.metrics?.dealsExtended || 0
+      } else if (result.reason === 'budget_exhausted') {
+        budgetStopped = true
+      } else if (result.reason !== 'duplicate') {
+        if (isTransientStop(result)) transientError = `flyer ${result.stage}: ${result.message}`
+        logger.warn('Flyer ingestion stopped', {
+          dispensary: dispensary.name,
+          stage: result.stage,
+          reason: result.reason,
+          error: result.message,
+        })
       }
     } catch (err) {
-      const { logger } = Sentry
+      runError = `flyer: ${err instanceof Error ? err.message : 'Unknown error'}`
+      transientError = runError
       logger.warn('Flyer ingestion failed', {
         dispensary: dispensary.name,
         error: err instanceof Error ? err.message : 'Unknown error',
@@ -78,81 +154,176 @@ export async function ingestDealsForDispensary(
   }
 
   // 2. If no deals from flyer, try website as fallback
-  if (dealsInserted === 0 && dispensary.website && APP_URL) {
-    try {
-      const website = dispensary.website
-      const possibleUrls = [
-        website.endsWith('/') ? website + 'deals' : website + '/deals',
-        website.endsWith('/') ? website + 'specials' : website + '/specials',
-        website.endsWith('/') ? website + 'menu' : website + '/menu',
-        website,
-      ]
-      for (const url of possibleUrls) {
-        try {
-          const res = await fetch(`${APP_URL}/api/ingest/website-deals`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              dispensary_name: dispensary.name,
-              website_url: url,
+  if (dealsInserted === 0 && dealsExtended === 0 && dispensary.website) {
+    const website = dispensary.website
+    const tried = new Set<string>()
+
+    // Extraction on one URL; 'found' once the page yields deals (even if all were already known)
+    const tryWebsiteUrl = async (url: string): Promise<'found' | 'empty' | 'unreachable'> => {
+      tried.add(url)
+      try {
+        const result = await withAiSpendContext(spend, () =>
+          runWebsitePipeline(
+            {
+              dispensaryName: dispensary.name,
+              websiteUrl: url,
               city: dispensary.city,
-            }),
-          })
-          if (res.ok) {
-            const data = await res.json()
-            if (data.deals_inserted > 0) {
-              dealsInserted = data.deals_inserted
-              break
-            }
+            },
+            { onStep: run.stepsFor(url) }
+          )
+        )
+        if (!result.ok) {
+          if (result.reason === 'budget_exhausted') {
+            budgetStopped = true
+            return 'empty'
+          }
+          // Unchanged since the last run: its deals were extended and the page is still the right one
+          if (result.reason === 'not_modified') {
+            dealsExtended += result.metrics?.dealsExtended || 0
+            return 'found'
           }
-        } catch {
-          continue
+          if (isTransientStop(result)) transientError = `website ${result.stage}: ${result.message}`
+          return result.reason === 'fetch_failed' || result.reason === 'content_too_short' || result.reason === 'robots_disallowed'
+            ? 'unreachable'
+            : 'empty'
+        }
+        dealsInserted = result.data.dealsInserted
+        return (result.metrics?.dealsFound ?? 0) > 0 ? 'found' : 'empty'
+      } catch (err) {
+        runError = `website: ${err instanceof Error ? err.message : 'Unknown error'}`
+        transientError = runError
+        logger.warn('Website extraction failed', {
+          dispensary: dispensary.name,
+          url,
+          error: err instanceof Error ? err.message : 'Unknown error',
+        })
+        return 'unreachable'
+      }
+    }
+
+    // A remembered page that still loads is trusted even on days it lists nothing; only a dead one triggers a new crawl
+    const remembered = dispensary.deals_url ? await tryWebsiteUrl(dispensary.deals_url) : 'unreachable'
+
+    if (remembered === 'unreachable') {
+      const crawl = await discoverDealsPage(website)
+      await recordDealsPageCrawl(dispensary.name, crawl)
+
+      const urls = crawl.candidates
+        .filter((candidate) => candidate.score >= MIN_CANDIDATE_SCORE && !tried.has(candidate.url))
+        .slice(0, MAX_CRAWL_ATTEMPTS)
+        .map((candidate) => candidate.url)
+      if (!tried.has(website)) urls.push(website)
+
+      for (const url of urls) {
+        if ((await tryWebsiteUrl(url)) === 'found') {
+          await rememberDealsUrl(dispensary.name, url)
+          break
         }
       }
-    } catch (err) {
-      const { logger } = Sentry
-      logger.warn('Website extraction failed', {
-        dispensary: dispensary.name,
-        error: err instanceof Error ? err.message : 'Unknown error',
-      })
     }
   }
 
-  await updateDispensaryStats(dispensary.name, dealsInserted > 0)
-  return dealsInserted
+  // A thrown error only marks the run failed when nothing was inserted
+  const produced = dealsInserted > 0 || dealsExtended > 0 || flyerListed
+  await run.finish({ dealsInserted, error: produced ? undefined : runError })
+  const retryableError = produced ? undefined : transientError
+  if (!(options?.retryable && retryableError) && (produced || !budgetStopped)) {
+    await updateDispensaryStats(dispensary.name, produced, run.id)
+  }
+  return { dealsInserted, dealsExtended, retryableError }
+}
+
+/**
+ * Store a crawl's ranked candidates on the dispensary so admins can see what was considered.
+ */
+export async function recordDealsPageCrawl(dispensaryName: string, crawl: DealsPageCrawlResult): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('dispensaries')
+    .update({
+      deals_page_candidates: crawl.candidates,
+      deals_page_crawled_at: new Date().toISOString(),
+    })
+    .eq('name', dispensaryName)
+
+  if (error) {
+    console.error('Failed to record deals page crawl:', error)
+  }
+}
+
+/**
+ * Remember the page that produced deals, so the next run goes straight to it.
+ */
+async function rememberDealsUrl(dispensaryName: string, url: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('dispensaries')
+    .update({ deals_url: url, deals_url_found_at: new Date().toISOString() })
+    .eq('name', dispensaryName)
+
+  if (error) {
+    console.error('Failed to remember deals URL:', error)
+  }
 }
 
 /**
  * Update dispensary ingestion_success_rate and last_ingested_at.
+ * When the rate drops below AUTO_DEACTIVATE_THRESHOLD the dispensary is switched off and the reason,
+ * built from its run history, is stored on the row (and the run) so an admin can see why and undo it.
  */
 export async function updateDispensaryStats(
   dispensaryName: string,
-  success: boolean
+  success: boolean,
+  runId?: string | null
 ): Promise<void> {
   try {
     const { data: dispensary } = await supabaseAdmin
       .from('dispensaries')
-      .select('ingestion_success_rate, last_ingested_at')
+      .select('ingestion_success_rate, last_ingested_at, active')
       .eq('name', dispensaryName)
       .single()
 
     if (!dispensary) return
 
-    const currentRate = dispensary.ingestion_success_rate || 1.0
+    const currentRate = dispensary.ingestion_success_rate ?? 1.0
     const newRate = success
       ? Math.min(1.0, currentRate + 0.1)
       : Math.max(0.0, currentRate - 0.2)
-    const shouldBeActive = newRate >= 0.3
+    const shouldBeActive = newRate >= AUTO_DEACTIVATE_THRESHOLD
+    const deactivating = dispensary.active !== false && !shouldBeActive
+
+    const update: Record<string, unknown> = {
+      last_ingested_at: new Date().toISOString(),
+      ingestion_success_rate: newRate,
+      active: shouldBeActive,
+      updated_at: new Date().toISOString(),
+    }
+
+    if (deactivating) {
+      update.deactivated_at = new Date().toISOString()
+      update.deactivated_by_run_id = runId || null
+      update.deactivation_reason = await explainDeactivation(dispensaryName, newRate, AUTO_DEACTIVATE_THRESHOLD)
+    } else if (shouldBeActive && dispensary.active === false) {
+      update.deactivated_at = null
+      update.deactivated_by_run_id = null
+      update.deactivation_reason = null
+      update.reactivated_at = new Date().toISOString()
+    }
 
     await supabaseAdmin
       .from('dispensaries')
-      .update({
-        last_ingested_at: new Date().toISOString(),
-        ingestion_success_rate: newRate,
-        active: shouldBeActive,
-        updated_at: new Date().toISOString(),
-      })
+      .update(update)
       .eq('name', dispensaryName)
+
+    if (runId) {
+      await markRunOutcome(runId, { successRateAfter: newRate, deactivated: deactivating })
+    }
+
+    if (deactivating) {
+      const { logger } = Sentry
+      logger.warn('Dispensary auto-deactivated', {
+        dispensary: dispensaryName,
+        reason: update.deactivation_reason as string,
+      })
+    }
   } catch (err) {
     const { logger } = Sentry
     logger.error('Error updating dispensary stats', {
@@ -165,3 +336,29 @@ export async function updateDispensaryStats(
     })
   }
 }
+
+/**
+ * Undo a deactivation: switch the dispensary back on and give it a fresh success rate
+ * so the next failed run does not immediately switch it off again.
+ */
+export async function reactivateDispensary(id: string) {
+  const { data, error } = await supabaseAdmin
+    .from('dispensaries')
+    .update({
+      active: true,
+      ingestion_success_rate: 1.0,
+      deactivated_at: null,
+      deactivated_by_run_id: null,
+      deactivation_reason: null,
+      reactivated_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to reactivate dispensary: ${error.message}`)
+  }
+  return data
+}
@@ -0,0 +1,1130 @@
+/**
+ * In-process ingestion pipeline.
+ * Stages: fetchFlyer → ocrFlyer → parseFlyer for image/PDF flyers, extractWebsite for HTML deal pages.
+ * Cron jobs, the admin ingest-url route and the public /api/ingest/* routes all call these directly;
+ * every stage returns a typed result that says why it stopped instead of throwing across an HTTP hop.
+ */
+
+import { createHash } from 'crypto'
+import * as Sentry from '@sentry/nextjs'
+import { supabaseAdmin } from './supabase/server'
+import { computeFileHash } from './file-utils'
+import {
+  splitFlyer,
+  ocrFlyerPages,
+  perceptualHash,
+  hammingDistance,
+  imagesLookIdentical,
+  mimeTypeForPath,
+  type StoredFlyerPage,
+} from './flyer-pages'
+import type { OcrRegion } from './ocr'
+import { parseDealsFromText, type Deal } from './ai-parser'
+import { countParseHints, getParseHints } from './parse-hints'
+import { extractDealsFromWebsite } from './website-deals'
+import { extractMenuDeals } from './menu-adapters'
+import { politeFetch, saveValidators, type FetchValidators } from './polite-fetch'
+import { calculateDealHash, validateDealQuality, flagForReview, type DealWithMetadata } from './deal-quality'
+import { findOrCreateBrand, extractBrandFromTitle, getBrandId, canonicalBrandName } from './brand-extraction'
+import { findBestMatch, DUPLICATE_THRESHOLD } from './deal-matching'
+import { recordDealSources, type DealSourceInput, type DealSourceType } from './deal-sources'
+import {
+  createRecurrence,
+  detectWeekdayRecurrence,
+  findRecurringDeal,
+  markRecurrenceSeen,
+  weekdayMask,
+} from './recurring-deals'
+import { dealPricingColumns } from './pricing'
+import { dealCategoryColumns } from './categories'
+import { recordFlyerListing, extendFlyerListings, type FlyerListingReason } from './flyer-listings'
+import { queueDealThumbnails } from './deal-thumbnails'
+import { aiBudgetExhausted } from './ai-spend'
+import { addDays, timezoneOf, todayIn } from './dates'
+import { revalidateDeals } from './deal-cache'
+import type { AiUsage } from './types'
+
+export type PipelineStage = 'fetch' | 'ocr' | 'parse' | 'website'
+
+export type StopReason =
+  | 'duplicate' // Flyer with this content was already ingested today
+  | 'not_modified' // Source answered 304: unchanged since it was last processed, its deals were extended
+  | 'fetch_failed' // Source URL could not be downloaded
+  | 'robots_disallowed' // robots.txt keeps us off the source URL
+  | 'content_too_short' // Downloaded page had no usable content
+  | 'upload_failed' // Storage upload failed
+  | 'record_failed' // deal_flyers row could not be written
+  | 'not_found' // Stored flyer file is missing
+  | 'ocr_failed' // OCR provider errored
+  | 'empty_text' // OCR returned no text
+  | 'ai_failed' // AI extraction errored
+  | 'insert_failed' // Deals could not be written
+  | 'budget_exhausted' // AI budget reached (lib/ai-spend): ingestion is cache-only
+
+/** Per-stage measurements recorded in the ingestion run ledger */
+export interface StageMetrics {
+  httpStatus?: number
+  ocrLength?: number
+  dealsFound?: number
+  dealsFiltered?: number
+  duplicates?: number
+  flagged?: number
+  aiTokens?: number
+  /** Estimated cost of the stage's AI calls in USD */
+  aiCostUsd?: number
+  dealsExtended?: number
+  /** Dispensary parse hints in the AI prompt (lib/parse-hints) */
+  parseHints?: number
+}
+
+export type StageResult<T> =
+  | { ok: true; stage: PipelineStage; data: T; metrics?: StageMetrics }
+  | { ok: false; stage: PipelineStage; reason: StopReason; message: string; metrics?: StageMetrics }
+
+/** Called after each stage of a composite pipeline run completes or stops */
+export type StageCallback = (result: StageResult<unknown>, durationMs: number) => Promise<void> | void
+
+export interface FetchedFlyer {
+  filePath: string
+  hash: string
+  sourceUrl: string
+  /** Set when the same flyer was already OCR'd on an earlier date; its text was copied and nothing was re-uploaded */
+  unchangedFrom?: { flyerId: string; date: string; dispensaryName: string }
+  /** ETag / Last-Modified of the download, stored once the flyer has been parsed */
+  validators: FetchValidators | null
+}
+
+export interface OcrOutput {
+  text: string
+  confidence?: number
+  cached: boolean
+  /** Number of pieces (PDF pages or image tiles) the flyer was OCR'd in */
+  pages?: number
+  /** Pieces whose text was reused from an earlier version of the flyer */
+  reusedPages?: number
+}
+
+export interface ParseOutput {
+  dealsInserted: number
+  deals: Deal[]
+  flaggedForReview: number
+  lowConfidenceHandled: boolean
+  /** Set when AI parsing was skipped or failed; the flyer is listed instead of its deals */
+  fallback?: 'text_too_short' | 'ai_failed' | 'budget_exhausted'
+  /** The flyer was listed as a "See today's flyer" card (lib/flyer-listings); not counted in dealsInserted */
+  flyerListed?: boolean
+  /** Flyer unchanged since an earlier date: its deals had their end dates extended instead of being re-parsed */
+  dealsExtended?: number
+}
+
+export interface WebsiteOutput {
+  dealsInserted: number
+  deals: Deal[]
+  flaggedForReview: number
+  /** Menu adapter that read the deals from the page's structured data; unset when AI extraction ran */
+  adapter?: string
+}
+
+export interface InsertDealsContext {
+  dispensaryName: string
+  city?: string
+  date: string
+  sourceUrl: string | null
+  /** Where the deals came from, recorded as provenance on the canonical deal */
+  sourceType: DealSourceType
+  /** Flag every inserted deal for review, not just those failing quality checks */
+  forceReview?: boolean
+  /** Review reason prepended to quality reasons (e.g. 'extension_capture') */
+  reviewReason?: string
+  reviewNotes?: string
+  /** Extra columns written on every inserted deal (e.g. dispensary_id) */
+  extraColumns?: Record<string, unknown>
+}
+
+export interface InsertDealsOutput {
+  inserted: Array<{ id: string; deal: Deal }>
+  flaggedForReview: number
+  duplicates: number
+  /** Deals dropped by quality checks (not duplicates) */
+  filtered: number
+}
+
+const MIN_PARSE_TEXT_LENGTH = 50
+const MIN_CONFIDENCE = 0.5
+/** How many earlier flyers from the same dispensary are searched for reusable content or page text */
+const PAGE_CACHE_FLYERS = 10
+/** perceptualHash distance within which an earlier flyer is compared pixel by pixel */
+const PHASH_CANDIDATE_DISTANCE = 24
+
+/** Dispensary timezones (lib/dates), read once per process */
+const dispensaryTimezones = new Map<string, string>()
+
+/**
+ * Today where the dispensary is: flyer, deal and listing dates are its calendar days.
+ */
+async function dispensaryToday(dispensaryName: string): Promise<string> {
+  let timezone = dispensaryTimezones.get(dispensaryName)
+  if (!timezone) {
+    const { data } = await supabaseAdmin.from('dispensaries').select('timezone').eq('name', dispensaryName).maybeSingle()
+    timezone = timezoneOf(data)
+    dispensaryTimezones.set(dispensaryName, timezone)
+  }
+  return todayIn(timezone)
+}
+
+function stopped<T>(
+  stage: PipelineStage,
+  reason: StopReason,
+  message: string,
+  metrics?: StageMetrics
+): StageResult<T> {
+  return { ok: false, stage, reason, message, metrics }
+}
+
+function addAiUsage(metrics: StageMetrics, usage: AiUsage) {
+  metrics.aiTokens = (metrics.aiTokens || 0) + usage.totalTokens
+  metrics.aiCostUsd = (metrics.aiCostUsd || 0) + (usage.costUsd || 0)
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : 'Unknown error'
+}
+
+/**
+ * HTTP status a route should use when surfacing a stopped stage.
+ */
+export function stopReasonStatus(reason: StopReason): number {
+  switch (reason) {
+    case 'duplicate':
+    case 'not_modified':
+      return 200
+    case 'fetch_failed':
+    case 'robots_disallowed':
+    case 'content_too_short':
+      return 400
+    case 'not_found':
+      return 404
+    case 'budget_exhausted':
+      return 429
+    default:
+      return 500
+  }
+}
+
+function flyerExtension(sourceUrl: string): string {
+  const pathname = new URL(sourceUrl).pathname.toLowerCase()
+  if (pathname.endsWith('.pdf')) return 'pdf'
+  if (pathname.endsWith('.jpg') || pathname.endsWith('.jpeg')) return 'jpg'
+  if (pathname.endsWith('.webp')) return 'webp'
+  return 'png'
+}
+
+interface PreviousFlyer {
+  id: string
+  dispensary_name: string
+  date: string
+  file_path: string
+  hash: string
+  phash: string | null
+  ocr_text: string
+  ocr_text_hash: string | null
+  ocr_processed_at: string | null
+  pages: StoredFlyerPage[] | null
+  page_count: number | null
+  unchanged_from_flyer_id: string | null
+  unchanged_from_flyer: { date: string; dispensary_name: string } | null
+}
+
+const PREVIOUS_FLYER_SELECT = `
+  id, dispensary_name, date, file_path, hash, phash, ocr_text, ocr_text_hash, ocr_processed_at,
+  pages, page_count, unchanged_from_flyer_id,
+  unchanged_from_flyer:deal_flyers!unchanged_from_flyer_id ( date, dispensary_name )
+`
+
+/**
+ * An earlier, already-OCR'd flyer with the same content: byte-identical (any dispensary, so
+ * chains sharing one flyer reuse text), or a recent flyer of this dispensary whose perceptual
+ * hash is close and whose pixels match.
+ */
+async function findUnchangedFlyer(
+  dispensaryName: string,
+  buffer: Buffer,
+  hash: string,
+  phash: string | null
+): Promise<PreviousFlyer | null> {
+  const { data: exact } = await supabaseAdmin
+    .from('deal_flyers')
+    .select(PREVIOUS_FLYER_SELECT)
+    .eq('hash', hash)
+    .not('ocr_text', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(5)
+
+  const exactMatches = (exact || []) as unknown as PreviousFlyer[]
+  const exactMatch = exactMatches.find((flyer) => flyer.dispensary_name === dispensaryName) || exactMatches[0]
+  if (exactMatch) return exactMatch
+  if (!phash) return null
+
+  const { data: recent } = await supabaseAdmin
+    .from('deal_flyers')
+    .select(PREVIOUS_FLYER_SELECT)
+    .eq('dispensary_name', dispensaryName)
+    .not('phash', 'is', null)
+    .not('ocr_text', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(PAGE_CACHE_FLYERS)
+
+  for (const candidate of (recent || []) as unknown as PreviousFlyer[]) {
+    if (!candidate.phash || hammingDistance(candidate.phash, phash) > PHASH_CANDIDATE_DISTANCE) continue
+
+    const { data: stored } = await supabaseAdmin.storage.from('deal-flyers').download(candidate.file_path)
+    if (stored && (await imagesLookIdentical(buffer, Buffer.from(await stored.arrayBuffer())))) {
+      return candidate
+    }
+  }
+  return null
+}
+
+/**
+ * Stage 1: download a flyer, skip it if today's copy was already OCR'd or parsed, upload it and record it in deal_flyers.
+ * Today's copy recorded by an attempt that failed before OCR is reused, so a retry resumes from it.
+ * A flyer already OCR'd on an earlier date is recorded against the stored copy and its text instead.
+ * A 304 from the conditional fetch stops here with 'not_modified' after extending the flyer's deals.
+ */
+export async function fetchFlyer(input: {
+  dispensaryName: string
+  sourceUrl: string
+}): Promise<StageResult<FetchedFlyer>> {
+  const download = await politeFetch(input.sourceUrl, { conditional: true })
+  const metrics: StageMetrics = { httpStatus: download.status ?? undefined }
+  if (download.outcome === 'not_modified') {
+    return notModified('fetch', input.dispensaryName, input.sourceUrl, metrics)
+  }
+  if (download.outcome === 'robots_disallowed') {
+    return stopped('fetch', 'robots_disallowed', download.error || 'Disallowed by robots.txt', metrics)
+  }
+
+  let fileBuffer: Buffer
+  try {
+    if (!download.response) throw new Error(`Failed to download file: ${download.error || download.outcome}`)
+    fileBuffer = Buffer.from(await download.response.arrayBuffer())
+  } catch (err) {
+    return stopped('fetch', 'fetch_failed', errorMessage(err), metrics)
+  }
+  const validators = download.validators
+
+  const hash = computeFileHash(fileBuffer)
+  const today = await dispensaryToday(input.dispensaryName)
+
+  const { data: existing } = await supabaseAdmin
+    .from('deal_flyers')
+    .select('id, file_path, ocr_text, processed_at')
+    .eq('hash', hash)
+    .eq('date', today)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (existing?.ocr_text || existing?.processed_at) {
+    return stopped('fetch', 'duplicate', 'Flyer already ingested today', metrics)
+  }
+  // Recorded today by an attempt that stopped before OCR finished (e.g. a retried job): pick up from its stored copy
+  if (existing) {
+    return {
+      ok: true,
+      stage: 'fetch',
+      data: { filePath: existing.file_path, hash, sourceUrl: input.sourceUrl, validators },
+      metrics,
+    }
+  }
+
+  const ext = flyerExtension(input.sourceUrl)
+  const contentType = ext === 'pdf' ? 'application/pdf' : `image/${ext}`
+  const phash = await perceptualHash(fileBuffer, contentType)
+
+  // Content-addressed: an identical flyer OCR'd on an earlier date is recorded for today without re-upload or re-OCR
+  const previous = await findUnchangedFlyer(input.dispensaryName, fileBuffer, hash, phash)
+  if (previous) {
+    const { error: reuseError } = await supabaseAdmin.from('deal_flyers').insert({
+      dispensary_name: input.dispensaryName,
+      date: today,
+      file_path: previous.file_path,
+      source_url: input.sourceUrl,
+      hash,
+      phash,
+      ocr_text: previous.ocr_text,
+      ocr_text_hash: previous.ocr_text_hash,
+      ocr_processed_at: previous.ocr_processed_at,
+      pages: previous.pages,
+      page_count: previous.page_count,
+      unchanged_from_flyer_id: previous.unchanged_from_flyer_id || previous.id,
+    })
+    if (reuseError) {
+      return stopped('fetch', 'record_failed', reuseError.message, metrics)
+    }
+
+    const original = previous.unchanged_from_flyer
+    return {
+      ok: true,
+      stage: 'fetch',
+      data: {
+        filePath: previous.file_path,
+        hash,
+        sourceUrl: input.sourceUrl,
+        validators,
+        unchangedFrom: {
+          flyerId: previous.unchanged_from_flyer_id || previous.id,
+          date: original?.date || previous.date,
+          dispensaryName: original?.dispensary_name || previous.dispensary_name,
+        },
+      },
+      metrics,
+    }
+  }
+
+  const filePath = `${input.dispensaryName}/${today}/${hash}.${ext}`
+
+  const { error: uploadError } = await supabaseAdmin.storage
+    .from('deal-flyers')
+    .upload(filePath, fileBuffer, {
+      contentType,
+      upsert: false,
+    })
+
+  if (uploadError) {
+    return stopped('fetch', 'upload_failed', uploadError.message, metrics)
+  }
+
+  const { error: insertError } = await supabaseAdmin
+    .from('deal_flyers')
+    .insert({
+      dispensary_name: input.dispensaryName,
+      date: today,
+      file_path: filePath,
+      source_url: input.sourceUrl,
+      hash,
+      phash,
+    })
+
+  if (insertError) {
+    return stopped('fetch', 'record_failed', insertError.message, metrics)
+  }
+
+  return { ok: true, stage: 'fetch', data: { filePath, hash, sourceUrl: input.sourceUrl, validators }, metrics }
+}
+
+/**
+ * OCR text and deal regions of pages from the dispensary's recent flyers, keyed by page hash.
+ * Flyer paths are `{dispensary}/{date}/{hash}.{ext}`, so the first segment names the dispensary.
+ */
+async function previousPageTexts(
+  filePath: string
+): Promise<{ text: Map<string, string>; regions: Map<string, OcrRegion[]> }> {
+  const cache = new Map<string, string>()
+  const regions = new Map<string, OcrRegion[]>()
+  const dispensaryName = filePath.split('/')[0]
+  const { data: flyers } = await supabaseAdmin
+    .from('deal_flyers')
+    .select('pages')
+    .eq('dispensary_name', dispensaryName)
+    .not('pages', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(PAGE_CACHE_FLYERS)
+
+  for (const flyer of flyers || []) {
+    for (const page of (flyer.pages as StoredFlyerPage[] | null) || []) {
+      if (page.ocr_text && !cache.has(page.hash)) {
+        cache.set(page.hash, page.ocr_text)
+        if (page.regions) regions.set(page.hash, page.regions)
+      }
+    }
+  }
+  return { text: cache, regions }
+}
+
+/**
+ * Stage 2: OCR a stored flyer, reusing today's cached text when present.
+ * The flyer is split into pages/tiles first; pages unchanged since an earlier flyer reuse its text.
+ * Once the AI budget is reached, a flyer without cached text is listed as a card instead.
+ */
+export async function ocrFlyer(input: { filePath: string; city?: string }): Promise<StageResult<OcrOutput>> {
+  // Stored as `${dispensaryName}/${date}/${hash}.${ext}` (fetchFlyer)
+  const today = await dispensaryToday(input.filePath.split('/')[0])
+  const { data: flyer } = await supabaseAdmin
+    .from('deal_flyers')
+    .select('id, file_path, dispensary_name, source_url, ocr_text, ocr_processed_at')
+    .eq('file_path', input.filePath)
+    .eq('date', today)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (flyer?.ocr_text) {
+    return {
+      ok: true,
+      stage: 'ocr',
+      data: { text: flyer.ocr_text, cached: true },
+      metrics: { ocrLength: flyer.ocr_text.length, aiTokens: 0 },
+    }
+  }
+
+  if (await aiBudgetExhausted()) {
+    if (flyer) {
+      await listFlyer(
+        flyer,
+        { dispensaryName: flyer.dispensary_name, city: input.city, date: today, sourceUrl: flyer.source_url },
+        'budget_exhausted'
+      )
+    }
+    return stopped('ocr', 'budget_exhausted', 'AI budget reached; flyer listed without OCR')
+  }
+
+  const { data: fileData, error: downloadError } = await supabaseAdmin.storage
+    .from('deal-flyers')
+    .download(input.filePath)
+
+  if (downloadError || !fileData) {
+    return stopped('ocr', 'not_found', downloadError?.message || 'File not found')
+  }
+
+  const buffer = Buffer.from(await fileData.arrayBuffer())
+
+  const metrics: StageMetrics = { aiTokens: 0 }
+  let result: Awaited<ReturnType<typeof ocrFlyerPages>>
+  try {
+    const pages = await splitFlyer(buffer, mimeTypeForPath(input.filePath))
+    const cached = await previousPageTexts(input.filePath)
+    result = await ocrFlyerPages(pages, {
+      cachedText: cached.text,
+      cachedRegions: cached.regions,
+      onUsage: (usage) => addAiUsage(metrics, usage),
+    })
+  } catch (err) {
+    return stopped('ocr', 'ocr_failed', errorMessage(err), metrics)
+  }
+
+  metrics.ocrLength = result.text.length
+  if (result.failedPages === result.pages.length) {
+    return stopped('ocr', 'ocr_failed', result.lastError || 'OCR failed', metrics)
+  }
+  if (result.text.trim().length === 0) {
+    return stopped('ocr', 'empty_text', 'OCR returned no text', metrics)
+  }
+
+  // Persist OCR result for future reuse; failed pages are left without text so they are retried
+  if (flyer?.id) {
+    try {
+      await supabaseAdmin
+        .from('deal_flyers')
+        .update({
+          ocr_text: result.failedPages === 0 ? result.text : null,
+          ocr_text_hash: createHash('sha256').update(result.text).digest('hex'),
+          ocr_processed_at: new Date().toISOString(),
+          pages: result.pages,
+          page_count: result.pages.length,
+        })
+        .eq('id', flyer.id)
+    } catch (cacheError) {
+      console.error('Failed to cache OCR text:', cacheError)
+    }
+  }
+
+  return {
+    ok: true,
+    stage: 'ocr',
+    data: { text: result.text, cached: false, pages: result.pages.length, reusedPages: result.reusedPages },
+    metrics,
+  }
+}
+
+/**
+ * dispensaries.id for the deals being inserted: from extraColumns when the caller already knows it, else by name.
+ */
+async function resolveDispensaryId(context: InsertDealsContext): Promise<string | null> {
+  const known = context.extraColumns?.dispensary_id
+  if (typeof known === 'string') return known
+
+  const { data } = await supabaseAdmin
+    .from('dispensaries')
+    .select('id')
+    .eq('name', context.dispensaryName)
+    .maybeSingle()
+  return data?.id || null
+}
+
+/**
+ * Run quality checks, brand extraction and insertion for parsed deals.
+ * Duplicates (by similarity, across sources) are merged into the existing deal as a deal_sources entry;
+ * deals failing quality checks (or all deals with forceReview) are flagged for review.
+ */
+export async function insertParsedDeals(
+  deals: Deal[],
+  context: InsertDealsContext
+): Promise<StageResult<InsertDealsOutput>> {
+  let duplicates = 0
+  let filtered = 0
+  const dealsToInsert: Array<{
+    source: Deal
+    match: DealWithMetadata
+    row: Record<string, unknown>
+    reviewReason?: string
+    possibleDuplicateOf?: string
+    /** Weekday mask of a proposed weekly special (lib/recurring-deals) */
+    recurrence?: number
+  }> = []
+  const mergedSources: Array<{ dealId: string; source: DealSourceInput }> = []
+  const dispensaryId = await resolveDispensaryId(context)
+
+  const sourceFor = (deal: Deal, similarity?: number): DealSourceInput => ({
+    sourceType: context.sourceType,
+    sourceUrl: context.sourceUrl,
+    title: deal.title,
+    priceText: deal.price_text,
+    seenOn: context.date,
+    similarity,
+  })
+
+  for (const deal of deals) {
+    // Extract brand from deal (AI may have extracted it, or we use fallback)
+    let brandName: string | null = null
+    let productName: string | null = null
+
+    // The model's brand is used unless it's a non-brand word; variants map to the known spelling
+    const aiBrand = deal.brand ? canonicalBrandName(deal.brand) : null
+    if (deal.brand && aiBrand) {
+      brandName = aiBrand
+      productName = deal.product_name || deal.title.replace(deal.brand, '').trim()
+    } else {
+      const extracted = extractBrandFromTitle(deal.title)
+      if (extracted.brand) {
+        brandName = extracted.brand
+        productName = extracted.productName
+      }
+    }
+
+    const dealWithMetadata: DealWithMetadata = {
+      category: deal.category,
+      title: deal.title,
+      brand: deal.brand,
+      product_name: deal.product_name,
+      price_text: deal.price_text,
+      confidence: deal.confidence,
+      dispensary_name: context.dispensaryName,
+      dispensary_id: dispensaryId,
+      // Lookup only: brands are created below, once the deal is known not to be a duplicate
+      brand_id: brandName ? await getBrandId(brandName) : null,
+      date: context.date,
+      city: context.city,
+    }
+
+    // The same deal twice in one batch (e.g. repeated on two flyer pages)
+    const inBatch = findBestMatch(dealWithMetadata, dealsToInsert.map((item) => item.match))
+    if (inBatch && inBatch.score >= DUPLICATE_THRESHOLD) {
+      duplicates++
+      continue
+    }
+
+    // A weekly special already on file is marked seen; a new one is proposed as a recurrence for review
+    // instead of a one-day deal, whatever one-day copies of it earlier ingests left behind
+    const recurrence =
+      weekdayMask(deal.recurring_days || []) | detectWeekdayRecurrence(`${deal.title} ${deal.price_text}`)
+    if (recurrence) {
+      const existing = await findRecurringDeal(context.dispensaryName, dealWithMetadata, context.date)
+      if (existing) {
+        duplicates++
+        await markRecurrenceSeen(existing.id, context.date)
+        mergedSources.push({ dealId: existing.id, source: sourceFor(deal, existing.score) })
+        continue
+      }
+    }
+
+    const dealHash = calculateDealHash(dealWithMetadata)
+    const qualityCheck = await validateDealQuality(dealWithMetadata)
+
+    if (qualityCheck.duplicateFound && !recurrence) {
+      duplicates++
+      if (qualityCheck.matchedDealId) {
+        mergedSources.push({ dealId: qualityCheck.matchedDealId, source: sourceFor(deal, qualityCheck.matchScore) })
+      }
+      continue
+    }
+    if (!qualityCheck.isValid && !qualityCheck.duplicateFound) {
+      filtered++
+      continue
+    }
+
+    const brandId = brandName ? await findOrCreateBrand(brandName) : null
+
+    const needsReview = context.forceReview || qualityCheck.needsReview || recurrence > 0
+    const reviewReason =
+      [context.reviewReason, recurrence ? 'recurrence_proposal' : null, qualityCheck.reviewReason]
+        .filter(Boolean)
+        .join(', ') || undefined
+
+    dealsToInsert.push({
+      source: deal,
+      match: { ...dealWithMetadata, brand_id: brandId },
+      row: {
+        ...context.extraColumns,
+        dispensary_id: dispensaryId,
+        dispensary_name: context.dispensaryName,
+        city: context.city || null,
+        date: context.date,
+        ...dealCategoryColumns(deal),
+        title: deal.title,
+        product_name: productName,
+        price_text: deal.price_text,
+        ...dealPricingColumns(deal),
+        source_url: context.sourceUrl,
+        brand_id: brandId,
+        confidence: deal.confidence ?? 1.0,
+        deal_hash: dealHash,
+        needs_review: needsReview,
+        recurring: recurrence > 0,
+      },
+      reviewReason: needsReview ? reviewReason : undefined,
+      possibleDuplicateOf: qualityCheck.matchedDealId,
+      recurrence: recurrence || undefined,
+    })
+  }
+
+  await recordDealSources(mergedSources)
+
+  if (dealsToInsert.length === 0) {
+    return { ok: true, stage: 'parse', data: { inserted: [], flaggedForReview: 0, duplicates, filtered } }
+  }
+
+  const { data: insertedDeals, error: insertError } = await supabaseAdmin
+    .from('deals')
+    .insert(dealsToInsert.map((item) => item.row))
+    .select('id, needs_review')
+
+  if (insertError || !insertedDeals) {
+    return stopped('parse', 'insert_failed', insertError?.message || 'Failed to insert deals')
+  }
+
+  await recordDealSources(
+    insertedDeals.map((row, i) => ({ dealId: row.id, source: sourceFor(dealsToInsert[i].source) }))
+  )
+
+  let flaggedForReview = 0
+  for (let i = 0; i < insertedDeals.length; i++) {
+    const { reviewReason, possibleDuplicateOf, recurrence } = dealsToInsert[i]
+    if (recurrence) {
+      try {
+        await createRecurrence(insertedDeals[i].id, { weekdays: recurrence, starts_on: context.date }, 'parser')
+      } catch (err) {
+        console.error('Failed to propose deal recurrence:', err)
+      }
+    }
+    if (insertedDeals[i].needs_review && reviewReason) {
+      await flagForReview(insertedDeals[i].id, reviewReason, context.reviewNotes, possibleDuplicateOf)
+      flaggedForReview++
+    }
+  }
+  if (insertedDeals.some((row) => !row.needs_review)) revalidateDeals()
+
+  return {
+    ok: true,
+    stage: 'parse',
+    data: {
+      inserted: insertedDeals.map((row, i) => ({ id: row.id, deal: dealsToInsert[i].source })),
+      flaggedForReview,
+      duplicates,
+      filtered,
+    },
+  }
+}
+
+/**
+ * List today's flyer record for the dispensary as a flyer card. False when there is no stored
+ * flyer to show (text posted to /api/ingest/parse without a fetched flyer) or the write failed.
+ */
+async function listFlyer(
+  flyer: { id: string; file_path: string } | null,
+  input: { dispensaryName: string; city?: string; date: string; sourceUrl: string | null },
+  reason: FlyerListingReason,
+  unparsedDeals = 0
+): Promise<boolean> {
+  if (!flyer) return false
+  return recordFlyerListing({
+    flyerId: flyer.id,
+    filePath: flyer.file_path,
+    dispensaryName: input.dispensaryName,
+    city: input.city,
+    date: input.date,
+    sourceUrl: input.sourceUrl,
+    reason,
+    unparsedDeals,
+  })
+}
+
+/**
+ * Keep the deals parsed from an unchanged flyer running through tomorrow, marking them seen today.
+ * Deals expired in the meantime are restored and the flyer's listing, if any, stays up.
+ * Returns how many deals and listings were extended.
+ */
+async function extendUnchangedDeals(input: {
+  dispensaryName: string
+  date: string
+  sourceUrl: string
+  today: string
+}): Promise<number> {
+  const tomorrow = addDays(input.today, 1)
+  const now = new Date().toISOString()
+  const listingsExtended = await extendFlyerListings(input)
+
+  const { data: seen, error } = await supabaseAdmin
+    .from('deals')
+    .update({ last_seen_date: input.today, updated_at: now })
+    .eq('dispensary_name', input.dispensaryName)
+    .eq('date', input.date)
+    .eq('source_url', input.sourceUrl)
+    .eq('recurring', false) // Weekly specials run by their rule, not end_date
+    .select('id')
+
+  if (error || !seen || seen.length === 0) {
+    if (error) console.error('Failed to extend unchanged flyer deals:', error)
+    return listingsExtended
+  }
+
+  const ids = seen.map((deal) => deal.id)
+  // Never shorten a deal that already runs past tomorrow
+  await supabaseAdmin
+    .from('deals')
+    .update({ end_date: tomorrow })
+    .in('id', ids)
+    .or(`end_date.is.null,end_date.lt.${tomorrow}`)
+  await supabaseAdmin
+    .from('deals')
+    .update({ status: 'approved', expired_reason: null, liveness_misses: 0 })
+    .in('id', ids)
+    .eq('status', 'expired')
+  revalidateDeals()
+
+  return ids.length + listingsExtended
+}
+
+/**
+ * A source that answered 304 is unchanged since it was last processed: keep the deals from its
+ * latest ingest running (as for an unchanged flyer) and stop before OCR and parsing.
+ */
+async function notModified<T>(
+  stage: PipelineStage,
+  dispensaryName: string,
+  sourceUrl: string,
+  metrics: StageMetrics
+): Promise<StageResult<T>> {
+  const today = await dispensaryToday(dispensaryName)
+  const { data: latest } = await supabaseAdmin
+    .from('deals')
+    .select('date')
+    .eq('dispensary_name', dispensaryName)
+    .eq('source_url', sourceUrl)
+    .lte('date', today)
+    .order('date', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const dealsExtended = latest
+    ? await extendUnchangedDeals({ dispensaryName, date: latest.date, sourceUrl, today })
+    : 0
+  return stopped(stage, 'not_modified', 'Source unchanged since it was last processed (HTTP 304)', {
+    ...metrics,
+    dealsExtended,
+  })
+}
+
+/**
+ * Stage 3: parse OCR text into deals and write them.
+ * Short text, an AI failure or a reached AI budget lists the flyer itself instead of parsed deals;
+ * so do low-confidence deals.
+ * A flyer unchanged since an earlier date extends that date's deals instead (no AI call).
+ */
+export async function parseFlyer(input: {
+  ocrText: string
+  dispensaryName: string
+  city?: string
+  sourceUrl?: string | null
+}): Promise<StageResult<ParseOutput>> {
+  const today = await dispensaryToday(input.dispensaryName)
+
+  let flyerQuery = supabaseAdmin
+    .from('deal_flyers')
+    .select('id, file_path, pages, source_url, unchanged_from:deal_flyers!unchanged_from_flyer_id ( date, dispensary_name, source_url )')
+    .eq('dispensary_name', input.dispensaryName)
+    .eq('date', today)
+  if (input.sourceUrl) {
+    flyerQuery = flyerQuery.eq('source_url', input.sourceUrl)
+  }
+  const { data: flyer } = await flyerQuery.order('created_at', { ascending: false }).limit(1).maybeSingle()
+  const sourceUrl = input.sourceUrl || flyer?.source_url || null
+  const listing = { dispensaryName: input.dispensaryName, city: input.city, date: today, sourceUrl }
+
+  // Unchanged flyer from this dispensary: keep its existing deals running instead of inserting copies
+  const unchangedFrom = flyer?.unchanged_from as unknown as { date: string; dispensary_name: string; source_url: string } | null
+  if (unchangedFrom && unchangedFrom.dispensary_name === input.dispensaryName && unchangedFrom.date !== today) {
+    const dealsExtended = await extendUnchangedDeals({
+      dispensaryName: input.dispensaryName,
+      date: unchangedFrom.date,
+      sourceUrl: unchangedFrom.source_url,
+      today,
+    })
+    if (dealsExtended > 0) {
+      await supabaseAdmin
+        .from('deal_flyers')
+        .update({ processed_at: new Date().toISOString() })
+        .eq('dispensary_name', input.dispensaryName)
+        .eq('date', today)
+      return {
+        ok: true,
+        stage: 'parse',
+        data: { dealsInserted: 0, deals: [], flaggedForReview: 0, lowConfidenceHandled: false, dealsExtended },
+        metrics: { aiTokens: 0, dealsExtended },
+      }
+    }
+  }
+
+  // Short-circuit if OCR text is obviously too short/noisy to justify AI parsing
+  if (input.ocrText.trim().length < MIN_PARSE_TEXT_LENGTH) {
+    const flyerListed = await listFlyer(flyer, listing, 'text_too_short')
+    return {
+      ok: true,
+      stage: 'parse',
+      data: { dealsInserted: 0, deals: [], flaggedForReview: 0, lowConfidenceHandled: false, fallback: 'text_too_short', flyerListed },
+    }
+  }
+
+  if (await aiBudgetExhausted()) {
+    const flyerListed = await listFlyer(flyer, listing, 'budget_exhausted')
+    return {
+      ok: true,
+      stage: 'parse',
+      data: { dealsInserted: 0, deals: [], flaggedForReview: 0, lowConfidenceHandled: false, fallback: 'budget_exhausted', flyerListed },
+    }
+  }
+
+  const hints = await getParseHints(input.dispensaryName)
+  const metrics: StageMetrics = { aiTokens: 0, parseHints: countParseHints(hints) }
+  let deals: Deal[]
+  try {
+    deals = await parseDealsFromText(
+      input.ocrText,
+      input.dispensaryName,
+      input.city,
+      (usage) => addAiUsage(metrics, usage),
+      { hints }
+    )
+  } catch (aiError) {
+    const { logger } = Sentry
+    logger.warn('AI parsing failed, listing the flyer instead', {
+      dispensary: input.dispensaryName,
+      error: errorMessage(aiError),
+    })
+
+    const flyerListed = await listFlyer(flyer, listing, 'ai_failed')
+    return {
+      ok: true,
+      stage: 'parse',
+      data: { dealsInserted: 0, deals: [], flaggedForReview: 0, lowConfidenceHandled: false, fallback: 'ai_failed', flyerListed },
+      metrics,
+    }
+  }
+
+  const highConfidenceDeals = deals.filter((deal) => (deal.confidence ?? 1) >= MIN_CONFIDENCE)
+  const lowConfidenceDeals = deals.filter((deal) => (deal.confidence ?? 1) < MIN_CONFIDENCE)
+
+  const insertResult = await insertParsedDeals(highConfidenceDeals, {
+    dispensaryName: input.dispensaryName,
+    city: input.city,
+    date: today,
+    sourceUrl,
+    sourceType: 'flyer',
+  })
+  metrics.dealsFound = deals.length
+  if (!insertResult.ok) return { ...insertResult, metrics }
+
+  metrics.dealsFiltered = insertResult.data.filtered + lowConfidenceDeals.length
+  metrics.duplicates = insertResult.data.duplicates
+  metrics.flagged = insertResult.data.flaggedForReview
+
+  const dealsInserted = insertResult.data.inserted.length
+
+  // Crop a thumbnail per deal from the flyer where OCR located it (done by a CROP_THUMBNAILS job)
+  if (flyer?.pages && dealsInserted > 0) {
+    try {
+      await queueDealThumbnails(flyer.file_path, flyer.pages as StoredFlyerPage[], insertResult.data.inserted)
+    } catch (err) {
+      console.error('Failed to queue deal thumbnails:', err)
+    }
+  }
+
+  // Low confidence deals are not published; the flyer is listed so shoppers can read them there
+  const flyerListed =
+    lowConfidenceDeals.length > 0 && (await listFlyer(flyer, listing, 'low_confidence', lowConfidenceDeals.length))
+
+  await supabaseAdmin
+    .from('deal_flyers')
+    .update({
+      deals_extracted: dealsInserted,
+      processed_at: new Date().toISOString(),
+    })
+    .eq('dispensary_name', input.dispensaryName)
+    .eq('date', today)
+
+  return {
+    ok: true,
+    stage: 'parse',
+    data: {
+      dealsInserted,
+      deals: insertResult.data.inserted.map((item) => item.deal),
+      flaggedForReview: insertResult.data.flaggedForReview,
+      lowConfidenceHandled: lowConfidenceDeals.length > 0,
+      flyerListed,
+    },
+    metrics,
+  }
+}
+
+/**
+ * Website path: fetch a deals page and read its deals from embedded menu data when a menu adapter
+ * recognises it, otherwise extract them from the HTML with one AI call (no OCR).
+ */
+export async function extractWebsite(input: {
+  dispensaryName: string
+  websiteUrl: string
+  city?: string
+}): Promise<StageResult<WebsiteOutput>> {
+  const today = await dispensaryToday(input.dispensaryName)
+
+  const metrics: StageMetrics = { aiTokens: 0 }
+  const page = await politeFetch(input.websiteUrl, { accept: 'text/html', conditional: true })
+  if (page.status !== null) metrics.httpStatus = page.status
+  if (page.outcome === 'not_modified') {
+    return notModified('website', input.dispensaryName, input.websiteUrl, metrics)
+  }
+  if (page.outcome === 'robots_disallowed') {
+    return stopped('website', 'robots_disallowed', page.error || 'Disallowed by robots.txt', metrics)
+  }
+
+  let html: string
+  try {
+    if (!page.response) throw new Error(page.error || page.outcome)
+    html = await page.response.text()
+  } catch (err) {
+    return stopped('website', 'fetch_failed', errorMessage(err), metrics)
+  }
+
+  if (html.length < 100) {
+    return stopped('website', 'content_too_short', 'Website content too short or empty', metrics)
+  }
+
+  const menu = extractMenuDeals(html)
+  let deals: Deal[]
+  if (menu) {
+    deals = menu.deals
+  } else if (await aiBudgetExhausted()) {
+    return stopped('website', 'budget_exhausted', 'AI budget reached; website extraction skipped', metrics)
+  } else {
+    try {
+      deals = await extractDealsFromWebsite(html, input.dispensaryName, input.city, (usage) =>
+        addAiUsage(metrics, usage)
+      )
+    } catch (err) {
+      return stopped('website', 'ai_failed', errorMessage(err), metrics)
+    }
+  }
+
+  metrics.dealsFound = deals.length
+  if (deals.length === 0) {
+    await saveValidators(input.websiteUrl, page.validators)
+    return { ok: true, stage: 'website', data: { dealsInserted: 0, deals: [], flaggedForReview: 0 }, metrics }
+  }
+
+  const insertResult = await insertParsedDeals(deals, {
+    dispensaryName: input.dispensaryName,
+    city: input.city,
+    date: today,
+    sourceUrl: input.websiteUrl,
+    sourceType: 'website',
+  })
+  if (!insertResult.ok) return { ...insertResult, stage: 'website', metrics }
+  await saveValidators(input.websiteUrl, page.validators)
+
+  metrics.dealsFiltered = insertResult.data.filtered
+  metrics.duplicates = insertResult.data.duplicates
+  metrics.flagged = insertResult.data.flaggedForReview
+
+  return {
+    ok: true,
+    stage: 'website',
+    data: {
+      dealsInserted: insertResult.data.inserted.length,
+      deals: insertResult.data.inserted.map((item) => item.deal),
+      flaggedForReview: insertResult.data.flaggedForReview,
+      adapter: menu?.adapter,
+    },
+    metrics,
+  }
+}
+
+/**
+ * Time a stage and report it to the optional callback.
+ */
+async function runStage<T>(
+  run: () => Promise<StageResult<T>>,
+  onStep?: StageCallback
+): Promise<StageResult<T>> {
+  const startedAt = Date.now()
+  const result = await run()
+  if (onStep) await onStep(result, Date.now() - startedAt)
+  return result
+}
+
+/**
+ * Website path with per-stage reporting, for callers that record runs.
+ */
+export async function runWebsitePipeline(
+  input: { dispensaryName: string; websiteUrl: string; city?: string },
+  options?: { onStep?: StageCallback }
+): Promise<StageResult<WebsiteOutput>> {
+  return runStage(() => extractWebsite(input), options?.onStep)
+}
+
+/**
+ * Flyer path end to end: fetch → OCR → parse. Stops at the first stage that does not complete.
+ * onStep is called after every stage (including the one that stopped) with its duration.
+ */
+export async function runFlyerPipeline(
+  input: {
+    dispensaryName: string
+    city?: string
+    sourceUrl: string
+  },
+  options?: { onStep?: StageCallback }
+): Promise<StageResult<ParseOutput>> {
+  const onStep = options?.onStep
+
+  const fetched = await runStage(
+    () => fetchFlyer({ dispensaryName: input.dispensaryName, sourceUrl: input.sourceUrl }),
+    onStep
+  )
+  if (!fetched.ok) return fetched
+
+  const ocr = await runStage(() => ocrFlyer({ filePath: fetched.data.filePath, city: input.city }), onStep)
+  if (!ocr.ok) return ocr
+
+  const parsed = await runStage(
+    () =>
+      parseFlyer({
+        ocrText: ocr.data.text,
+        dispensaryName: input.dispensaryName,
+        city: input.city,
+        sourceUrl: input.sourceUrl,
+      }),
+    onStep
+  )
+  // Only a parsed flyer may answer the next fetch with a 304
+  if (parsed.ok) await saveValidators(input.sourceUrl, fetched.data.validators)
+  return parsed
+}
@@ -0,0 +1,289 @@
+/**
+ * Durable ingestion queue (ingestion_jobs), modeled on notifications_outbox with retries.
+ * Crons enqueue jobs instead of doing the work inline; the worker (lib/ingestion-worker.ts) leases
+ * due jobs, runs them and reports back here. A failed attempt is retried with exponential backoff
+ * until max_attempts, then the job is dead-lettered for an admin to requeue or discard.
+ */
+
+import { supabaseAdmin } from './supabase/server'
+import type { DispensaryForIngest } from './ingest-deals'
+import type { IngestionTrigger } from './ingestion-runs'
+
+export type IngestionJobType = 'INGEST_DISPENSARY' | 'PROCESS_ZONE' | 'CROP_THUMBNAILS'
+export type IngestionJobStatus = 'PENDING' | 'RUNNING' | 'SUCCEEDED' | 'DEAD' | 'DISCARDED'
+
+export interface IngestionJob {
+  id: string
+  type: IngestionJobType
+  payload: Record<string, unknown>
+  dedupe_key: string | null
+  status: IngestionJobStatus
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string
+  locked_by: string | null
+  lock_expires_at: string | null
+  last_attempted_at: string | null
+  error_message: string | null
+  result: Record<string, unknown> | null
+  completed_at: string | null
+  dead_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface NewIngestionJob {
+  type: IngestionJobType
+  payload: Record<string, unknown>
+  /** Skip the job when one with this key is already PENDING or RUNNING */
+  dedupeKey?: string
+  maxAttempts?: number
+}
+
+const DEFAULT_MAX_ATTEMPTS = 4
+/** Backoff before the second attempt; doubles per attempt */
+const BASE_BACKOFF_MS = 2 * 60 * 1000
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000
+const MAX_ERROR_LENGTH = 1000
+
+const JOB_COLUMNS =
+  'id, type, payload, dedupe_key, status, attempts, max_attempts, next_attempt_at, locked_by, lock_expires_at, last_attempted_at, error_message, result, completed_at, dead_at, created_at, updated_at'
+
+/**
+ * Delay before the next attempt after `attempts` failed ones: 2m, 4m, 8m, … capped at 6h,
+ * with ±20% jitter so jobs that failed together do not retry together.
+ */
+export function retryDelayMs(attempts: number): number {
+  const base = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1))
+  return Math.round(base * (0.8 + Math.random() * 0.4))
+}
+
+/** INGEST_DISPENSARY job for a dispensary; one live job per dispensary name. zoneId attributes its AI spend to a zone */
+export function ingestJobFor(dispensary: DispensaryForIngest, trigger: IngestionTrigger, zoneId?: string): NewIngestionJob {
+  return {
+    type: 'INGEST_DISPENSARY',
+    payload: { dispensary, trigger, ...(zoneId ? { zone_id: zoneId } : {}) },
+    dedupeKey: `dispensary:${dispensary.name}`,
+  }
+}
+
+/**
+ * Add jobs to the queue. Jobs whose dedupe key already has a live job are skipped.
+ */
+export async function enqueueIngestionJobs(jobs: NewIngestionJob[]): Promise<{ enqueued: number; skipped: number }> {
+  if (jobs.length === 0) return { enqueued: 0, skipped: 0 }
+
+  const keys = jobs.map((job) => job.dedupeKey).filter((key): key is string => !!key)
+  const live = new Set<string>()
+  for (let i = 0; i < keys.length; i += 200) {
+    const { data, error } = await supabaseAdmin
+      .from('ingestion_jobs')
+      .select('dedupe_key')
+      .in('dedupe_key', keys.slice(i, i + 200))
+      .in('status', ['PENDING', 'RUNNING'])
+    if (error) throw new Error(error.message)
+    for (const row of data || []) live.add(row.dedupe_key)
+  }
+
+  const seen = new Set<string>()
+  const rows = jobs
+    .filter((job) => {
+      if (!job.dedupeKey) return true
+      if (live.has(job.dedupeKey) || seen.has(job.dedupeKey)) return false
+      seen.add(job.dedupeKey)
+      return true
+    })
+    .map((job) => ({
+      type: job.type,
+      payload: job.payload,
+      dedupe_key: job.dedupeKey ?? null,
+      max_attempts: job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    }))
+
+  let enqueued = 0
+  for (let i = 0; i < rows.length; i += 200) {
+    const batch = rows.slice(i, i + 200)
+    const { error } = await supabaseAdmin.from('ingestion_jobs').insert(batch)
+    if (!error) {
+      enqueued += batch.length
+      continue
+    }
+    if (error.code !== '23505') throw new Error(error.message)
+    // Another cron enqueued some of these keys meanwhile: insert one by one and skip the clashes
+    for (const row of batch) {
+      const { error: rowError } = await supabaseAdmin.from('ingestion_jobs').insert(row)
+      if (!rowError) enqueued++
+      else if (rowError.code !== '23505') throw new Error(rowError.message)
+    }
+  }
+
+  return { enqueued, skipped: jobs.length - enqueued }
+}
+
+/**
+ * Lease up to `limit` due jobs for a worker: PENDING jobs whose next attempt is due, and RUNNING
+ * jobs whose lease expired (their worker died). Each claimed job starts a new attempt; a job whose
+ * lease expired on its final attempt is dead-lettered instead of being returned.
+ */
+export async function claimIngestionJobs(workerId: string, limit: number, leaseMs: number): Promise<IngestionJob[]> {
+  const now = new Date().toISOString()
+  const { data: claimed, error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .update({
+      status: 'RUNNING',
+      locked_by: workerId,
+      lock_expires_at: new Date(Date.now() + leaseMs).toISOString(),
+      updated_at: now,
+    })
+    .or(`and(status.eq.PENDING,next_attempt_at.lte.${now}),and(status.eq.RUNNING,lock_expires_at.lt.${now})`)
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit)
+    .select(JOB_COLUMNS)
+
+  if (error) throw new Error(error.message)
+
+  const jobs: IngestionJob[] = []
+  for (const job of (claimed || []) as IngestionJob[]) {
+    if (job.attempts >= job.max_attempts) {
+      await markDead(job, workerId, job.error_message || 'Lease expired during the final attempt')
+      continue
+    }
+    const { error: startError } = await supabaseAdmin
+      .from('ingestion_jobs')
+      .update({ attempts: job.attempts + 1, last_attempted_at: now })
+      .eq('id', job.id)
+      .eq('locked_by', workerId)
+    if (startError) throw new Error(startError.message)
+    jobs.push({ ...job, attempts: job.attempts + 1, last_attempted_at: now })
+  }
+  return jobs
+}
+
+export async function completeIngestionJob(job: IngestionJob, workerId: string, result?: Record<string, unknown>): Promise<void> {
+  const now = new Date().toISOString()
+  const { error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .update({
+      status: 'SUCCEEDED',
+      result: result ?? null,
+      error_message: null,
+      locked_by: null,
+      lock_expires_at: null,
+      completed_at: now,
+      updated_at: now,
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId)
+  if (error) throw new Error(error.message)
+}
+
+async function markDead(job: IngestionJob, workerId: string, message: string): Promise<void> {
+  const now = new Date().toISOString()
+  const { error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .update({
+      status: 'DEAD',
+      error_message: message.substring(0, MAX_ERROR_LENGTH),
+      locked_by: null,
+      lock_expires_at: null,
+      dead_at: now,
+      updated_at: now,
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId)
+  if (error) throw new Error(error.message)
+}
+
+/**
+ * Record a failed attempt: schedule a retry with backoff, or dead-letter the job after its last attempt.
+ */
+export async function failIngestionJob(job: IngestionJob, workerId: string, message: string): Promise<'retry' | 'dead'> {
+  if (job.attempts >= job.max_attempts) {
+    await markDead(job, workerId, message)
+    return 'dead'
+  }
+
+  const now = new Date().toISOString()
+  const { error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .update({
+      status: 'PENDING',
+      error_message: message.substring(0, MAX_ERROR_LENGTH),
+      next_attempt_at: new Date(Date.now() + retryDelayMs(job.attempts)).toISOString(),
+      locked_by: null,
+      lock_expires_at: null,
+      updated_at: now,
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId)
+  if (error) throw new Error(error.message)
+  return 'retry'
+}
+
+/**
+ * Jobs for the admin Job Queue tab, newest activity first, plus counts per status.
+ */
+export async function listIngestionJobs(
+  status: IngestionJobStatus,
+  limit = 200
+): Promise<{ jobs: IngestionJob[]; counts: Record<IngestionJobStatus, number> }> {
+  const statuses: IngestionJobStatus[] = ['PENDING', 'RUNNING', 'SUCCEEDED', 'DEAD', 'DISCARDED']
+  const [{ data, error }, ...countResults] = await Promise.all([
+    supabaseAdmin
+      .from('ingestion_jobs')
+      .select(JOB_COLUMNS)
+      .eq('status', status)
+      .order('updated_at', { ascending: false })
+      .limit(limit),
+    ...statuses.map((s) =>
+      supabaseAdmin.from('ingestion_jobs').select('id', { count: 'exact', head: true }).eq('status', s)
+    ),
+  ])
+  if (error) throw new Error(error.message)
+
+  const counts = Object.fromEntries(statuses.map((s, i) => [s, countResults[i].count ?? 0])) as Record<
+    IngestionJobStatus,
+    number
+  >
+  return { jobs: (data || []) as IngestionJob[], counts }
+}
+
+/**
+ * Put dead or discarded jobs back in the queue with a fresh set of attempts. A job whose dedupe
+ * key already has a live job is left alone. Returns the number requeued.
+ */
+export async function requeueIngestionJobs(ids: string[]): Promise<number> {
+  let requeued = 0
+  for (const id of ids) {
+    const now = new Date().toISOString()
+    const { data, error } = await supabaseAdmin
+      .from('ingestion_jobs')
+      .update({
+        status: 'PENDING',
+        attempts: 0,
+        next_attempt_at: now,
+        dead_at: null,
+        updated_at: now,
+      })
+      .eq('id', id)
+      .in('status', ['DEAD', 'DISCARDED'])
+      .select('id')
+    if (error && error.code !== '23505') throw new Error(error.message)
+    requeued += data?.length || 0
+  }
+  return requeued
+}
+
+/**
+ * Drop dead or pending jobs for good. Returns the number discarded.
+ */
+export async function discardIngestionJobs(ids: string[]): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .update({ status: 'DISCARDED', updated_at: new Date().toISOString() })
+    .in('id', ids)
+    .in('status', ['DEAD', 'PENDING'])
+    .select('id')
+  if (error) throw new Error(error.message)
+  return data?.length || 0
+}
@@ -0,0 +1,345 @@
+/**
+ * Ingestion run ledger.
+ * One ingestion_runs row per dispensary attempt, one ingestion_run_steps row per pipeline stage.
+ * Recording never throws: a ledger write failure is logged and ingestion carries on.
+ */
+
+import * as Sentry from '@sentry/nextjs'
+import { supabaseAdmin } from './supabase/server'
+import type { PipelineStage, StageCallback, StageMetrics, StopReason } from './ingest-pipeline'
+
+export type IngestionTrigger = 'cron' | 'zone' | 'admin'
+export type IngestionRunStatus = 'running' | 'succeeded' | 'no_deals' | 'skipped' | 'failed'
+
+export interface IngestionRunStep {
+  id: string
+  run_id: string
+  stage: PipelineStage
+  ok: boolean
+  reason: StopReason | null
+  source_url: string | null
+  http_status: number | null
+  ocr_length: number | null
+  deals_found: number | null
+  deals_filtered: number | null
+  duplicates: number | null
+  flagged: number | null
+  ai_tokens: number | null
+  ai_cost_usd: number | null
+  parse_hints: number | null
+  duration_ms: number | null
+  error: string | null
+  created_at: string
+}
+
+export interface IngestionRun {
+  id: string
+  dispensary_id: string | null
+  dispensary_name: string
+  trigger: IngestionTrigger
+  status: IngestionRunStatus
+  source_url: string | null
+  stage_reached: PipelineStage | null
+  http_status: number | null
+  ocr_length: number | null
+  deals_found: number
+  deals_inserted: number
+  deals_filtered: number
+  duplicates: number
+  flagged: number
+  ai_tokens: number
+  /** Estimated AI cost in USD (lib/ai-spend) */
+  ai_cost_usd: number
+  /** Deals kept running because the flyer was unchanged since an earlier date */
+  deals_extended: number
+  /** Dispensary parse hints in the AI prompt; 0 when parsed without */
+  parse_hints: number
+  error: string | null
+  success_rate_after: number | null
+  deactivated: boolean
+  started_at: string
+  finished_at: string | null
+  ingestion_run_steps?: IngestionRunStep[]
+}
+
+export interface IngestionRunRecorder {
+  /** ingestion_runs.id, or null when the run row could not be created */
+  id: string | null
+  /** dispensaries.id of the run's dispensary, when found */
+  dispensaryId: string | null
+  /** Stage callback that records steps for one source URL */
+  stepsFor(sourceUrl: string): StageCallback
+  /** Write totals and final status; returns the status that was recorded */
+  finish(outcome: { dealsInserted: number; error?: string }): Promise<IngestionRunStatus>
+}
+
+interface RunTotals {
+  source_url: string | null
+  stage_reached: PipelineStage | null
+  http_status: number | null
+  ocr_length: number | null
+  deals_found: number
+  deals_filtered: number
+  duplicates: number
+  flagged: number
+  ai_tokens: number
+  ai_cost_usd: number
+  deals_extended: number
+  parse_hints: number
+  error: string | null
+  steps: number
+  failedSteps: number
+  /** Steps that stopped because the source was already ingested or unchanged (304), or the AI budget was reached */
+  duplicateSteps: number
+}
+
+const MAX_ERROR_LENGTH = 1000
+
+function logLedgerError(message: string, dispensaryName: string, err: unknown) {
+  const { logger } = Sentry
+  logger.warn(message, {
+    dispensary: dispensaryName,
+    error: err instanceof Error ? err.message : String(err),
+  })
+}
+
+function addMetrics(totals: RunTotals, metrics: StageMetrics | undefined) {
+  if (!metrics) return
+  if (metrics.httpStatus !== undefined) totals.http_status = metrics.httpStatus
+  if (metrics.ocrLength !== undefined) totals.ocr_length = metrics.ocrLength
+  totals.deals_found += metrics.dealsFound || 0
+  totals.deals_filtered += metrics.dealsFiltered || 0
+  totals.duplicates += metrics.duplicates || 0
+  totals.flagged += metrics.flagged || 0
+  totals.ai_tokens += metrics.aiTokens || 0
+  totals.ai_cost_usd += metrics.aiCostUsd || 0
+  totals.deals_extended += metrics.dealsExtended || 0
+  totals.parse_hints = Math.max(totals.parse_hints, metrics.parseHints || 0)
+}
+
+function statusFor(totals: RunTotals, dealsInserted: number, error?: string): IngestionRunStatus {
+  if (dealsInserted > 0 || totals.deals_extended > 0) return 'succeeded'
+  if (error) return 'failed'
+  if (totals.steps > 0 && totals.duplicateSteps === totals.steps) return 'skipped'
+  if (totals.failedSteps > 0) return 'failed'
+  return 'no_deals'
+}
+
+/**
+ * Open a run for a dispensary and return a recorder for its stages.
+ */
+export async function beginIngestionRun(input: {
+  dispensaryName: string
+  trigger: IngestionTrigger
+}): Promise<IngestionRunRecorder> {
+  const totals: RunTotals = {
+    source_url: null,
+    stage_reached: null,
+    http_status: null,
+    ocr_length: null,
+    deals_found: 0,
+    deals_filtered: 0,
+    duplicates: 0,
+    flagged: 0,
+    ai_tokens: 0,
+    ai_cost_usd: 0,
+    deals_extended: 0,
+    parse_hints: 0,
+    error: null,
+    steps: 0,
+    failedSteps: 0,
+    duplicateSteps: 0,
+  }
+
+  let runId: string | null = null
+  let dispensaryId: string | null = null
+  try {
+    const { data: dispensary } = await supabaseAdmin
+      .from('dispensaries')
+      .select('id')
+      .eq('name', input.dispensaryName)
+      .maybeSingle()
+
+    const { data: run, error } = await supabaseAdmin
+      .from('ingestion_runs')
+      .insert({
+        dispensary_id: dispensary?.id || null,
+        dispensary_name: input.dispensaryName,
+        trigger: input.trigger,
+      })
+      .select('id')
+      .single()
+
+    dispensaryId = dispensary?.id || null
+    if (error) throw error
+    runId = run.id
+  } catch (err) {
+    logLedgerError('Failed to open ingestion run', input.dispensaryName, err)
+  }
+
+  return {
+    id: runId,
+    dispensaryId,
+
+    stepsFor(sourceUrl: string): StageCallback {
+      return async (result, durationMs) => {
+        totals.steps++
+        totals.source_url = sourceUrl
+        totals.stage_reached = result.stage
+        addMetrics(totals, result.metrics)
+        if (!result.ok) {
+          if (result.reason === 'duplicate' || result.reason === 'not_modified' || result.reason === 'budget_exhausted') {
+            totals.duplicateSteps++
+          } else {
+            totals.failedSteps++
+            totals.error = `${result.stage}: ${result.message}`.substring(0, MAX_ERROR_LENGTH)
+          }
+        }
+
+        if (!runId) return
+        try {
+          const { error } = await supabaseAdmin.from('ingestion_run_steps').insert({
+            run_id: runId,
+            stage: result.stage,
+            ok: result.ok,
+            reason: result.ok ? null : result.reason,
+            source_url: sourceUrl,
+            http_status: result.metrics?.httpStatus ?? null,
+            ocr_length: result.metrics?.ocrLength ?? null,
+            deals_found: result.metrics?.dealsFound ?? null,
+            deals_filtered: result.metrics?.dealsFiltered ?? null,
+            duplicates: result.metrics?.duplicates ?? null,
+            flagged: result.metrics?.flagged ?? null,
+            ai_tokens: result.metrics?.aiTokens ?? null,
+            ai_cost_usd: result.metrics?.aiCostUsd ?? null,
+            parse_hints: result.metrics?.parseHints ?? null,
+            duration_ms: durationMs,
+            error: result.ok ? null : result.message.substring(0, MAX_ERROR_LENGTH),
+          })
+          if (error) throw error
+        } catch (err) {
+          logLedgerError('Failed to record ingestion step', input.dispensaryName, err)
+        }
+      }
+    },
+
+    async finish(outcome) {
+      const error = outcome.error?.substring(0, MAX_ERROR_LENGTH)
+      const status = statusFor(totals, outcome.dealsInserted, error)
+      if (!runId) return status
+
+      try {
+        const { error: updateError } = await supabaseAdmin
+          .from('ingestion_runs')
+          .update({
+            source_url: totals.source_url,
+            stage_reached: totals.stage_reached,
+            http_status: totals.http_status,
+            ocr_length: totals.ocr_length,
+            deals_found: totals.deals_found,
+            deals_filtered: totals.deals_filtered,
+            duplicates: totals.duplicates,
+            flagged: totals.flagged,
+            ai_tokens: totals.ai_tokens,
+            ai_cost_usd: totals.ai_cost_usd,
+            deals_extended: totals.deals_extended,
+            parse_hints: totals.parse_hints,
+            status,
+            deals_inserted: outcome.dealsInserted,
+            error: error || totals.error,
+            finished_at: new Date().toISOString(),
+          })
+          .eq('id', runId)
+        if (updateError) throw updateError
+      } catch (err) {
+        logLedgerError('Failed to close ingestion run', input.dispensaryName, err)
+      }
+      return status
+    },
+  }
+}
+
+/**
+ * Record the success rate a run left behind, and whether it caused auto-deactivation.
+ */
+export async function markRunOutcome(
+  runId: string,
+  outcome: { successRateAfter: number; deactivated: boolean }
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('ingestion_runs')
+    .update({
+      success_rate_after: outcome.successRateAfter,
+      deactivated: outcome.deactivated,
+    })
+    .eq('id', runId)
+  if (error) {
+    const { logger } = Sentry
+    logger.warn('Failed to record ingestion run outcome', { runId, error: error.message })
+  }
+}
+
+/**
+ * Human-readable reason for an automatic deactivation, built from the dispensary's recent runs.
+ */
+export async function explainDeactivation(
+  dispensaryName: string,
+  successRate: number,
+  threshold: number
+): Promise<string> {
+  const { data: runs } = await supabaseAdmin
+    .from('ingestion_runs')
+    .select('status, error, started_at')
+    .eq('dispensary_name', dispensaryName)
+    .neq('status', 'running')
+    .order('started_at', { ascending: false })
+    .limit(20)
+
+  let consecutive = 0
+  for (const run of runs || []) {
+    if (run.status === 'succeeded') break
+    consecutive++
+  }
+
+  const lastError = (runs || []).find((run) => run.error)?.error
+  const parts = [
+    `Success rate fell to ${Math.round(successRate * 100)}% (threshold ${Math.round(threshold * 100)}%)`,
+    `${consecutive} consecutive run${consecutive === 1 ? '' : 's'} without deals`,
+  ]
+  if (lastError) parts.push(`last error: ${lastError}`)
+  return parts.join('; ')
+}
+
+/**
+ * List runs (newest first) with their steps, optionally for one dispensary.
+ */
+export async function listIngestionRuns(options: {
+  dispensaryName?: string
+  days?: number
+  status?: IngestionRunStatus
+  limit?: number
+}): Promise<IngestionRun[]> {
+  const since = new Date(Date.now() - (options.days ?? 7) * 24 * 60 * 60 * 1000).toISOString()
+
+  let query = supabaseAdmin
+    .from('ingestion_runs')
+    .select('*, ingestion_run_steps (*)')
+    .gte('started_at', since)
+    .order('started_at', { ascending: false })
+    .limit(Math.min(options.limit ?? 200, 1000))
+
+  if (options.dispensaryName) query = query.eq('dispensary_name', options.dispensaryName)
+  if (options.status) query = query.eq('status', options.status)
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(`Failed to load ingestion runs: ${error.message}`)
+  }
+
+  return ((data || []) as IngestionRun[]).map((run) => ({
+    ...run,
+    ingestion_run_steps: [...(run.ingestion_run_steps || [])].sort((a, b) =>
+      a.created_at.localeCompare(b.created_at)
+    ),
+  }))
+}
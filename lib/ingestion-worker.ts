@@ -0,0 +1,141 @@
+/**
+ * Ingestion job worker: drains the ingestion_jobs queue within a time budget.
+ * Jobs are leased in small batches, run concurrently, and completed or failed back to the queue
+ * (lib/ingestion-jobs.ts), which schedules retries with backoff and dead-letters exhausted jobs.
+ */
+
+import * as Sentry from '@sentry/nextjs'
+import {
+  claimIngestionJobs,
+  completeIngestionJob,
+  failIngestionJob,
+  type IngestionJob,
+  type IngestionJobType,
+} from './ingestion-jobs'
+import { ingestDispensary, updateDispensaryStats, type DispensaryForIngest } from './ingest-deals'
+import { processZone } from './zone-processing'
+import { generateDealThumbnails } from './deal-thumbnails'
+import type { IngestionTrigger } from './ingestion-runs'
+
+/** Jobs leased and run together */
+const DEFAULT_CONCURRENCY = 5
+/** How long a lease lasts; a job still RUNNING after this is assumed lost and picked up again */
+const JOB_LEASE_MS = 5 * 60 * 1000
+/** Stop claiming new jobs when less than this much of the budget is left */
+const JOB_RESERVE_MS = 60 * 1000
+
+export interface DrainSummary {
+  claimed: number
+  succeeded: number
+  retried: number
+  dead: number
+  timedOut: boolean
+}
+
+/** What a handler reports: a result to store, or an error message that should be retried */
+type JobOutcome = { result?: Record<string, unknown>; retryableError?: string }
+
+type JobHandler = (job: IngestionJob, finalAttempt: boolean) => Promise<JobOutcome>
+
+const JOB_HANDLERS: Record<IngestionJobType, JobHandler> = {
+  INGEST_DISPENSARY: async (job, finalAttempt) => {
+    const { dispensary, trigger, zone_id } = job.payload as {
+      dispensary: DispensaryForIngest
+      trigger?: IngestionTrigger
+      zone_id?: string
+    }
+    try {
+      const outcome = await ingestDispensary(dispensary, {
+        trigger: trigger ?? 'cron',
+        retryable: !finalAttempt,
+        zoneId: zone_id,
+      })
+      return {
+        result: { deals_inserted: outcome.dealsInserted, deals_extended: outcome.dealsExtended },
+        retryableError: outcome.retryableError,
+      }
+    } catch (err) {
+      // Stats are only counted once per job: on its last attempt
+      if (finalAttempt) await updateDispensaryStats(dispensary.name, false)
+      throw err
+    }
+  },
+
+  PROCESS_ZONE: async (job) => {
+    const { zone_id } = job.payload as { zone_id: string }
+    const result = await processZone(zone_id)
+    return {
+      result: {
+        zip: result.zip,
+        already_populated: result.alreadyPopulated,
+        dispensaries_linked: result.dispensariesLinked,
+        ingest_jobs_queued: result.ingestJobsQueued,
+      },
+    }
+  },
+
+  CROP_THUMBNAILS: async (job) => {
+    const { deal_ids } = job.payload as { deal_ids: string[] }
+    const result = await generateDealThumbnails(deal_ids)
+    return { result: { cropped: result.cropped, skipped: result.skipped } }
+  },
+}
+
+async function runJob(job: IngestionJob, workerId: string): Promise<'succeeded' | 'retry' | 'dead'> {
+  let message: string
+  try {
+    const outcome = await JOB_HANDLERS[job.type](job, job.attempts >= job.max_attempts)
+    if (!outcome.retryableError) {
+      await completeIngestionJob(job, workerId, outcome.result)
+      return 'succeeded'
+    }
+    message = outcome.retryableError
+  } catch (err) {
+    message = err instanceof Error ? err.message : 'Unknown error'
+  }
+
+  const next = await failIngestionJob(job, workerId, message)
+  const { logger } = Sentry
+  logger.warn(next === 'dead' ? 'Ingestion job dead-lettered' : 'Ingestion job failed, retrying', {
+    job_id: job.id,
+    type: job.type,
+    attempt: job.attempts,
+    error: message,
+  })
+  return next
+}
+
+/**
+ * Run due jobs until the queue is empty or the time budget is nearly used up.
+ */
+export async function drainIngestionJobs(options: { budgetMs: number; concurrency?: number }): Promise<DrainSummary> {
+  const deadline = Date.now() + options.budgetMs
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY
+  const workerId = `worker_${Date.now()}_${Math.random().toString(36).substring(7)}`
+  const summary: DrainSummary = { claimed: 0, succeeded: 0, retried: 0, dead: 0, timedOut: false }
+
+  while (true) {
+    if (deadline - Date.now() < JOB_RESERVE_MS) {
+      summary.timedOut = true
+      break
+    }
+
+    const jobs = await claimIngestionJobs(workerId, concurrency, JOB_LEASE_MS)
+    if (jobs.length === 0) break
+    summary.claimed += jobs.length
+
+    const results = await Promise.allSettled(jobs.map((job) => runJob(job, workerId)))
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        // Reporting back to the queue failed; the lease expires and another run picks the job up
+        Sentry.captureException(result.reason)
+        continue
+      }
+      if (result.value === 'succeeded') summary.succeeded++
+      else if (result.value === 'retry') summary.retried++
+      else summary.dead++
+    }
+  }
+
+  return summary
+}
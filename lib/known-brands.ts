@@ -0,0 +1,62 @@
+/**
+ * Known brands sold at Michigan dispensaries, with the spellings flyers and menus use for them.
+ * Extraction matches these before guessing from capitalization, and any variant resolves to the
+ * canonical name, so "Stizzy", "STIIIZY" and "Stiiizy" are one brand.
+ * Brands added or merged by admins live in brand_aliases; this list only covers the common ones.
+ */
+
+export interface KnownBrand {
+  name: string
+  variants: string[]
+  /** Name is also an everyday word ("Cookies", "Drip"): only a match at the start of a title counts */
+  startOnly?: boolean
+}
+
+export const KNOWN_BRANDS: KnownBrand[] = [
+  { name: 'STIIIZY', variants: ['stiiizy', 'stizzy', 'stiizy', 'stiiiizy'] },
+  { name: 'Element', variants: ['element'], startOnly: true },
+  { name: 'GLTino', variants: ['gltino', 'gl tino'] },
+  { name: 'Muha Meds', variants: ['muha meds', 'muha', 'muhameds'] },
+  { name: 'Cookies', variants: ['cookies'], startOnly: true },
+  { name: 'Jeeter', variants: ['jeeter', 'jeeter juice'] },
+  { name: 'Wana', variants: ['wana', 'wana brands'] },
+  { name: 'Kiva', variants: ['kiva', 'kiva confections'] },
+  { name: 'Camino', variants: ['camino', 'kiva camino'] },
+  { name: 'Wyld', variants: ['wyld'] },
+  { name: 'Platinum Vape', variants: ['platinum vape', 'platinum vapes', 'pv'] },
+  { name: 'Redbud Roots', variants: ['redbud roots', 'redbud', 'red bud roots'] },
+  { name: 'Pleasantrees', variants: ['pleasantrees', 'pleasant trees'] },
+  { name: 'Glorious Cannabis Co.', variants: ['glorious cannabis co', 'glorious cannabis', 'glorious'] },
+  { name: 'MKX Oil Co.', variants: ['mkx oil co', 'mkx', 'mkx oil'] },
+  { name: 'Five Star Extracts', variants: ['five star extracts', 'five star', '5 star extracts'] },
+  { name: 'Humblebee', variants: ['humblebee', 'humble bee'] },
+  { name: 'Lume', variants: ['lume', 'lume cannabis co'] },
+  { name: 'Fresh Coast', variants: ['fresh coast'] },
+  { name: 'High Life Farms', variants: ['high life farms', 'highlife farms', 'hlf'] },
+  { name: 'Monster Xtracts', variants: ['monster xtracts', 'monster extracts'] },
+  { name: 'Mitten Extracts', variants: ['mitten extracts', 'mitten'], startOnly: true },
+  { name: 'Choice Labs', variants: ['choice labs'] },
+  { name: 'Old Pal', variants: ['old pal'] },
+  { name: 'Packwoods', variants: ['packwoods', 'packwood'] },
+  { name: 'Raw Garden', variants: ['raw garden'] },
+  { name: 'Church', variants: ['church cannabis', 'church'], startOnly: true },
+  { name: 'North Coast', variants: ['north coast', 'north coast extracts'] },
+  { name: 'Light Sky Farms', variants: ['light sky farms', 'light sky'] },
+  { name: 'Terpene Tanks', variants: ['terpene tanks'] },
+  { name: 'Drip', variants: ['drip', 'drip oils'], startOnly: true },
+  { name: 'Gage', variants: ['gage', 'gage cannabis'] },
+  { name: 'Ozone', variants: ['ozone', 'ozone reserve'] },
+  { name: 'Binske', variants: ['binske'] },
+  { name: 'Cloud Cover', variants: ['cloud cover', 'cloud cover cannabis'] },
+]
+
+/**
+ * Words that start flyer titles but are never brands ("Buy 2 get 1", "Premium OZ").
+ * The capitalized-first-word guess skips these; admins can block more in the Brands tab.
+ */
+export const NON_BRAND_WORDS = new Set([
+  'a', 'all', 'any', 'bogo', 'buy', 'daily', 'deal', 'deals', 'each', 'every', 'everything',
+  'exclusive', 'extra', 'featured', 'free', 'get', 'half', 'house', 'huge', 'limited', 'mix',
+  'new', 'now', 'only', 'our', 'premium', 'price', 'sale', 'save', 'select', 'special',
+  'specials', 'take', 'the', 'today', 'todays', 'top', 'try', 'up', 'value', 'weekly',
+])
@@ -0,0 +1,377 @@
+/**
+ * Menu adapters for hosted menu platforms.
+ * Many dispensary sites embed a hosted menu (Dutchie, Jane, …) whose page already carries the
+ * product and special data as JSON: a Next.js data blob, JSON-LD Product/Offer markup or a
+ * window state object. extractDealsFromWebsite strips scripts before calling the model, so that
+ * data is lost. Each adapter here detects one embed signature and reads specials straight from
+ * the JSON; the website pipeline only falls back to the model when no adapter yields deals.
+ */
+
+import { DEAL_CATEGORIES, resolveCategory, titleMatchesCategory, type DealCategorySlug } from './categories'
+import type { Deal } from './ai-parser'
+
+export interface MenuAdapter {
+  id: string
+  label: string
+  /** Cheap check for the embed signature in the raw HTML */
+  detect: (html: string) => boolean
+  /** Specials found in the page's structured data; empty when it has none */
+  parse: (html: string) => Deal[]
+}
+
+export interface MenuAdapterResult {
+  adapter: string
+  deals: Deal[]
+}
+
+/** A product pulled out of structured data before it is turned into a Deal */
+interface MenuProduct {
+  name: string
+  brand?: string
+  type?: string
+  size?: string
+  regularPrice?: number
+  salePrice?: number
+  /** Promotion text shown with the product, e.g. "30% off Tuesdays" */
+  specialLabel?: string
+}
+
+const NEXT_DATA_PATTERN = /<script[^>]*id=["']__NEXT_DATA__["'][^>]*>([\s\S]*?)<\/script>/i
+const JSON_LD_PATTERN = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi
+const WINDOW_STATE_PATTERN = /window\.(__APOLLO_STATE__|__INITIAL_STATE__|__PRELOADED_STATE__|__NUXT__)\s*=\s*/g
+
+/** Structured data is untrusted: stop walking after this many nodes */
+const MAX_NODES = 50000
+
+const NAME_KEYS = ['Name', 'name', 'productName', 'product_name', 'title']
+const BRAND_KEYS = ['brandName', 'brand_name', 'brand', 'Brand', 'producer']
+const TYPE_KEYS = ['type', 'Type', 'kind', 'category', 'productType', 'product_type', 'subcategory']
+const SIZE_KEYS = ['Options', 'option', 'weight', 'size', 'amount', 'unit']
+const REGULAR_PRICE_KEYS = ['recPrices', 'Prices', 'prices', 'price', 'Price', 'regularPrice', 'regular_price', 'originalPrice', 'listPrice']
+const SALE_PRICE_KEYS = ['recSpecialPrices', 'specialPrices', 'specialPrice', 'special_price', 'salePrice', 'sale_price', 'discountedPrice', 'discounted_price']
+const SPECIAL_LABEL_KEYS = ['specialName', 'special_title', 'specialTitle', 'promotion', 'promo', 'dealText']
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text.trim())
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The object literal assigned at `start`, found by matching braces outside strings.
+ * Returns null for anything that is not a complete object.
+ */
+function objectLiteralAt(source: string, start: number): string | null {
+  if (source[start] !== '{') return null
+  let depth = 0
+  let quote: string | null = null
+  for (let i = start; i < source.length; i++) {
+    const ch = source[i]
+    if (quote) {
+      if (ch === '\\') i++
+      else if (ch === quote) quote = null
+      continue
+    }
+    if (ch === '"' || ch === "'") quote = ch
+    else if (ch === '{') depth++
+    else if (ch === '}' && --depth === 0) return source.slice(start, i + 1)
+  }
+  return null
+}
+
+function firstString(node: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = node[key]
+    if (typeof value === 'string' && value.trim()) return decodeEntities(value.trim())
+    // { "@type": "Brand", "name": "…" } and Apollo-style { name } refs
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const name = (value as Record<string, unknown>).name
+      if (typeof name === 'string' && name.trim()) return decodeEntities(name.trim())
+    }
+    if (Array.isArray(value) && typeof value[0] === 'string' && value[0].trim()) return decodeEntities(value[0].trim())
+  }
+  return undefined
+}
+
+function toPrice(value: unknown): number | undefined {
+  if (Array.isArray(value)) return toPrice(value[0])
+  const price = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value.replace(/[$,]/g, '')) : NaN
+  return Number.isFinite(price) && price > 0 ? price : undefined
+}
+
+function firstPrice(node: Record<string, unknown>, keys: string[]): number | undefined {
+  for (const key of keys) {
+    const price = toPrice(node[key])
+    if (price !== undefined) return price
+  }
+  return undefined
+}
+
+/**
+ * Jane-style per-weight prices: price_eighth_ounce with discounted_price_eighth_ounce.
+ * Returns the first weight that has a discount.
+ */
+function weightedSpecial(node: Record<string, unknown>): Pick<MenuProduct, 'size' | 'regularPrice' | 'salePrice'> | null {
+  for (const key of Object.keys(node)) {
+    const match = key.match(/^discounted_price_(.+)$/)
+    if (!match) continue
+    const salePrice = toPrice(node[key])
+    const regularPrice = toPrice(node[`price_${match[1]}`])
+    if (salePrice !== undefined && regularPrice !== undefined && salePrice < regularPrice) {
+      return { size: match[1].replace(/_/g, ' '), regularPrice, salePrice }
+    }
+  }
+  return null
+}
+
+function specialLabel(node: Record<string, unknown>): string | undefined {
+  const label = firstString(node, SPECIAL_LABEL_KEYS)
+  if (label) return label
+  // Dutchie: specialData.saleSpecials[].specialName
+  const specialData = node.specialData as { saleSpecials?: Array<{ specialName?: unknown }> } | undefined
+  const name = specialData?.saleSpecials?.find((s) => typeof s.specialName === 'string')?.specialName
+  return typeof name === 'string' ? decodeEntities(name.trim()) : undefined
+}
+
+/** Read a generic menu product (Dutchie, Jane, most custom state blobs) from one JSON object */
+function productFromNode(node: Record<string, unknown>): MenuProduct | null {
+  const name = firstString(node, NAME_KEYS)
+  if (!name) return null
+
+  const weighted = weightedSpecial(node)
+  const regularPrice = weighted?.regularPrice ?? firstPrice(node, REGULAR_PRICE_KEYS)
+  const salePrice = weighted?.salePrice ?? firstPrice(node, SALE_PRICE_KEYS)
+  const label = specialLabel(node)
+  if (regularPrice === undefined && salePrice === undefined && !label) return null
+
+  return {
+    name,
+    brand: firstString(node, BRAND_KEYS),
+    type: firstString(node, TYPE_KEYS),
+    size: weighted?.size ?? firstString(node, SIZE_KEYS),
+    regularPrice,
+    salePrice,
+    specialLabel: label,
+  }
+}
+
+/** Every object in a JSON tree, depth first, bounded by MAX_NODES */
+function* walkObjects(root: unknown): Generator<Record<string, unknown>> {
+  const stack: unknown[] = [root]
+  let visited = 0
+  while (stack.length > 0 && visited < MAX_NODES) {
+    const node = stack.pop()
+    visited++
+    if (Array.isArray(node)) {
+      for (let i = node.length - 1; i >= 0; i--) stack.push(node[i])
+    } else if (node && typeof node === 'object') {
+      yield node as Record<string, unknown>
+      const values = Object.values(node)
+      for (let i = values.length - 1; i >= 0; i--) {
+        if (values[i] && typeof values[i] === 'object') stack.push(values[i])
+      }
+    }
+  }
+}
+
+function productsFromTree(root: unknown): MenuProduct[] {
+  const products: MenuProduct[] = []
+  for (const node of walkObjects(root)) {
+    const product = productFromNode(node)
+    if (product) products.push(product)
+  }
+  return products
+}
+
+/** Category from the platform's product type, falling back to title keywords, then flower */
+function categoryFor(product: MenuProduct, title: string): DealCategorySlug {
+  const fromType = product.type ? resolveCategory(product.type)?.category : undefined
+  if (fromType) return fromType
+  // Flower has the loosest keywords (eighth, oz), so it is only the default
+  const fromTitle = DEAL_CATEGORIES.find(
+    (category) => category.slug !== 'flower' && category.keywords.length > 0 && titleMatchesCategory(category.slug, title)
+  )
+  return (fromTitle?.slug as DealCategorySlug | undefined) ?? 'flower'
+}
+
+function formatPrice(price: number): string {
+  return Number.isInteger(price) ? `$${price}` : `$${price.toFixed(2)}`
+}
+
+/**
+ * A product becomes a deal only when it is actually on special: a sale price below the regular
+ * price, or a promotion label. Regular-priced menu items are not deals.
+ */
+function toDeal(product: MenuProduct): Deal | null {
+  const onSale =
+    product.salePrice !== undefined && (product.regularPrice === undefined || product.salePrice < product.regularPrice)
+  if (!onSale && !product.specialLabel) return null
+
+  const size = product.size && !product.name.toLowerCase().includes(product.size.toLowerCase()) ? product.size : ''
+  const productName = [product.name, size].filter(Boolean).join(' ')
+  const brand = product.brand && !product.name.toLowerCase().startsWith(product.brand.toLowerCase()) ? product.brand : undefined
+  const title = [brand, productName].filter(Boolean).join(' ')
+
+  let priceText: string
+  if (onSale) {
+    priceText = formatPrice(product.salePrice!)
+    if (product.regularPrice !== undefined) priceText += ` (reg. ${formatPrice(product.regularPrice)})`
+  } else {
+    priceText = product.specialLabel!
+  }
+
+  return {
+    category: categoryFor(product, title),
+    title,
+    brand: product.brand,
+    product_name: product.brand ? productName.replace(new RegExp(`^${escapeRegExp(product.brand)}\\s*`, 'i'), '') || undefined : undefined,
+    price_text: priceText,
+    confidence: 1,
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Deals from products, one per title and price */
+function dealsFromProducts(products: MenuProduct[]): Deal[] {
+  const seen = new Set<string>()
+  const deals: Deal[] = []
+  for (const product of products) {
+    const deal = toDeal(product)
+    if (!deal) continue
+    const key = `${deal.title}|${deal.price_text}`.toLowerCase()
+    if (seen.has(key)) continue
+    seen.add(key)
+    deals.push(deal)
+  }
+  return deals
+}
+
+function jsonLdBlocks(html: string): unknown[] {
+  const blocks: unknown[] = []
+  for (const match of Array.from(html.matchAll(JSON_LD_PATTERN))) {
+    const parsed = parseJson(match[1])
+    if (parsed) blocks.push(parsed)
+  }
+  return blocks
+}
+
+function isJsonLdType(node: Record<string, unknown>, type: string): boolean {
+  const value = node['@type']
+  return value === type || (Array.isArray(value) && value.includes(type))
+}
+
+/**
+ * schema.org Product with an Offer. A special is an offer whose price sits below a
+ * StrikethroughPrice / ListPrice specification or an offer that carries its own name.
+ */
+function productFromJsonLd(node: Record<string, unknown>): MenuProduct | null {
+  if (!isJsonLdType(node, 'Product')) return null
+  const name = firstString(node, ['name'])
+  if (!name) return null
+
+  const offers = ([] as unknown[]).concat(node.offers ?? []).filter(
+    (offer): offer is Record<string, unknown> => !!offer && typeof offer === 'object'
+  )
+  for (const offer of offers) {
+    const salePrice = toPrice(offer.price) ?? toPrice(offer.lowPrice)
+    const specs = ([] as unknown[]).concat(offer.priceSpecification ?? []) as Array<Record<string, unknown>>
+    const listSpec = specs.find((spec) => /StrikethroughPrice|ListPrice/i.test(String(spec?.priceType ?? '')))
+    const regularPrice = listSpec ? toPrice(listSpec.price) : toPrice(offer.highPrice)
+    const label = typeof offer.name === 'string' && offer.name.trim() ? decodeEntities(offer.name.trim()) : undefined
+    if (salePrice === undefined && !label) continue
+
+    return {
+      name,
+      brand: firstString(node, ['brand']),
+      type: firstString(node, ['category']),
+      size: firstString(node, ['weight', 'size']),
+      regularPrice: regularPrice !== undefined && salePrice !== undefined && regularPrice > salePrice ? regularPrice : undefined,
+      // Without a higher list price the offer is just the menu price
+      salePrice: regularPrice !== undefined && salePrice !== undefined && regularPrice > salePrice ? salePrice : undefined,
+      specialLabel: label,
+    }
+  }
+  return null
+}
+
+function windowStates(html: string): unknown[] {
+  const states: unknown[] = []
+  for (const match of Array.from(html.matchAll(WINDOW_STATE_PATTERN))) {
+    const literal = objectLiteralAt(html, (match.index ?? 0) + match[0].length)
+    const parsed = literal ? parseJson(literal) : null
+    if (parsed) states.push(parsed)
+  }
+  return states
+}
+
+/** Next.js page data, as rendered by Dutchie Plus storefronts and other Next-based menus */
+const nextDataAdapter: MenuAdapter = {
+  id: 'next-data',
+  label: 'Next.js page data',
+  detect: (html) => NEXT_DATA_PATTERN.test(html),
+  parse: (html) => {
+    const match = html.match(NEXT_DATA_PATTERN)
+    const data = match ? parseJson(match[1]) : null
+    return data ? dealsFromProducts(productsFromTree(data)) : []
+  },
+}
+
+/** schema.org Product/Offer markup in JSON-LD blocks, including @graph and ItemList wrappers */
+const jsonLdAdapter: MenuAdapter = {
+  id: 'json-ld',
+  label: 'JSON-LD Product/Offer',
+  detect: (html) => /application\/ld\+json/i.test(html),
+  parse: (html) => {
+    const products: MenuProduct[] = []
+    for (const block of jsonLdBlocks(html)) {
+      for (const node of walkObjects(block)) {
+        const product = productFromJsonLd(node)
+        if (product) products.push(product)
+      }
+    }
+    return dealsFromProducts(products)
+  },
+}
+
+/** State objects assigned to window by Jane, Apollo (Dutchie embeds) and Redux storefronts */
+const windowStateAdapter: MenuAdapter = {
+  id: 'window-state',
+  label: 'Window state object',
+  detect: (html) => /window\.(__APOLLO_STATE__|__INITIAL_STATE__|__PRELOADED_STATE__|__NUXT__)\s*=/.test(html),
+  parse: (html) => dealsFromProducts(windowStates(html).flatMap(productsFromTree)),
+}
+
+/** Checked in order; the first adapter that yields deals wins */
+export const MENU_ADAPTERS: readonly MenuAdapter[] = [nextDataAdapter, windowStateAdapter, jsonLdAdapter]
+
+/** Ids of the adapters whose embed signature appears in the page */
+export function detectMenuAdapters(html: string): string[] {
+  return MENU_ADAPTERS.filter((adapter) => adapter.detect(html)).map((adapter) => adapter.id)
+}
+
+/**
+ * Deals read from the page's structured menu data, or null when no adapter recognises the page
+ * or none of its products are on special (the caller then falls back to AI extraction).
+ */
+export function extractMenuDeals(html: string): MenuAdapterResult | null {
+  for (const adapter of MENU_ADAPTERS) {
+    if (!adapter.detect(html)) continue
+    const deals = adapter.parse(html)
+    if (deals.length > 0) return { adapter: adapter.id, deals }
+  }
+  return null
+}
@@ -1,24 +1,68 @@
-import OpenAI from 'openai'
-import { createGoogleGenerativeAI } from '@ai-sdk/google'
 import { generateText } from 'ai'
 import * as Sentry from "@sentry/nextjs"
+import { runAiTask } from './ai-provider'
+import type { AiUsageCallback } from './types'
 
-const openai = process.env.OPENAI_API_KEY
-  ? new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-  : null
+/** Where one deal sits on the image: [ymin, xmin, ymax, xmax], each scaled to 0–1000 */
+export type RegionBox = [number, number, number, number]
+
+/** A deal's lines as printed on the flyer, with its bounding box */
+export interface OcrRegion {
+  text: string
+  box: RegionBox
+}
+
+const TEXT_PROMPT = 'Extract all text from this dispensary flyer. Return only the text content, no explanations.'
+
+const REGIONS_PROMPT = `Extract all text from this dispensary flyer.
+Also locate each individual deal or special on it (one product or offer with its price).
+Return only JSON, no explanations:
+{"text": "<all text on the flyer, in reading order>", "deals": [{"text": "<the lines of this one deal>", "box": [ymin, xmin, ymax, xmax]}]}
+Box coordinates are relative to the image, scaled from 0 to 1000. Leave "deals" empty if no individual deals can be told apart.`
+
+function isRegionBox(value: unknown): value is RegionBox {
+  return (
+    Array.isArray(value) &&
+    value.length === 4 &&
+    value.every((n) => typeof n === 'number' && n >= 0 && n <= 1000) &&
+    value[0] < value[2] &&
+    value[1] < value[3]
+  )
+}
+
+/**
+ * Read a regions response. A reply that is not the requested JSON is treated as plain text without regions.
+ */
+export function parseRegionsResponse(raw: string): { text: string; regions: OcrRegion[] } {
+  const cleaned = raw.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim()
+  try {
+    const parsed = JSON.parse(cleaned) as { text?: unknown; deals?: unknown }
+    if (typeof parsed.text !== 'string') return { text: raw, regions: [] }
+    const regions = (Array.isArray(parsed.deals) ? parsed.deals : [])
+      .filter((deal): deal is OcrRegion => typeof deal?.text === 'string' && isRegionBox(deal?.box))
+      .map((deal) => ({ text: deal.text.trim(), box: deal.box.map(Math.round) as RegionBox }))
+    return { text: parsed.text.trim(), regions }
+  } catch {
+    return { text: raw, regions: [] }
+  }
+}
 
 /**
  * Extract text from an image or PDF buffer.
+ * With `regions`, the provider is also asked for a bounding box per deal (used to crop deal thumbnails).
  *
- * Primary path: Gemini via Vercel AI Gateway (cheaper, configurable).
- * Fallback: OpenAI Vision (gpt-4o) if gateway/Gemini is not configured or fails.
+ * Runs the 'ocr' AI task profile (lib/ai-provider): Gemini first, falling back to OpenAI Vision (gpt-4o).
  */
 export async function extractTextFromImage(
   imageBuffer: Buffer,
-  mimeType: string
-): Promise<{ text: string; confidence?: number }> {
+  mimeType: string,
+  onUsage?: AiUsageCallback,
+  options?: { regions?: boolean }
+): Promise<{ text: string; confidence?: number; regions?: OcrRegion[] }> {
+  const prompt = options?.regions ? REGIONS_PROMPT : TEXT_PROMPT
+  const read = (raw: string): { text: string; regions?: OcrRegion[] } =>
+    options?.regions ? parseRegionsResponse(raw) : { text: raw }
+
   return Sentry.startSpan(
     {
       op: "ai.ocr",
@@ -28,146 +72,55 @@ export async function extractTextFromImage(
       span.setAttribute("mime_type", mimeType);
       span.setAttribute("image_size_bytes", imageBuffer.length);
 
-      // Prefer Vercel AI Gateway (for rate limit protection), fallback to direct Gemini API
-      const geminiApiKey = process.env.GEMINI_API_KEY
-      const gatewayApiKey = process.env.AI_GATEWAY_API_KEY
-      const apiKey = gatewayApiKey || geminiApiKey
-      const baseURL = gatewayApiKey ? (process.env.AI_GATEWAY_URL || 'https://gateway.vercel.ai/v1') : undefined
-
-      span.setAttribute("using_gateway", !!gatewayApiKey);
-      span.setAttribute("provider", apiKey ? "gemini" : "openai");
-
-      // Prefer Gemini (direct or via Vercel AI Gateway) when configured
-      if (apiKey) {
-        try {
-          const google = createGoogleGenerativeAI({
-            apiKey,
-            ...(baseURL && { baseURL }),
-          })
-
-          // Use a vision-capable, cost-efficient Gemini model
-          const model = google('gemini-2.5-flash-image')
-
-          const result = await generateText({
-            model,
-            messages: [
-              {
-                role: 'user',
-                content: [
-                  {
-                    type: 'text',
-                    text: 'Extract all text from this dispensary flyer. Return only the text content, no explanations.',
-                  },
-                  {
-                    type: 'file',
-                    mediaType: mimeType,
-                    data: imageBuffer,
-                  },
-                ],
-              },
-            ],
-          })
-
-          const text = (result.text || '').trim()
-          
-          span.setAttribute("text_length", text.length);
-          span.setAttribute("usage_tokens", result.usage?.totalTokens || 0);
-
-          const { logger } = Sentry;
-          logger.info("OCR completed with Gemini", {
-            mimeType,
-            textLength: text.length,
-            usingGateway: !!gatewayApiKey,
-          });
-
-          return { text, confidence: 0.9 }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          
-          span.setAttribute("gemini_error", true);
-          span.setAttribute("gemini_error_message", errorMessage);
-
-          const { logger } = Sentry;
-          logger.warn("Gemini OCR error (falling back to OpenAI if available)", {
-            error: errorMessage,
-            usingGateway: !!gatewayApiKey,
-          });
-
-          Sentry.captureException(error, {
-            tags: {
-              operation: "ai_ocr",
-              provider: "gemini",
-            },
-            extra: {
-              mimeType,
-              usingGateway: !!gatewayApiKey,
-            },
-          });
-
-          // fall through to OpenAI fallback if configured
-        }
-      }
-
-      // Fallback: OpenAI Vision API if configured
-      if (!openai) {
-        const error = new Error('No OCR provider configured: set GEMINI_API_KEY (direct) or AI_GATEWAY_API_KEY (via gateway) for Gemini, or OPENAI_API_KEY for OpenAI.');
-        
-        span.setAttribute("error", true);
-        Sentry.captureException(error, {
-          tags: {
-            operation: "ai_ocr",
-            error_type: "configuration",
-          },
-        });
-
-        throw error;
-      }
-
       try {
-        const base64Image = imageBuffer.toString('base64')
-
-        const response = await openai.chat.completions.create({
-          model: 'gpt-4o',
-          messages: [
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'text',
-                  text: 'Extract all text from this dispensary flyer. Return only the text content, no explanations.',
-                },
+        const { result, model } = await runAiTask(
+          'ocr',
+          (model, abortSignal) =>
+            generateText({
+              model,
+              messages: [
                 {
-                  type: 'image_url',
-                  image_url: {
-                    url: `data:${mimeType};base64,${base64Image}`,
-                  },
+                  role: 'user',
+                  content: [
+                    {
+                      type: 'text',
+                      text: prompt,
+                    },
+                    {
+                      type: 'file',
+                      mediaType: mimeType,
+                      data: imageBuffer,
+                    },
+                  ],
                 },
               ],
-            },
-          ],
-          max_tokens: 4000,
-        })
+              abortSignal,
+            }),
+          { onUsage }
+        )
+
+        const { text, regions } = read((result.text || '').trim())
 
-        const text = (response.choices[0]?.message?.content || '').trim()
-        
         span.setAttribute("text_length", text.length);
-        span.setAttribute("provider", "openai");
+        span.setAttribute("usage_tokens", result.usage?.totalTokens || 0);
+        span.setAttribute("model", model);
 
         const { logger } = Sentry;
-        logger.info("OCR completed with OpenAI", {
+        logger.info("OCR completed", {
           mimeType,
           textLength: text.length,
+          model,
         });
 
-        return { text, confidence: 0.9 }
+        return { text, confidence: 0.9, regions }
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        
+
         span.setAttribute("error", true);
         span.setAttribute("error_message", errorMessage);
 
         const { logger } = Sentry;
-        logger.error("OpenAI OCR error", {
+        logger.error("OCR failed", {
           error: errorMessage,
           mimeType,
         });
@@ -175,7 +128,6 @@ export async function extractTextFromImage(
         Sentry.captureException(error, {
           tags: {
             operation: "ai_ocr",
-            provider: "openai",
           },
           extra: {
             mimeType,
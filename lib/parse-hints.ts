@@ -0,0 +1,171 @@
+/**
+ * Per-dispensary parsing hints, learned from admin review.
+ * When an admin corrects a parsed deal in the review panel, the before/after pair is kept as an
+ * example on dispensary_parse_hints; admins can also add free-text notes, category remaps
+ * ("Smalls" means flower) and text to ignore. parseDealsFromText adds them to the prompt for that
+ * dispensary only, and the ingestion ledger records how many were used (ingestion_runs.parse_hints).
+ */
+
+import * as Sentry from '@sentry/nextjs'
+import { supabaseAdmin } from './supabase/server'
+import type { DealCategorySlug } from './categories'
+
+/** The parsed fields an admin corrects */
+export interface ParseHintDeal {
+  category: string
+  title: string
+  price_text: string
+}
+
+export interface ParseHintExample {
+  before: ParseHintDeal
+  after: ParseHintDeal
+  captured_at: string
+}
+
+export interface CategoryRemap {
+  term: string
+  category: DealCategorySlug
+}
+
+export interface DispensaryParseHints {
+  notes: string | null
+  category_remaps: CategoryRemap[]
+  ignore_patterns: string[]
+  /** Newest first, at most MAX_EXAMPLES */
+  examples: ParseHintExample[]
+}
+
+/** Corrected examples kept per dispensary; older ones drop off as new corrections come in */
+export const MAX_EXAMPLES = 5
+
+const EMPTY_HINTS: DispensaryParseHints = { notes: null, category_remaps: [], ignore_patterns: [], examples: [] }
+
+/** Number of hints injected into a prompt, as recorded in the ledger */
+export function countParseHints(hints: DispensaryParseHints | null): number {
+  if (!hints) return 0
+  return (
+    (hints.notes?.trim() ? 1 : 0) + hints.category_remaps.length + hints.ignore_patterns.length + hints.examples.length
+  )
+}
+
+/**
+ * Prompt section for a dispensary's hints, or an empty string when it has none.
+ */
+export function formatParseHints(hints: DispensaryParseHints | null | undefined): string {
+  if (!hints || countParseHints(hints) === 0) return ''
+
+  const sections: string[] = []
+  if (hints.notes?.trim()) {
+    sections.push(`Notes about this dispensary's flyers:\n${hints.notes.trim()}`)
+  }
+  if (hints.category_remaps.length > 0) {
+    sections.push(
+      `Terms this dispensary uses for categories:\n${hints.category_remaps
+        .map((remap) => `- "${remap.term}" means ${remap.category}`)
+        .join('\n')}`
+    )
+  }
+  if (hints.ignore_patterns.length > 0) {
+    sections.push(
+      `Text on this dispensary's flyers that is never a deal:\n${hints.ignore_patterns.map((pattern) => `- ${pattern}`).join('\n')}`
+    )
+  }
+  if (hints.examples.length > 0) {
+    const json = (deal: ParseHintDeal) =>
+      JSON.stringify({ category: deal.category, title: deal.title, price_text: deal.price_text })
+    sections.push(
+      `Past extractions for this dispensary that an admin corrected (parsed → correct):\n${hints.examples
+        .map((example) => `- ${json(example.before)} → ${json(example.after)}`)
+        .join('\n')}`
+    )
+  }
+  return sections.join('\n\n')
+}
+
+function toHints(row: Partial<DispensaryParseHints> | null): DispensaryParseHints {
+  return {
+    notes: row?.notes ?? null,
+    category_remaps: row?.category_remaps || [],
+    ignore_patterns: row?.ignore_patterns || [],
+    examples: row?.examples || [],
+  }
+}
+
+/**
+ * A dispensary's hints by id, empty when it has none.
+ */
+export async function getDispensaryParseHints(dispensaryId: string): Promise<DispensaryParseHints> {
+  const { data, error } = await supabaseAdmin
+    .from('dispensary_parse_hints')
+    .select('notes, category_remaps, ignore_patterns, examples')
+    .eq('dispensary_id', dispensaryId)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to load parse hints: ${error.message}`)
+  return data ? toHints(data) : { ...EMPTY_HINTS }
+}
+
+/**
+ * Hints for the dispensary being parsed, looked up by name. Never throws: parsing goes ahead without hints.
+ */
+export async function getParseHints(dispensaryName: string): Promise<DispensaryParseHints | null> {
+  try {
+    const { data: dispensary } = await supabaseAdmin
+      .from('dispensaries')
+      .select('id')
+      .eq('name', dispensaryName)
+      .maybeSingle()
+    if (!dispensary) return null
+    const hints = await getDispensaryParseHints(dispensary.id)
+    return countParseHints(hints) > 0 ? hints : null
+  } catch (err) {
+    const { logger } = Sentry
+    logger.warn('Failed to load parse hints', {
+      dispensary: dispensaryName,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    })
+    return null
+  }
+}
+
+/**
+ * Replace a dispensary's hints (admin editor).
+ */
+export async function saveDispensaryParseHints(
+  dispensaryId: string,
+  hints: DispensaryParseHints
+): Promise<DispensaryParseHints> {
+  const row = {
+    dispensary_id: dispensaryId,
+    notes: hints.notes?.trim() || null,
+    category_remaps: hints.category_remaps,
+    ignore_patterns: hints.ignore_patterns.map((pattern) => pattern.trim()).filter(Boolean),
+    examples: hints.examples.slice(0, MAX_EXAMPLES),
+    updated_at: new Date().toISOString(),
+  }
+  const { error } = await supabaseAdmin.from('dispensary_parse_hints').upsert(row, { onConflict: 'dispensary_id' })
+  if (error) throw new Error(`Failed to save parse hints: ${error.message}`)
+  return toHints(row)
+}
+
+/**
+ * Keep an admin's correction of a parsed deal as an example for its dispensary.
+ * An example for the same parsed title replaces the older one. Returns false when nothing changed.
+ */
+export async function recordParseCorrection(
+  dispensaryId: string,
+  before: ParseHintDeal,
+  after: ParseHintDeal
+): Promise<boolean> {
+  const changed = (Object.keys(before) as Array<keyof ParseHintDeal>).some((key) => before[key] !== after[key])
+  if (!changed) return false
+
+  const hints = await getDispensaryParseHints(dispensaryId)
+  const sameTitle = (example: ParseHintExample) => example.before.title.toLowerCase() === before.title.toLowerCase()
+  const examples = [
+    { before, after, captured_at: new Date().toISOString() },
+    ...hints.examples.filter((example) => !sameTitle(example)),
+  ]
+  await saveDispensaryParseHints(dispensaryId, { ...hints, examples })
+  return true
+}
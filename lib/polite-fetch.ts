@@ -0,0 +1,392 @@
+/**
+ * Polite fetch client for dispensary sites.
+ * Every request to a dispensary host goes through politeFetch, which:
+ * - checks robots.txt for our user agent (cached per origin),
+ * - sends one request at a time per host, spaced by a minimum interval (or the site's Crawl-delay),
+ * - sends If-None-Match / If-Modified-Since from validators stored for the URL, so an unchanged
+ *   page or flyer comes back as 304 and the pipeline can skip OCR and parsing,
+ * - records the outcome per URL in fetch_states so sites that block us show up in admin.
+ *
+ * Validators are only stored once the caller has processed the content (saveValidators), so a
+ * run that fails after downloading never turns the next fetch into a 304.
+ */
+
+import { supabaseAdmin } from './supabase/server'
+
+export const WEBSITE_USER_AGENT = 'Mozilla/5.0 (compatible; DailyDispoDeals/1.0; +https://dailydispodeals.com)'
+/** Product token matched against robots.txt User-agent lines */
+const ROBOTS_AGENT = 'dailydispodeals'
+
+/** Default gap between requests to the same host; POLITE_FETCH_HOST_INTERVAL_MS overrides it */
+const DEFAULT_HOST_INTERVAL_MS = 1000
+/** A robots.txt Crawl-delay is honoured up to this many milliseconds */
+const MAX_CRAWL_DELAY_MS = 10000
+const ROBOTS_TTL_MS = 60 * 60 * 1000
+/** Unreachable (5xx) robots.txt is treated as disallow-all, but rechecked sooner */
+const ROBOTS_ERROR_TTL_MS = 10 * 60 * 1000
+const ROBOTS_TIMEOUT_MS = 5000
+const DEFAULT_TIMEOUT_MS = 10000
+const MAX_ERROR_LENGTH = 500
+
+export type FetchOutcome =
+  | 'ok'
+  | 'not_modified' // 304: unchanged since the stored validators
+  | 'robots_disallowed' // robots.txt disallows the URL for our agent
+  | 'forbidden' // 401 / 403
+  | 'rate_limited' // 429
+  | 'http_error' // Any other non-2xx status
+  | 'network_error' // DNS, TLS, timeout
+
+/** Outcomes that mean the site is keeping us out rather than failing */
+export const BLOCKED_OUTCOMES: readonly FetchOutcome[] = ['robots_disallowed', 'forbidden', 'rate_limited']
+
+export interface FetchValidators {
+  etag: string | null
+  lastModified: string | null
+}
+
+export interface PoliteFetchResult {
+  outcome: FetchOutcome
+  /** Final URL after redirects */
+  url: string
+  status: number | null
+  /** Set for 'ok'; read the body from it */
+  response: Response | null
+  /** Validators of an 'ok' response, to pass to saveValidators once the content is processed */
+  validators: FetchValidators | null
+  error?: string
+}
+
+export interface PoliteFetchOptions {
+  accept?: string
+  /** Send stored validators and allow a 304 'not_modified' outcome */
+  conditional?: boolean
+  timeoutMs?: number
+  /** Record the outcome in fetch_states (default true). Crawls of many pages turn this off. */
+  record?: boolean
+}
+
+interface RobotsRule {
+  allow: boolean
+  pattern: string
+}
+
+export interface RobotsPolicy {
+  rules: RobotsRule[]
+  crawlDelayMs: number | null
+  /** robots.txt could not be read because the server errored: nothing may be fetched */
+  disallowAll?: boolean
+}
+
+interface HostSlot {
+  /** Settles when the previous request to the host has been sent */
+  tail: Promise<void>
+  nextAt: number
+}
+
+const robotsCache = new Map<string, { policy: RobotsPolicy; expiresAt: number }>()
+const hostSlots = new Map<string, HostSlot>()
+
+function hostKey(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^www\./, '')
+}
+
+function hostIntervalMs(): number {
+  const configured = parseInt(process.env.POLITE_FETCH_HOST_INTERVAL_MS || '', 10)
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_HOST_INTERVAL_MS
+}
+
+/**
+ * Parse robots.txt into the rules that apply to our agent: the groups naming it, else the `*` groups.
+ */
+export function parseRobotsTxt(text: string, agent = ROBOTS_AGENT): RobotsPolicy {
+  type Group = { agents: string[]; rules: RobotsRule[]; crawlDelayMs: number | null }
+  const groups: Group[] = []
+  let current: Group | null = null
+  let lastWasAgent = false
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator < 0) continue
+    const field = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelayMs: null }
+        groups.push(current)
+      }
+      current.agents.push(value.toLowerCase())
+      lastWasAgent = true
+      continue
+    }
+    lastWasAgent = false
+    if (!current) continue
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value })
+    } else if (field === 'crawl-delay') {
+      const seconds = parseFloat(value)
+      if (Number.isFinite(seconds) && seconds >= 0) current.crawlDelayMs = seconds * 1000
+    }
+  }
+
+  // "DailyDispoDeals" and "DailyDispoDeals/1.0" both name us
+  const named = groups.filter((group) => group.agents.some((a) => a.split('/')[0] === agent))
+  const applicable = named.length > 0 ? named : groups.filter((group) => group.agents.includes('*'))
+  const delays = applicable.map((group) => group.crawlDelayMs).filter((d): d is number => d !== null)
+
+  return {
+    rules: applicable.flatMap((group) => group.rules),
+    crawlDelayMs: delays.length > 0 ? Math.max(...delays) : null,
+  }
+}
+
+function patternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$')
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path)
+}
+
+/**
+ * Whether the policy lets us fetch the URL. The longest matching rule wins; Allow wins a tie.
+ */
+export function robotsAllows(policy: RobotsPolicy, url: string): boolean {
+  if (policy.disallowAll) return false
+  const parsed = new URL(url)
+  const path = `${parsed.pathname}${parsed.search}`
+
+  let best: RobotsRule | null = null
+  for (const rule of policy.rules) {
+    if (!patternMatches(rule.pattern, path)) continue
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule
+    }
+  }
+  return best ? best.allow : true
+}
+
+/**
+ * robots.txt policy for the URL's origin. A missing file (4xx) allows everything; a server error
+ * disallows everything until rechecked; a network failure allows (the page fetch will fail on its own).
+ */
+async function robotsPolicyFor(url: URL): Promise<RobotsPolicy> {
+  const cached = robotsCache.get(url.origin)
+  if (cached && cached.expiresAt > Date.now()) return cached.policy
+
+  let policy: RobotsPolicy = { rules: [], crawlDelayMs: null }
+  let ttl = ROBOTS_TTL_MS
+  try {
+    const response = await fetch(`${url.origin}/robots.txt`, {
+      headers: { 'User-Agent': WEBSITE_USER_AGENT, Accept: 'text/plain' },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS),
+    })
+    if (response.ok) {
+      policy = parseRobotsTxt(await response.text())
+    } else if (response.status >= 500) {
+      policy = { rules: [], crawlDelayMs: null, disallowAll: true }
+      ttl = ROBOTS_ERROR_TTL_MS
+    }
+  } catch {
+    ttl = ROBOTS_ERROR_TTL_MS
+  }
+
+  robotsCache.set(url.origin, { policy, expiresAt: Date.now() + ttl })
+  return policy
+}
+
+/**
+ * Wait for our turn on the host: requests to one host are sent one at a time, at least
+ * intervalMs apart. Returns a release function to call once the response headers arrive.
+ */
+async function acquireHost(host: string, intervalMs: number): Promise<() => void> {
+  const slot = hostSlots.get(host) ?? { tail: Promise.resolve(), nextAt: 0 }
+  hostSlots.set(host, slot)
+
+  const previous = slot.tail
+  let release!: () => void
+  slot.tail = new Promise<void>((resolve) => {
+    release = resolve
+  })
+
+  await previous
+  const wait = slot.nextAt - Date.now()
+  if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait))
+
+  return () => {
+    slot.nextAt = Date.now() + intervalMs
+    release()
+  }
+}
+
+async function storedValidators(url: string): Promise<FetchValidators | null> {
+  const { data } = await supabaseAdmin
+    .from('fetch_states')
+    .select('etag, last_modified')
+    .eq('url', url)
+    .maybeSingle()
+  if (!data || (!data.etag && !data.last_modified)) return null
+  return { etag: data.etag, lastModified: data.last_modified }
+}
+
+async function recordOutcome(url: string, result: PoliteFetchResult): Promise<void> {
+  const now = new Date().toISOString()
+  const reachable = result.outcome === 'ok' || result.outcome === 'not_modified'
+  const { error } = await supabaseAdmin.from('fetch_states').upsert(
+    {
+      url,
+      host: hostKey(new URL(url)),
+      last_outcome: result.outcome,
+      last_status: result.status,
+      last_error: result.error?.substring(0, MAX_ERROR_LENGTH) ?? null,
+      last_fetched_at: now,
+      ...(reachable && { last_success_at: now }),
+    },
+    { onConflict: 'url' }
+  )
+  if (error) console.error('Failed to record fetch outcome:', error)
+}
+
+function outcomeForStatus(status: number): FetchOutcome {
+  if (status === 304) return 'not_modified'
+  if (status >= 200 && status < 300) return 'ok'
+  if (status === 401 || status === 403) return 'forbidden'
+  if (status === 429) return 'rate_limited'
+  return 'http_error'
+}
+
+/**
+ * GET a dispensary URL politely. Never throws: failures come back as an outcome.
+ */
+export async function politeFetch(url: string, options: PoliteFetchOptions = {}): Promise<PoliteFetchResult> {
+  const record = options.record ?? true
+  const finish = async (result: PoliteFetchResult) => {
+    if (record) await recordOutcome(url, result)
+    return result
+  }
+
+  let target: URL
+  try {
+    target = new URL(url)
+  } catch {
+    return { outcome: 'network_error', url, status: null, response: null, validators: null, error: 'Invalid URL' }
+  }
+
+  const policy = await robotsPolicyFor(target)
+  if (!robotsAllows(policy, url)) {
+    return finish({
+      outcome: 'robots_disallowed',
+      url,
+      status: null,
+      response: null,
+      validators: null,
+      error: policy.disallowAll ? 'robots.txt unavailable (server error)' : 'Disallowed by robots.txt',
+    })
+  }
+
+  const headers: Record<string, string> = { 'User-Agent': WEBSITE_USER_AGENT }
+  if (options.accept) headers.Accept = options.accept
+  if (options.conditional) {
+    const stored = await storedValidators(url)
+    if (stored?.etag) headers['If-None-Match'] = stored.etag
+    if (stored?.lastModified) headers['If-Modified-Since'] = stored.lastModified
+  }
+
+  const interval = Math.max(hostIntervalMs(), Math.min(policy.crawlDelayMs ?? 0, MAX_CRAWL_DELAY_MS))
+  const release = await acquireHost(hostKey(target), interval)
+  let response: Response
+  try {
+    response = await fetch(url, {
+      headers,
+      redirect: 'follow',
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    })
+  } catch (err) {
+    return finish({
+      outcome: 'network_error',
+      url,
+      status: null,
+      response: null,
+      validators: null,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    })
+  } finally {
+    release()
+  }
+
+  const outcome = outcomeForStatus(response.status)
+  const finalUrl = response.url || url
+  if (outcome !== 'ok') {
+    return finish({
+      outcome,
+      url: finalUrl,
+      status: response.status,
+      response: null,
+      validators: null,
+      error: outcome === 'not_modified' ? undefined : `HTTP ${response.status}: ${response.statusText}`,
+    })
+  }
+
+  const etag = response.headers.get('etag')
+  const lastModified = response.headers.get('last-modified')
+  return finish({
+    outcome,
+    url: finalUrl,
+    status: response.status,
+    response,
+    validators: etag || lastModified ? { etag, lastModified } : null,
+  })
+}
+
+/**
+ * Store a URL's validators after its content was processed, so the next conditional fetch can get a 304.
+ */
+export async function saveValidators(url: string, validators: FetchValidators | null): Promise<void> {
+  if (!validators) return
+  const { error } = await supabaseAdmin.from('fetch_states').upsert(
+    {
+      url,
+      host: hostKey(new URL(url)),
+      etag: validators.etag,
+      last_modified: validators.lastModified,
+      validated_at: new Date().toISOString(),
+    },
+    { onConflict: 'url' }
+  )
+  if (error) console.error('Failed to save fetch validators:', error)
+}
+
+export type FetchProblem = {
+  url: string
+  host: string
+  last_outcome: FetchOutcome
+  last_status: number | null
+  last_error: string | null
+  last_fetched_at: string
+  last_success_at: string | null
+  blocked: boolean
+}
+
+/**
+ * URLs whose last fetch did not succeed, blocked sites first, for the admin Dispensaries tab.
+ */
+export async function listFetchProblems(limit = 200): Promise<FetchProblem[]> {
+  const { data, error } = await supabaseAdmin
+    .from('fetch_states')
+    .select('url, host, last_outcome, last_status, last_error, last_fetched_at, last_success_at')
+    .not('last_outcome', 'in', '("ok","not_modified")')
+    .order('last_fetched_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw new Error(error.message)
+
+  return (data || [])
+    .map((row) => ({ ...row, blocked: BLOCKED_OUTCOMES.includes(row.last_outcome as FetchOutcome) }) as FetchProblem)
+    .sort((a, b) => Number(b.blocked) - Number(a.blocked))
+}
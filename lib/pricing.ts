@@ -0,0 +1,335 @@
+/**
+ * Structured deal pricing.
+ * Parses price_text (plus regular_price / deal_price and the title for sizes) into a typed
+ * structure with the deal mechanic, quantity, size and effective unit price. Results are
+ * persisted on deals (see dealPricingColumns) and every ranker sorts with compareDealPricing.
+ */
+
+export type PriceMechanic = 'percent_off' | 'amount_off' | 'fixed' | 'bundle' | 'bogo' | 'tiered' | 'unknown'
+
+/** Unit the effective price is expressed in: $/g for flower and concentrates, $/mg for edibles, $/ml for drinks */
+export type SizeUnit = 'g' | 'mg' | 'ml'
+
+export interface PriceTier {
+  quantity: number
+  size: number | null
+  sizeUnit: SizeUnit | null
+  totalPrice: number
+}
+
+export interface DealPricing {
+  mechanic: PriceMechanic
+  /** Units you must buy for the price (2 for "2/$35", 2 for BOGO) */
+  quantity: number
+  /** Size of one unit, in sizeUnit */
+  size: number | null
+  sizeUnit: SizeUnit | null
+  /** What you pay for `quantity` units */
+  totalPrice: number | null
+  /** totalPrice / quantity */
+  unitPrice: number | null
+  regularPrice: number | null
+  /** Discount as a percentage of the regular price (30 for "30% off", 50 for BOGO) */
+  percentOff: number | null
+  amountOff: number | null
+  /** Price per sizeUnit across everything you pay for, e.g. 5 for "2/$35" on 3.5g eighths */
+  effectivePrice: number | null
+  effectiveUnit: SizeUnit | null
+  tiers?: PriceTier[]
+}
+
+export interface PricingInput {
+  price_text?: string | null
+  regular_price?: string | null
+  deal_price?: string | null
+  /** Sizes are often only in the title ("STIIIZY 1g carts" at "2/$35") */
+  title?: string | null
+}
+
+const GRAMS_PER_OUNCE = 28
+
+const WORD_NUMBERS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5 }
+
+const MONEY = /\$\s*(\d+(?:,\d{3})*(?:\.\d{1,2})?)/g
+
+function round(value: number, places = 4): number {
+  const factor = 10 ** places
+  return Math.round(value * factor) / factor
+}
+
+function toNumber(value: string): number {
+  return WORD_NUMBERS[value.toLowerCase()] ?? parseFloat(value.replace(/,/g, ''))
+}
+
+/**
+ * Dollar amounts in a string, in order of appearance.
+ */
+export function parseMoney(text: string | null | undefined): number[] {
+  if (!text) return []
+  return Array.from(text.matchAll(MONEY)).map((m) => toNumber(m[1]))
+}
+
+/**
+ * Size of one unit from free text: grams, milligrams, millilitres or ounce fractions.
+ * Ounce fractions use the Michigan retail convention (1/8 = 3.5g, oz = 28g).
+ */
+export function parseSize(text: string | null | undefined): { size: number; unit: SizeUnit } | null {
+  if (!text) return null
+  const lower = text.toLowerCase()
+
+  const mg = lower.match(/(?<![$\d.])(\d+(?:\.\d+)?)\s*mg\b/)
+  if (mg) return { size: parseFloat(mg[1]), unit: 'mg' }
+
+  const ml = lower.match(/(?<![$\d.])(\d+(?:\.\d+)?)\s*(?:ml|milliliters?)\b/)
+  if (ml) return { size: parseFloat(ml[1]), unit: 'ml' }
+
+  const grams = lower.match(/(?<![$\d.])(\d+(?:\.\d+)?)\s*(?:g|gr|grams?)\b/)
+  if (grams) return { size: parseFloat(grams[1]), unit: 'g' }
+
+  // "1/8 $25" is a size; "1/2 off" is a discount
+  const fraction = lower.match(/\b1\s*\/\s*(8|4|2)(?:th|s)?\b(?!\s*(?:off|price)\b)/)
+  if (fraction) return { size: GRAMS_PER_OUNCE / parseInt(fraction[1], 10), unit: 'g' }
+
+  if (/\beighths?\b|\b8ths?\b/.test(lower)) return { size: 3.5, unit: 'g' }
+  if (/\bquarters?\b/.test(lower)) return { size: 7, unit: 'g' }
+  if (/\bhalf\b(?!\s*(?:off|price))|\bhalves\b/.test(lower)) return { size: 14, unit: 'g' }
+  if (/(?:\/|\bper\s+|\ba\s+)(?:g|gram)\b/.test(lower)) return { size: 1, unit: 'g' }
+
+  const ounces = lower.match(/(?<![$\d.])(\d+(?:\.\d+)?)\s*(?:oz|ounces?|zips?)\b/)
+  if (ounces) return { size: parseFloat(ounces[1]) * GRAMS_PER_OUNCE, unit: 'g' }
+  if (/\b(?:oz|ounces?|zips?)\b/.test(lower)) return { size: GRAMS_PER_OUNCE, unit: 'g' }
+
+  return null
+}
+
+function emptyPricing(): DealPricing {
+  return {
+    mechanic: 'unknown',
+    quantity: 1,
+    size: null,
+    sizeUnit: null,
+    totalPrice: null,
+    unitPrice: null,
+    regularPrice: null,
+    percentOff: null,
+    amountOff: null,
+    effectivePrice: null,
+    effectiveUnit: null,
+  }
+}
+
+function finalize(pricing: DealPricing): DealPricing {
+  if (pricing.totalPrice === null && pricing.regularPrice !== null) {
+    if (pricing.percentOff !== null) {
+      // For BOGO percentOff is already blended across the bought and discounted units
+      pricing.totalPrice = pricing.regularPrice * pricing.quantity * (1 - pricing.percentOff / 100)
+    } else if (pricing.amountOff !== null) {
+      pricing.totalPrice = Math.max(0, pricing.regularPrice - pricing.amountOff)
+    }
+  }
+
+  if (pricing.totalPrice !== null) {
+    pricing.totalPrice = round(pricing.totalPrice, 2)
+    pricing.unitPrice = round(pricing.totalPrice / pricing.quantity, 2)
+    if (pricing.size && pricing.sizeUnit) {
+      pricing.effectivePrice = round(pricing.totalPrice / (pricing.quantity * pricing.size))
+      pricing.effectiveUnit = pricing.sizeUnit
+    }
+  }
+
+  if (pricing.percentOff === null && pricing.regularPrice && pricing.unitPrice !== null && pricing.unitPrice < pricing.regularPrice) {
+    pricing.percentOff = round((1 - pricing.unitPrice / pricing.regularPrice) * 100, 1)
+  }
+
+  return pricing
+}
+
+/**
+ * Pairs like "1g $10, 3.5g $25" or "2/$35, 3/$50" that make a tiered offer.
+ */
+function parseTiers(text: string): PriceTier[] {
+  const tiers: PriceTier[] = []
+  const segments = text.split(/[,;|\n•]|\s+-\s+|\bor\b/i)
+  for (const segment of segments) {
+    const money = parseMoney(segment)
+    if (money.length !== 1) continue
+    const bundle = segment.match(/(\d+)\s*(?:\/|for)\s*\$/i)
+    const size = parseSize(segment)
+    if (!bundle && !size) continue
+    tiers.push({
+      quantity: bundle ? parseInt(bundle[1], 10) : 1,
+      size: size?.size ?? null,
+      sizeUnit: size?.unit ?? null,
+      totalPrice: money[0],
+    })
+  }
+  return tiers
+}
+
+function tierEffective(tier: PriceTier): number {
+  return tier.size ? tier.totalPrice / (tier.quantity * tier.size) : tier.totalPrice / tier.quantity
+}
+
+/**
+ * Parse a deal's price fields into a DealPricing structure.
+ */
+export function parseDealPricing(input: PricingInput): DealPricing {
+  const text = [input.price_text, input.deal_price].filter(Boolean).join(' ').trim()
+  const lower = text.toLowerCase()
+  const pricing = emptyPricing()
+
+  const regular = parseMoney(input.regular_price)
+  pricing.regularPrice = regular.length > 0 ? regular[0] : null
+
+  const size = parseSize(text) || parseSize(input.title)
+  if (size) {
+    pricing.size = size.size
+    pricing.sizeUnit = size.unit
+  }
+
+  if (!text) return finalize(pricing)
+
+  const money = parseMoney(text)
+  const halfOff = /(?:\bhalf|\b1\s*\/\s*2)\s*(?:off|price)\b/.test(lower)
+  const percent: [string, string] | null = lower.match(/(\d+(?:\.\d+)?)\s*%/) as [string, string] | null ?? (halfOff ? ['half off', '50'] : null)
+
+  // BOGO family: "BOGO", "BOGO 50% off", "Buy 2 Get 1 Free", "B2G1"
+  const buyGet =
+    lower.match(/\bbuy\s*(\d+|one|two|three)\s*(?:,\s*)?get\s*(\d+|one|two|three)\b/) ||
+    lower.match(/\bb(\d)g(\d)\b/)
+  if (buyGet || /\bbogo\b/.test(lower)) {
+    const buy = buyGet ? toNumber(buyGet[1]) : 1
+    const get = buyGet ? toNumber(buyGet[2]) : 1
+    const getDiscount = percent ? parseFloat(percent[1]) : 100
+    pricing.mechanic = 'bogo'
+    pricing.quantity = buy + get
+    pricing.percentOff = round((get * getDiscount) / (buy + get), 1)
+    if (money.length > 0) {
+      // "BOGO $30 eighths": pay for the bought units at the listed price, discounted units at the rest
+      pricing.regularPrice = pricing.regularPrice ?? money[0]
+      pricing.totalPrice = money[0] * buy + money[0] * get * (1 - getDiscount / 100)
+    }
+    return finalize(pricing)
+  }
+
+  const tiers = parseTiers(text)
+  if (tiers.length >= 2) {
+    const best = [...tiers].sort((a, b) => tierEffective(a) - tierEffective(b))[0]
+    pricing.mechanic = 'tiered'
+    pricing.tiers = tiers
+    pricing.quantity = best.quantity
+    pricing.totalPrice = best.totalPrice
+    if (best.size && best.sizeUnit) {
+      pricing.size = best.size
+      pricing.sizeUnit = best.sizeUnit
+    }
+    return finalize(pricing)
+  }
+
+  if (percent && (halfOff || /off|discount|save|%\s*$/.test(lower))) {
+    pricing.mechanic = 'percent_off'
+    pricing.percentOff = parseFloat(percent[1])
+    if (money.length > 0 && pricing.regularPrice === null && /\b(?:now|only|just)\b/.test(lower)) {
+      // "30% off, now $21" → listed amount is the sale price
+      pricing.totalPrice = money[money.length - 1]
+    }
+    return finalize(pricing)
+  }
+
+  const amountOff = lower.match(/\$\s*(\d+(?:\.\d{1,2})?)\s*off\b/)
+  if (amountOff) {
+    pricing.mechanic = 'amount_off'
+    pricing.amountOff = parseFloat(amountOff[1])
+    return finalize(pricing)
+  }
+
+  // "2/$35", "2 for $35", "3 for 50"
+  const bundle = lower.match(/\b(\d+)\s*(?:\/|for)\s*\$?\s*(\d+(?:\.\d{1,2})?)\b/)
+  if (bundle && !/^\s*1\s*\/\s*(8|4|2)/.test(bundle[0])) {
+    const quantity = parseInt(bundle[1], 10)
+    if (quantity > 1) {
+      pricing.mechanic = 'bundle'
+      pricing.quantity = quantity
+      pricing.totalPrice = parseFloat(bundle[2])
+      return finalize(pricing)
+    }
+  }
+
+  if (money.length > 0) {
+    pricing.mechanic = 'fixed'
+    // "$15/g", "$40/eighth": the size comes from the text, the price is per one unit
+    pricing.totalPrice = money[0]
+    return finalize(pricing)
+  }
+
+  if (percent) {
+    pricing.mechanic = 'percent_off'
+    pricing.percentOff = parseFloat(percent[1])
+    return finalize(pricing)
+  }
+
+  // Bare number with no currency ("25", "15 each")
+  const bare = lower.match(/^\s*(\d+(?:\.\d{1,2})?)\b/)
+  if (bare) {
+    pricing.mechanic = 'fixed'
+    pricing.totalPrice = parseFloat(bare[1])
+  }
+
+  return finalize(pricing)
+}
+
+const UNIT_ORDER: Record<SizeUnit, number> = { g: 0, ml: 1, mg: 2 }
+
+/**
+ * Sort key for rankers (lower is better):
+ * 1. Effective unit price, grouped by unit so $/g is never compared with $/mg
+ * 2. Discount fraction when only a percentage is known
+ * 3. Price per item
+ * 4. Unparseable prices last
+ */
+export function pricingRankKey(pricing: DealPricing | null | undefined): [number, number, number] {
+  if (!pricing) return [3, 0, 0]
+  if (pricing.effectivePrice !== null && pricing.effectiveUnit) {
+    return [0, UNIT_ORDER[pricing.effectiveUnit], pricing.effectivePrice]
+  }
+  if (pricing.percentOff !== null) {
+    return [1, 0, 1 - pricing.percentOff / 100]
+  }
+  if (pricing.unitPrice !== null) {
+    return [2, 0, pricing.unitPrice]
+  }
+  return [3, 0, 0]
+}
+
+/**
+ * Comparator for Array.sort: better-value deals first.
+ */
+export function compareDealPricing(a: DealPricing | null | undefined, b: DealPricing | null | undefined): number {
+  const ka = pricingRankKey(a)
+  const kb = pricingRankKey(b)
+  for (let i = 0; i < ka.length; i++) {
+    if (ka[i] !== kb[i]) return ka[i] - kb[i]
+  }
+  return 0
+}
+
+/**
+ * Persisted pricing for a deal row, falling back to parsing when the row predates the pricing columns.
+ */
+export function pricingForDeal(deal: PricingInput & { pricing?: DealPricing | null }): DealPricing {
+  return deal.pricing ?? parseDealPricing(deal)
+}
+
+/**
+ * Columns written on deals inserts/updates. effective_unit_price / effective_unit / price_mechanic
+ * are indexed scalars for SQL ordering; pricing holds the full structure.
+ */
+export function dealPricingColumns(input: PricingInput) {
+  const pricing = parseDealPricing(input)
+  return {
+    pricing,
+    price_mechanic: pricing.mechanic,
+    effective_unit_price: pricing.effectivePrice,
+    effective_unit: pricing.effectiveUnit,
+  }
+}
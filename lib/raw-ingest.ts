@@ -0,0 +1,289 @@
+/**
+ * Processor for raw_deal_ingest captures (Chrome extension and other external sources).
+ * Groups unprocessed rows by install, dispensary and page, parses them with the same AI/quality path
+ * as flyer ingestion, and writes deals that always land in the review queue.
+ */
+
+import * as Sentry from '@sentry/nextjs'
+import { supabaseAdmin } from './supabase/server'
+import { localDate, timezoneOf } from './dates'
+import { parseDealsFromText } from './ai-parser'
+import { getDispensaryParseHints } from './parse-hints'
+import { insertParsedDeals } from './ingest-pipeline'
+
+export interface RawIngestRow {
+  id: string
+  source: string
+  dispensary_name: string
+  dispensary_url: string | null
+  raw_text: string | null
+  product_name: string | null
+  price_text: string | null
+  category_hint: string | null
+  page_url: string
+  captured_at: string
+  install_id: string | null
+}
+
+export interface RawIngestResult {
+  rows_processed: number
+  groups: number
+  deals_created: number
+  flagged_for_review: number
+  duplicates: number
+  /** Parsed deals dropped by the quality checks */
+  filtered: number
+  failed_rows: number
+}
+
+interface CaptureDispensary {
+  id: string
+  name: string
+  city: string | null
+  timezone: string | null
+}
+
+const DEFAULT_BATCH_SIZE = 200
+const MAX_GROUP_TEXT_LENGTH = 30000
+const REVIEW_REASON = 'extension_capture'
+
+// Install is part of the key so each group, and the deals parsed from it, comes from a single install
+// whose trust score review outcomes are credited to
+function groupKey(row: RawIngestRow): string {
+  return `${row.install_id || ''}|${row.dispensary_name.toLowerCase().trim()}|${row.page_url.trim()}`
+}
+
+/**
+ * Flatten a group of captures into one text block for the parser.
+ * Structured fields from the extension are kept as labelled lines so the model can use them.
+ */
+function buildGroupText(rows: RawIngestRow[]): string {
+  const blocks = rows.map((row) => {
+    const lines: string[] = []
+    if (row.product_name) lines.push(`Product: ${row.product_name}`)
+    if (row.price_text) lines.push(`Price: ${row.price_text}`)
+    if (row.category_hint) lines.push(`Category hint: ${row.category_hint}`)
+    if (row.raw_text) lines.push(row.raw_text.trim())
+    return lines.join('\n')
+  })
+  return blocks.filter(Boolean).join('\n---\n').substring(0, MAX_GROUP_TEXT_LENGTH)
+}
+
+/** Match `value` literally in a LIKE pattern: %, _ and \ in captured names are not wildcards */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&')
+}
+
+function hostnameOf(url: string | null): string | null {
+  if (!url) return null
+  try {
+    const parsed = new URL(url.startsWith('http') ? url : `https://${url}`)
+    return parsed.hostname.replace(/^www\./, '').toLowerCase()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Link a capture to a dispensaries row: exact (case-insensitive) name first,
+ * then by matching the capture's site hostname against website / menu_url.
+ */
+async function findDispensaryForCapture(
+  name: string,
+  dispensaryUrl: string | null,
+  pageUrl: string
+): Promise<CaptureDispensary | null> {
+  const { data: byName } = await supabaseAdmin
+    .from('dispensaries')
+    .select('id, name, city, timezone')
+    .ilike('name', escapeLike(name.trim()))
+    .limit(1)
+    .maybeSingle()
+
+  if (byName) return byName
+
+  const host = hostnameOf(dispensaryUrl) || hostnameOf(pageUrl)
+  if (!host) return null
+
+  for (const column of ['website', 'menu_url']) {
+    const { data: byHost } = await supabaseAdmin
+      .from('dispensaries')
+      .select('id, name, city, timezone')
+      .ilike(column, `%${escapeLike(host)}%`)
+      .limit(1)
+      .maybeSingle()
+    if (byHost) return byHost
+  }
+
+  return null
+}
+
+async function markRows(
+  ids: string[],
+  patch: { processing_error: string | null; dispensary_id?: string | null; deals_created?: number }
+): Promise<void> {
+  if (ids.length === 0) return
+  await supabaseAdmin
+    .from('raw_deal_ingest')
+    .update({
+      processed: true,
+      processed_at: new Date().toISOString(),
+      ...patch,
+    })
+    .in('id', ids)
+}
+
+/**
+ * Parse one dispensary/page group and insert its deals.
+ * Every inserted deal is flagged for review; quality reasons are appended to the review reason.
+ */
+async function processGroup(
+  rows: RawIngestRow[]
+): Promise<{ dealsCreated: number; flagged: number; duplicates: number; filtered: number; dispensaryId: string | null }> {
+  const first = rows[0]
+  const dispensary = await findDispensaryForCapture(first.dispensary_name, first.dispensary_url, first.page_url)
+  const dispensaryName = dispensary?.name || first.dispensary_name.trim()
+  const city = dispensary?.city || undefined
+
+  const text = buildGroupText(rows)
+  if (text.trim().length === 0) {
+    throw new Error('Capture has no text to parse')
+  }
+
+  const hints = dispensary ? await getDispensaryParseHints(dispensary.id).catch(() => null) : null
+  const deals = await parseDealsFromText(text, dispensaryName, city, undefined, { hints })
+
+  // Use the newest capture date in the group as the deal date
+  const date = rows
+    .map((row) => localDate(row.captured_at, timezoneOf(dispensary)))
+    .sort()
+    .pop()!
+
+  // Review outcomes move this install's trust score, so a group that somehow mixes installs credits none
+  const installIds = new Set(rows.map((row) => row.install_id))
+  const sourceInstallId = installIds.size === 1 ? first.install_id : null
+
+  const insertResult = await insertParsedDeals(deals, {
+    dispensaryName,
+    city,
+    date,
+    sourceUrl: first.page_url,
+    sourceType: 'extension',
+    forceReview: true,
+    reviewReason: REVIEW_REASON,
+    reviewNotes: `Captured from ${first.page_url}`,
+    extraColumns: {
+      dispensary_id: dispensary?.id || null,
+      source_install_id: sourceInstallId,
+    },
+  })
+
+  if (!insertResult.ok) {
+    throw new Error(`Failed to insert deals: ${insertResult.message}`)
+  }
+
+  return {
+    dealsCreated: insertResult.data.inserted.length,
+    flagged: insertResult.data.flaggedForReview,
+    duplicates: insertResult.data.duplicates,
+    filtered: insertResult.data.filtered,
+    dispensaryId: dispensary?.id || null,
+  }
+}
+
+/**
+ * Process a batch of unprocessed raw_deal_ingest rows.
+ * Rows are always marked processed (with processing_error on failure) so reruns are idempotent.
+ */
+export async function processRawDealIngest(options?: { limit?: number }): Promise<RawIngestResult> {
+  const limit = Math.min(options?.limit ?? DEFAULT_BATCH_SIZE, 1000)
+  const result: RawIngestResult = {
+    rows_processed: 0,
+    groups: 0,
+    deals_created: 0,
+    flagged_for_review: 0,
+    duplicates: 0,
+    filtered: 0,
+    failed_rows: 0,
+  }
+
+  const { data: rows, error } = await supabaseAdmin
+    .from('raw_deal_ingest')
+    .select('id, source, dispensary_name, dispensary_url, raw_text, product_name, price_text, category_hint, page_url, captured_at, install_id')
+    .eq('processed', false)
+    .order('created_at', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load raw_deal_ingest rows: ${error.message}`)
+  }
+
+  if (!rows || rows.length === 0) {
+    return result
+  }
+
+  const groups = new Map<string, RawIngestRow[]>()
+  for (const row of rows as RawIngestRow[]) {
+    const key = groupKey(row)
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key)!.push(row)
+  }
+  result.groups = groups.size
+
+  const { logger } = Sentry
+
+  for (const group of groups.values()) {
+    const ids = group.map((row) => row.id)
+    try {
+      const outcome = await processGroup(group)
+      result.deals_created += outcome.dealsCreated
+      result.flagged_for_review += outcome.flagged
+      result.duplicates += outcome.duplicates
+      result.filtered += outcome.filtered
+
+      await markRows(ids, {
+        processing_error: outcome.dealsCreated + outcome.duplicates + outcome.filtered === 0 ? 'No deals found in capture' : null,
+        dispensary_id: outcome.dispensaryId,
+        deals_created: outcome.dealsCreated,
+      })
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error'
+      result.failed_rows += ids.length
+
+      logger.warn('Raw ingest group failed', {
+        dispensary: group[0].dispensary_name,
+        page_url: group[0].page_url,
+        rows: ids.length,
+        error: message,
+      })
+      Sentry.captureException(err instanceof Error ? err : new Error(message), {
+        tags: { operation: 'raw_ingest_process' },
+        extra: { dispensary: group[0].dispensary_name, page_url: group[0].page_url },
+      })
+
+      await markRows(ids, { processing_error: message.substring(0, 500) })
+    }
+    result.rows_processed += ids.length
+  }
+
+  logger.info('Raw ingest processing completed', { ...result })
+  return result
+}
+
+/**
+ * Count unprocessed and errored captures for the admin dashboard.
+ */
+export async function getRawIngestBacklog(): Promise<{ pending: number; errored: number }> {
+  const [{ count: pending }, { count: errored }] = await Promise.all([
+    supabaseAdmin
+      .from('raw_deal_ingest')
+      .select('id', { count: 'exact', head: true })
+      .eq('processed', false),
+    supabaseAdmin
+      .from('raw_deal_ingest')
+      .select('id', { count: 'exact', head: true })
+      .eq('processed', true)
+      .not('processing_error', 'is', null),
+  ])
+  return { pending: pending || 0, errored: errored || 0 }
+}
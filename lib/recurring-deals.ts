@@ -0,0 +1,197 @@
+/**
+ * Recurring weekday specials ("Munchie Monday", "Wax Wednesday").
+ * A recurring deal is a single deals row (recurring = true) with a deal_recurrences rule: a weekday mask,
+ * an optional time window, first and last day and skipped dates. Listings and the daily email expand
+ * the rule into the day's occurrence instead of storing a deal per day. Ingestion proposes a rule for
+ * review when a deal is worded as a weekday special, rather than inserting it as a one-day deal.
+ */
+
+import { supabaseAdmin } from './supabase/server'
+import { findBestMatch, DUPLICATE_THRESHOLD } from './deal-matching'
+import { weekdayOf } from './dates'
+import { revalidateDeals } from './deal-cache'
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const
+export type Weekday = (typeof WEEKDAYS)[number]
+
+export type RecurrenceSource = 'parser' | 'submission' | 'admin'
+
+export interface DealRecurrence {
+  /** Bit 0 = Sunday … bit 6 = Saturday */
+  weekdays: number
+  /** 'HH:MM[:SS]', null for all day */
+  start_time: string | null
+  end_time: string | null
+  starts_on: string
+  ends_on: string | null
+  exceptions: string[] | null
+}
+
+/** deal_recurrences columns embedded in deal selects */
+export const RECURRENCE_SELECT = 'weekdays, start_time, end_time, starts_on, ends_on, exceptions'
+
+const ALL_WEEKDAYS = 0b1111111
+const WEEKENDS = 0b1000001
+const WEEKDAY_ABBREVIATIONS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const DAY_PATTERN = '(sun|mon|tues|wednes|thurs|fri|satur)day'
+/** "every Monday" */
+const EVERY_DAY = new RegExp(`\\bevery\\s+${DAY_PATTERN}\\b`, 'gi')
+/** "Mondays 20% off" */
+const PLURAL_DAY = new RegExp(`\\b${DAY_PATTERN}s\\b`, 'gi')
+/** "Munchie Monday", "Wax Wednesday": a word alliterating with the weekday */
+const ALLITERATIVE_DAY = new RegExp(`\\b([a-z]+)\\s+${DAY_PATTERN}\\b`, 'gi')
+/** Words before a weekday that date a one-off deal rather than name a special */
+const NOT_A_SPECIAL = new Set(['this', 'that', 'the', 'thru', 'through', 'till', 'til', 'to', 'starting', 'starts'])
+
+export function weekdayMask(days: Array<Weekday | number>): number {
+  let mask = 0
+  for (const day of days) {
+    const index = typeof day === 'number' ? day : WEEKDAYS.indexOf(day)
+    if (index >= 0 && index < 7) mask |= 1 << index
+  }
+  return mask
+}
+
+function dayIndex(stem: string): number {
+  return WEEKDAYS.findIndex((day) => day.startsWith(stem.toLowerCase()))
+}
+
+/**
+ * Weekdays a deal's wording says it repeats on, as a mask; 0 for a one-off deal.
+ * A bare weekday ("valid Monday") is a date, not a special, and is not counted.
+ */
+export function detectWeekdayRecurrence(text: string): number {
+  let mask = 0
+  for (const match of text.matchAll(EVERY_DAY)) mask |= 1 << dayIndex(match[1])
+  for (const match of text.matchAll(PLURAL_DAY)) mask |= 1 << dayIndex(match[1])
+  for (const match of text.matchAll(ALLITERATIVE_DAY)) {
+    const word = match[1].toLowerCase()
+    if (NOT_A_SPECIAL.has(word) || (WEEKDAYS as readonly string[]).includes(word)) continue
+    if (word[0] === match[2][0].toLowerCase()) mask |= 1 << dayIndex(match[2])
+  }
+  return mask
+}
+
+/** The rule of a deal row with an embedded deal_recurrences (object or single-row array) */
+export function recurrenceOf(deal: {
+  deal_recurrences?: DealRecurrence | DealRecurrence[] | null
+}): DealRecurrence | null {
+  const rule = deal.deal_recurrences
+  if (Array.isArray(rule)) return rule[0] || null
+  return rule || null
+}
+
+/**
+ * Whether a rule has an occurrence on a YYYY-MM-DD date.
+ */
+export function occursOn(rule: DealRecurrence, date: string): boolean {
+  const day = date.slice(0, 10)
+  if (day < rule.starts_on) return false
+  if (rule.ends_on && day > rule.ends_on) return false
+  if ((rule.exceptions || []).includes(day)) return false
+  return (rule.weekdays & (1 << weekdayOf(day))) !== 0
+}
+
+function formatTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number)
+  const suffix = hours < 12 ? 'am' : 'pm'
+  const hour = hours % 12 || 12
+  return minutes ? `${hour}:${String(minutes).padStart(2, '0')}${suffix}` : `${hour}${suffix}`
+}
+
+/**
+ * Short label for a rule: "Every Mon", "Every Tue & Thu · 4pm–7pm", "Weekends", "Every day".
+ */
+export function describeRecurrence(rule: DealRecurrence): string {
+  let days: string
+  if (rule.weekdays === ALL_WEEKDAYS) {
+    days = 'Every day'
+  } else if (rule.weekdays === WEEKENDS) {
+    days = 'Weekends'
+  } else {
+    const names = WEEKDAY_ABBREVIATIONS.filter((_, i) => rule.weekdays & (1 << i))
+    days = `Every ${names.length > 1 ? `${names.slice(0, -1).join(', ')} & ${names[names.length - 1]}` : names[0]}`
+  }
+  if (rule.start_time && rule.end_time) return `${days} · ${formatTime(rule.start_time)}–${formatTime(rule.end_time)}`
+  if (rule.start_time) return `${days} · from ${formatTime(rule.start_time)}`
+  if (rule.end_time) return `${days} · until ${formatTime(rule.end_time)}`
+  return days
+}
+
+/**
+ * Recurring deal rows that run on `date`, as that day's occurrence (dated `date`, ending that night).
+ * `date` can be given per deal, for "today" in each deal's timezone (lib/dates).
+ */
+export function expandOccurrences<
+  T extends {
+    date: string
+    start_date?: string | null
+    end_date?: string | null
+    deal_recurrences?: DealRecurrence | DealRecurrence[] | null
+  },
+>(deals: T[], date: string | ((deal: T) => string)): T[] {
+  const occurrences: T[] = []
+  for (const deal of deals) {
+    const day = typeof date === 'string' ? date : date(deal)
+    const rule = recurrenceOf(deal)
+    if (rule !== null && occursOn(rule, day)) occurrences.push({ ...deal, date: day, start_date: day, end_date: day })
+  }
+  return occurrences
+}
+
+/**
+ * Attach a rule to a deal; its last day is mirrored to deals.end_date so expiry treats it like any deal.
+ */
+export async function createRecurrence(
+  dealId: string,
+  rule: Pick<DealRecurrence, 'weekdays' | 'starts_on'> & Partial<DealRecurrence>,
+  source: RecurrenceSource
+): Promise<void> {
+  const { error } = await supabaseAdmin.from('deal_recurrences').insert({
+    deal_id: dealId,
+    weekdays: rule.weekdays,
+    start_time: rule.start_time || null,
+    end_time: rule.end_time || null,
+    starts_on: rule.starts_on,
+    ends_on: rule.ends_on || null,
+    exceptions: rule.exceptions || [],
+    source,
+    last_seen_on: source === 'parser' ? rule.starts_on : null,
+  })
+  if (error) throw new Error(`Failed to save deal recurrence: ${error.message}`)
+
+  await supabaseAdmin
+    .from('deals')
+    .update({ recurring: true, end_date: rule.ends_on || null, updated_at: new Date().toISOString() })
+    .eq('id', dealId)
+  revalidateDeals()
+}
+
+/**
+ * The dispensary's recurring deal (live or proposed) that a newly parsed deal repeats, if any.
+ */
+export async function findRecurringDeal(
+  dispensaryName: string,
+  deal: { title: string; price_text: string; category?: string | null; brand_id?: string | null },
+  date: string
+): Promise<{ id: string; score: number } | null> {
+  const { data, error } = await supabaseAdmin
+    .from('deals')
+    .select('id, title, price_text, regular_price, deal_price, category, brand_id, pricing')
+    .eq('dispensary_name', dispensaryName)
+    .eq('recurring', true)
+    .not('status', 'in', '(rejected,expired)')
+    .or(`end_date.is.null,end_date.gte.${date}`)
+  if (error || !data || data.length === 0) return null
+
+  const best = findBestMatch(deal, data)
+  return best && best.score >= DUPLICATE_THRESHOLD ? { id: best.deal.id, score: best.score } : null
+}
+
+/**
+ * Record that ingestion saw a recurring special again, instead of inserting it as a new deal.
+ */
+export async function markRecurrenceSeen(dealId: string, date: string): Promise<void> {
+  await supabaseAdmin.from('deal_recurrences').update({ last_seen_on: date }).eq('deal_id', dealId)
+}
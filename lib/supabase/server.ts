@@ -2,6 +2,23 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js'
 
 let supabaseAdminInstance: SupabaseClient | null = null
 
+// Requests this process has sent to Supabase, read by /api/dev/db-requests for scripts/load-test.ts.
+// Kept on globalThis: Next bundles pages and route handlers separately, each with its own copy of this module.
+const requestCounter = globalThis as typeof globalThis & { __dbRequestCount?: number }
+
+export function getDbRequestCount(): number {
+  return requestCounter.__dbRequestCount || 0
+}
+
+export function resetDbRequestCount(): void {
+  requestCounter.__dbRequestCount = 0
+}
+
+const countingFetch: typeof fetch = (input, init) => {
+  requestCounter.__dbRequestCount = getDbRequestCount() + 1
+  return fetch(input, init)
+}
+
 function getSupabaseAdmin(): SupabaseClient {
   if (supabaseAdminInstance) {
     return supabaseAdminInstance
@@ -37,6 +54,9 @@ function getSupabaseAdmin(): SupabaseClient {
     auth: {
       autoRefreshToken: false,
       persistSession: false
+    },
+    global: {
+      fetch: countingFetch
     }
   })
 
@@ -1,6 +1,24 @@
+import type { DealPricing } from './pricing'
+import type { DealRecurrence } from './recurring-deals'
+import { todayIn } from './dates'
+
 export type DealStatus = 'pending' | 'approved' | 'rejected' | 'expired'
 export type SubmissionSource = 'dispensary' | 'admin' | 'ingest'
 
+/** Token usage and estimated cost of one AI call (see lib/ai-provider) */
+export interface AiUsage {
+  totalTokens: number
+  task?: string
+  /** "vendor:model" that answered */
+  model?: string
+  inputTokens?: number
+  outputTokens?: number
+  costUsd?: number
+}
+
+/** Receives token usage from an AI call (used by the ingestion run ledger) */
+export type AiUsageCallback = (usage: AiUsage) => void
+
 export type DealRecord = {
   id: string
   dispensary_id: string | null
@@ -9,11 +27,13 @@ export type DealRecord = {
   slug: string
   description: string | null
   category: string
+  subcategory?: string | null
   brand: string | null
   brand_id: string | null
   regular_price: string | null
   deal_price: string | null
   price_text: string
+  pricing?: DealPricing | null
   start_date: string | null
   end_date: string | null
   date: string
@@ -28,6 +48,9 @@ export type DealRecord = {
   submission_source: SubmissionSource | null
   status: DealStatus | null
   needs_review: boolean | null
+  /** Weekly special; its rule is in deal_recurrences (see lib/recurring-deals) */
+  recurring?: boolean | null
+  deal_recurrences?: DealRecurrence | DealRecurrence[] | null
   created_at: string
   updated_at: string | null
   dispensaries?: {
@@ -37,6 +60,8 @@ export type DealRecord = {
     city: string | null
     verified: boolean | null
     logo: string | null
+    /** IANA timezone; null for America/Detroit (lib/dates) */
+    timezone?: string | null
   } | null
 }
 
@@ -54,6 +79,10 @@ export type DealCardData = {
   state?: string
   distanceMi?: number | null
   endDate?: string | null
+  /** Timezone the end date is in (lib/dates) */
+  timezone?: string | null
+  /** "Every Mon · 4pm–7pm" for a recurring special, shown instead of the end date */
+  recurrenceLabel?: string | null
   featured: boolean
   sponsored: boolean
   verified: boolean
@@ -99,7 +128,7 @@ export const SAMPLE_DEALS: DealCardData[] = [
     city: 'Port Huron',
     state: 'MI',
     distanceMi: 2.1,
-    endDate: new Date().toISOString().slice(0, 10),
+    endDate: todayIn(),
     featured: true,
     sponsored: false,
     verified: true,
@@ -156,7 +185,7 @@ export const SAMPLE_DEALS: DealCardData[] = [
     slug: 'sample-99-premium-oz',
     title: '$99',
     subtitle: 'Premium OZ',
-    category: 'ounces',
+    category: 'flower',
     dispensaryName: 'Jars',
     city: 'Lansing',
     state: 'MI',
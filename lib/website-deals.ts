@@ -1,20 +1,24 @@
 /**
- * Website deal extraction using Gemini AI
+ * Website deal extraction with the 'website_extract' AI task profile (lib/ai-provider)
  * Extracts structured deal data from dispensary website HTML
  */
 
-import { createGoogleGenerativeAI } from '@ai-sdk/google'
-import { generateObject } from 'ai'
+import { generateObject, type LanguageModel } from 'ai'
 import { z } from 'zod'
 import * as Sentry from "@sentry/nextjs"
+import { runAiTask } from './ai-provider'
+import { categoryPromptList, dealCategorySchema } from './categories'
+import { WEEKDAYS } from './recurring-deals'
+import type { AiUsageCallback } from './types'
 
 const DealSchema = z.object({
-  category: z.enum(['flower', 'pre-rolls', 'vapes', 'concentrates', 'edibles', 'drinks', 'topicals', 'cbd/thca', 'accessories']),
+  category: dealCategorySchema,
   title: z.string().min(1),
   brand: z.string().optional(),
   product_name: z.string().optional(),
   price_text: z.string().min(1),
   confidence: z.number().min(0).max(1).optional(),
+  recurring_days: z.array(z.enum(WEEKDAYS)).optional(), // Weekly specials ("Munchie Monday"), see lib/recurring-deals
 })
 
 const ParseResponseSchema = z.object({
@@ -24,32 +28,16 @@ const ParseResponseSchema = z.object({
 export type WebsiteDeal = z.infer<typeof DealSchema>
 
 /**
- * Extract deals from dispensary website HTML using Gemini
+ * Extract deals from dispensary website HTML
+ * options.model replaces the profile's models (the eval harness passes a stub)
  */
 export async function extractDealsFromWebsite(
   html: string,
   dispensaryName: string,
-  city?: string
+  city?: string,
+  onUsage?: AiUsageCallback,
+  options: { model?: LanguageModel } = {}
 ): Promise<WebsiteDeal[]> {
-  // Prefer Vercel AI Gateway (for rate limit protection), fallback to direct Gemini API
-  const geminiApiKey = process.env.GEMINI_API_KEY
-  const gatewayApiKey = process.env.AI_GATEWAY_API_KEY
-  const apiKey = gatewayApiKey || geminiApiKey
-  
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY or AI_GATEWAY_API_KEY is required')
-  }
-
-  const baseURL = gatewayApiKey ? (process.env.AI_GATEWAY_URL || 'https://gateway.vercel.ai/v1') : undefined
-
-  // Use Gemini Flash for cost efficiency
-  const google = createGoogleGenerativeAI({
-    apiKey,
-    ...(baseURL && { baseURL }), // Only use baseURL for gateway, not direct API
-  })
-
-  const model = google('gemini-1.5-flash')
-
   // Clean HTML: remove scripts, styles, and excessive whitespace
   const cleanedHtml = html
     .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
@@ -60,12 +48,13 @@ export async function extractDealsFromWebsite(
 
   const systemPrompt = `You are extracting cannabis deal data from a dispensary website's deals/specials page. 
 Return a JSON array with:
-- category (flower, vapes, edibles, etc.)
+- category (one of: ${categoryPromptList()})
 - title (full product title as shown)
 - brand (brand/producer name if present, e.g., "STIIIZY", "Element" - extract from title)
 - product_name (product name without brand - extract from title if brand present)
 - price_text (e.g. 2/$35, $15/gram, 30% off)
 - confidence (0–1)
+- recurring_days (only for weekly specials such as "Munchie Monday", "Wax Wednesday" or "every Friday": the lowercase weekdays it repeats on; omit for one-time deals)
 
 If brand is not clearly identifiable, leave brand and product_name empty and put full title in title field.
 Ignore navigation, headers, footers, and non-deal content. Focus on actual product deals and specials.`
@@ -98,17 +87,22 @@ Return only valid JSON in this format:
     async (span) => {
       span.setAttribute("dispensary", dispensaryName);
       span.setAttribute("city", city || "unknown");
-      span.setAttribute("using_gateway", !!gatewayApiKey);
       span.setAttribute("html_length", cleanedHtml.length);
 
       try {
-        const result = await generateObject({
-          model,
-          system: systemPrompt,
-          prompt: userPrompt,
-          temperature: 0.1,
-          schema: ParseResponseSchema,
-        });
+        const { result, model } = await runAiTask(
+          'website_extract',
+          (model, abortSignal) =>
+            generateObject({
+              model,
+              system: systemPrompt,
+              prompt: userPrompt,
+              temperature: 0.1,
+              schema: ParseResponseSchema,
+              abortSignal,
+            }),
+          { model: options.model, onUsage }
+        );
 
         const parsedData = result.object as { deals: WebsiteDeal[] };
         const filteredDeals = parsedData.deals.filter((deal) => (deal.confidence ?? 1) >= 0.5);
@@ -116,6 +110,7 @@ Return only valid JSON in this format:
         span.setAttribute("deals_found", parsedData.deals.length);
         span.setAttribute("deals_filtered", filteredDeals.length);
         span.setAttribute("usage_tokens", result.usage?.totalTokens || 0);
+        span.setAttribute("model", model);
 
         const { logger } = Sentry;
         logger.info("Website deal extraction completed", {
@@ -123,7 +118,7 @@ Return only valid JSON in this format:
           city: city || "unknown",
           dealsFound: parsedData.deals.length,
           dealsFiltered: filteredDeals.length,
-          usingGateway: !!gatewayApiKey,
+          model,
         });
 
         return filteredDeals;
@@ -137,7 +132,6 @@ Return only valid JSON in this format:
         logger.error("Website deal extraction failed", {
           dispensary: dispensaryName,
           city: city || "unknown",
-          usingGateway: !!gatewayApiKey,
           error: errorMessage,
         });
 
@@ -148,7 +142,6 @@ Return only valid JSON in this format:
           },
           extra: {
             city,
-            usingGateway: !!gatewayApiKey,
             htmlLength: cleanedHtml.length,
           },
         });
@@ -4,6 +4,7 @@
 
 import { supabaseAdmin } from './supabase/server'
 import { geocodeZip, calculateDistance } from './geocoding'
+import { compareDealPricing, pricingForDeal, type DealPricing } from './pricing'
 
 interface DealWithDistance {
   id: string
@@ -17,6 +18,7 @@ interface DealWithDistance {
   created_at: string
   brand_id: string | null
   brands?: { id: string; name: string } | null
+  pricing?: DealPricing | null
   distance?: number // Distance in miles from user's ZIP
 }
 
@@ -181,3 +183,26 @@ export function rankDealsWithDistance(
 
   return rankedDeals
 }
+
+/**
+ * Sort deals best price first (effective unit price, then discount depth),
+ * breaking ties by distance and then recency
+ */
+export function sortDealsByPrice(deals: DealWithDistance[]): DealWithDistance[] {
+  const scored = deals.map(deal => ({ deal, pricing: pricingForDeal(deal) }))
+
+  scored.sort((a, b) => {
+    const byPrice = compareDealPricing(a.pricing, b.pricing)
+    if (byPrice !== 0) {
+      return byPrice
+    }
+    // If same price, prefer closer (if distances available)
+    if (a.deal.distance !== undefined && b.deal.distance !== undefined) {
+      return a.deal.distance - b.deal.distance
+    }
+    // If same price, prefer newer
+    return new Date(b.deal.created_at).getTime() - new Date(a.deal.created_at).getTime()
+  })
+
+  return scored.map(({ deal }) => deal)
+}
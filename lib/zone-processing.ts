@@ -0,0 +1,193 @@
+/**
+ * Zone processing: discover a zone's dispensaries with Google Places, link them to the zone,
+ * queue DEALS_READY notifications for its subscribers and queue deal ingestion for new dispensaries.
+ * Runs as a PROCESS_ZONE ingestion job; errors are thrown so the job is retried with backoff.
+ */
+
+import * as Sentry from '@sentry/nextjs'
+import { supabaseAdmin } from './supabase/server'
+import { geocodeZip } from './geocoding'
+import { searchDispensariesNearLocation, getPlaceDetails } from './places'
+import { enqueueIngestionJobs, ingestJobFor } from './ingestion-jobs'
+import type { DispensaryForIngest } from './ingest-deals'
+
+const DEFAULT_RADIUS_MILES = 25
+
+export interface ZoneProcessingResult {
+  zip: string
+  /** Discovery was skipped because the zone already has dispensaries (saves Places API calls) */
+  alreadyPopulated: boolean
+  dispensariesLinked: number
+  ingestJobsQueued: number
+}
+
+/**
+ * Create DEALS_READY notifications for all users subscribed to the zone (idempotent).
+ */
+async function queueDealsReady(zoneId: string): Promise<void> {
+  const { data: subscriptions } = await supabaseAdmin
+    .from('user_subscriptions')
+    .select('email')
+    .eq('zone_id', zoneId)
+    .limit(1000) // Prevent unbounded queries - reasonable limit per zone
+
+  if (!subscriptions || subscriptions.length === 0) return
+
+  const notifications = subscriptions.map((sub) => ({
+    email: sub.email,
+    zone_id: zoneId,
+    type: 'DEALS_READY' as const,
+    status: 'PENDING' as const,
+  }))
+  await supabaseAdmin.from('notifications_outbox').upsert(notifications, {
+    onConflict: 'email,zone_id,type',
+    ignoreDuplicates: true,
+  })
+}
+
+async function markZoneProcessed(zone: { id: string; ttl_minutes: number | null }): Promise<void> {
+  await supabaseAdmin
+    .from('zones')
+    .update({
+      last_processed_at: new Date().toISOString(),
+      next_process_at: new Date(Date.now() + (zone.ttl_minutes ?? 360) * 60 * 1000).toISOString(),
+      processing_lock: null,
+      processing_lock_expires_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', zone.id)
+}
+
+/**
+ * Process one zone. Throws when the ZIP cannot be geocoded or Places fails, so the job retries.
+ */
+export async function processZone(zoneId: string): Promise<ZoneProcessingResult> {
+  const { data: zone, error } = await supabaseAdmin
+    .from('zones')
+    .select('id, zip, status, ttl_minutes')
+    .eq('id', zoneId)
+    .maybeSingle()
+
+  if (error) throw new Error(error.message)
+  if (!zone) throw new Error(`Zone ${zoneId} not found`)
+
+  const zipLocation = await geocodeZip(zone.zip)
+  if (!zipLocation) throw new Error(`Could not geocode zip ${zone.zip}`)
+
+  // Skip discovery if zone already has dispensaries (saves Places API calls)
+  const { data: existingLinks } = await supabaseAdmin
+    .from('zone_dispensaries')
+    .select('dispensary_id')
+    .eq('zone_id', zone.id)
+    .limit(1)
+
+  if (existingLinks && existingLinks.length > 0) {
+    // Zone already populated: skip Places, still create DEALS_READY and refresh zone
+    await queueDealsReady(zone.id)
+    await markZoneProcessed(zone)
+    return { zip: zone.zip, alreadyPopulated: true, dispensariesLinked: 0, ingestJobsQueued: 0 }
+  }
+
+  // Discover dispensaries via Google Places
+  const radiusMeters = DEFAULT_RADIUS_MILES * 1609.34 // Convert miles to meters
+  const places = await searchDispensariesNearLocation(zipLocation.latitude, zipLocation.longitude, radiusMeters, 20)
+
+  // Upsert dispensaries and link to zone
+  let dispensariesLinked = 0
+  const newlyInsertedDispensaries: DispensaryForIngest[] = []
+  for (const place of places) {
+    // Get additional details if needed (website, phone)
+    let placeDetails = place
+    if (!place.website || !place.phone) {
+      const details = await getPlaceDetails(place.place_id)
+      if (details) {
+        placeDetails = { ...place, ...details }
+      }
+    }
+
+    // Upsert dispensary by place_id
+    const { data: existingDisp } = await supabaseAdmin
+      .from('dispensaries')
+      .select('id')
+      .eq('place_id', placeDetails.place_id)
+      .single()
+
+    let dispensaryId: string
+
+    if (existingDisp) {
+      const { data: updated } = await supabaseAdmin
+        .from('dispensaries')
+        .update({
+          name: placeDetails.name,
+          address: placeDetails.address || null,
+          latitude: placeDetails.latitude,
+          longitude: placeDetails.longitude,
+          phone: placeDetails.phone || null,
+          website: placeDetails.website || null,
+          city: zipLocation.city || null,
+          zip: zone.zip,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', existingDisp.id)
+        .select('id')
+        .single()
+
+      if (!updated) continue
+      dispensaryId = updated.id
+    } else {
+      const { data: newDisp, error: insertError } = await supabaseAdmin
+        .from('dispensaries')
+        .insert({
+          place_id: placeDetails.place_id,
+          name: placeDetails.name,
+          address: placeDetails.address || null,
+          latitude: placeDetails.latitude,
+          longitude: placeDetails.longitude,
+          phone: placeDetails.phone || null,
+          website: placeDetails.website || null,
+          city: zipLocation.city || null,
+          zip: zone.zip,
+          state: zipLocation.state || 'MI',
+          active: true,
+        })
+        .select('id')
+        .single()
+
+      if (insertError || !newDisp) {
+        const { logger } = Sentry
+        logger.error('Failed to insert dispensary', {
+          error: insertError?.message,
+          dispensary_name: placeDetails.name,
+          zone_id: zone.id,
+          zip: zone.zip,
+        })
+        continue
+      }
+
+      dispensaryId = newDisp.id
+      newlyInsertedDispensaries.push({
+        name: placeDetails.name,
+        city: zipLocation.city || undefined,
+        website: placeDetails.website || undefined,
+      })
+    }
+
+    await supabaseAdmin.from('zone_dispensaries').upsert(
+      {
+        zone_id: zone.id,
+        dispensary_id: dispensaryId,
+        last_seen_at: new Date().toISOString(),
+      },
+      { onConflict: 'zone_id,dispensary_id' }
+    )
+    dispensariesLinked++
+  }
+
+  await queueDealsReady(zone.id)
+  await markZoneProcessed(zone)
+
+  // Ingest newly discovered dispensaries right away (don't wait for 8am ingest-daily)
+  const { enqueued } = await enqueueIngestionJobs(newlyInsertedDispensaries.map((d) => ingestJobFor(d, 'zone', zone.id)))
+
+  return { zip: zone.zip, alreadyPopulated: false, dispensariesLinked, ingestJobsQueued: enqueued }
+}
@@ -0,0 +1,79 @@
+/**
+ * Deal Category Backfill Script
+ *
+ * Infers subcategories from deal titles (lib/categories.ts) for deals written
+ * before subcategories existed. Run after migration 020, which remaps old
+ * category values onto the taxonomy's slugs.
+ *
+ * Usage:
+ *   npx tsx scripts/backfill-deal-categories.ts
+ *   or
+ *   npm run backfill:categories
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import { config } from 'dotenv'
+import { resolve } from 'path'
+import { dealCategoryColumns } from '../lib/categories'
+
+// Load environment variables from .env.local
+config({ path: resolve(process.cwd(), '.env.local') })
+config() // Fallback to .env
+
+const SUPABASE_URL = process.env.SUPABASE_URL
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY
+const BATCH_SIZE = 500
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error('❌ Error: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set in .env.local')
+  process.exit(1)
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+})
+
+async function backfill() {
+  let scanned = 0
+  let updated = 0
+  let lastId: string | null = null
+
+  // Many deals have no subcategory to infer and stay null, so page by id rather than by the filter
+  for (;;) {
+    let query = supabase
+      .from('deals')
+      .select('id, category, title')
+      .is('subcategory', null)
+      .order('id')
+      .limit(BATCH_SIZE)
+    if (lastId) query = query.gt('id', lastId)
+
+    const { data: deals, error } = await query
+    if (error) {
+      throw new Error(`Failed to load deals: ${error.message}`)
+    }
+    if (!deals || deals.length === 0) break
+
+    for (const deal of deals) {
+      const columns = dealCategoryColumns(deal)
+      if (columns.subcategory || columns.category !== deal.category) {
+        const { error: updateError } = await supabase.from('deals').update(columns).eq('id', deal.id)
+        if (updateError) {
+          throw new Error(`Failed to update deal ${deal.id}: ${updateError.message}`)
+        }
+        updated++
+      }
+    }
+
+    scanned += deals.length
+    lastId = deals[deals.length - 1].id
+    console.log(`   ${scanned} deals scanned, ${updated} updated`)
+  }
+
+  console.log(`✅ Categories backfilled for ${updated} deals`)
+}
+
+backfill().catch((error) => {
+  console.error('❌ Backfill failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,71 @@
+/**
+ * Deal Pricing Backfill Script
+ *
+ * Parses price_text / regular_price / deal_price into the structured pricing
+ * columns (migration 016) for deals written before pricing was persisted.
+ *
+ * Usage:
+ *   npx tsx scripts/backfill-deal-pricing.ts
+ *   or
+ *   npm run backfill:pricing
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import { config } from 'dotenv'
+import { resolve } from 'path'
+import { dealPricingColumns } from '../lib/pricing'
+
+// Load environment variables from .env.local
+config({ path: resolve(process.cwd(), '.env.local') })
+config() // Fallback to .env
+
+const SUPABASE_URL = process.env.SUPABASE_URL
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY
+const BATCH_SIZE = 500
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error('❌ Error: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set in .env.local')
+  process.exit(1)
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+})
+
+async function backfill() {
+  let updated = 0
+
+  // Rows drop out of the filter as they're written, so always read the first page
+  for (;;) {
+    const { data: deals, error } = await supabase
+      .from('deals')
+      .select('id, title, price_text, regular_price, deal_price')
+      .is('price_mechanic', null)
+      .limit(BATCH_SIZE)
+
+    if (error) {
+      throw new Error(`Failed to load deals: ${error.message}`)
+    }
+    if (!deals || deals.length === 0) break
+
+    for (const deal of deals) {
+      const { error: updateError } = await supabase
+        .from('deals')
+        .update(dealPricingColumns(deal))
+        .eq('id', deal.id)
+      if (updateError) {
+        throw new Error(`Failed to update deal ${deal.id}: ${updateError.message}`)
+      }
+      updated++
+    }
+
+    console.log(`   ${updated} deals updated`)
+  }
+
+  console.log(`✅ Pricing backfilled for ${updated} deals`)
+}
+
+backfill().catch((error) => {
+  console.error('❌ Backfill failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
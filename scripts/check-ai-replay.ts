@@ -0,0 +1,125 @@
+/**
+ * AI Replay Check
+ *
+ * Runs the AI stages of the ingestion pipeline on saved inputs in scripts/fixtures/pipeline-replay with
+ * AI_BACKEND=fixture, so every model call is answered from the recordings in scripts/fixtures/ai-replay
+ * (lib/ai-provider). A flyer goes through splitFlyer, ocrFlyerPages and parseDealsFromText; a deals page
+ * through extractMenuDeals and extractDealsFromWebsite. The database stages around them are not run.
+ * No network access or API keys are needed. A prompt, schema or preprocessing change alters the request
+ * key, so the recording is missing and the check fails until it is re-recorded.
+ *
+ * Each fixture directory has:
+ *   expected.json  { "kind": "flyer" | "website", "dispensary", "city"?, "regions"?: number, "deals": [{ "category", "title", "brand"?, "price_text" }] }
+ *   flyer.png (flyer) or input.html (website)
+ * Deals are paired with lib/deal-eval; every expected deal must be found and nothing else.
+ *
+ * With AI_BACKEND=record (and API keys in .env.local) the real models are called and their responses
+ * saved as the new recordings.
+ *
+ * Usage:
+ *   npx tsx scripts/check-ai-replay.ts [fixture-name]
+ *   or
+ *   npm run check:replay
+ */
+
+import { config } from 'dotenv'
+import { readdirSync, readFileSync, existsSync } from 'fs'
+import { join, resolve } from 'path'
+import { splitFlyer, ocrFlyerPages, mimeTypeForPath } from '../lib/flyer-pages'
+import { parseDealsFromText, type Deal } from '../lib/ai-parser'
+import { extractMenuDeals } from '../lib/menu-adapters'
+import { extractDealsFromWebsite } from '../lib/website-deals'
+import { scoreDeals, type LabeledDeal } from '../lib/deal-eval'
+
+config({ path: resolve(process.cwd(), '.env.local') })
+
+if (process.env.AI_BACKEND !== 'record') process.env.AI_BACKEND = 'fixture'
+
+const FIXTURES_DIR = resolve(__dirname, 'fixtures/pipeline-replay')
+
+interface Expected {
+  description?: string
+  kind: 'flyer' | 'website'
+  dispensary: string
+  city?: string
+  /** Deal regions OCR located on the flyer (used for thumbnails) */
+  regions?: number
+  deals: LabeledDeal[]
+}
+
+function describe(deal: LabeledDeal): string {
+  return `[${deal.category}] ${deal.title} — ${deal.price_text}`
+}
+
+async function runFlyer(dir: string, expected: Expected, problems: string[]): Promise<Deal[]> {
+  const file = join(dir, 'flyer.png')
+  const pages = await splitFlyer(readFileSync(file), mimeTypeForPath(file))
+  const ocr = await ocrFlyerPages(pages)
+  if (ocr.failedPages > 0) throw new Error(ocr.lastError || 'OCR failed')
+
+  const regions = ocr.pages.reduce((n, page) => n + (page.regions?.length || 0), 0)
+  if (expected.regions !== undefined && regions !== expected.regions) {
+    problems.push(`${regions} deal regions, expected ${expected.regions}`)
+  }
+  return parseDealsFromText(ocr.text, expected.dispensary, expected.city)
+}
+
+async function runWebsite(dir: string, expected: Expected, problems: string[]): Promise<Deal[]> {
+  const html = readFileSync(join(dir, 'input.html'), 'utf8')
+  const menu = extractMenuDeals(html)
+  if (menu) {
+    problems.push(`read by the ${menu.adapter} menu adapter instead of the AI`)
+    return menu.deals
+  }
+  return extractDealsFromWebsite(html, expected.dispensary, expected.city)
+}
+
+async function main() {
+  const only = process.argv.slice(2).find((arg) => !arg.startsWith('--'))
+  const names = readdirSync(FIXTURES_DIR).filter(
+    (name) => existsSync(join(FIXTURES_DIR, name, 'expected.json')) && (!only || name === only)
+  )
+  if (names.length === 0) {
+    console.error(`❌ No fixtures found${only ? ` named ${only}` : ''} in ${FIXTURES_DIR}`)
+    process.exit(1)
+  }
+
+  console.log(`Running ${names.length} fixture(s) with AI_BACKEND=${process.env.AI_BACKEND}\n`)
+
+  let failures = 0
+  for (const name of names) {
+    const dir = join(FIXTURES_DIR, name)
+    const expected = JSON.parse(readFileSync(join(dir, 'expected.json'), 'utf8')) as Expected
+    const problems: string[] = []
+
+    let deals: Deal[]
+    try {
+      deals =
+        expected.kind === 'flyer' ? await runFlyer(dir, expected, problems) : await runWebsite(dir, expected, problems)
+    } catch (error) {
+      failures++
+      console.log(`❌ ${name} — ${error instanceof Error ? error.message : 'Unknown error'}`)
+      continue
+    }
+
+    const score = scoreDeals(expected.deals, deals)
+    for (const deal of score.missing) problems.push(`missing ${describe(deal)}`)
+    for (const deal of score.extra) problems.push(`extra ${describe(deal)}`)
+
+    if (problems.length > 0) {
+      failures++
+      console.log(`❌ ${name}`)
+      for (const problem of problems) console.log(`   - ${problem}`)
+    } else {
+      console.log(`✅ ${name}${expected.description ? ` — ${expected.description}` : ''} (${deals.length} deals)`)
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} of ${names.length} fixture(s) failed`)
+    process.exit(1)
+  }
+  console.log(`\n✅ All ${names.length} fixture(s) passed`)
+}
+
+main()
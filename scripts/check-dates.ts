@@ -0,0 +1,95 @@
+/**
+ * Date Module Check
+ *
+ * Checks lib/dates.ts (and the end-date label built on it) around Michigan's DST changes and the
+ * evening hours where the UTC date is already tomorrow. No network access.
+ * The process runs with TZ set far from Michigan, so nothing may depend on the server's timezone.
+ *
+ * Usage:
+ *   npx tsx scripts/check-dates.ts
+ *   or
+ *   npm run check:dates
+ */
+
+process.env.TZ = 'Pacific/Kiritimati' // UTC+14
+
+import {
+  addDays,
+  daysBetween,
+  earliestToday,
+  formatDate,
+  localDate,
+  startOfDay,
+  todayIn,
+  weekdayOf,
+} from '../lib/dates'
+import { expirationLabel } from '../lib/deals'
+
+const DETROIT = 'America/Detroit'
+const MENOMINEE = 'America/Menominee'
+const HOUR = 60 * 60 * 1000
+
+const cases: Array<[string, unknown, unknown]> = [
+  // 2026-03-08: clocks go from 2:00 EST to 3:00 EDT
+  ['today, last minute before spring forward day', todayIn(DETROIT, Date.parse('2026-03-08T04:59:00Z')), '2026-03-07'],
+  ['today, spring forward day starts 05:00Z', todayIn(DETROIT, Date.parse('2026-03-08T05:00:00Z')), '2026-03-08'],
+  ['today, spring forward day ends 03:59Z next day', todayIn(DETROIT, Date.parse('2026-03-09T03:59:00Z')), '2026-03-08'],
+  ['today, day after spring forward starts 04:00Z', todayIn(DETROIT, Date.parse('2026-03-09T04:00:00Z')), '2026-03-09'],
+  ['start of spring forward day', startOfDay('2026-03-08', DETROIT).toISOString(), '2026-03-08T05:00:00.000Z'],
+  ['start of day after spring forward', startOfDay('2026-03-09', DETROIT).toISOString(), '2026-03-09T04:00:00.000Z'],
+  [
+    'spring forward day is 23 hours',
+    (startOfDay('2026-03-09', DETROIT).getTime() - startOfDay('2026-03-08', DETROIT).getTime()) / HOUR,
+    23,
+  ],
+
+  // 2026-11-01: clocks go from 2:00 EDT back to 1:00 EST
+  ['today, fall back day starts 04:00Z', todayIn(DETROIT, Date.parse('2026-11-01T04:00:00Z')), '2026-11-01'],
+  ['today, 1:30am EST after fall back', todayIn(DETROIT, Date.parse('2026-11-01T06:30:00Z')), '2026-11-01'],
+  ['today, fall back day ends 04:59Z next day', todayIn(DETROIT, Date.parse('2026-11-02T04:59:00Z')), '2026-11-01'],
+  ['today, day after fall back starts 05:00Z', todayIn(DETROIT, Date.parse('2026-11-02T05:00:00Z')), '2026-11-02'],
+  ['start of fall back day', startOfDay('2026-11-01', DETROIT).toISOString(), '2026-11-01T04:00:00.000Z'],
+  [
+    'fall back day is 25 hours',
+    (startOfDay('2026-11-02', DETROIT).getTime() - startOfDay('2026-11-01', DETROIT).getTime()) / HOUR,
+    25,
+  ],
+
+  // Calendar arithmetic never moves with DST
+  ['add a day across spring forward', addDays('2026-03-07', 1), '2026-03-08'],
+  ['add a day across fall back', addDays('2026-10-31', 2), '2026-11-02'],
+  ['a week back across fall back', addDays('2026-11-05', -7), '2026-10-29'],
+  ['days between across fall back', daysBetween('2026-10-30', '2026-11-03'), 4],
+  ['weekday of spring forward day', weekdayOf('2026-03-08'), 0],
+  ['format fall back day', formatDate('2026-11-01', { month: 'short', day: 'numeric' }), 'Nov 1'],
+
+  // Evenings, when the UTC date is already tomorrow
+  ['8:30pm EDT is still today', todayIn(DETROIT, Date.parse('2026-07-16T00:30:00Z')), '2026-07-15'],
+  ['7:30pm EST is still today', localDate('2026-12-16T00:30:00Z', DETROIT), '2026-12-15'],
+  ['ends tonight at 8:30pm', expirationLabel('2026-07-15', DETROIT, Date.parse('2026-07-16T00:30:00Z')), 'Ends Tonight'],
+  ['ends tomorrow at 11pm', expirationLabel('2026-07-16', DETROIT, Date.parse('2026-07-16T03:00:00Z')), 'Ends Tomorrow'],
+  ['ended after midnight', expirationLabel('2026-07-15', DETROIT, Date.parse('2026-07-16T04:00:00Z')), 'Ended'],
+  ['ends in a few days', expirationLabel('2026-11-01', DETROIT, Date.parse('2026-10-29T16:00:00Z')), 'Ends Nov 1'],
+
+  // Central-time Upper Peninsula shops are an hour behind
+  ['Menominee at 12:30am Eastern', todayIn(MENOMINEE, Date.parse('2026-07-16T04:30:00Z')), '2026-07-15'],
+  ['earliest today covers Central time', earliestToday(Date.parse('2026-07-16T04:30:00Z')), '2026-07-15'],
+  ['Central shop still ends tonight', expirationLabel('2026-07-15', MENOMINEE, Date.parse('2026-07-16T04:30:00Z')), 'Ends Tonight'],
+]
+
+function main() {
+  let failures = 0
+  for (const [name, actual, expected] of cases) {
+    const passed = actual === expected
+    if (!passed) failures++
+    console.log(`${passed ? '✅' : '❌'} ${name}${passed ? '' : `: got ${String(actual)}, expected ${String(expected)}`}`)
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} of ${cases.length} checks failed`)
+    process.exit(1)
+  }
+  console.log(`\n✅ All ${cases.length} checks passed`)
+}
+
+main()
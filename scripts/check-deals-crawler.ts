@@ -0,0 +1,78 @@
+/**
+ * Deals-Page Crawler Fixture Check
+ *
+ * Runs the deals-page crawler (lib/deals-page-crawler.ts) against saved HTML sites in
+ * scripts/fixtures/deals-crawler and checks it picks the expected page. No network access.
+ *
+ * Each fixture directory has a manifest.json:
+ *   { "root": url, "expected": url, "pages": { url: { "file": "x.html", "finalUrl"?: url } } }
+ * URLs missing from "pages" behave like a 404.
+ *
+ * Usage:
+ *   npx tsx scripts/check-deals-crawler.ts [fixture-name]
+ *   or
+ *   npm run check:crawler
+ */
+
+import { readdirSync, readFileSync, existsSync } from 'fs'
+import { join, resolve } from 'path'
+import { discoverDealsPage, type PageFetcher } from '../lib/deals-page-crawler'
+
+const FIXTURES_DIR = resolve(__dirname, 'fixtures/deals-crawler')
+
+interface Manifest {
+  description?: string
+  root: string
+  expected: string
+  pages: Record<string, { file: string; finalUrl?: string }>
+}
+
+function fixtureFetcher(dir: string, manifest: Manifest): PageFetcher {
+  return async (url) => {
+    const page = manifest.pages[url]
+    if (!page) return null
+    return { url: page.finalUrl || url, status: 200, html: readFileSync(join(dir, page.file), 'utf8') }
+  }
+}
+
+async function main() {
+  const only = process.argv[2]
+  const names = readdirSync(FIXTURES_DIR).filter(
+    (name) => existsSync(join(FIXTURES_DIR, name, 'manifest.json')) && (!only || name === only)
+  )
+
+  if (names.length === 0) {
+    console.error(`❌ No fixtures found${only ? ` named ${only}` : ''} in ${FIXTURES_DIR}`)
+    process.exit(1)
+  }
+
+  let failures = 0
+  for (const name of names) {
+    const dir = join(FIXTURES_DIR, name)
+    const manifest = JSON.parse(readFileSync(join(dir, 'manifest.json'), 'utf8')) as Manifest
+    const result = await discoverDealsPage(manifest.root, { fetchPage: fixtureFetcher(dir, manifest) })
+
+    const passed = result.bestUrl === manifest.expected
+    if (!passed) failures++
+
+    console.log(`${passed ? '✅' : '❌'} ${name}${manifest.description ? ` — ${manifest.description}` : ''}`)
+    console.log(`   picked ${result.bestUrl ?? '(none)'} after ${result.pagesFetched} pages`)
+    if (!passed) {
+      console.log(`   expected ${manifest.expected}`)
+      for (const candidate of result.candidates.slice(0, 5)) {
+        console.log(`   ${String(candidate.score).padStart(3)}  ${candidate.url}  [${candidate.reasons.join(', ')}]`)
+      }
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} of ${names.length} fixtures failed`)
+    process.exit(1)
+  }
+  console.log(`\n✅ All ${names.length} fixtures passed`)
+}
+
+main().catch((error) => {
+  console.error('❌ Check failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,150 @@
+/**
+ * Inbound Email Fixture Check
+ *
+ * Reads the saved Resend messages in scripts/fixtures/inbound-email with lib/inbound-email.ts and
+ * checks the sender, subject, body text and which attachments are read. Also checks that a payload
+ * signed like the webhook verifies. No network access and no AI calls.
+ *
+ * Each fixture directory has:
+ *   payload.json   the "email.received" webhook body (metadata only)
+ *   email.json     GET /emails/receiving/{email_id}, which the webhook handler fetches
+ *   expected.json  { "from", "subject", "attachments": [filename], "skipped": [filename],
+ *                    "authenticated"?: boolean (default true), "body_includes"?: [text], "body_excludes"?: [text] }
+ *
+ * With --post <url>, each payload is instead signed with RESEND_INBOUND_WEBHOOK_SECRET and sent to
+ * the endpoint (e.g. http://localhost:3000/api/inbound-email), printing the response. The endpoint
+ * then fetches the email from Resend, so this only gets past that step for real email ids.
+ *
+ * Usage:
+ *   npx tsx scripts/check-inbound-email.ts [fixture-name] [--post <url>]
+ *   or
+ *   npm run check:inbound
+ */
+
+import { config } from 'dotenv'
+import { readdirSync, readFileSync, existsSync } from 'fs'
+import { join, resolve } from 'path'
+import { randomUUID } from 'crypto'
+import {
+  inboundEmailSchema,
+  parseInboundEmail,
+  receivedEmailSchema,
+  signInboundPayload,
+  verifyInboundSignature,
+} from '../lib/inbound-email'
+
+config({ path: resolve(process.cwd(), '.env.local') })
+
+const FIXTURES_DIR = resolve(__dirname, 'fixtures/inbound-email')
+
+interface Expected {
+  description?: string
+  from: string
+  subject: string
+  attachments: string[]
+  skipped: string[]
+  authenticated?: boolean
+  body_includes?: string[]
+  body_excludes?: string[]
+}
+
+function signedHeaders(body: string, secret: string): Headers {
+  const id = `msg_${randomUUID()}`
+  const timestamp = Math.floor(Date.now() / 1000)
+  return new Headers({
+    'content-type': 'application/json',
+    'svix-id': id,
+    'svix-timestamp': String(timestamp),
+    'svix-signature': signInboundPayload(body, secret, id, timestamp),
+  })
+}
+
+function check(name: string, body: string): boolean {
+  const expected = JSON.parse(readFileSync(join(FIXTURES_DIR, name, 'expected.json'), 'utf8')) as Expected
+  const webhook = inboundEmailSchema.parse(JSON.parse(body))
+  const email = receivedEmailSchema.parse(JSON.parse(readFileSync(join(FIXTURES_DIR, name, 'email.json'), 'utf8')))
+  const parsed = parseInboundEmail(email)
+
+  const problems: string[] = []
+  if (webhook.data.email_id !== email.id) problems.push(`webhook email_id ${webhook.data.email_id}, email id ${email.id}`)
+  if (parsed.from !== expected.from) problems.push(`from ${parsed.from}, expected ${expected.from}`)
+  if (parsed.authenticated !== (expected.authenticated ?? true)) {
+    problems.push(`authenticated ${parsed.authenticated}, expected ${expected.authenticated ?? true}`)
+  }
+  if (parsed.subject !== expected.subject) problems.push(`subject "${parsed.subject}", expected "${expected.subject}"`)
+  const read = parsed.attachments.map((a) => a.filename)
+  if (read.join(',') !== expected.attachments.join(',')) {
+    problems.push(`attachments [${read.join(', ')}], expected [${expected.attachments.join(', ')}]`)
+  }
+  if (parsed.skipped.join(',') !== expected.skipped.join(',')) {
+    problems.push(`skipped [${parsed.skipped.join(', ')}], expected [${expected.skipped.join(', ')}]`)
+  }
+  for (const text of expected.body_includes || []) {
+    if (!parsed.bodyText.includes(text)) problems.push(`body is missing "${text}"`)
+  }
+  for (const text of expected.body_excludes || []) {
+    if (parsed.bodyText.includes(text)) problems.push(`body still has "${text}"`)
+  }
+
+  console.log(`${problems.length === 0 ? '✅' : '❌'} ${name}${expected.description ? ` — ${expected.description}` : ''}`)
+  console.log(`   ${parsed.authenticated ? 'authenticated' : 'not authenticated'}, ${read.length} attachments read, ${parsed.skipped.length} skipped, ${parsed.bodyText.length} chars of body text`)
+  for (const problem of problems) console.log(`   ${problem}`)
+  return problems.length === 0
+}
+
+async function post(url: string, name: string, body: string, secret: string) {
+  const response = await fetch(url, { method: 'POST', headers: signedHeaders(body, secret), body })
+  console.log(`${response.ok ? '✅' : '❌'} ${name}: HTTP ${response.status}`)
+  console.log(`   ${await response.text()}`)
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const postIndex = args.indexOf('--post')
+  const postUrl = postIndex >= 0 ? args[postIndex + 1] : null
+  const only = args.find((arg, i) => !arg.startsWith('--') && (postIndex < 0 || i !== postIndex + 1))
+
+  const names = readdirSync(FIXTURES_DIR).filter(
+    (name) =>
+      existsSync(join(FIXTURES_DIR, name, 'payload.json')) &&
+      existsSync(join(FIXTURES_DIR, name, 'email.json')) &&
+      (!only || name === only)
+  )
+  if (names.length === 0) {
+    console.error(`❌ No fixtures found${only ? ` named ${only}` : ''} in ${FIXTURES_DIR}`)
+    process.exit(1)
+  }
+
+  if (postUrl) {
+    const secret = process.env.RESEND_INBOUND_WEBHOOK_SECRET
+    if (!secret) {
+      console.error('❌ Set RESEND_INBOUND_WEBHOOK_SECRET to sign payloads')
+      process.exit(1)
+    }
+    for (const name of names) {
+      await post(postUrl, name, readFileSync(join(FIXTURES_DIR, name, 'payload.json'), 'utf8'), secret)
+    }
+    return
+  }
+
+  let failures = 0
+  for (const name of names) {
+    if (!check(name, readFileSync(join(FIXTURES_DIR, name, 'payload.json'), 'utf8'))) failures++
+  }
+
+  // Signature round trip with a throwaway secret; a changed body must not verify
+  const secret = `whsec_${Buffer.from(randomUUID()).toString('base64')}`
+  const body = readFileSync(join(FIXTURES_DIR, names[0], 'payload.json'), 'utf8')
+  const headers = signedHeaders(body, secret)
+  const signatureOk = verifyInboundSignature(body, headers, secret) && !verifyInboundSignature(`${body} `, headers, secret)
+  console.log(`${signatureOk ? '✅' : '❌'} signature — signed payload verifies, altered payload does not`)
+  if (!signatureOk) failures++
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} checks failed`)
+    process.exit(1)
+  }
+  console.log(`\n✅ All ${names.length + 1} checks passed`)
+}
+
+main()
@@ -0,0 +1,76 @@
+/**
+ * Menu Adapter Fixture Check
+ *
+ * Runs the menu adapters (lib/menu-adapters.ts) against captured deals pages in
+ * scripts/fixtures/menu-adapters and checks which adapter claims each page and the deals it reads.
+ * No network access and no AI calls.
+ *
+ * Each fixture directory has page.html and expected.json:
+ *   { "adapter": id | null, "deals": [{ "category", "title", "brand"?, "price_text" }] }
+ * Deals are compared in order on those fields.
+ *
+ * Usage:
+ *   npx tsx scripts/check-menu-adapters.ts [fixture-name]
+ *   or
+ *   npm run check:adapters
+ */
+
+import { readdirSync, readFileSync, existsSync } from 'fs'
+import { join, resolve } from 'path'
+import { extractMenuDeals } from '../lib/menu-adapters'
+import type { Deal } from '../lib/ai-parser'
+
+const FIXTURES_DIR = resolve(__dirname, 'fixtures/menu-adapters')
+
+interface Expected {
+  description?: string
+  adapter: string | null
+  deals: Array<Pick<Deal, 'category' | 'title' | 'brand' | 'price_text'>>
+}
+
+function describe(deal: Pick<Deal, 'category' | 'title' | 'brand' | 'price_text'>): string {
+  return `[${deal.category}] ${deal.title}${deal.brand ? ` (${deal.brand})` : ''} — ${deal.price_text}`
+}
+
+function main() {
+  const only = process.argv[2]
+  const names = readdirSync(FIXTURES_DIR).filter(
+    (name) => existsSync(join(FIXTURES_DIR, name, 'expected.json')) && (!only || name === only)
+  )
+
+  if (names.length === 0) {
+    console.error(`❌ No fixtures found${only ? ` named ${only}` : ''} in ${FIXTURES_DIR}`)
+    process.exit(1)
+  }
+
+  let failures = 0
+  for (const name of names) {
+    const dir = join(FIXTURES_DIR, name)
+    const expected = JSON.parse(readFileSync(join(dir, 'expected.json'), 'utf8')) as Expected
+    const result = extractMenuDeals(readFileSync(join(dir, 'page.html'), 'utf8'))
+
+    const actual = (result?.deals || []).map(describe)
+    const wanted = expected.deals.map(describe)
+    const passed =
+      (result?.adapter ?? null) === expected.adapter &&
+      actual.length === wanted.length &&
+      actual.every((line, i) => line === wanted[i])
+    if (!passed) failures++
+
+    console.log(`${passed ? '✅' : '❌'} ${name}${expected.description ? ` — ${expected.description}` : ''}`)
+    console.log(`   adapter ${result?.adapter ?? '(none)'}, ${actual.length} deals`)
+    if (!passed) {
+      console.log(`   expected adapter ${expected.adapter ?? '(none)'}`)
+      for (const line of wanted.filter((w) => !actual.includes(w))) console.log(`   - missing  ${line}`)
+      for (const line of actual.filter((a) => !wanted.includes(a))) console.log(`   + extra    ${line}`)
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} of ${names.length} fixtures failed`)
+    process.exit(1)
+  }
+  console.log(`\n✅ All ${names.length} fixtures passed`)
+}
+
+main()
@@ -0,0 +1,59 @@
+/**
+ * Deal Pricing Fixture Check
+ *
+ * Parses the Michigan flyer price strings in scripts/fixtures/pricing/flyer-strings.json with
+ * lib/pricing.ts and checks the fields each fixture expects: BOGO and buy-get offers, "2/$35"
+ * bundles, "$X off" and percentage discounts, tiered menus, and g / mg / ml / ounce-fraction sizes.
+ * No network access.
+ *
+ * Each fixture is { "price_text", "title"?, "regular_price"?, "deal_price"?, "expect": { ...DealPricing fields } };
+ * fields not listed under "expect" are not checked.
+ *
+ * Usage:
+ *   npx tsx scripts/check-pricing.ts
+ *   or
+ *   npm run check:pricing
+ */
+
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { parseDealPricing, type DealPricing, type PricingInput } from '../lib/pricing'
+
+const FIXTURES = resolve(__dirname, 'fixtures/pricing/flyer-strings.json')
+
+interface Fixture extends PricingInput {
+  expect: Partial<DealPricing>
+}
+
+function matches(actual: unknown, expected: unknown): boolean {
+  if (typeof actual === 'number' && typeof expected === 'number') return Math.abs(actual - expected) < 0.0001
+  return actual === expected
+}
+
+function main() {
+  const fixtures = JSON.parse(readFileSync(FIXTURES, 'utf8')) as Fixture[]
+
+  let failures = 0
+  for (const fixture of fixtures) {
+    const { expect, ...input } = fixture
+    const pricing = parseDealPricing(input)
+    const problems = Object.entries(expect)
+      .filter(([field, value]) => !matches(pricing[field as keyof DealPricing], value))
+      .map(([field, value]) => `${field} ${JSON.stringify(pricing[field as keyof DealPricing])}, expected ${JSON.stringify(value)}`)
+
+    const label = [input.price_text || '(no price text)', input.title && `title "${input.title}"`, input.regular_price && `reg ${input.regular_price}`]
+      .filter(Boolean)
+      .join(', ')
+    if (problems.length > 0) failures++
+    console.log(`${problems.length === 0 ? '✅' : '❌'} ${label}`)
+    for (const problem of problems) console.log(`   ${problem}`)
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} of ${fixtures.length} fixtures failed`)
+    process.exit(1)
+  }
+  console.log(`\n✅ All ${fixtures.length} fixtures passed`)
+}
+
+main()
@@ -0,0 +1,153 @@
+/**
+ * Extraction Eval
+ *
+ * Scores parseDealsFromText (flyer OCR text) and extractDealsFromWebsite (deals page HTML) against
+ * hand-labeled fixtures in scripts/fixtures/deal-eval and reports precision and recall
+ * (scoring in lib/deal-eval.ts). Run it before and after changing a prompt or model and compare.
+ *
+ * Each fixture directory has:
+ *   expected.json  { "kind": "ocr" | "html", "dispensary", "city"?, "hints"?, "deals": [{ "category", "title", "brand"?, "price_text" }] }
+ *   input.txt (ocr) or input.html (html)
+ *   recorded.json  a model response, { "deals": [...] }
+ * By default recorded.json is replayed by a stub model, so no network access or API keys are needed;
+ * the stub still goes through the real prompt, schema validation and confidence filter.
+ * --live calls the configured provider instead (lib/ai-provider, so AI_BACKEND=fixture replays whole
+ * recorded requests); --record (with --live) saves its deals as recorded.json.
+ * New fixtures come from reviewed flyers via scripts/export-eval-fixtures.ts.
+ *
+ * Usage:
+ *   npx tsx scripts/eval-extraction.ts [fixture-name] [--live] [--record]
+ *   or
+ *   npm run eval:extraction
+ */
+
+import { readdirSync, readFileSync, writeFileSync, existsSync } from 'fs'
+import { join, resolve } from 'path'
+import { config } from 'dotenv'
+import { MockLanguageModelV3 } from 'ai/test'
+import { parseDealsFromText, type Deal } from '../lib/ai-parser'
+import { extractDealsFromWebsite } from '../lib/website-deals'
+import { scoreDeals, summarizeScores, type DealEvalScore, type EvalFixture, type LabeledDeal } from '../lib/deal-eval'
+
+// Load environment variables from .env.local (only used with --live)
+config({ path: resolve(process.cwd(), '.env.local') })
+config() // Fallback to .env
+
+const FIXTURES_DIR = resolve(__dirname, 'fixtures/deal-eval')
+
+/** A model that answers every call with the recorded response */
+function replayModel(recorded: unknown) {
+  return new MockLanguageModelV3({
+    doGenerate: async () => ({
+      content: [{ type: 'text', text: JSON.stringify(recorded) }],
+      finishReason: { unified: 'stop', raw: undefined },
+      usage: {
+        inputTokens: { total: 0, noCache: 0, cacheRead: 0, cacheWrite: 0 },
+        outputTokens: { total: 0, text: 0, reasoning: 0 },
+      },
+      warnings: [],
+    }),
+  })
+}
+
+function describe(deal: LabeledDeal): string {
+  return `[${deal.category}] ${deal.title}${deal.brand ? ` (${deal.brand})` : ''} — ${deal.price_text}`
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const live = args.includes('--live')
+  const record = args.includes('--record')
+  const only = args.find((arg) => !arg.startsWith('--'))
+
+  if (record && !live) {
+    console.error('❌ --record needs --live')
+    process.exit(1)
+  }
+  if (
+    live &&
+    process.env.AI_BACKEND !== 'fixture' &&
+    !process.env.GEMINI_API_KEY &&
+    !process.env.AI_GATEWAY_API_KEY &&
+    !process.env.OPENAI_API_KEY
+  ) {
+    console.error('❌ --live needs GEMINI_API_KEY, AI_GATEWAY_API_KEY or OPENAI_API_KEY in .env.local')
+    process.exit(1)
+  }
+
+  const names = readdirSync(FIXTURES_DIR).filter(
+    (name) => existsSync(join(FIXTURES_DIR, name, 'expected.json')) && (!only || name === only)
+  )
+  if (names.length === 0) {
+    console.error(`❌ No fixtures found${only ? ` named ${only}` : ''} in ${FIXTURES_DIR}`)
+    process.exit(1)
+  }
+
+  console.log(`Running ${names.length} fixture(s) against ${live ? 'the live provider' : 'recorded responses'}\n`)
+
+  const scores: DealEvalScore[] = []
+  let errors = 0
+  let skipped = 0
+  for (const name of names) {
+    const dir = join(FIXTURES_DIR, name)
+    const fixture = JSON.parse(readFileSync(join(dir, 'expected.json'), 'utf8')) as EvalFixture
+    const input = readFileSync(join(dir, fixture.kind === 'ocr' ? 'input.txt' : 'input.html'), 'utf8')
+    const recordedPath = join(dir, 'recorded.json')
+
+    if (!live && !existsSync(recordedPath)) {
+      skipped++
+      console.log(`⏭️  ${name} — no recorded.json yet (run with --live --record)`)
+      continue
+    }
+    const options = live ? {} : { model: replayModel(JSON.parse(readFileSync(recordedPath, 'utf8'))) }
+
+    let predicted: Deal[]
+    try {
+      predicted =
+        fixture.kind === 'ocr'
+          ? await parseDealsFromText(input, fixture.dispensary, fixture.city, undefined, { ...options, hints: fixture.hints })
+          : await extractDealsFromWebsite(input, fixture.dispensary, fixture.city, undefined, options)
+    } catch (error) {
+      errors++
+      console.log(`❌ ${name} — ${error instanceof Error ? error.message : 'Unknown error'}`)
+      continue
+    }
+
+    if (record) {
+      writeFileSync(recordedPath, `${JSON.stringify({ deals: predicted }, null, 2)}\n`)
+    }
+
+    const score = scoreDeals(fixture.deals, predicted)
+    scores.push(score)
+    const perfect = score.falsePositives === 0 && score.falseNegatives === 0
+    console.log(`${perfect ? '✅' : '⚠️ '} ${name}${fixture.description ? ` — ${fixture.description}` : ''}`)
+    console.log(
+      `   precision ${percent(score.precision)}, recall ${percent(score.recall)} ` +
+        `(${score.truePositives} of ${fixture.deals.length} labeled deals found, ${score.falsePositives} extra)`
+    )
+    for (const deal of score.missing) console.log(`   - missing  ${describe(deal)}`)
+    for (const deal of score.extra) console.log(`   + extra    ${describe(deal)}`)
+  }
+
+  if (scores.length > 0) {
+    const total = summarizeScores(scores)
+    const labeledBrands = scores.reduce((n, s) => n + s.matched.filter((m) => m.expected.brand).length, 0)
+    console.log(
+      `\nTotal: precision ${percent(total.precision)}, recall ${percent(total.recall)}, F1 ${percent(total.f1)} ` +
+        `(${total.truePositives} matched, ${total.falsePositives} extra, ${total.falseNegatives} missing; ` +
+        `brand right on ${total.brandCorrect} of ${labeledBrands} matched deals with a labeled brand)`
+    )
+  }
+  if (skipped > 0) console.log(`${skipped} fixture(s) skipped`)
+
+  if (errors > 0) {
+    console.error(`\n❌ ${errors} fixture(s) failed to run`)
+    process.exit(1)
+  }
+}
+
+main()
@@ -0,0 +1,121 @@
+/**
+ * Eval Fixture Export
+ *
+ * Turns flyers whose deals an admin has reviewed into fixtures for scripts/eval-extraction.ts.
+ * The flyer's stored OCR text becomes input.txt and its deals, as corrected in review, become
+ * the labels; deals rejected or merged away in review are dropped. Flyers with reviews still
+ * pending are left out. Deals nobody reviewed are kept as labels, so look the fixture over before
+ * committing it. Deals pages are not stored, so only flyer (ocr) fixtures can be exported.
+ *
+ * Existing fixture directories are never overwritten. Record a response for a new fixture with
+ *   npx tsx scripts/eval-extraction.ts <fixture-name> --live --record
+ *
+ * Usage:
+ *   npx tsx scripts/export-eval-fixtures.ts [--days 30] [--limit 10]
+ *   or
+ *   npm run export:eval-fixtures
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import { config } from 'dotenv'
+import { existsSync, mkdirSync, writeFileSync } from 'fs'
+import { join, resolve } from 'path'
+import { slugify } from '../lib/slugs'
+import { addDays, todayIn } from '../lib/dates'
+import type { EvalFixture } from '../lib/deal-eval'
+
+// Load environment variables from .env.local
+config({ path: resolve(process.cwd(), '.env.local') })
+config() // Fallback to .env
+
+const SUPABASE_URL = process.env.SUPABASE_URL
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY
+const FIXTURES_DIR = resolve(__dirname, 'fixtures/deal-eval')
+/** Flyers scanned per run, newest first */
+const SCAN_LIMIT = 200
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error('❌ Error: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set in .env.local')
+  process.exit(1)
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+})
+
+function numberArg(flag: string, fallback: number): number {
+  const index = process.argv.indexOf(flag)
+  const value = index >= 0 ? Number(process.argv[index + 1]) : NaN
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+async function exportFixtures() {
+  const days = numberArg('--days', 30)
+  const limit = numberArg('--limit', 10)
+  const since = addDays(todayIn(), -days)
+
+  const { data: flyers, error } = await supabase
+    .from('deal_flyers')
+    .select('id, dispensary_name, date, source_url, ocr_text')
+    .not('ocr_text', 'is', null)
+    .gte('date', since)
+    .order('date', { ascending: false })
+    .limit(SCAN_LIMIT)
+  if (error) throw new Error(`Failed to load flyers: ${error.message}`)
+
+  let exported = 0
+  for (const flyer of flyers || []) {
+    if (exported >= limit) break
+
+    const name = `${slugify(flyer.dispensary_name)}-${flyer.date}`
+    const dir = join(FIXTURES_DIR, name)
+    if (existsSync(dir)) continue
+
+    const { data: deals, error: dealsError } = await supabase
+      .from('deals')
+      .select('id, city, category, title, brand, price_text, status, reviewed_at')
+      .eq('dispensary_name', flyer.dispensary_name)
+      .eq('date', flyer.date)
+      .eq('source_url', flyer.source_url)
+    if (dealsError) throw new Error(`Failed to load deals: ${dealsError.message}`)
+    if (!deals?.some((deal) => deal.reviewed_at)) continue
+
+    const { data: reviews } = await supabase
+      .from('deal_reviews')
+      .select('deal_id, status')
+      .in('deal_id', deals.map((deal) => deal.id))
+    if (reviews?.some((review) => review.status === 'pending')) continue
+
+    const rejectedIds = new Set(
+      (reviews || []).filter((review) => review.status === 'rejected').map((review) => review.deal_id)
+    )
+    const kept = deals.filter((deal) => deal.status !== 'rejected' && !rejectedIds.has(deal.id))
+    const unreviewed = kept.filter((deal) => !deal.reviewed_at).length
+
+    const fixture: EvalFixture = {
+      description: `Exported from reviewed flyer ${flyer.id}; ${deals.length - kept.length} rejected deal(s) dropped, ${unreviewed} unreviewed kept`,
+      kind: 'ocr',
+      dispensary: flyer.dispensary_name,
+      ...(deals[0].city ? { city: deals[0].city } : {}),
+      deals: kept.map((deal) => ({
+        category: deal.category,
+        title: deal.title,
+        ...(deal.brand ? { brand: deal.brand } : {}),
+        price_text: deal.price_text,
+      })),
+    }
+
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'input.txt'), `${flyer.ocr_text}\n`)
+    writeFileSync(join(dir, 'expected.json'), `${JSON.stringify(fixture, null, 2)}\n`)
+    exported++
+    console.log(`✅ ${name}: ${kept.length} labeled deal(s)`)
+  }
+
+  console.log(`\n✨ Exported ${exported} fixture(s) to ${FIXTURES_DIR}`)
+}
+
+exportFixtures().catch((error) => {
+  console.error('❌ Export failed:', error)
+  process.exit(1)
+})
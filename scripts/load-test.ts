@@ -0,0 +1,108 @@
+/**
+ * Public Page Load Test
+ *
+ * Requests the public deal pages (home, deals, a category, Michigan, a few cities, brands,
+ * dispensaries) against a running server and reports latency and how many Supabase requests the
+ * server made per page view, read from /api/dev/db-requests (DEV_SECRET is sent when set).
+ *
+ * For a before/after comparison, run it twice against the same data:
+ *   before: DEAL_CACHE=off npm run dev     (every view renders and queries, as before the cached layer)
+ *   after:  npm run build && npm run start (ISR pages and cached deal reads)
+ *
+ * Usage:
+ *   npx tsx scripts/load-test.ts [--base http://localhost:3000] [--requests 200] [--concurrency 10]
+ *   or
+ *   npm run load-test -- --requests 500
+ */
+
+import { config } from 'dotenv'
+import { resolve } from 'path'
+import { CURATED_CITIES } from '../lib/cities'
+import { DEAL_CATEGORIES } from '../lib/categories'
+
+config({ path: resolve(process.cwd(), '.env.local') })
+
+const PATHS = [
+  '/',
+  '/deals',
+  `/deals/${DEAL_CATEGORIES[0].slug}`,
+  '/michigan',
+  ...CURATED_CITIES.slice(0, 3).map((city) => `/michigan/${city.slug}`),
+  '/brands',
+  '/dispensaries',
+]
+
+function option(args: string[], name: string, fallback: string): string {
+  const index = args.indexOf(`--${name}`)
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))]
+}
+
+async function dbRequests(base: string, method: 'GET' | 'DELETE'): Promise<number> {
+  const headers: Record<string, string> = {}
+  if (process.env.DEV_SECRET) headers.authorization = `Bearer ${process.env.DEV_SECRET}`
+  const response = await fetch(`${base}/api/dev/db-requests`, { method, headers })
+  if (!response.ok) throw new Error(`/api/dev/db-requests answered HTTP ${response.status}`)
+  const body = (await response.json()) as { requests: number }
+  return body.requests
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const base = option(args, 'base', 'http://localhost:3000').replace(/\/$/, '')
+  const total = parseInt(option(args, 'requests', '200'), 10)
+  const concurrency = parseInt(option(args, 'concurrency', '10'), 10)
+
+  console.log(`🚦 ${total} page views against ${base}, ${concurrency} at a time, across ${PATHS.length} pages`)
+  await dbRequests(base, 'DELETE')
+
+  const latencies = new Map<string, number[]>()
+  const failures: string[] = []
+  let next = 0
+  const started = Date.now()
+
+  async function worker() {
+    while (next < total) {
+      const path = PATHS[next++ % PATHS.length]
+      const start = Date.now()
+      try {
+        const response = await fetch(`${base}${path}`)
+        await response.arrayBuffer()
+        if (!response.ok) failures.push(`${path}: HTTP ${response.status}`)
+      } catch (error) {
+        failures.push(`${path}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+      latencies.set(path, [...(latencies.get(path) || []), Date.now() - start])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker))
+
+  const elapsed = (Date.now() - started) / 1000
+  const queries = await dbRequests(base, 'GET')
+
+  console.log('')
+  for (const path of PATHS) {
+    const times = (latencies.get(path) || []).sort((a, b) => a - b)
+    console.log(
+      `   ${path.padEnd(28)} ${String(times.length).padStart(5)} views   p50 ${percentile(times, 50)}ms   p95 ${percentile(times, 95)}ms`
+    )
+  }
+
+  console.log('')
+  console.log(`📊 ${total} page views in ${elapsed.toFixed(1)}s (${(total / elapsed).toFixed(1)}/s)`)
+  console.log(`📊 ${queries} Supabase requests: ${(queries / total).toFixed(2)} per page view`)
+
+  if (failures.length > 0) {
+    console.error(`\n❌ ${failures.length} page views failed, e.g. ${failures.slice(0, 5).join('; ')}`)
+    process.exit(1)
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Load test failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
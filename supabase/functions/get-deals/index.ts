@@ -34,6 +34,32 @@ function parsePrice(priceText: string): number {
   return numbers[0]
 }
 
+const UNIT_ORDER: Record<string, number> = { g: 0, ml: 1, mg: 2 }
+
+// Mirrors pricingRankKey in lib/pricing.ts using the persisted pricing columns
+// (this function can't import from lib). Rows written before pricing was stored
+// fall back to parsePrice.
+function priceRankKey(deal: any): [number, number, number] {
+  if (deal.effective_unit_price !== null && deal.effective_unit_price !== undefined && deal.effective_unit) {
+    return [0, UNIT_ORDER[deal.effective_unit] ?? 3, Number(deal.effective_unit_price)]
+  }
+  const pricing = deal.pricing
+  if (pricing) {
+    if (pricing.percentOff !== null) return [1, 0, 1 - pricing.percentOff / 100]
+    if (pricing.unitPrice !== null) return [2, 0, pricing.unitPrice]
+    return [3, 0, 0]
+  }
+  const legacy = parsePrice(deal.price_text || '')
+  return Number.isFinite(legacy) ? [2, 0, legacy] : [3, 0, 0]
+}
+
+function compareRankKeys(a: [number, number, number], b: [number, number, number]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i]
+  }
+  return 0
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -134,7 +160,7 @@ serve(async (req) => {
     twoDaysAgo.setDate(twoDaysAgo.getDate() - 2)
     const twoDaysAgoStr = twoDaysAgo.toISOString().split('T')[0]
 
-    // Query deals matching date and categories, with brand join
+    // Query deals running on the date and matching categories, with brand join
     let query = supabase
       .from('deals')
       .select(`
@@ -144,8 +170,9 @@ serve(async (req) => {
           name
         )
       `)
-      .eq('date', date)
-      .gte('date', twoDaysAgoStr) // Only show deals from last 2 days
+      // Only show deals from last 2 days, or kept running since by an unchanged flyer
+      .or(`date.gte.${twoDaysAgoStr},last_seen_date.gte.${twoDaysAgoStr}`)
+      .lte('date', date) // Up to and including the requested date
       .in('category', preferences.categories)
       .in('dispensary_name', dispensariesInZones)
       .eq('needs_review', false)
@@ -201,12 +228,13 @@ serve(async (req) => {
     // Score and sort deals
     const scoredDeals = uniqueDeals.map(deal => ({
       ...deal,
-      score: parsePrice(deal.price_text),
+      score: priceRankKey(deal),
     }))
 
     scoredDeals.sort((a, b) => {
-      if (a.score !== b.score) {
-        return a.score - b.score
+      const byPrice = compareRankKeys(a.score, b.score)
+      if (byPrice !== 0) {
+        return byPrice
       }
       return new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
     })
@@ -0,0 +1,12 @@
+-- 013_raw_ingest_processing.sql
+-- Track how raw_deal_ingest captures were turned into reviewable deals
+
+ALTER TABLE raw_deal_ingest
+  ADD COLUMN IF NOT EXISTS processed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS dispensary_id uuid REFERENCES dispensaries(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS deals_created int DEFAULT 0;
+
+-- Processor reads oldest unprocessed rows first
+CREATE INDEX IF NOT EXISTS idx_raw_deal_ingest_unprocessed
+  ON raw_deal_ingest(created_at)
+  WHERE processed = false;
@@ -0,0 +1,72 @@
+-- 014_extension_installs.sql
+-- Per-install API keys, quotas and trust for the Chrome extension ingest endpoint
+
+CREATE TABLE extension_installs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  label text NOT NULL, -- Who/what the key was issued to (e.g. contributor name)
+  install_id text, -- x-ddd-install-id reported by the extension; bound on first use
+  api_key_hash text NOT NULL, -- sha256 of the issued key; plaintext is shown once at issue time
+  key_prefix text NOT NULL, -- First characters of the key, for identifying it in admin
+  status text DEFAULT 'active' CHECK (status IN ('active', 'revoked')),
+  daily_quota int DEFAULT 500,
+  extension_version text,
+  last_seen_at timestamptz,
+  captures_total int DEFAULT 0,
+  captures_approved int DEFAULT 0,
+  captures_rejected int DEFAULT 0,
+  trust_score numeric DEFAULT 0.5, -- (approved + 1) / (approved + rejected + 2)
+  created_at timestamptz DEFAULT now(),
+  revoked_at timestamptz
+);
+
+CREATE UNIQUE INDEX idx_extension_installs_key_hash ON extension_installs(api_key_hash);
+CREATE UNIQUE INDEX idx_extension_installs_install_id ON extension_installs(install_id) WHERE install_id IS NOT NULL;
+
+-- Attribute captures and the deals they produce to an install
+ALTER TABLE raw_deal_ingest
+  ADD COLUMN IF NOT EXISTS install_id uuid REFERENCES extension_installs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_raw_deal_ingest_install_created ON raw_deal_ingest(install_id, created_at);
+
+ALTER TABLE deals
+  ADD COLUMN IF NOT EXISTS source_install_id uuid REFERENCES extension_installs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_deals_source_install_id ON deals(source_install_id) WHERE source_install_id IS NOT NULL;
+
+-- RLS
+ALTER TABLE extension_installs ENABLE ROW LEVEL SECURITY;
+
+-- Keys and trust scores are never exposed to the anon key; supabaseAdmin bypasses RLS anyway
+CREATE POLICY "Service role manages extension_installs" ON extension_installs FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Counters are incremented in SQL so concurrent captures and reviews don't lose counts
+CREATE OR REPLACE FUNCTION record_extension_capture(p_install uuid, p_install_id text, p_version text)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE extension_installs
+  SET install_id = COALESCE(install_id, p_install_id),
+      extension_version = COALESCE(p_version, extension_version),
+      last_seen_at = now(),
+      captures_total = COALESCE(captures_total, 0) + 1
+  WHERE id = p_install;
+$$;
+
+CREATE OR REPLACE FUNCTION record_extension_review_outcome(p_install uuid, p_approved boolean)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE extension_installs
+  SET captures_approved = COALESCE(captures_approved, 0) + CASE WHEN p_approved THEN 1 ELSE 0 END,
+      captures_rejected = COALESCE(captures_rejected, 0) + CASE WHEN p_approved THEN 0 ELSE 1 END,
+      -- Laplace-smoothed approval rate on the counts after this review: (approved + 1) / (approved + rejected + 2)
+      trust_score = round(
+        (COALESCE(captures_approved, 0) + CASE WHEN p_approved THEN 1 ELSE 0 END + 1)::numeric
+          / (COALESCE(captures_approved, 0) + COALESCE(captures_rejected, 0) + 3),
+        3
+      )
+  WHERE id = p_install;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_extension_capture(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_extension_review_outcome(uuid, boolean) FROM PUBLIC, anon, authenticated;
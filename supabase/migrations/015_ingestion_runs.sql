@@ -0,0 +1,64 @@
+-- 015_ingestion_runs.sql
+-- Ledger of every ingestion attempt per dispensary, with per-stage outcomes,
+-- and an explainable, reversible record of automatic deactivation.
+
+CREATE TABLE ingestion_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispensary_id uuid REFERENCES dispensaries(id) ON DELETE SET NULL,
+  dispensary_name text NOT NULL,
+  trigger text NOT NULL DEFAULT 'cron' CHECK (trigger IN ('cron', 'zone', 'admin')),
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'no_deals', 'skipped', 'failed')),
+  source_url text, -- Last URL attempted (flyer or website page)
+  stage_reached text, -- 'fetch', 'ocr', 'parse' or 'website'
+  http_status int,
+  ocr_length int,
+  deals_found int DEFAULT 0,
+  deals_inserted int DEFAULT 0,
+  deals_filtered int DEFAULT 0, -- Dropped by confidence or quality checks
+  duplicates int DEFAULT 0,
+  flagged int DEFAULT 0,
+  ai_tokens int DEFAULT 0,
+  error text,
+  success_rate_after numeric, -- ingestion_success_rate after this run was applied
+  deactivated boolean DEFAULT false, -- This run pushed the dispensary below the auto-deactivation threshold
+  started_at timestamptz DEFAULT now(),
+  finished_at timestamptz
+);
+
+CREATE INDEX idx_ingestion_runs_dispensary_started ON ingestion_runs(dispensary_name, started_at DESC);
+CREATE INDEX idx_ingestion_runs_started ON ingestion_runs(started_at DESC);
+CREATE INDEX idx_ingestion_runs_status ON ingestion_runs(status) WHERE status = 'failed';
+
+CREATE TABLE ingestion_run_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES ingestion_runs(id) ON DELETE CASCADE,
+  stage text NOT NULL, -- 'fetch', 'ocr', 'parse' or 'website'
+  ok boolean NOT NULL,
+  reason text, -- StopReason when ok = false (e.g. 'fetch_failed', 'empty_text')
+  source_url text,
+  http_status int,
+  ocr_length int,
+  deals_found int,
+  deals_filtered int,
+  duplicates int,
+  flagged int,
+  ai_tokens int,
+  duration_ms int,
+  error text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_ingestion_run_steps_run ON ingestion_run_steps(run_id, created_at);
+
+-- Why a dispensary was switched off automatically, so it can be explained and undone
+ALTER TABLE dispensaries ADD COLUMN IF NOT EXISTS deactivated_at timestamptz;
+ALTER TABLE dispensaries ADD COLUMN IF NOT EXISTS deactivation_reason text;
+ALTER TABLE dispensaries ADD COLUMN IF NOT EXISTS deactivated_by_run_id uuid REFERENCES ingestion_runs(id) ON DELETE SET NULL;
+ALTER TABLE dispensaries ADD COLUMN IF NOT EXISTS reactivated_at timestamptz;
+
+-- RLS
+ALTER TABLE ingestion_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ingestion_run_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages ingestion_runs" ON ingestion_runs FOR ALL USING (true);
+CREATE POLICY "Service role manages ingestion_run_steps" ON ingestion_run_steps FOR ALL USING (true);
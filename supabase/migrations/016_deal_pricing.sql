@@ -0,0 +1,15 @@
+-- 016_deal_pricing.sql
+-- Structured pricing parsed from price_text / regular_price / deal_price (lib/pricing.ts).
+-- pricing holds the full structure; the scalar columns are for SQL ordering and filtering.
+-- Existing rows: run `npm run backfill:pricing`.
+
+ALTER TABLE deals
+  ADD COLUMN IF NOT EXISTS pricing jsonb,
+  ADD COLUMN IF NOT EXISTS price_mechanic text
+    CHECK (price_mechanic IN ('percent_off', 'amount_off', 'fixed', 'bundle', 'bogo', 'tiered', 'unknown')),
+  ADD COLUMN IF NOT EXISTS effective_unit_price numeric, -- $ per effective_unit after quantity/bundle math
+  ADD COLUMN IF NOT EXISTS effective_unit text CHECK (effective_unit IN ('g', 'mg', 'ml'));
+
+CREATE INDEX IF NOT EXISTS idx_deals_effective_unit_price
+  ON deals(effective_unit, effective_unit_price)
+  WHERE effective_unit_price IS NOT NULL;
@@ -0,0 +1,8 @@
+-- 017_flyer_pages.sql
+-- Per-page OCR for flyers: multi-page PDFs are split into pages and tall images into
+-- overlapping tiles before OCR (lib/flyer-pages.ts). Each piece's hash and text is kept
+-- so a flyer with one changed page only re-OCRs that page.
+
+ALTER TABLE deal_flyers
+  ADD COLUMN IF NOT EXISTS page_count int,
+  ADD COLUMN IF NOT EXISTS pages jsonb; -- [{ index, hash, ocr_text, ocr_processed_at, error? }] in reading order
@@ -0,0 +1,19 @@
+-- 018_flyer_content_reuse.sql
+-- Content-addressed flyers: a flyer byte-identical (or perceptually identical) to one OCR'd on an
+-- earlier date reuses its stored file and text, and that date's deals are extended instead of re-parsed.
+
+ALTER TABLE deal_flyers
+  ADD COLUMN IF NOT EXISTS phash text, -- 256-bit difference hash (hex); null for PDFs
+  ADD COLUMN IF NOT EXISTS unchanged_from_flyer_id uuid REFERENCES deal_flyers(id) ON DELETE SET NULL;
+
+-- (hash, date) is already unique; cross-date lookups need hash alone
+CREATE INDEX IF NOT EXISTS idx_deal_flyers_hash ON deal_flyers(hash);
+CREATE INDEX IF NOT EXISTS idx_deal_flyers_dispensary_phash
+  ON deal_flyers(dispensary_name, created_at DESC)
+  WHERE phash IS NOT NULL;
+
+-- Last date an unchanged flyer confirmed the deal is still running
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS last_seen_date date;
+CREATE INDEX IF NOT EXISTS idx_deals_last_seen_date ON deals(last_seen_date) WHERE last_seen_date IS NOT NULL;
+
+ALTER TABLE ingestion_runs ADD COLUMN IF NOT EXISTS deals_extended int DEFAULT 0;
@@ -0,0 +1,27 @@
+-- 019_deal_sources.sql
+-- Similarity-based duplicate detection (lib/deal-matching.ts): a deal seen again by flyer, website,
+-- extension or submission is merged into the canonical deal and kept as a provenance row.
+-- Weaker matches are queued for review with the deal they may duplicate.
+
+CREATE TABLE deal_sources (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  deal_id uuid NOT NULL REFERENCES deals(id) ON DELETE CASCADE, -- Canonical deal
+  source_type text NOT NULL CHECK (source_type IN ('flyer', 'website', 'extension', 'submission')),
+  source_url text,
+  title text NOT NULL, -- Title as this source wrote it
+  price_text text NOT NULL,
+  seen_on date NOT NULL,
+  similarity numeric, -- Match score when merged as a duplicate; null for the deal's own origin
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_deal_sources_deal_id ON deal_sources(deal_id);
+
+ALTER TABLE deal_sources ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role manages deal_sources" ON deal_sources FOR ALL USING (true);
+
+ALTER TABLE deal_reviews
+  ADD COLUMN IF NOT EXISTS duplicate_of_deal_id uuid REFERENCES deals(id) ON DELETE SET NULL;
+
+-- Duplicate matching scopes by dispensary_id when known
+CREATE INDEX IF NOT EXISTS idx_deals_dispensary_id_date ON deals(dispensary_id, date);
@@ -0,0 +1,75 @@
+-- 020_category_taxonomy.sql
+-- One category taxonomy (lib/categories.ts) with subcategories, e.g. vapes → disposables / pods / carts.
+-- Remaps old and alternate category values on existing rows onto the canonical slugs:
+-- 'ounces' becomes flower/ounces, 'carts' becomes vapes/carts, 'cbd/thca' becomes 'cbd-thca' (a slash can't be a URL segment).
+-- Subcategories for other existing rows are inferred from titles: run `npm run backfill:categories`.
+
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS subcategory text;
+
+CREATE INDEX IF NOT EXISTS idx_deals_category_subcategory ON deals(category, subcategory);
+
+-- Mirrors the aliases in lib/categories.ts that differ from a canonical slug
+CREATE TEMP TABLE category_remap (
+  alias text PRIMARY KEY,
+  category text NOT NULL,
+  subcategory text
+) ON COMMIT DROP;
+
+INSERT INTO category_remap (alias, category, subcategory) VALUES
+  ('bud', 'flower', NULL),
+  ('buds', 'flower', NULL),
+  ('ounces', 'flower', 'ounces'),
+  ('ounce', 'flower', 'ounces'),
+  ('oz', 'flower', 'ounces'),
+  ('eighths', 'flower', 'eighths'),
+  ('shake', 'flower', 'shake'),
+  ('pre-roll', 'pre-rolls', NULL),
+  ('prerolls', 'pre-rolls', NULL),
+  ('preroll', 'pre-rolls', NULL),
+  ('joints', 'pre-rolls', NULL),
+  ('vape', 'vapes', NULL),
+  ('vaporizers', 'vapes', NULL),
+  ('carts', 'vapes', 'carts'),
+  ('cart', 'vapes', 'carts'),
+  ('cartridges', 'vapes', 'carts'),
+  ('disposables', 'vapes', 'disposables'),
+  ('disposable', 'vapes', 'disposables'),
+  ('pods', 'vapes', 'pods'),
+  ('concentrate', 'concentrates', NULL),
+  ('extracts', 'concentrates', NULL),
+  ('dabs', 'concentrates', NULL),
+  ('edible', 'edibles', NULL),
+  ('gummies', 'edibles', 'gummies'),
+  ('drink', 'drinks', NULL),
+  ('beverages', 'drinks', NULL),
+  ('beverage', 'drinks', NULL),
+  ('topical', 'topicals', NULL),
+  ('cbd/thca', 'cbd-thca', NULL),
+  ('cbd', 'cbd-thca', NULL),
+  ('thca', 'cbd-thca', NULL),
+  ('hemp', 'cbd-thca', NULL),
+  ('accessory', 'accessories', NULL),
+  ('gear', 'accessories', NULL);
+
+UPDATE deals d
+SET category = r.category,
+    subcategory = COALESCE(d.subcategory, r.subcategory)
+FROM category_remap r
+WHERE lower(trim(d.category)) = r.alias;
+
+-- Preferences and newsletter signups store category lists; remap each entry and drop the duplicates that creates
+UPDATE preferences p
+SET categories = ARRAY(
+  SELECT DISTINCT COALESCE(r.category, c)
+  FROM unnest(p.categories) AS c
+  LEFT JOIN category_remap r ON r.alias = lower(trim(c))
+)
+WHERE EXISTS (SELECT 1 FROM unnest(p.categories) AS c JOIN category_remap r ON r.alias = lower(trim(c)));
+
+UPDATE newsletter_signups n
+SET categories = ARRAY(
+  SELECT DISTINCT COALESCE(r.category, c)
+  FROM unnest(n.categories) AS c
+  LEFT JOIN category_remap r ON r.alias = lower(trim(c))
+)
+WHERE EXISTS (SELECT 1 FROM unnest(n.categories) AS c JOIN category_remap r ON r.alias = lower(trim(c)));
@@ -0,0 +1,34 @@
+-- 021_brand_aliases.sql
+-- Brand registry cleanup (lib/brand-extraction.ts, lib/brand-admin.ts).
+-- brand_aliases maps other spellings onto one brand; merging brands in the admin Brands tab records
+-- the merged names here so they resolve to the surviving brand from then on.
+-- brand_blocklist holds tokens that must never become brands ("Buy", "Premium").
+
+CREATE TABLE brand_aliases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brand_id uuid NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+  alias text NOT NULL, -- Spelling as seen
+  normalized_alias text NOT NULL, -- normalizeBrandName(alias)
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'merge')),
+  created_by text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_brand_aliases_normalized ON brand_aliases(normalized_alias);
+CREATE INDEX idx_brand_aliases_brand_id ON brand_aliases(brand_id);
+
+CREATE TABLE brand_blocklist (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token text NOT NULL,
+  normalized_token text NOT NULL,
+  created_by text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_brand_blocklist_normalized ON brand_blocklist(normalized_token);
+
+ALTER TABLE brand_aliases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE brand_blocklist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages brand aliases" ON brand_aliases FOR ALL USING (true);
+CREATE POLICY "Service role manages brand blocklist" ON brand_blocklist FOR ALL USING (true);
@@ -0,0 +1,10 @@
+-- 022_deals_page_discovery.sql
+-- Deals-page discovery (lib/deals-page-crawler.ts): when a dispensary has no flyer, its website is
+-- crawled for the page that lists deals. The page that produced deals is remembered in deals_url;
+-- every crawl's ranked candidates are kept for the admin Dispensaries tab.
+
+ALTER TABLE dispensaries
+  ADD COLUMN IF NOT EXISTS deals_url text,
+  ADD COLUMN IF NOT EXISTS deals_url_found_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deals_page_candidates jsonb, -- [{ url, kind, score, reasons, depth, fetched }], best first
+  ADD COLUMN IF NOT EXISTS deals_page_crawled_at timestamptz;
@@ -0,0 +1,29 @@
+-- 023_fetch_states.sql
+-- Polite fetch client (lib/polite-fetch.ts): per-URL conditional GET validators and the outcome of
+-- the last fetch. Validators are written only after the content was processed, so a 304 means the
+-- source is unchanged since its deals were ingested. Blocked outcomes (robots.txt, 401/403, 429)
+-- are listed in the admin Dispensaries tab.
+
+CREATE TABLE fetch_states (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  url text NOT NULL UNIQUE,
+  host text NOT NULL, -- hostname without www.
+  etag text,
+  last_modified text, -- Last-Modified header as sent by the server
+  validated_at timestamptz, -- when etag / last_modified were stored
+  last_outcome text, -- 'ok', 'not_modified', 'robots_disallowed', 'forbidden', 'rate_limited', 'http_error', 'network_error'
+  last_status int,
+  last_error text,
+  last_fetched_at timestamptz,
+  last_success_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_fetch_states_host ON fetch_states(host);
+CREATE INDEX idx_fetch_states_outcome ON fetch_states(last_outcome, last_fetched_at DESC);
+
+-- RLS
+ALTER TABLE fetch_states ENABLE ROW LEVEL SECURITY;
+
+-- Validators and robots/throttle state decide what gets fetched; only the service role may change them
+CREATE POLICY "Service role manages fetch_states" ON fetch_states FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,37 @@
+-- 024_ingestion_jobs.sql
+-- Durable ingestion queue (lib/ingestion-jobs.ts), modeled on notifications_outbox with retries.
+-- Crons enqueue jobs; /api/cron/ingestion-worker leases and runs them within a time budget.
+-- A failed attempt is retried with exponential backoff; after max_attempts the job is DEAD and
+-- waits in the admin Job Queue tab to be requeued or discarded.
+
+CREATE TABLE ingestion_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  type text NOT NULL CHECK (type IN ('INGEST_DISPENSARY', 'PROCESS_ZONE')),
+  payload jsonb NOT NULL DEFAULT '{}',
+  dedupe_key text, -- at most one PENDING/RUNNING job per key (e.g. 'dispensary:<name>', 'zone:<id>')
+  status text NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'RUNNING', 'SUCCEEDED', 'DEAD', 'DISCARDED')),
+  attempts int NOT NULL DEFAULT 0, -- incremented when an attempt starts
+  max_attempts int NOT NULL DEFAULT 4,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  locked_by text, -- worker id holding the lease
+  lock_expires_at timestamptz, -- a RUNNING job past its lease is picked up again
+  last_attempted_at timestamptz,
+  error_message text,
+  result jsonb,
+  completed_at timestamptz,
+  dead_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_ingestion_jobs_live_dedupe ON ingestion_jobs(dedupe_key)
+  WHERE dedupe_key IS NOT NULL AND status IN ('PENDING', 'RUNNING');
+CREATE INDEX idx_ingestion_jobs_due ON ingestion_jobs(next_attempt_at) WHERE status = 'PENDING';
+CREATE INDEX idx_ingestion_jobs_lease ON ingestion_jobs(lock_expires_at) WHERE status = 'RUNNING';
+CREATE INDEX idx_ingestion_jobs_status ON ingestion_jobs(status, updated_at DESC);
+
+-- RLS
+ALTER TABLE ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+-- The worker runs queued payloads with service-role credentials; nobody else may queue, claim or delete jobs
+CREATE POLICY "Service role manages ingestion_jobs" ON ingestion_jobs FOR ALL TO service_role USING (true) WITH CHECK (true);
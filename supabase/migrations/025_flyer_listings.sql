@@ -0,0 +1,57 @@
+-- 025_flyer_listings.sql
+-- Flyer listings (lib/flyer-listings.ts): when a flyer's text is too short to parse, AI parsing fails,
+-- or some of its deals come back under the confidence threshold, the flyer itself is listed as a
+-- "See today's flyer" card instead of a placeholder row in deals. Listings live outside deals, so
+-- category filters, price sorting and duplicate checks never see them.
+-- Existing placeholder rows ("<Shop> - Deal Flyer Available" / "- Multiple Deals Available") are
+-- moved here when their flyer is known, and removed from deals either way.
+
+CREATE TABLE flyer_listings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  flyer_id uuid NOT NULL UNIQUE REFERENCES deal_flyers(id) ON DELETE CASCADE,
+  dispensary_id uuid REFERENCES dispensaries(id) ON DELETE SET NULL,
+  dispensary_name text NOT NULL,
+  city text,
+  date date NOT NULL,
+  last_seen_date date NOT NULL, -- moved forward while the flyer stays unchanged
+  file_path text NOT NULL, -- object in the private deal-flyers bucket, served through signed URLs
+  source_url text,
+  reason text NOT NULL CHECK (reason IN ('text_too_short', 'ai_failed', 'low_confidence')),
+  unparsed_deals int NOT NULL DEFAULT 0, -- low-confidence deals left on the flyer
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_flyer_listings_last_seen ON flyer_listings(last_seen_date);
+CREATE INDEX idx_flyer_listings_dispensary ON flyer_listings(dispensary_name, last_seen_date DESC);
+CREATE INDEX idx_flyer_listings_dispensary_id ON flyer_listings(dispensary_id);
+
+INSERT INTO flyer_listings (flyer_id, dispensary_id, dispensary_name, city, date, last_seen_date, file_path, source_url, reason)
+SELECT DISTINCT ON (f.id)
+  f.id,
+  d.dispensary_id,
+  d.dispensary_name,
+  d.city,
+  d.date,
+  GREATEST(d.date, COALESCE(d.last_seen_date, d.date)),
+  f.file_path,
+  d.source_url,
+  CASE WHEN d.title LIKE '% - Multiple Deals Available' THEN 'low_confidence' ELSE 'ai_failed' END
+FROM deals d
+JOIN deal_flyers f
+  ON f.dispensary_name = d.dispensary_name
+  AND f.date = d.date
+  AND (d.source_url IS NULL OR f.source_url = d.source_url)
+WHERE d.price_text = 'See flyer for details'
+  AND (d.title LIKE '% - Deal Flyer Available' OR d.title LIKE '% - Multiple Deals Available')
+ORDER BY f.id, d.created_at DESC
+ON CONFLICT (flyer_id) DO NOTHING;
+
+DELETE FROM deals
+WHERE price_text = 'See flyer for details'
+  AND (title LIKE '% - Deal Flyer Available' OR title LIKE '% - Multiple Deals Available');
+
+-- RLS
+ALTER TABLE flyer_listings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages flyer_listings" ON flyer_listings FOR ALL USING (true);
@@ -0,0 +1,11 @@
+-- 026_deal_thumbnails.sql
+-- Per-deal thumbnails cropped from the source flyer (lib/deal-thumbnails.ts). OCR returns a bounding
+-- box per deal; the box matched to each parsed deal is kept here so a CROP_THUMBNAILS job can crop it
+-- into the deal-media bucket (setting deals.image), and an admin can redraw it from the review panel.
+
+ALTER TABLE deals
+  ADD COLUMN IF NOT EXISTS image_box jsonb; -- { flyer_path, page, box: [ymin, xmin, ymax, xmax] on a 0–1000 scale, source: 'ocr' | 'admin' }
+
+ALTER TABLE ingestion_jobs DROP CONSTRAINT IF EXISTS ingestion_jobs_type_check;
+ALTER TABLE ingestion_jobs
+  ADD CONSTRAINT ingestion_jobs_type_check CHECK (type IN ('INGEST_DISPENSARY', 'PROCESS_ZONE', 'CROP_THUMBNAILS'));
@@ -0,0 +1,24 @@
+-- 027_dispensary_parse_hints.sql
+-- Per-dispensary parsing hints (lib/parse-hints.ts): admin notes, category remaps, text to ignore and
+-- corrected before/after examples captured from review edits. They are added to the AI parse prompt
+-- for that dispensary only; ingestion runs record how many were used so their effect can be compared.
+
+CREATE TABLE dispensary_parse_hints (
+  dispensary_id uuid PRIMARY KEY REFERENCES dispensaries(id) ON DELETE CASCADE,
+  notes text,
+  category_remaps jsonb NOT NULL DEFAULT '[]', -- [{ "term": "Smalls", "category": "flower" }]
+  ignore_patterns text[] NOT NULL DEFAULT '{}', -- Flyer text that is never a deal ("Happy hour 4-6pm")
+  examples jsonb NOT NULL DEFAULT '[]', -- [{ "before": {category,title,price_text}, "after": {...}, "captured_at" }], newest first
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Hints in the parse prompt for this run / step (0 or null: parsed without hints)
+ALTER TABLE ingestion_runs ADD COLUMN IF NOT EXISTS parse_hints int DEFAULT 0;
+ALTER TABLE ingestion_run_steps ADD COLUMN IF NOT EXISTS parse_hints int;
+
+-- RLS
+ALTER TABLE dispensary_parse_hints ENABLE ROW LEVEL SECURITY;
+
+-- Service role only: hints are pasted into the parse prompt
+CREATE POLICY "Service role manages dispensary_parse_hints" ON dispensary_parse_hints FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,64 @@
+-- 028_ai_usage.sql
+-- AI spend accounting (lib/ai-spend.ts): one ai_usage row per AI call with its tokens and estimated
+-- cost, tagged with the dispensary, zone and ingestion run it was made for. Daily and monthly budgets
+-- are kept in site_settings ('ai_budget'); once reached, ingestion runs cache-only and flyers that would
+-- need a new AI call are listed as flyer cards instead.
+
+CREATE TABLE ai_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task text NOT NULL, -- ocr | parse | website_extract | admin_chat
+  model text NOT NULL, -- "vendor:model" as tried by lib/ai-provider
+  input_tokens int NOT NULL DEFAULT 0,
+  output_tokens int NOT NULL DEFAULT 0,
+  total_tokens int NOT NULL DEFAULT 0,
+  cost_usd numeric(12, 6) NOT NULL DEFAULT 0, -- Estimated from list prices
+  dispensary_id uuid REFERENCES dispensaries(id) ON DELETE SET NULL,
+  dispensary_name text,
+  zone_id uuid REFERENCES zones(id) ON DELETE SET NULL,
+  ingestion_run_id uuid REFERENCES ingestion_runs(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_ai_usage_created_at ON ai_usage(created_at DESC);
+CREATE INDEX idx_ai_usage_dispensary ON ai_usage(dispensary_id, created_at DESC);
+CREATE INDEX idx_ai_usage_zone ON ai_usage(zone_id, created_at DESC) WHERE zone_id IS NOT NULL;
+
+-- Spend per calendar day in p_timezone from p_since on. The created_at range is filtered first (on
+-- idx_ai_usage_created_at), so a budget check groups this month's calls rather than the whole table.
+CREATE OR REPLACE FUNCTION ai_spend_daily(p_since timestamptz, p_timezone text)
+RETURNS TABLE (day date, cost_usd numeric, total_tokens bigint, calls bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (u.created_at AT TIME ZONE p_timezone)::date,
+    sum(u.cost_usd),
+    sum(u.total_tokens),
+    count(*)
+  FROM ai_usage u
+  WHERE u.created_at >= p_since
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION ai_spend_daily(timestamptz, text) FROM PUBLIC, anon, authenticated;
+
+-- Estimated AI cost of a run / step, next to ai_tokens
+ALTER TABLE ingestion_runs ADD COLUMN IF NOT EXISTS ai_cost_usd numeric(12, 6) DEFAULT 0;
+ALTER TABLE ingestion_run_steps ADD COLUMN IF NOT EXISTS ai_cost_usd numeric(12, 6);
+
+-- Flyers listed because the AI budget was reached
+ALTER TABLE flyer_listings DROP CONSTRAINT IF EXISTS flyer_listings_reason_check;
+ALTER TABLE flyer_listings ADD CONSTRAINT flyer_listings_reason_check
+  CHECK (reason IN ('text_too_short', 'ai_failed', 'low_confidence', 'budget_exhausted'));
+
+-- No limits until an admin sets them
+INSERT INTO site_settings (key, value) VALUES
+  ('ai_budget', '{"daily_usd": null, "monthly_usd": null, "low_yield_ratio": 0.8}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- RLS
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Spend rows drive the budget state, so only the service role may write or read them
+CREATE POLICY "Service role manages ai_usage" ON ai_usage FOR ALL TO service_role USING (true) WITH CHECK (true);
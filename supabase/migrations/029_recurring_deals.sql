@@ -0,0 +1,30 @@
+-- 029_recurring_deals.sql
+-- Recurring weekday specials ("Munchie Monday", "Wax Wednesday", lib/recurring-deals.ts): one deals row
+-- with recurring = true and a deal_recurrences rule, expanded into the day's occurrence by listings and
+-- the daily email instead of a new deal per day. Ingestion proposes a rule (for review) when a deal is
+-- worded as a weekday special; dispensaries can submit one through /api/submit.
+
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS recurring boolean NOT NULL DEFAULT false;
+
+CREATE TABLE deal_recurrences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  deal_id uuid NOT NULL UNIQUE REFERENCES deals(id) ON DELETE CASCADE,
+  weekdays smallint NOT NULL CHECK (weekdays > 0 AND weekdays < 128), -- bit 0 = Sunday … bit 6 = Saturday
+  start_time time, -- Time window, local to the dispensary; null for all day
+  end_time time,
+  starts_on date NOT NULL DEFAULT CURRENT_DATE,
+  ends_on date, -- Last day the special runs (mirrored to deals.end_date); null for open-ended
+  exceptions date[] NOT NULL DEFAULT '{}', -- Days the special is skipped (holidays, one-off events)
+  source text NOT NULL DEFAULT 'admin' CHECK (source IN ('parser', 'submission', 'admin')),
+  last_seen_on date, -- Last day ingestion saw the special on the dispensary's flyer or site
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_deals_recurring ON deals(dispensary_name) WHERE recurring;
+
+-- RLS
+ALTER TABLE deal_recurrences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read deal_recurrences" ON deal_recurrences FOR SELECT USING (true);
+CREATE POLICY "Service role manages deal_recurrences" ON deal_recurrences FOR ALL USING (true);
@@ -0,0 +1,17 @@
+-- 030_deal_liveness.sql
+-- Source liveness re-checks (lib/deal-liveness.ts): live ingested deals are looked for again at their
+-- source or menu URL. Consecutive misses first lower a deal's confidence, then expire it with the
+-- reason recorded. Menu and source links that answer 4xx/5xx are flagged on the dispensary for admins.
+
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS liveness_checked_at timestamptz;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS liveness_misses int NOT NULL DEFAULT 0; -- Consecutive checks the deal was not found
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS expired_reason text; -- Why a deal was expired before its end_date
+
+CREATE INDEX IF NOT EXISTS idx_deals_liveness ON deals(liveness_checked_at NULLS FIRST)
+  WHERE status = 'approved' AND recurring = false;
+
+-- Last broken link found for the dispensary; cleared once its links answer again
+ALTER TABLE dispensaries ADD COLUMN IF NOT EXISTS broken_link_url text;
+ALTER TABLE dispensaries ADD COLUMN IF NOT EXISTS broken_link_status int;
+ALTER TABLE dispensaries ADD COLUMN IF NOT EXISTS broken_link_since timestamptz;
+ALTER TABLE dispensaries ADD COLUMN IF NOT EXISTS links_checked_at timestamptz;
@@ -0,0 +1,46 @@
+-- 031_inbound_email.sql
+-- Inbound email submissions (lib/inbound-email.ts): dispensaries email flyers and promo text to our
+-- inbound address. Senders are matched to a dispensary through its verified contacts; attachments and
+-- body text go through OCR and parsing into pending deal_submissions, and the sender gets a summary reply.
+
+CREATE TABLE dispensary_contacts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispensary_id uuid NOT NULL REFERENCES dispensaries(id) ON DELETE CASCADE,
+  email text NOT NULL, -- Stored lowercase
+  name text,
+  verified_at timestamptz, -- Only verified contacts can submit by email
+  verified_by text, -- Admin email
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_dispensary_contacts_email ON dispensary_contacts(dispensary_id, email);
+CREATE INDEX idx_dispensary_contacts_lookup ON dispensary_contacts(email) WHERE verified_at IS NOT NULL;
+
+-- One row per received email, also used to ignore webhook retries of the same email
+CREATE TABLE inbound_emails (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_email_id text UNIQUE, -- Resend email_id
+  from_email text NOT NULL,
+  subject text,
+  dispensary_id uuid REFERENCES dispensaries(id) ON DELETE SET NULL,
+  status text NOT NULL CHECK (status IN ('processed', 'unauthenticated', 'unknown_sender', 'no_content', 'failed')),
+  attachments int NOT NULL DEFAULT 0, -- Image and PDF attachments read
+  deals_extracted int NOT NULL DEFAULT 0,
+  reply_sent boolean NOT NULL DEFAULT false,
+  error text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_inbound_emails_created_at ON inbound_emails(created_at DESC);
+
+-- Where a submission came from: the /submit form or an inbound email
+ALTER TABLE deal_submissions ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'form' CHECK (source IN ('form', 'email'));
+ALTER TABLE deal_submissions ADD COLUMN IF NOT EXISTS inbound_email_id uuid REFERENCES inbound_emails(id) ON DELETE SET NULL;
+
+-- RLS
+ALTER TABLE dispensary_contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inbound_emails ENABLE ROW LEVEL SECURITY;
+
+-- Service role only: a contact row makes its address a trusted sender for the dispensary
+CREATE POLICY "Service role manages dispensary_contacts" ON dispensary_contacts FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY "Service role manages inbound_emails" ON inbound_emails FOR ALL TO service_role USING (true) WITH CHECK (true);
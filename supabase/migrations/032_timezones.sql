@@ -0,0 +1,5 @@
+-- 032_timezones.sql
+-- Deal dates are calendar days where the dispensary is (lib/dates), not UTC days. Most of Michigan is
+-- America/Detroit; the four Central-time Upper Peninsula counties are America/Menominee.
+
+ALTER TABLE dispensaries ADD COLUMN IF NOT EXISTS timezone text; -- IANA name; NULL means America/Detroit